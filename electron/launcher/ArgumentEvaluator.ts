@@ -0,0 +1,177 @@
+import os from 'os';
+
+/**
+ * Evaluates the Mojang version JSON argument grammar:
+ * - `rules` arrays (os name/arch/version, feature flags) on arguments and libraries
+ * - `arguments.game` / `arguments.jvm` entries (plain strings or `{ rules, value }` objects)
+ * - legacy `minecraftArguments` strings (pre-1.13 and old Forge)
+ * - `${placeholder}` substitution
+ */
+
+export interface RuleContext {
+    platform: NodeJS.Platform;
+    arch: string;
+    osVersion: string;
+    features: Record<string, boolean>;
+}
+
+export interface Rule {
+    action: 'allow' | 'disallow';
+    os?: {
+        name?: string;
+        arch?: string;
+        version?: string;
+    };
+    features?: Record<string, boolean>;
+}
+
+export type ArgumentEntry = string | { rules?: Rule[]; value: string | string[] };
+
+// Mojang's names for Node's platform/arch values
+const OS_NAMES: Partial<Record<NodeJS.Platform, string>> = {
+    win32: 'windows',
+    darwin: 'osx',
+    linux: 'linux'
+};
+
+const ARCH_NAMES: Record<string, string> = {
+    ia32: 'x86',
+    x64: 'x86_64',
+    arm64: 'arm64'
+};
+
+// JVM arguments implied for versions that only ship `minecraftArguments`
+export const LEGACY_JVM_ARGS: ArgumentEntry[] = [
+    {
+        rules: [{ action: 'allow', os: { name: 'osx' } }],
+        value: ['-XstartOnFirstThread']
+    },
+    {
+        rules: [{ action: 'allow', os: { name: 'windows' } }],
+        value: '-XX:HeapDumpPath=MojangTricksIntelDriversForPerformance_javaw.exe_minecraft.exe.heapdump'
+    },
+    {
+        rules: [{ action: 'allow', os: { name: 'windows', version: '^10\\.' } }],
+        value: ['-Dos.name=Windows 10', '-Dos.version=10.0']
+    },
+    {
+        rules: [{ action: 'allow', os: { arch: 'x86' } }],
+        value: '-Xss1M'
+    },
+    '-Djava.library.path=${natives_directory}',
+    '-Dminecraft.launcher.brand=${launcher_name}',
+    '-Dminecraft.launcher.version=${launcher_version}',
+    '-cp',
+    '${classpath}'
+];
+
+export class ArgumentEvaluator {
+    static createContext(features: Record<string, boolean> = {}, platform: NodeJS.Platform = process.platform, arch: string = process.arch): RuleContext {
+        return {
+            platform,
+            arch,
+            osVersion: os.release(),
+            features
+        };
+    }
+
+    // Mojang's OS name ("windows", "osx", "linux") for a Node platform
+    static osName(platform: NodeJS.Platform): string | undefined {
+        return OS_NAMES[platform];
+    }
+
+    /**
+     * Applies a rules array. No rules means allowed; otherwise the last matching rule wins
+     * and nothing matching means disallowed.
+     */
+    static isAllowed(rules: Rule[] | undefined, ctx: RuleContext): boolean {
+        if (!rules || rules.length === 0) return true;
+
+        let allowed = false;
+        for (const rule of rules) {
+            if (this.ruleMatches(rule, ctx)) {
+                allowed = rule.action === 'allow';
+            }
+        }
+        return allowed;
+    }
+
+    private static ruleMatches(rule: Rule, ctx: RuleContext): boolean {
+        if (rule.os) {
+            if (rule.os.name && rule.os.name !== OS_NAMES[ctx.platform]) return false;
+            if (rule.os.arch && rule.os.arch !== (ARCH_NAMES[ctx.arch] || ctx.arch)) return false;
+            if (rule.os.version) {
+                try {
+                    if (!new RegExp(rule.os.version).test(ctx.osVersion)) return false;
+                } catch {
+                    return false;
+                }
+            }
+        }
+
+        if (rule.features) {
+            for (const [feature, expected] of Object.entries(rule.features)) {
+                if ((ctx.features[feature] || false) !== expected) return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Flattens an `arguments.game`/`arguments.jvm` array, dropping entries whose rules fail,
+     * and substitutes every placeholder.
+     */
+    static evaluate(entries: ArgumentEntry[], ctx: RuleContext, vars: Record<string, string>): string[] {
+        const result: string[] = [];
+
+        for (const entry of entries) {
+            if (typeof entry === 'string') {
+                result.push(this.substitute(entry, vars));
+                continue;
+            }
+
+            if (!entry || !this.isAllowed(entry.rules, ctx)) continue;
+
+            const values = Array.isArray(entry.value) ? entry.value : [entry.value];
+            values.forEach(v => result.push(this.substitute(v, vars)));
+        }
+
+        return result;
+    }
+
+    /**
+     * Game arguments from either the modern array or the legacy `minecraftArguments` string.
+     */
+    static gameArguments(version: any, ctx: RuleContext, vars: Record<string, string>): string[] {
+        if (Array.isArray(version.arguments?.game) && version.arguments.game.length > 0) {
+            return this.evaluate(version.arguments.game, ctx, vars);
+        }
+
+        if (typeof version.minecraftArguments === 'string') {
+            return version.minecraftArguments
+                .split(' ')
+                .filter((arg: string) => arg.length > 0)
+                .map((arg: string) => this.substitute(arg, vars));
+        }
+
+        return [];
+    }
+
+    /**
+     * JVM arguments from the version, or the implied defaults for legacy versions.
+     */
+    static jvmArguments(version: any, ctx: RuleContext, vars: Record<string, string>): string[] {
+        if (Array.isArray(version.arguments?.jvm) && version.arguments.jvm.length > 0) {
+            return this.evaluate(version.arguments.jvm, ctx, vars);
+        }
+        return this.evaluate(LEGACY_JVM_ARGS, ctx, vars);
+    }
+
+    /**
+     * Replaces `${name}` tokens. Unknown placeholders are left untouched so they show up in the plan.
+     */
+    static substitute(arg: string, vars: Record<string, string>): string {
+        return arg.replace(/\$\{([^}]+)\}/g, (match, key: string) => (key in vars ? vars[key] : match));
+    }
+}
@@ -1,10 +1,6 @@
-import fs from 'fs';
 import path from 'path';
-import crypto from 'crypto';
 import { EventEmitter } from 'events';
-import axios, { AxiosRequestConfig } from 'axios';
-import { createWriteStream, createReadStream } from 'fs';
-import { pipeline } from 'stream/promises';
+import { DownloadJob, DownloadManager, DownloadResult } from '../managers/DownloadManager';
 
 export interface DownloadTask {
     url: string;
@@ -14,202 +10,89 @@ export interface DownloadTask {
     priority?: number;
 }
 
-const MAX_RETRIES = 5;
-const INITIAL_BACKOFF_MS = 1000;
-
-export class AssetDownloader extends EventEmitter {
-    private queue: DownloadTask[] = [];
-    private activeDownloads = 0;
-    private maxConcurrent = 5; // Lower concurrency for stability on bad networks
-    private totalBytes = 0;
-    private downloadedBytes = 0;
+export interface DownloadProgress {
+    current: number;
+    total: number;
+    completedFiles: number;
+    totalFiles: number;
+}
 
-    constructor() {
-        super();
-    }
+export interface FailedDownload {
+    url: string;
+    destination: string;
+    error: string;
+}
 
-    addToQueue(tasks: DownloadTask[]) {
-        this.queue.push(...tasks);
-        // Add estimated size to total (if known)
-        tasks.forEach(t => {
-            console.log(`[AssetDownloader] Adding task ${path.basename(t.destination)} size=${t.size}`);
-            this.totalBytes += (t.size || 0);
-        });
-        console.log(`[AssetDownloader] New totalBytes: ${this.totalBytes}`);
-        this.processQueue();
+/**
+ * Rejection of DownloadHandle.promise. Lists every file that failed, not just the first.
+ */
+export class DownloadBatchError extends Error {
+    constructor(public readonly failures: FailedDownload[], public readonly cancelled = false) {
+        super(cancelled ? 'Download cancelled' : DownloadBatchError.describe(failures));
+        this.name = 'DownloadBatchError';
     }
 
-    private processQueue() {
-        if (this.queue.length === 0 && this.activeDownloads === 0) {
-            this.emit('done');
-            return;
-        }
-
-        while (this.activeDownloads < this.maxConcurrent && this.queue.length > 0) {
-            const task = this.queue.shift();
-            if (task) {
-                this.downloadFile(task).catch(err => {
-                    // Global error handler if needed, though tasks handle their own errors/retries
-                    console.error("Task failed fatally:", err);
-                });
-            }
-        }
+    private static describe(failures: FailedDownload[]): string {
+        const names = failures.slice(0, 3).map(f => path.basename(f.destination)).join(', ');
+        const more = failures.length > 3 ? ` and ${failures.length - 3} more` : '';
+        return `${failures.length} file(s) failed to download: ${names}${more}`;
     }
+}
 
-    private async downloadFile(task: DownloadTask) {
-        this.activeDownloads++;
-
-        const dir = path.dirname(task.destination);
-        if (!fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
-        }
-
-        // 1. Check if complete file exists and is valid
-        if (fs.existsSync(task.destination)) {
-            if (task.sha1) {
-                const valid = await this.verifyFile(task.destination, task.sha1);
-                if (valid) {
-                    console.log(`[Downloader] Cache hit for ${path.basename(task.destination)}`);
-                    this.downloadedBytes += (task.size || 0); // Count as done
-                    this.emit('progress', { total: this.totalBytes, current: this.downloadedBytes });
-                    this.activeDownloads--;
-                    this.processQueue();
-                    return;
-                } else {
-                    console.warn(`[Downloader] Hash mismatch for existing file ${task.destination}, redownloading.`);
-                    fs.unlinkSync(task.destination); // Delete invalid file
-                }
-            } else {
-                // No hash provided, assume existing file is good? 
-                // Risk: corrupted file stays. Better to re-download if unsure or check size?
-                // For now, if no hash, we assume it's good to avoid redownloading everything.
-                // Ideally we should always provide hash.
-                this.activeDownloads--;
-                this.processQueue();
-                return;
-            }
-        }
-
-        // 2. Start Download Loop with Retries
-        let attempt = 0;
-        let downloaded = false;
-
-        while (attempt < MAX_RETRIES && !downloaded) {
-            try {
-                await this.performDownload(task);
-                downloaded = true;
-            } catch (error: any) {
-                attempt++;
-                console.error(`[Downloader] Failed ${task.url} (Attempt ${attempt}/${MAX_RETRIES}): ${error.message}`);
+/**
+ * One batch queued through AssetDownloader. Emits `progress` (DownloadProgress) for this batch only;
+ * `promise` resolves when every file is in place and rejects with a DownloadBatchError otherwise.
+ */
+export class DownloadHandle extends EventEmitter {
+    readonly promise: Promise<void>;
 
-                if (attempt >= MAX_RETRIES) {
-                    this.emit('error', new Error(`Failed to download ${path.basename(task.destination)} after ${MAX_RETRIES} attempts: ${error.message}`));
-                    this.activeDownloads--; // Ensure we decrement even on fatal error
-                    this.processQueue();
-                    return;
-                }
+    constructor(private job: DownloadJob) {
+        super();
 
-                // Exponential Backoff
-                const delay = INITIAL_BACKOFF_MS * Math.pow(2, attempt - 1);
-                await new Promise(r => setTimeout(r, delay));
-            }
-        }
+        job.on('progress', (p: { current: number; total: number }) => {
+            this.emit('progress', {
+                // Retried or size-less files can credit more bytes than were announced
+                current: p.total > 0 ? Math.min(p.current, p.total) : p.current,
+                total: p.total,
+                completedFiles: job.completedFiles,
+                totalFiles: job.entries.length
+            } as DownloadProgress);
+        });
 
-        // 3. Post-Download Validation
-        if (downloaded) {
-            if (task.sha1) {
-                const valid = await this.verifyFile(task.destination, task.sha1);
-                if (!valid) {
-                    // This is bad. We just downloaded it and it's wrong.
-                    // Could be a bad CDN, man-in-the-middle, or disk error.
-                    // We should probably fail hard here or retry the whole task?
-                    // For now, fail.
-                    console.error(`[Downloader] Hash verification failed after download for ${task.destination}`);
-                    fs.unlinkSync(task.destination);
-                    this.emit('error', new Error(`Hash mismatch after download for ${path.basename(task.destination)}`));
-                } else {
-                    this.emit('progress', { total: this.totalBytes, current: this.downloadedBytes });
-                }
+        this.promise = job.done.then((result: DownloadResult) => {
+            this.removeAllListeners('progress');
+            if (result.cancelled || result.failed.length > 0) {
+                throw new DownloadBatchError(this.failures, result.cancelled);
             }
-        }
-
-        this.activeDownloads--;
-        this.processQueue();
+        });
+        // Callers that never await the promise shouldn't trigger unhandled rejections
+        this.promise.catch(() => { });
     }
 
-    private async performDownload(task: DownloadTask): Promise<void> {
-        const partFile = `${task.destination}.part`;
-        let startByte = 0;
-
-        // Resume support
-        if (fs.existsSync(partFile)) {
-            startByte = fs.statSync(partFile).size;
-            // If local part is larger than expected size, it's corrupt. Reset.
-            if (task.size && startByte > task.size) {
-                startByte = 0;
-                fs.unlinkSync(partFile);
-            }
-        }
-
-        const config: AxiosRequestConfig = {
-            responseType: 'stream',
-            timeout: 30000, // 30s timeout
-            headers: {}
-        };
-
-        if (startByte > 0) {
-            console.log(`[Downloader] Resuming ${path.basename(task.destination)} from byte ${startByte}`);
-            config.headers = { 'Range': `bytes=${startByte}-` };
-        }
-
-        const response = await axios.get(task.url, config);
-
-        // Handle range mismatch (server might not support range, sends 200 instead of 206)
-        // If we requested partial but got full (200), we must overwrite partFile
-        if (startByte > 0 && response.status === 200) {
-            console.warn(`[Downloader] Server does not support resume for ${task.url}, restarting.`);
-            startByte = 0; // Reset
-            // Truncate part file
-            fs.writeFileSync(partFile, '');
-        }
-
-        let localDownloaded = 0;
-        let lastEmitTime = 0;
-
-        const writer = createWriteStream(partFile, { flags: startByte > 0 ? 'a' : 'w' });
-
-        response.data.on('data', (chunk: Buffer) => {
-            localDownloaded += chunk.length;
-            this.downloadedBytes += chunk.length;
-
-            const now = Date.now();
-            if (now - lastEmitTime > 100) {
-                console.log(`[Downloader] Progress: ${this.downloadedBytes}/${this.totalBytes}`);
-                this.emit('progress', { total: this.totalBytes, current: this.downloadedBytes });
-                lastEmitTime = now;
-            }
-        });
+    get id(): string {
+        return this.job.id;
+    }
 
-        await pipeline(response.data, writer);
+    get failures(): FailedDownload[] {
+        return this.job.failures.map(f => ({
+            url: f.task.url,
+            destination: f.task.destination,
+            error: f.error.message
+        }));
+    }
 
-        // Rename part to final
-        fs.renameSync(partFile, task.destination);
+    cancel() {
+        DownloadManager.getInstance().cancel(this.job.id);
     }
+}
 
-    private verifyFile(filePath: string, sha1: string): Promise<boolean> {
-        return new Promise((resolve) => {
-            const hash = crypto.createHash('sha1');
-            const stream = createReadStream(filePath);
+/**
+ * Queues batches on the shared DownloadManager; each batch shows up in the downloads panel under `label`.
+ */
+export class AssetDownloader {
+    constructor(private label: string = 'Game files') { }
 
-            stream.on('data', (data) => hash.update(data));
-            stream.on('end', () => {
-                const fileHash = hash.digest('hex');
-                if (fileHash !== sha1) {
-                    console.warn(`[Verify] Fail: Expected ${sha1}, got ${fileHash}`);
-                }
-                resolve(fileHash === sha1);
-            });
-            stream.on('error', () => resolve(false));
-        });
+    addToQueue(tasks: DownloadTask[], label: string = this.label): DownloadHandle {
+        return new DownloadHandle(DownloadManager.getInstance().enqueue(tasks, label));
     }
 }
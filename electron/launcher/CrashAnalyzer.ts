@@ -1,81 +1,214 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import { CrashRule, CrashSeverity, loadCrashRules } from './CrashRules';
+import { IndexedMod, ModIndex } from './ModIndex';
+
+export interface CrashMatch {
+    ruleId: string;
+    cause: string;
+    details: string;
+    suggestion: string;
+    severity: CrashSeverity;
+    hits: number;
+    sources: string[];
+    modFile?: string; // jar the rule's capture group pointed at
+}
+
+export interface CrashSuspect {
+    file: string;
+    modId?: string;
+    score: number;
+    evidence: string[];
+}
+
 export interface CrashAnalysis {
+    // The top-ranked match, or the fallback when nothing matched
     cause: string;
     details: string;
     suggestion: string;
     isDetected: boolean;
+    matches: CrashMatch[];
+    suspects: CrashSuspect[];
+    sources: string[];
 }
 
+interface CrashSource {
+    name: string;
+    text: string;
+}
+
+const SEVERITY_RANK: Record<CrashSeverity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+// Crash files can be huge (hs_err logs especially); the interesting part is near the top or the end
+const MAX_SOURCE_CHARS = 1024 * 1024;
+const MAX_SUSPECTS = 5;
+const MAX_EVIDENCE = 4;
+
+// How much each kind of hint counts towards blaming a mod
+const EVIDENCE_WEIGHT = { rule: 5, marker: 3, mixin: 2, jar: 1, frame: 1 };
+const MAX_FRAME_SCORE = 5;
+
+const FROM_MOD = /from mod ([\w-]+)/g;
+// Methods merged in by Mixin carry the owning mod id: handler$zza000$sodium$onRender
+const MIXIN_HANDLER = /\b(?:handler|redirect|modify\w*|wrapOperation|wrapWithCondition|localvar)\$[a-z0-9]{6}\$([\w-]+)\$/g;
+const STACK_FRAME = /^\s*at (?:[\w.@+-]*\/)*([\w$.]+)\.[\w$<>]+\(([^)]*)\)(.*)$/gm;
+const JAR_NAME = /([\w.+-]+\.jar)/g;
+
 export class CrashAnalyzer {
-    private static PATTERNS: { regex: RegExp; cause: string; suggestion: string; details?: string }[] = [
-        {
-            regex: /Mixin transformation of .* failed/,
-            cause: 'Mod Incompatibility (Mixin Failure)',
-            suggestion: 'A mod is failing to apply its changes to the game code. This usually means a mod is incompatible with this version of Minecraft or another mod. Check the stacktrace for mod names.'
-        },
-        {
-            regex: /java\.lang\.OutOfMemoryError/,
-            cause: 'Out of Memory',
-            suggestion: 'The game ran out of RAM. Go to Settings and allocate more memory (recommend 4GB+ for modded).'
-        },
-        {
-            regex: /Class file version 6[0-9]\.0/,
-            cause: 'Java Version Mismatch',
-            suggestion: 'You are using an older Java version to run mods that require a newer one. Try changing the Java Runtime in Settings to Java 17 or 21.'
-        },
-        {
-            regex: /org\.spongepowered\.asm\.mixin\.injection\.throwables\.InvalidInjectionException/,
-            cause: 'Mixin Injection Failure',
-            suggestion: 'A mod is trying to modify code that doesn\'t exist or has changed. This is common when using mods meant for a different Minecraft version.'
-        },
-        {
-            regex: /VideoCardHelper/,
-            cause: 'Graphics Driver Issue',
-            suggestion: 'Your graphics drivers may be outdated. Please search for "Intel/Nvidia/AMD Driver Update" and install the latest drivers.'
+    /**
+     * Runs every crash rule over the game's output plus any crash report or JVM error log written
+     * since `since`, ranks the matches by severity and hit count, and blames mods in `gameDir/mods`
+     * from rule captures, "from mod X" markers and stack frames.
+     */
+    public static async analyze(exitCode: number, logLines: string[], gameDir?: string, since = 0): Promise<CrashAnalysis> {
+        const sources: CrashSource[] = [{ name: 'Game output', text: logLines.join('\n') }];
+        if (gameDir) sources.push(...await this.readCrashFiles(gameDir, since));
+
+        const rules = await loadCrashRules();
+        const index = gameDir ? await ModIndex.build(path.join(gameDir, 'mods')) : null;
+        const suspects = new Map<string, CrashSuspect>();
+        const blame = (mod: IndexedMod | null, weight: number, evidence: string) => {
+            if (!mod) return;
+            const suspect = suspects.get(mod.file) ?? { file: mod.file, modId: mod.ids[0], score: 0, evidence: [] };
+            suspect.score += weight;
+            if (suspect.evidence.length < MAX_EVIDENCE && !suspect.evidence.includes(evidence)) suspect.evidence.push(evidence);
+            suspects.set(mod.file, suspect);
+        };
+
+        const matches: CrashMatch[] = [];
+        for (const rule of rules) {
+            const match = this.applyRule(rule, exitCode, sources);
+            if (!match) continue;
+
+            if (index && rule.modGroup !== undefined && match.captured) {
+                const mod = index.resolve(match.captured);
+                if (mod) {
+                    match.result.modFile = mod.file;
+                    blame(mod, EVIDENCE_WEIGHT.rule, `Named by "${rule.cause}"`);
+                }
+            }
+            matches.push(match.result);
         }
-    ];
+        matches.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || b.hits - a.hits);
 
-    public static analyze(exitCode: number, logLines: string[]): CrashAnalysis {
-        const fullLog = logLines.join('\n');
+        if (index && index.size > 0) {
+            for (const source of sources) this.collectEvidence(source, index, blame);
+        }
+        const ranked = [...suspects.values()].sort((a, b) => b.score - a.score).slice(0, MAX_SUSPECTS);
 
-        // 1. Check strict exit codes
-        if (exitCode === -1073740791) {
+        const top = matches[0];
+        if (!top) {
             return {
-                cause: 'Graphics Driver Crash (0xC0000409)',
-                details: 'Status Stack Buffer Overrun',
-                suggestion: 'Update your graphics drivers (Nvidia/Intel/AMD). If using Nvidia, try a "Clean Install".',
-                isDetected: true
+                cause: 'Unknown Crash',
+                details: ranked[0] ? `Exit Code: ${exitCode}. Likely involved mod: "${ranked[0].modId ?? ranked[0].file}"` : `Exit Code: ${exitCode}`,
+                suggestion: 'We couldn\'t automatically identify the cause. Please check the raw logs or report this to the modpack author.',
+                isDetected: false,
+                matches,
+                suspects: ranked,
+                sources: sources.map(source => source.name)
             };
         }
 
-        // 2. Scan Regex Patterns
-        for (const pattern of this.PATTERNS) {
-            if (pattern.regex.test(fullLog)) {
-
-                // Specific Logic for mod names in Mixin errors
-                let extraDet = '';
-                if (pattern.cause.includes('Mixin')) {
-                    // Try to find "from mod X"
-                    const modMatch = fullLog.match(/from mod ([a-zA-Z0-9_-]+)/);
-                    if (modMatch) {
-                        extraDet = `Likely caused by mod: "${modMatch[1]}"`;
-                    }
-                }
+        // Other suspects are listed on their own; only name one here when the rule itself pointed at it
+        const culprit = top.modFile ? ranked.find(suspect => suspect.file === top.modFile) : undefined;
+        return {
+            cause: top.cause,
+            details: top.details || (culprit ? `Likely caused by mod: "${culprit.modId ?? culprit.file}"` : 'Detected identifying error pattern in logs.'),
+            suggestion: top.suggestion,
+            isDetected: true,
+            matches,
+            suspects: ranked,
+            sources: sources.map(source => source.name)
+        };
+    }
+
+    private static applyRule(rule: CrashRule, exitCode: number, sources: CrashSource[]): { result: CrashMatch; captured?: string } | null {
+        if (rule.exitCode !== undefined && rule.exitCode !== exitCode) return null;
+
+        const result: CrashMatch = {
+            ruleId: rule.id,
+            cause: rule.cause,
+            details: rule.details ?? '',
+            suggestion: rule.suggestion,
+            severity: rule.severity,
+            hits: rule.regex ? 0 : 1,
+            sources: []
+        };
+        if (!rule.regex) return { result };
+
+        const flags = (rule.flags ?? '').replace(/g/g, '');
+        const regex = new RegExp(rule.regex, `${flags}g`);
+        let first: RegExpExecArray | null = null;
+        for (const source of sources) {
+            const found = [...source.text.matchAll(regex)];
+            if (found.length === 0) continue;
+            first ??= found[0];
+            result.hits += found.length;
+            result.sources.push(source.name);
+        }
+        if (!first) return null;
+
+        const groups = first;
+        result.details = result.details.replace(/\{(\d+)\}/g, (_, n) => groups[Number(n)] ?? '');
+        return { result, captured: rule.modGroup !== undefined ? groups[rule.modGroup] : undefined };
+    }
+
+    private static collectEvidence(source: CrashSource, index: ModIndex, blame: (mod: IndexedMod | null, weight: number, evidence: string) => void) {
+        for (const [, id] of source.text.matchAll(FROM_MOD)) {
+            blame(index.findById(id), EVIDENCE_WEIGHT.marker, `"from mod ${id}" in ${source.name}`);
+        }
+        for (const [, id] of source.text.matchAll(MIXIN_HANDLER)) {
+            blame(index.findById(id), EVIDENCE_WEIGHT.mixin, `Mixin handler from ${id} in the stack trace`);
+        }
+
+        const frameScore = new Map<IndexedMod, number>();
+        for (const [, className, , rest] of source.text.matchAll(STACK_FRAME)) {
+            // A deep stack inside one mod shouldn't outweigh a direct mention of another
+            const blameFrame = (mod: IndexedMod | null, weight: number, evidence: string) => {
+                if (!mod || (frameScore.get(mod) ?? 0) >= MAX_FRAME_SCORE) return;
+                frameScore.set(mod, (frameScore.get(mod) ?? 0) + weight);
+                blame(mod, weight, evidence);
+            };
 
-                return {
-                    cause: pattern.cause,
-                    details: extraDet || pattern.details || 'Detected identifying error pattern in logs.',
-                    suggestion: pattern.suggestion,
-                    isDetected: true
-                };
+            blameFrame(index.findByClass(className), EVIDENCE_WEIGHT.frame, `Stack trace passes through ${className.slice(0, className.lastIndexOf('.'))}`);
+            // Forge prints the jar each frame came from: ~[sodium-0.5.8.jar%23123!/:?]
+            for (const [, jar] of rest.matchAll(JAR_NAME)) {
+                blameFrame(index.findByFile(jar), EVIDENCE_WEIGHT.jar, `Stack trace passes through ${jar}`);
             }
         }
+    }
 
-        // 3. Fallback
-        return {
-            cause: 'Unknown Crash',
-            details: `Exit Code: ${exitCode}`,
-            suggestion: 'We couldn\'t automatically identify the cause. Please check the raw logs or report this to the modpack author.',
-            isDetected: false
+    /**
+     * Crash reports and hs_err_pid logs the game wrote during this session, newest first.
+     */
+    private static async readCrashFiles(gameDir: string, since: number): Promise<CrashSource[]> {
+        const candidates: { file: string; name: string; modified: number }[] = [];
+        const collect = async (dir: string, accept: (name: string) => boolean, label: (name: string) => string) => {
+            if (!existsSync(dir)) return;
+            for (const name of await fs.readdir(dir)) {
+                if (!accept(name)) continue;
+                const file = path.join(dir, name);
+                const stat = await fs.stat(file).catch(() => null);
+                if (stat?.isFile() && stat.mtimeMs >= since) candidates.push({ file, name: label(name), modified: stat.mtimeMs });
+            }
         };
+
+        await collect(path.join(gameDir, 'crash-reports'), name => name.endsWith('.txt'), name => `crash-reports/${name}`);
+        await collect(gameDir, name => /^hs_err_pid\d+\.log$/.test(name), name => name);
+
+        const sources: CrashSource[] = [];
+        for (const candidate of candidates.sort((a, b) => b.modified - a.modified)) {
+            try {
+                const text = await fs.readFile(candidate.file, 'utf-8');
+                sources.push({
+                    name: candidate.name,
+                    text: text.length > MAX_SOURCE_CHARS ? `${text.slice(0, MAX_SOURCE_CHARS / 2)}\n${text.slice(-MAX_SOURCE_CHARS / 2)}` : text
+                });
+            } catch (e) {
+                console.warn(`[CrashAnalyzer] Could not read ${candidate.file}:`, e);
+            }
+        }
+        return sources;
     }
 }
@@ -0,0 +1,176 @@
+import { app } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+
+export type CrashSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+/**
+ * One entry of a rule file. Rule files are JSON, either an array of rules or `{ "rules": [...] }`.
+ * A rule matches on `regex` (tested against stdout, crash reports and JVM error logs),
+ * on `exitCode`, or on both.
+ */
+export interface CrashRule {
+    id: string;
+    regex?: string;
+    flags?: string; // extra RegExp flags, e.g. "i"
+    exitCode?: number;
+    cause: string;
+    suggestion: string;
+    severity: CrashSeverity;
+    // Shown under the cause; {1}, {2}... are replaced with the regex's capture groups
+    details?: string;
+    // Capture group naming the culprit: a mod id, a class or package name, or a jar file name
+    modGroup?: number;
+}
+
+const SEVERITIES = new Set<CrashSeverity>(['critical', 'high', 'medium', 'low']);
+
+export const BUILTIN_CRASH_RULES: CrashRule[] = [
+    {
+        id: 'graphics-driver-exit',
+        exitCode: -1073740791,
+        cause: 'Graphics Driver Crash (0xC0000409)',
+        details: 'Status Stack Buffer Overrun',
+        suggestion: 'Update your graphics drivers (Nvidia/Intel/AMD). If using Nvidia, try a "Clean Install".',
+        severity: 'critical'
+    },
+    {
+        id: 'out-of-memory',
+        regex: 'java\\.lang\\.OutOfMemoryError(?:: (.+))?',
+        cause: 'Out of Memory',
+        suggestion: 'The game ran out of RAM. Go to Settings and allocate more memory (recommend 4GB+ for modded).',
+        severity: 'critical'
+    },
+    {
+        id: 'java-version',
+        regex: 'Class file version 6[0-9]\\.0|has been compiled by a more recent version of the Java Runtime',
+        cause: 'Java Version Mismatch',
+        suggestion: 'You are using an older Java version to run mods that require a newer one. Try changing the Java Runtime in Settings to Java 17 or 21.',
+        severity: 'critical'
+    },
+    {
+        id: 'missing-dependency',
+        regex: "Mod '([^'\\n]+)' \\(([\\w-]+)\\) \\S+ requires .*? of ([\\w-]+), which is missing",
+        cause: 'Missing Mod Dependency',
+        details: '"{1}" needs "{3}", which is not installed.',
+        suggestion: 'Install the missing mod (in a version that matches this instance), or disable the mod that needs it.',
+        severity: 'high',
+        modGroup: 2
+    },
+    {
+        id: 'mixin-transformation',
+        regex: 'Mixin transformation of .* failed',
+        cause: 'Mod Incompatibility (Mixin Failure)',
+        suggestion: 'A mod is failing to apply its changes to the game code. This usually means a mod is incompatible with this version of Minecraft or another mod. Check the stacktrace for mod names.',
+        severity: 'high'
+    },
+    {
+        id: 'mixin-apply',
+        regex: 'Mixin \\[[^\\]]+\\] from mod ([\\w-]+) failed',
+        cause: 'Mod Incompatibility (Mixin Failure)',
+        details: 'A mixin from "{1}" could not be applied.',
+        suggestion: 'This mod is likely built for a different Minecraft version or conflicts with another mod. Update or disable it.',
+        severity: 'high',
+        modGroup: 1
+    },
+    {
+        id: 'mixin-injection',
+        regex: 'org\\.spongepowered\\.asm\\.mixin\\.injection\\.throwables\\.InvalidInjectionException',
+        cause: 'Mixin Injection Failure',
+        suggestion: 'A mod is trying to modify code that doesn\'t exist or has changed. This is common when using mods meant for a different Minecraft version.',
+        severity: 'high'
+    },
+    {
+        id: 'duplicate-mod',
+        regex: 'Duplicate mods? (?:found|for mod ID) \'?([\\w-]+)\'?',
+        cause: 'Duplicate Mod',
+        details: '"{1}" is installed more than once.',
+        suggestion: 'Keep only one version of this mod in the mods folder.',
+        severity: 'high',
+        modGroup: 1
+    },
+    {
+        id: 'jvm-fatal',
+        regex: 'A fatal error has been detected by the Java Runtime Environment',
+        cause: 'Java Runtime Crash',
+        suggestion: 'The Java runtime itself crashed, usually in native code such as graphics drivers. Update your graphics drivers or try a different Java runtime.',
+        severity: 'medium'
+    },
+    {
+        id: 'graphics-driver',
+        regex: 'VideoCardHelper|EXCEPTION_ACCESS_VIOLATION[\\s\\S]*?(?:atio6axx|nvoglv|ig\\d+icd)',
+        cause: 'Graphics Driver Issue',
+        suggestion: 'Your graphics drivers may be outdated. Please search for "Intel/Nvidia/AMD Driver Update" and install the latest drivers.',
+        severity: 'medium'
+    },
+    {
+        id: 'mod-exception',
+        regex: 'Caught exception from ([\\w-]+) \\(',
+        cause: 'Mod Error',
+        details: '"{1}" threw an exception while loading.',
+        suggestion: 'Update the mod, check that its dependencies are installed, or disable it.',
+        severity: 'medium',
+        modGroup: 1
+    }
+];
+
+/**
+ * Built-in rules plus every *.json rule file in userData/crash-rules. A user rule with the id
+ * of a built-in one replaces it; invalid rules are skipped with a warning.
+ */
+export async function loadCrashRules(): Promise<CrashRule[]> {
+    const rules = new Map(BUILTIN_CRASH_RULES.map(rule => [rule.id, rule]));
+
+    const dir = getCrashRulesDir();
+    if (existsSync(dir)) {
+        for (const name of (await fs.readdir(dir)).filter(name => name.endsWith('.json')).sort()) {
+            try {
+                const data = JSON.parse(await fs.readFile(path.join(dir, name), 'utf-8'));
+                const list: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.rules) ? data.rules : [];
+                for (const [index, raw] of list.entries()) {
+                    const rule = validateRule(raw);
+                    if (rule) {
+                        rules.set(rule.id, rule);
+                    } else {
+                        console.warn(`[CrashRules] Skipping invalid rule #${index} in ${name}`);
+                    }
+                }
+            } catch (e) {
+                console.warn(`[CrashRules] Could not load ${name}:`, e);
+            }
+        }
+    }
+
+    return [...rules.values()];
+}
+
+export function getCrashRulesDir(): string {
+    return path.join(app.getPath('userData'), 'crash-rules');
+}
+
+function validateRule(raw: any): CrashRule | null {
+    if (!raw || typeof raw !== 'object') return null;
+    if (typeof raw.id !== 'string' || typeof raw.cause !== 'string' || typeof raw.suggestion !== 'string') return null;
+    if (raw.regex === undefined && raw.exitCode === undefined) return null;
+    if (raw.regex !== undefined) {
+        if (typeof raw.regex !== 'string') return null;
+        try {
+            new RegExp(raw.regex, raw.flags);
+        } catch {
+            return null;
+        }
+    }
+
+    return {
+        id: raw.id,
+        regex: raw.regex,
+        flags: typeof raw.flags === 'string' ? raw.flags : undefined,
+        exitCode: typeof raw.exitCode === 'number' ? raw.exitCode : undefined,
+        cause: raw.cause,
+        suggestion: raw.suggestion,
+        severity: SEVERITIES.has(raw.severity) ? raw.severity : 'medium',
+        details: typeof raw.details === 'string' ? raw.details : undefined,
+        modGroup: Number.isInteger(raw.modGroup) ? raw.modGroup : undefined
+    };
+}
@@ -0,0 +1,327 @@
+import { app } from 'electron';
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { spawn } from 'child_process';
+import AdmZip from 'adm-zip';
+import { AssetDownloader, DownloadProgress, DownloadTask } from './AssetDownloader';
+import { ConfirmCallback, JavaManager } from './JavaManager';
+import { VersionManager } from './VersionManager';
+import { LaunchPlanner } from './LaunchPlanner';
+import { ConfigManager } from '../managers/ConfigManager';
+
+export type ForgeLoader = 'forge' | 'neoforge';
+
+type ProgressCallback = (status: string, progress: number, total: number) => void;
+
+interface InstallProcessor {
+    jar: string;
+    classpath: string[];
+    args: string[];
+    outputs?: Record<string, string>;
+    sides?: string[];
+}
+
+const FORGE_MAVEN = 'https://maven.minecraftforge.net/net/minecraftforge/forge';
+const NEOFORGE_MAVEN = 'https://maven.neoforged.net/releases/net/neoforged/neoforge';
+
+/**
+ * Headless Forge/NeoForge installer.
+ *
+ * Mirrors what the official installer does for the client side: downloads the installer jar,
+ * reads install_profile.json, fetches its libraries, runs the processors (binpatching,
+ * mappings) with managed Java and writes the version JSON into versions/.
+ */
+export class ForgeInstaller {
+    private static javaManager: JavaManager | null = null;
+
+    /**
+     * Installs the loader and returns the version id to launch (e.g. 1.20.1-forge-47.2.0).
+     * Does nothing but return the id when the version is already installed. Installers that run
+     * processors need Java; a missing runtime is only downloaded once `onConfirm` agrees.
+     */
+    static async install(loader: ForgeLoader, mcVersion: string, loaderVersion: string, onProgress: ProgressCallback, onConfirm?: ConfirmCallback): Promise<string> {
+        const gamePath = ConfigManager.getGamePath();
+        const versionsDir = path.join(gamePath, 'versions');
+        const librariesDir = path.join(gamePath, 'libraries');
+
+        const knownId = this.getVersionId(loader, mcVersion, loaderVersion);
+        if (fs.existsSync(path.join(versionsDir, knownId, `${knownId}.json`))) {
+            console.log(`[ForgeInstaller] ${knownId} already installed`);
+            return knownId;
+        }
+
+        const workDir = path.join(app.getPath('temp'), `whoap-${loader}-${Date.now()}`);
+        fs.mkdirSync(workDir, { recursive: true });
+
+        try {
+            // 1. Installer jar
+            onProgress(`Downloading ${loader} installer...`, 0, 100);
+            const installerPath = path.join(workDir, 'installer.jar');
+            await this.download([{ url: this.getInstallerUrl(loader, mcVersion, loaderVersion), destination: installerPath }]);
+
+            const installer = new AdmZip(installerPath);
+            const profileEntry = installer.getEntry('install_profile.json');
+            if (!profileEntry) throw new Error('Invalid installer: install_profile.json not found');
+            const profile = JSON.parse(profileEntry.getData().toString('utf8'));
+
+            // Legacy installers (1.12.2 and older) embed the version JSON and a single universal jar
+            if (profile.versionInfo) {
+                return await this.installLegacy(profile, installer, versionsDir, librariesDir, onProgress);
+            }
+
+            const versionEntry = installer.getEntry(profile.json?.replace(/^\//, '') || 'version.json');
+            if (!versionEntry) throw new Error('Invalid installer: version JSON not found');
+            const versionJson = JSON.parse(versionEntry.getData().toString('utf8'));
+            const versionId: string = versionJson.id;
+
+            // 2. Vanilla client, needed as processor input
+            onProgress(`Preparing Minecraft ${mcVersion}...`, 10, 100);
+            const vanilla = await VersionManager.getVersionDetails(mcVersion);
+            if (!vanilla) throw new Error(`Minecraft ${mcVersion} not found`);
+
+            const vanillaJar = path.join(versionsDir, mcVersion, `${mcVersion}.jar`);
+            const vanillaJson = path.join(versionsDir, mcVersion, `${mcVersion}.json`);
+            fs.mkdirSync(path.dirname(vanillaJar), { recursive: true });
+            if (!fs.existsSync(vanillaJson)) fs.writeFileSync(vanillaJson, JSON.stringify(vanilla, null, 4));
+
+            const client = vanilla.downloads?.client;
+            if (client?.url) {
+                await this.download([{ url: client.url, destination: vanillaJar, sha1: client.sha1, size: client.size }]);
+            }
+
+            // 3. Libraries for both the processors and the game
+            onProgress('Downloading loader libraries...', 20, 100);
+            const libraries = [...(profile.libraries || []), ...(versionJson.libraries || [])];
+            await this.fetchLibraries(libraries, installer, librariesDir, (fraction) => {
+                onProgress(`Downloading loader libraries... ${Math.floor(fraction * 100)}%`, 20 + Math.floor(fraction * 30), 100);
+            });
+
+            // 4. Processors
+            const data = this.resolveData(profile.data || {}, installer, workDir, librariesDir);
+            Object.assign(data, {
+                SIDE: 'client',
+                MINECRAFT_JAR: vanillaJar,
+                MINECRAFT_VERSION: mcVersion,
+                ROOT: gamePath,
+                INSTALLER: installerPath,
+                LIBRARY_DIR: librariesDir
+            });
+
+            const processors: InstallProcessor[] = (profile.processors || [])
+                .filter((p: InstallProcessor) => !p.sides || p.sides.includes('client'));
+
+            if (processors.length > 0) {
+                const javaPath = await this.getJava(vanilla, mcVersion, onProgress, onConfirm);
+
+                for (let i = 0; i < processors.length; i++) {
+                    onProgress(`Running installer processors (${i + 1}/${processors.length})...`, 50 + Math.floor((i / processors.length) * 45), 100);
+                    await this.runProcessor(processors[i], data, librariesDir, javaPath);
+                }
+            }
+
+            // 5. Version JSON
+            const versionDir = path.join(versionsDir, versionId);
+            fs.mkdirSync(versionDir, { recursive: true });
+            fs.writeFileSync(path.join(versionDir, `${versionId}.json`), JSON.stringify(versionJson, null, 4));
+
+            onProgress(`${loader === 'forge' ? 'Forge' : 'NeoForge'} installed`, 100, 100);
+            console.log(`[ForgeInstaller] Installed ${versionId}`);
+            return versionId;
+        } finally {
+            fs.rmSync(workDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Version id the installer produces, used to skip reinstalls.
+     */
+    static getVersionId(loader: ForgeLoader, mcVersion: string, loaderVersion: string): string {
+        if (loader === 'neoforge') return `neoforge-${loaderVersion}`;
+        return `${mcVersion}-forge-${this.stripGameVersion(mcVersion, loaderVersion)}`;
+    }
+
+    static getInstallerUrl(loader: ForgeLoader, mcVersion: string, loaderVersion: string): string {
+        if (loader === 'neoforge') {
+            return `${NEOFORGE_MAVEN}/${loaderVersion}/neoforge-${loaderVersion}-installer.jar`;
+        }
+        const full = `${mcVersion}-${this.stripGameVersion(mcVersion, loaderVersion)}`;
+        return `${FORGE_MAVEN}/${full}/forge-${full}-installer.jar`;
+    }
+
+    // Forge version lists mix "47.2.0" and "1.20.1-47.2.0"
+    private static stripGameVersion(mcVersion: string, loaderVersion: string): string {
+        return loaderVersion.startsWith(`${mcVersion}-`) ? loaderVersion.slice(mcVersion.length + 1) : loaderVersion;
+    }
+
+    /**
+     * Converts a maven coordinate (group:artifact:version[:classifier][@ext]) into a relative path.
+     */
+    static mavenPath(coordinate: string): string {
+        const [name, ext = 'jar'] = coordinate.split('@');
+        const [group, artifact, version, classifier] = name.split(':');
+        const file = `${artifact}-${version}${classifier ? `-${classifier}` : ''}.${ext}`;
+        return [...group.split('.'), artifact, version, file].join('/');
+    }
+
+    private static async installLegacy(profile: any, installer: AdmZip, versionsDir: string, librariesDir: string, onProgress: ProgressCallback): Promise<string> {
+        const versionJson = profile.versionInfo;
+        const versionId: string = versionJson.id;
+
+        // The universal jar ships inside the installer
+        const universal = profile.install?.filePath ? installer.getEntry(profile.install.filePath) : null;
+        if (universal && profile.install?.path) {
+            const target = path.join(librariesDir, ...this.mavenPath(profile.install.path).split('/'));
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            fs.writeFileSync(target, universal.getData());
+        }
+
+        onProgress('Downloading loader libraries...', 50, 100);
+        const libraries = (versionJson.libraries || []).filter((lib: any) => lib.name !== profile.install?.path);
+        await this.fetchLibraries(libraries, installer, librariesDir);
+
+        const versionDir = path.join(versionsDir, versionId);
+        fs.mkdirSync(versionDir, { recursive: true });
+        fs.writeFileSync(path.join(versionDir, `${versionId}.json`), JSON.stringify(versionJson, null, 4));
+
+        onProgress('Forge installed', 100, 100);
+        return versionId;
+    }
+
+    /**
+     * Downloads every library with a URL; libraries without one are taken from the installer's
+     * bundled maven/ folder, or are produced later by the processors.
+     */
+    private static async fetchLibraries(libraries: any[], installer: AdmZip, librariesDir: string, onProgress?: (fraction: number) => void) {
+        const tasks: DownloadTask[] = [];
+
+        for (const lib of libraries) {
+            if (!lib.name) continue;
+
+            const artifact = lib.downloads?.artifact;
+            const relative = artifact?.path || this.mavenPath(lib.name);
+            const destination = path.join(librariesDir, ...relative.split('/'));
+
+            const url = artifact
+                ? artifact.url
+                : `${(lib.url || 'https://libraries.minecraft.net/').replace(/\/?$/, '/')}${relative}`;
+
+            if (url) {
+                if (!fs.existsSync(destination)) {
+                    tasks.push({ url, destination, sha1: artifact?.sha1, size: artifact?.size });
+                }
+                continue;
+            }
+
+            const bundled = installer.getEntry(`maven/${relative}`);
+            if (bundled) {
+                fs.mkdirSync(path.dirname(destination), { recursive: true });
+                fs.writeFileSync(destination, bundled.getData());
+            }
+        }
+
+        await this.download(tasks, onProgress);
+    }
+
+    /**
+     * Resolves install_profile `data` entries for the client side:
+     * [artifact] -> library path, 'literal' -> literal, /path -> file extracted from the installer.
+     */
+    private static resolveData(data: Record<string, { client: string }>, installer: AdmZip, workDir: string, librariesDir: string): Record<string, string> {
+        const resolved: Record<string, string> = {};
+
+        for (const [key, entry] of Object.entries(data)) {
+            const value = entry.client;
+            if (!value) continue;
+
+            if (value.startsWith('[') && value.endsWith(']')) {
+                resolved[key] = path.join(librariesDir, ...this.mavenPath(value.slice(1, -1)).split('/'));
+            } else if (value.startsWith("'") && value.endsWith("'")) {
+                resolved[key] = value.slice(1, -1);
+            } else if (value.startsWith('/')) {
+                const zipEntry = installer.getEntry(value.slice(1));
+                if (!zipEntry) throw new Error(`Invalid installer: ${value} not found`);
+                const target = path.join(workDir, ...value.slice(1).split('/'));
+                fs.mkdirSync(path.dirname(target), { recursive: true });
+                fs.writeFileSync(target, zipEntry.getData());
+                resolved[key] = target;
+            } else {
+                resolved[key] = value;
+            }
+        }
+
+        return resolved;
+    }
+
+    private static substitute(arg: string, data: Record<string, string>, librariesDir: string): string {
+        if (arg.startsWith('[') && arg.endsWith(']')) {
+            return path.join(librariesDir, ...this.mavenPath(arg.slice(1, -1)).split('/'));
+        }
+        return arg.replace(/\{([A-Z_]+)\}/g, (match, key: string) => (key in data ? data[key] : match));
+    }
+
+    private static async runProcessor(processor: InstallProcessor, data: Record<string, string>, librariesDir: string, javaPath: string) {
+        const libPath = (coordinate: string) => path.join(librariesDir, ...this.mavenPath(coordinate).split('/'));
+        const outputs = Object.entries(processor.outputs || {}).map(([file, sha1]) => ({
+            file: this.substitute(file, data, librariesDir),
+            sha1: this.substitute(sha1, data, librariesDir).replace(/^'|'$/g, '')
+        }));
+
+        // Skip processors whose outputs are already present and valid
+        if (outputs.length > 0 && outputs.every(o => fs.existsSync(o.file) && this.sha1(o.file) === o.sha1)) {
+            return;
+        }
+
+        const jarPath = libPath(processor.jar);
+        const manifest = new AdmZip(jarPath).readAsText('META-INF/MANIFEST.MF');
+        const mainClass = manifest.match(/^Main-Class:\s*(.+)$/m)?.[1]?.trim();
+        if (!mainClass) throw new Error(`Processor ${processor.jar} has no Main-Class`);
+
+        const classpath = [jarPath, ...processor.classpath.map(libPath)].join(path.delimiter);
+        const args = processor.args.map(arg => this.substitute(arg, data, librariesDir));
+
+        console.log(`[ForgeInstaller] Running ${processor.jar}`);
+
+        await new Promise<void>((resolve, reject) => {
+            const proc = spawn(javaPath, ['-cp', classpath, mainClass, ...args], { stdio: 'pipe' });
+            let output = '';
+            proc.stdout.on('data', d => output += d.toString());
+            proc.stderr.on('data', d => output += d.toString());
+            proc.on('error', reject);
+            proc.on('close', code => {
+                if (code === 0) return resolve();
+                console.error(`[ForgeInstaller] Processor output:\n${output}`);
+                reject(new Error(`Processor ${processor.jar} exited with code ${code}`));
+            });
+        });
+
+        for (const o of outputs) {
+            if (!fs.existsSync(o.file) || this.sha1(o.file) !== o.sha1) {
+                throw new Error(`Processor ${processor.jar} produced an invalid ${path.basename(o.file)}`);
+            }
+        }
+    }
+
+    private static async getJava(vanilla: any, mcVersion: string, onProgress: ProgressCallback, onConfirm?: ConfirmCallback): Promise<string> {
+        const major = LaunchPlanner.resolveJavaVersion(vanilla, mcVersion);
+        const configured = ConfigManager.getJavaPath(major);
+        if (configured && configured !== 'auto') return configured;
+
+        if (!this.javaManager) this.javaManager = new JavaManager();
+        return await this.javaManager.ensureJava(major, (status, progress) => onProgress(status, progress, 100), onConfirm, vanilla.javaVersion?.component);
+    }
+
+    private static download(tasks: DownloadTask[], onProgress?: (fraction: number) => void): Promise<void> {
+        if (tasks.length === 0) return Promise.resolve();
+
+        const download = new AssetDownloader('Mod loader install').addToQueue(tasks);
+        if (onProgress) {
+            download.on('progress', (p: DownloadProgress) => onProgress(p.total > 0 ? p.current / p.total : 0));
+        }
+        return download.promise;
+    }
+
+    private static sha1(file: string): string {
+        return crypto.createHash('sha1').update(fs.readFileSync(file)).digest('hex');
+    }
+}
@@ -0,0 +1,149 @@
+import { BrowserWindow, ipcMain } from 'electron';
+import { ChildProcess, spawn } from 'child_process';
+
+const MAX_LOG_LINES = 500;
+
+export interface RunningGame {
+    instanceId: string;
+    versionId: string;
+    pid: number;
+    startTime: number;
+}
+
+interface GameEntry extends RunningGame {
+    process: ChildProcess;
+    logBuffer: string[];
+    killed: boolean;
+}
+
+/**
+ * Every game process the launcher has spawned and not yet seen exit, keyed by instance id.
+ * Listeners get the full list on `game:running-changed` whenever it changes.
+ */
+export class GameProcessRegistry {
+    private static instance: GameProcessRegistry;
+    private games = new Map<string, GameEntry>();
+
+    private constructor() {
+        this.registerListeners();
+    }
+
+    public static getInstance(): GameProcessRegistry {
+        if (!GameProcessRegistry.instance) {
+            GameProcessRegistry.instance = new GameProcessRegistry();
+        }
+        return GameProcessRegistry.instance;
+    }
+
+    private registerListeners() {
+        ipcMain.handle('game:list-running', () => this.list());
+
+        ipcMain.handle('game:kill', async (_, instanceId: string) => {
+            try {
+                return await this.kill(instanceId);
+            } catch (error: any) {
+                console.error("Failed to stop game:", error);
+                return { success: false, error: error.message || String(error) };
+            }
+        });
+
+        ipcMain.handle('game:focus', async (_, instanceId: string) => {
+            try {
+                return await this.focus(instanceId);
+            } catch (error: any) {
+                console.error("Failed to focus game:", error);
+                return { success: false, error: error.message || String(error) };
+            }
+        });
+    }
+
+    list(): RunningGame[] {
+        return [...this.games.values()].map(({ instanceId, versionId, pid, startTime }) => ({ instanceId, versionId, pid, startTime }));
+    }
+
+    isRunning(instanceId: string): boolean {
+        return this.games.has(instanceId);
+    }
+
+    register(instanceId: string, versionId: string, process: ChildProcess) {
+        this.games.set(instanceId, {
+            instanceId,
+            versionId,
+            pid: process.pid ?? -1,
+            startTime: Date.now(),
+            process,
+            logBuffer: [],
+            killed: false
+        });
+        this.broadcast();
+    }
+
+    appendLog(instanceId: string, data: string) {
+        const game = this.games.get(instanceId);
+        if (!game) return;
+
+        game.logBuffer.push(...data.split('\n'));
+        if (game.logBuffer.length > MAX_LOG_LINES) {
+            game.logBuffer.splice(0, game.logBuffer.length - MAX_LOG_LINES);
+        }
+    }
+
+    /**
+     * Drops a game that has exited and returns what was tracked for it, or null if it was already gone.
+     */
+    unregister(instanceId: string): { logBuffer: string[]; killed: boolean; startTime: number } | null {
+        const game = this.games.get(instanceId);
+        if (!game) return null;
+
+        this.games.delete(instanceId);
+        this.broadcast();
+        return { logBuffer: game.logBuffer, killed: game.killed, startTime: game.startTime };
+    }
+
+    async kill(instanceId: string) {
+        const game = this.games.get(instanceId);
+        if (!game) return { success: false, error: 'Game is not running' };
+
+        game.killed = true;
+        if (process.platform === 'win32' && game.pid > 0) {
+            // Wrapper commands start the JVM as a child; take the whole tree down
+            await this.run('taskkill', ['/pid', String(game.pid), '/T', '/F']);
+        } else {
+            game.process.kill('SIGTERM');
+        }
+        return { success: true };
+    }
+
+    /**
+     * Best-effort: raises the game's window using what the platform ships with.
+     */
+    async focus(instanceId: string) {
+        const game = this.games.get(instanceId);
+        if (!game || game.pid <= 0) return { success: false, error: 'Game is not running' };
+
+        let code: number;
+        if (process.platform === 'win32') {
+            code = await this.run('powershell', ['-NoProfile', '-Command', `(New-Object -ComObject WScript.Shell).AppActivate(${game.pid})`]);
+        } else if (process.platform === 'darwin') {
+            code = await this.run('osascript', ['-e', `tell application "System Events" to set frontmost of (first process whose unix id is ${game.pid}) to true`]);
+        } else {
+            code = await this.run('xdotool', ['search', '--pid', String(game.pid), 'windowactivate']);
+        }
+        return code === 0 ? { success: true } : { success: false, error: 'Could not bring the game window to the front' };
+    }
+
+    private run(command: string, args: string[]): Promise<number> {
+        return new Promise(resolve => {
+            const child = spawn(command, args, { windowsHide: true, stdio: 'ignore' });
+            child.on('error', () => resolve(-1));
+            child.on('close', (code) => resolve(code ?? -1));
+        });
+    }
+
+    private broadcast() {
+        const running = this.list();
+        for (const window of BrowserWindow.getAllWindows()) {
+            if (!window.isDestroyed()) window.webContents.send('game:running-changed', running);
+        }
+    }
+}
@@ -0,0 +1,163 @@
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import AdmZip from 'adm-zip';
+import { DownloadTask } from './AssetDownloader';
+import { ArgumentEvaluator } from './ArgumentEvaluator';
+import { LaunchPlan, LaunchPlanner } from './LaunchPlanner';
+
+/**
+ * Full verification of the files a LaunchPlan depends on. Unlike planning (which trusts
+ * anything already on disk), every file is hashed against the version JSON / asset index.
+ */
+
+export type IntegrityKind = 'client' | 'assetIndex' | 'library' | 'native' | 'asset';
+
+export interface IntegrityIssue {
+    kind: IntegrityKind;
+    path: string;
+    reason: 'missing' | 'corrupt';
+    // How to fetch a good copy; absent when the file has no known source
+    download?: DownloadTask;
+}
+
+type CheckProgress = (checked: number, total: number) => void;
+
+export class IntegrityChecker {
+    /**
+     * Checks one file against its expected sha1/size. Jars without a checksum
+     * are at least required to open as a zip.
+     */
+    static async checkFile(filePath: string, expected: { sha1?: string; size?: number }): Promise<'ok' | 'missing' | 'corrupt'> {
+        if (!fs.existsSync(filePath)) return 'missing';
+
+        if (expected.size && fs.statSync(filePath).size !== expected.size) return 'corrupt';
+
+        if (expected.sha1) {
+            return (await this.sha1(filePath)) === expected.sha1 ? 'ok' : 'corrupt';
+        }
+
+        if (filePath.endsWith('.jar')) {
+            try {
+                new AdmZip(filePath).getEntries();
+            } catch {
+                return 'corrupt';
+            }
+        }
+
+        return 'ok';
+    }
+
+    static sha1(filePath: string): Promise<string | null> {
+        return new Promise((resolve) => {
+            const hash = crypto.createHash('sha1');
+            const stream = fs.createReadStream(filePath);
+            stream.on('data', (data) => hash.update(data));
+            stream.on('end', () => resolve(hash.digest('hex')));
+            stream.on('error', () => resolve(null));
+        });
+    }
+
+    static async verifyClient(plan: LaunchPlan): Promise<IntegrityIssue[]> {
+        const client = plan.version.downloads?.client;
+        const status = await this.checkFile(plan.clientJarPath, { sha1: client?.sha1, size: client?.size });
+        if (status === 'ok') return [];
+
+        return [{
+            kind: 'client',
+            path: plan.clientJarPath,
+            reason: status,
+            download: client?.url ? { url: client.url, destination: plan.clientJarPath, sha1: client.sha1, size: client.size, priority: 10 } : undefined
+        }];
+    }
+
+    static async verifyAssetIndex(plan: LaunchPlan): Promise<IntegrityIssue[]> {
+        const index = plan.version.assetIndex;
+        if (!index?.url) return [];
+
+        const status = await this.checkFile(plan.assetIndex.path, { sha1: index.sha1, size: index.size });
+        if (status === 'ok') return [];
+
+        return [{
+            kind: 'assetIndex',
+            path: plan.assetIndex.path,
+            reason: status,
+            download: { url: index.url, destination: plan.assetIndex.path, sha1: index.sha1, size: index.size, priority: 15 }
+        }];
+    }
+
+    /**
+     * Libraries and legacy natives jars allowed on this OS.
+     */
+    static async verifyLibraries(plan: LaunchPlan, onProgress?: CheckProgress): Promise<IntegrityIssue[]> {
+        const ruleContext = ArgumentEvaluator.createContext();
+        const targets: { kind: IntegrityKind; artifact: DownloadTask }[] = [];
+
+        for (const lib of plan.version.libraries || []) {
+            if (!ArgumentEvaluator.isAllowed(lib.rules, ruleContext)) continue;
+
+            const artifact = LaunchPlanner.resolveLibraryArtifact(lib, plan.librariesDir);
+            if (artifact) targets.push({ kind: 'library', artifact });
+
+            const native = LaunchPlanner.resolveNativeArtifact(lib, plan.librariesDir, ruleContext);
+            if (native) targets.push({ kind: 'native', artifact: native });
+        }
+
+        const issues: IntegrityIssue[] = [];
+        for (let i = 0; i < targets.length; i++) {
+            const { kind, artifact } = targets[i];
+            const status = await this.checkFile(artifact.destination, artifact);
+            if (status !== 'ok') {
+                issues.push({ kind, path: artifact.destination, reason: status, download: artifact.url ? artifact : undefined });
+            }
+            onProgress?.(i + 1, targets.length);
+        }
+
+        return issues;
+    }
+
+    /**
+     * Hashes every object listed in the asset index. Requires a valid index on disk.
+     */
+    static async verifyAssets(plan: LaunchPlan, onProgress?: CheckProgress): Promise<IntegrityIssue[]> {
+        if (!fs.existsSync(plan.assetIndex.path)) return [];
+
+        const assetIndex = JSON.parse(fs.readFileSync(plan.assetIndex.path, 'utf-8'));
+        const objects: Record<string, { hash: string; size: number }> = assetIndex.objects || {};
+        const entries = Object.values(objects);
+        const objectsDir = path.join(plan.assetsDir, 'objects');
+
+        const issues: IntegrityIssue[] = [];
+        // Several asset keys can share one object
+        const seen = new Set<string>();
+
+        for (let i = 0; i < entries.length; i++) {
+            const { hash, size } = entries[i];
+            if (!seen.has(hash)) {
+                seen.add(hash);
+
+                const hashPrefix = hash.substring(0, 2);
+                const assetPath = path.join(objectsDir, hashPrefix, hash);
+                const status = await this.checkFile(assetPath, { sha1: hash, size });
+                if (status !== 'ok') {
+                    issues.push({
+                        kind: 'asset',
+                        path: assetPath,
+                        reason: status,
+                        download: {
+                            url: `https://resources.download.minecraft.net/${hashPrefix}/${hash}`,
+                            destination: assetPath,
+                            sha1: hash,
+                            size,
+                            priority: 5
+                        }
+                    });
+                }
+            }
+
+            if (onProgress && ((i + 1) % 100 === 0 || i + 1 === entries.length)) onProgress(i + 1, entries.length);
+        }
+
+        return issues;
+    }
+}
@@ -1,17 +1,50 @@
-import { app } from 'electron';
+import { app, ipcMain, IpcMainEvent, WebContents } from 'electron';
 import path from 'path';
 import fs from 'fs';
 import { spawn } from 'child_process';
 import AdmZip from 'adm-zip';
-import { AssetDownloader } from './AssetDownloader';
+import { AssetDownloader, DownloadProgress, DownloadTask } from './AssetDownloader';
 import axios from 'axios';
+import { MirrorUtils } from '../utils/MirrorUtils';
 
-// Map Java major version to download URLs
-const JAVA_DOWNLOADS: Record<string, string> = {
-    '8': 'https://api.adoptium.net/v3/binary/latest/8/ga/windows/x64/jdk/hotspot/normal/eclipse',
-    '17': 'https://api.adoptium.net/v3/binary/latest/17/ga/windows/x64/jdk/hotspot/normal/eclipse',
-    '21': 'https://api.adoptium.net/v3/binary/latest/21/ga/windows/x64/jdk/hotspot/normal/eclipse',
-};
+// Adoptium builds: /<major>/ga/<os>/<arch>/jdk/hotspot/normal/eclipse
+const ADOPTIUM_API = 'https://api.adoptium.net/v3/binary/latest';
+
+// Runtimes are assembled under "<name>.partial" and only renamed into place once complete,
+// so an interrupted install never looks like a usable runtime
+const PARTIAL_SUFFIX = '.partial';
+
+// Mojang's runtime index (same one the official launcher uses)
+const MOJANG_RUNTIME_INDEX = 'https://launchermeta.mojang.com/v1/products/java-runtime/2ec0cc96c44e5a76b9c8b7c39df7210883d12871/all.json';
+
+export interface JavaPlatform {
+    os: 'windows' | 'mac' | 'linux';
+    arch: 'x64' | 'aarch64' | 'x86';
+    // Key in Mojang's runtime index, e.g. "windows-x64", "mac-os-arm64", "linux"
+    mojang: string;
+    archive: 'zip' | 'tar.gz';
+}
+
+export interface JavaInstallation {
+    path: string;
+    home: string;
+    version: string;
+    major: string;
+    vendor: string;
+    arch: string;
+    is64Bit: boolean;
+    source: 'path' | 'java_home' | 'system' | 'managed';
+}
+
+interface RuntimeFile {
+    type: 'file' | 'directory' | 'link';
+    executable?: boolean;
+    target?: string;
+    downloads?: { raw: { url: string; sha1: string; size: number } };
+}
+
+type ProgressCallback = (status: string, progress: number) => void;
+export type ConfirmCallback = (version: string, size: number) => Promise<'install' | 'skip' | 'cancel'>;
 
 export class JavaManager {
     private javaPath: string;
@@ -19,20 +52,73 @@ export class JavaManager {
 
     constructor() {
         this.javaPath = path.join(app.getPath('userData'), 'runtimes');
-        this.downloader = new AssetDownloader();
+        this.downloader = new AssetDownloader('Java runtime');
         if (!fs.existsSync(this.javaPath)) {
             fs.mkdirSync(this.javaPath, { recursive: true });
         }
     }
 
+    /**
+     * Asks the window behind `sender` before a runtime is downloaded. Prompts are keyed by
+     * `requestId` so concurrent launches and installs each get their own answer; a window that
+     * reloads or closes can never answer, so its prompts are cancelled. With `tracksProgress` the
+     * prompt stays open to show java-install-progress until java-install-done.
+     */
+    static askInstall(sender: WebContents, requestId: string, tracksProgress = false): ConfirmCallback {
+        return (version, size) => new Promise(resolve => {
+            const finish = (action: 'install' | 'skip' | 'cancel') => {
+                ipcMain.off('java-install-consent', onConsent);
+                sender.off('did-navigate', onGone);
+                sender.off('render-process-gone', onGone);
+                sender.off('destroyed', onGone);
+                resolve(action);
+            };
+            const onConsent = (consentEvent: IpcMainEvent, id: string, action: 'install' | 'skip' | 'cancel') => {
+                if (consentEvent.sender !== sender || id !== requestId) return;
+                finish(action === 'install' || action === 'skip' ? action : 'cancel');
+            };
+            const onGone = () => {
+                console.log(`[Java] Window went away while asking to install Java ${version} for ${requestId}, cancelling`);
+                finish('cancel');
+            };
+
+            console.log(`[Java] Asking user consent for Java ${version} (${size} bytes) for ${requestId}`);
+            ipcMain.on('java-install-consent', onConsent);
+            sender.on('did-navigate', onGone);
+            sender.on('render-process-gone', onGone);
+            sender.on('destroyed', onGone);
+            sender.send('java-install-request', { requestId, version, sizeInBytes: size, tracksProgress });
+        });
+    }
+
+    /**
+     * Resolves the host OS/arch to the names used by Adoptium and Mojang.
+     */
+    static getPlatform(platform: NodeJS.Platform = process.platform, arch: string = process.arch): JavaPlatform {
+        const javaArch = arch === 'arm64' ? 'aarch64' : arch === 'ia32' ? 'x86' : 'x64';
+
+        if (platform === 'win32') {
+            const mojang = javaArch === 'aarch64' ? 'windows-arm64' : javaArch === 'x86' ? 'windows-x86' : 'windows-x64';
+            return { os: 'windows', arch: javaArch, mojang, archive: 'zip' };
+        }
+        if (platform === 'darwin') {
+            return { os: 'mac', arch: javaArch, mojang: javaArch === 'aarch64' ? 'mac-os-arm64' : 'mac-os', archive: 'tar.gz' };
+        }
+        return { os: 'linux', arch: javaArch, mojang: javaArch === 'x86' ? 'linux-i386' : 'linux', archive: 'tar.gz' };
+    }
+
+    static getJavaExecutable(platform: NodeJS.Platform = process.platform): string {
+        return platform === 'win32' ? 'java.exe' : 'java';
+    }
+
     async ensureJava(
         majorVersion: string,
-        onProgress?: (status: string, progress: number) => void,
-        onConfirm?: (version: string, size: number) => Promise<'install' | 'skip' | 'cancel'>
+        onProgress?: ProgressCallback,
+        onConfirm?: ConfirmCallback,
+        component?: string
     ): Promise<string> {
         // 1. Check if we already downloaded it
-        const targetDir = path.join(this.javaPath, `java-${majorVersion}`);
-        const cachedJava = this.findJavaBinary(targetDir);
+        const cachedJava = this.findInstalledJava(majorVersion, component);
         if (cachedJava) {
             console.log(`[Java] Found cached Java ${majorVersion} at ${cachedJava}`);
             return cachedJava;
@@ -47,11 +133,23 @@ export class JavaManager {
             return systemJava;
         }
 
-        // 3. Download if missing
+        // 3. Download if missing, preferring the exact runtime the version asks for
         console.log(`[Java] Java ${majorVersion} missing.`);
 
-        const url = JAVA_DOWNLOADS[majorVersion];
-        if (!url) throw new Error(`Unsupported Java version: ${majorVersion}`);
+        if (component) {
+            const files = await this.getMojangRuntimeFiles(component);
+            if (files) {
+                const size = Object.values(files).reduce((acc, f) => acc + (f.downloads?.raw.size || 0), 0);
+                const action = await this.confirm(majorVersion, size, onConfirm);
+                if (action) return action;
+
+                console.log(`[Java] Installing Mojang runtime ${component}...`);
+                return await this.installMojangRuntime(component, files, onProgress);
+            }
+            console.warn(`[Java] Mojang runtime ${component} not available for ${JavaManager.getPlatform().mojang}, using Adoptium.`);
+        }
+
+        const url = this.getAdoptiumUrl(majorVersion);
 
         // Get size
         let size = 0;
@@ -64,149 +162,361 @@ export class JavaManager {
         }
 
         // 4. Ask for Permission
-        // 4. Ask for Permission
-        if (onConfirm) {
-            const action = await onConfirm(majorVersion, size);
-            if (action === 'cancel') {
-                throw new Error("Java installation cancelled by user");
-            }
-            if (action === 'skip') {
-                console.warn(`[Java] User skipped installation for Java ${majorVersion}. Attempting to proceed...`);
-                return 'java'; // Fallback to system java (hope for best) or just return a dummy path? 
-                // Return 'java' assumes it's in path, or let the game fail later if it's truly missing.
-            }
-        }
+        const action = await this.confirm(majorVersion, size, onConfirm);
+        if (action) return action;
 
         console.log(`[Java] Downloading...`);
-        return await this.downloadJava(majorVersion, targetDir, size, onProgress);
+        return await this.downloadJava(majorVersion, path.join(this.javaPath, `java-${majorVersion}`), size, onProgress);
+    }
+
+    /**
+     * Returns an already installed managed runtime, without downloading anything.
+     * A Mojang component runtime wins over the generic one for the same major version.
+     */
+    findInstalledJava(majorVersion: string, component?: string): string | null {
+        if (component) {
+            const componentJava = this.findJavaBinary(path.join(this.javaPath, component));
+            if (componentJava) return componentJava;
+        }
+        return this.findJavaBinary(path.join(this.javaPath, `java-${majorVersion}`));
+    }
+
+    getAdoptiumUrl(majorVersion: string): string {
+        const { os, arch } = JavaManager.getPlatform();
+        return `${ADOPTIUM_API}/${majorVersion}/ga/${os}/${arch}/jdk/hotspot/normal/eclipse`;
+    }
+
+    // Returns the path to use when the user did not agree to install, or null to go ahead
+    private async confirm(majorVersion: string, size: number, onConfirm?: ConfirmCallback): Promise<string | null> {
+        // Nobody to ask: a runtime is never downloaded behind the user's back
+        if (!onConfirm) {
+            throw new Error(`Java ${majorVersion} is not installed. Launch an instance that needs it once to install it, or pick an installed Java in Settings.`);
+        }
+
+        const action = await onConfirm(majorVersion, size);
+        if (action === 'cancel') {
+            throw new Error("Java installation cancelled by user");
+        }
+        if (action === 'skip') {
+            // Assume it's in PATH and let the game fail later if it's truly missing.
+            console.warn(`[Java] User skipped installation for Java ${majorVersion}. Attempting to proceed...`);
+            return 'java';
+        }
+        return null;
     }
 
     private findJavaBinary(root: string): string | null {
         if (!fs.existsSync(root)) return null;
 
-        // Direct check
-        const directBin = path.join(root, 'bin', 'java.exe');
-        if (fs.existsSync(directBin)) return directBin;
+        const exe = JavaManager.getJavaExecutable();
+        // JDK layouts: <root>/bin, macOS bundles <root>/Contents/Home/bin, Mojang's mac runtime <root>/jre.bundle/Contents/Home/bin
+        const layouts = [
+            ['bin', exe],
+            ['Contents', 'Home', 'bin', exe],
+            ['jre.bundle', 'Contents', 'Home', 'bin', exe]
+        ];
+
+        for (const layout of layouts) {
+            const direct = path.join(root, ...layout);
+            if (fs.existsSync(direct)) return direct;
+        }
 
-        // Nested check
+        // Nested check (archives usually contain a single top-level folder)
         try {
             const files = fs.readdirSync(root);
             for (const file of files) {
-                const nested = path.join(root, file, 'bin', 'java.exe');
-                if (fs.existsSync(nested)) return nested;
+                for (const layout of layouts) {
+                    const nested = path.join(root, file, ...layout);
+                    if (fs.existsSync(nested)) return nested;
+                }
             }
         } catch { }
 
         return null;
     }
 
-    private async downloadJava(version: string, targetDir: string, totalSize: number, onProgress?: (status: string, progress: number) => void): Promise<string> {
-        const url = JAVA_DOWNLOADS[version]; // Already validated in ensureJava
-        const zipPath = path.join(this.javaPath, `temp-${version}.zip`);
+    private async downloadJava(version: string, targetDir: string, totalSize: number, onProgress?: ProgressCallback): Promise<string> {
+        const url = this.getAdoptiumUrl(version);
+        const { archive } = JavaManager.getPlatform();
+        const archivePath = path.join(this.javaPath, `temp-${version}.${archive}`);
 
         // Download
         console.log(`[Java] Downloading from ${url}`);
 
-        await new Promise<void>((resolve, reject) => {
-            // Get size for progress calculation
-            // Pass size if we had it, but AssetDownloader recalculates or updates
-
-            this.downloader.addToQueue([{
-                url,
-                destination: zipPath,
-                priority: 100,
-                size: totalSize
-            }]);
-
-            this.downloader.on('done', resolve);
-            this.downloader.on('error', reject);
-
-            let lastUpdate = 0;
-            const progressListener = (p: any) => {
-                const now = Date.now();
-                if (now - lastUpdate > 100) {
-                    // Need to calculate percentage relative to this file only? 
-                    // AssetDownloader emits global progress for queue.
-                    // The p object has { total, current }
-
-                    const totalMB = (p.total / 1024 / 1024).toFixed(1);
-                    const currentMB = (p.current / 1024 / 1024).toFixed(1);
-                    const percent = p.total > 0 ? (p.current / p.total) * 100 : 0;
-
-                    if (onProgress) onProgress(`Downloading Java ${version} (${currentMB}/${totalMB} MB)...`, percent);
-
-                    // Also dispatch granular event for the modal if needed via onProgress?
-                    // Currently onProgress is passed from LaunchProcess which sends 'launch:progress'
-                    // The Modal listens to 'java-install-progress'. We might need to handle that mapping in LaunchProcess.
-                    lastUpdate = now;
-                }
-            };
-
-            this.downloader.on('progress', progressListener);
-
-            // Cleanup listener on finish to avoid leaks if reusing downloader?
-            // AssetDownloader is one-off per JavaManager? No, reused.
-            // We should use 'once' for done/error but 'on' for progress, and remove listeners.
-            // Simplified for now assuming sequential operations or single active Java download.
+        const download = this.downloader.addToQueue([{
+            url,
+            destination: archivePath,
+            priority: 100,
+            size: totalSize
+        }]);
+
+        let lastUpdate = 0;
+        download.on('progress', (p: DownloadProgress) => {
+            const now = Date.now();
+            if (now - lastUpdate > 100) {
+                const totalMB = (p.total / 1024 / 1024).toFixed(1);
+                const currentMB = (p.current / 1024 / 1024).toFixed(1);
+                const percent = p.total > 0 ? (p.current / p.total) * 100 : 0;
+
+                if (onProgress) onProgress(`Downloading Java ${version} (${currentMB}/${totalMB} MB)...`, percent);
+                lastUpdate = now;
+            }
         });
 
+        await download.promise;
+
         // Extract
         console.log(`[Java] Extracting to ${targetDir}...`);
         if (onProgress) onProgress(`Extracting Java ${version}...`, 100); // 100% download, extracting
 
+        const partialDir = targetDir + PARTIAL_SUFFIX;
         try {
-            const zip = new AdmZip(zipPath);
-            zip.extractAllTo(targetDir, true);
+            fs.rmSync(partialDir, { recursive: true, force: true });
+            fs.mkdirSync(partialDir, { recursive: true });
+            if (archive === 'zip') {
+                const zip = new AdmZip(archivePath);
+                zip.extractAllTo(partialDir, true);
+            } else {
+                await this.extractTarGz(archivePath, partialDir);
+            }
         } catch (e) {
             throw new Error(`Failed to extract Java: ${e}`);
         } finally {
-            if (fs.existsSync(zipPath)) fs.unlinkSync(zipPath);
+            if (fs.existsSync(archivePath)) fs.unlinkSync(archivePath);
         }
 
-        const bin = this.findJavaBinary(targetDir);
-        if (!bin) throw new Error("Java installed but executable not found.");
+        if (!this.findJavaBinary(partialDir)) throw new Error("Java installed but executable not found.");
+        this.promoteInstall(partialDir, targetDir);
 
-        return bin;
+        return this.findJavaBinary(targetDir)!;
     }
 
-    private async detectSystemJava(majorVersion: string): Promise<string | null> {
-        if (await this.checkJavaVersion('java', majorVersion)) {
-            console.log(`[Java] System 'java' command matches version ${majorVersion}`);
-            return 'java';
+    // tar ships with macOS, Linux and Windows 10+, and keeps the symlinks and permissions JDK archives rely on
+    private extractTarGz(archivePath: string, targetDir: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const proc = spawn('tar', ['-xzf', archivePath, '-C', targetDir]);
+            let output = '';
+            proc.stderr.on('data', (d) => output += d.toString());
+            proc.on('error', reject);
+            proc.on('close', (code) => code === 0 ? resolve() : reject(new Error(`tar exited with code ${code}: ${output}`)));
+        });
+    }
+
+    /**
+     * Looks up a runtime component (java-runtime-gamma, jre-legacy, ...) for this platform
+     * and returns its file list, or null if Mojang does not provide it here.
+     */
+    private async getMojangRuntimeFiles(component: string): Promise<Record<string, RuntimeFile> | null> {
+        try {
+            const { data: index } = await MirrorUtils.tryEach(MOJANG_RUNTIME_INDEX, (url) => axios.get(url, { timeout: 15000 }));
+            const entry = index[JavaManager.getPlatform().mojang]?.[component]?.[0];
+            if (!entry?.manifest?.url) return null;
+
+            const { data: manifest } = await MirrorUtils.tryEach(entry.manifest.url, (url) => axios.get(url, { timeout: 15000 }));
+            return manifest.files || null;
+        } catch (e) {
+            console.warn(`[Java] Failed to fetch Mojang runtime manifest for ${component}`, e);
+            return null;
+        }
+    }
+
+    private async installMojangRuntime(component: string, files: Record<string, RuntimeFile>, onProgress?: ProgressCallback): Promise<string> {
+        const targetDir = path.join(this.javaPath, component);
+        // Files left from an interrupted attempt are kept; the downloader skips the ones that verify
+        const partialDir = targetDir + PARTIAL_SUFFIX;
+        const entries = Object.entries(files);
+
+        // Directories first, then every file (sha1-verified by the downloader)
+        for (const [name, file] of entries) {
+            if (file.type === 'directory') fs.mkdirSync(path.join(partialDir, name), { recursive: true });
+        }
+
+        const tasks: DownloadTask[] = entries
+            .filter(([, file]) => file.type === 'file' && file.downloads?.raw)
+            .map(([name, file]) => ({
+                url: file.downloads!.raw.url,
+                destination: path.join(partialDir, name),
+                sha1: file.downloads!.raw.sha1,
+                size: file.downloads!.raw.size,
+                priority: 100
+            }));
+
+        const download = this.downloader.addToQueue(tasks, `Java runtime ${component}`);
+
+        let lastUpdate = 0;
+        download.on('progress', (p: DownloadProgress) => {
+            const now = Date.now();
+            if (onProgress && now - lastUpdate > 100) {
+                const percent = p.total > 0 ? (p.current / p.total) * 100 : 0;
+                onProgress(`Downloading Java runtime ${component} (${(p.current / 1024 / 1024).toFixed(1)}/${(p.total / 1024 / 1024).toFixed(1)} MB)...`, percent);
+                lastUpdate = now;
+            }
+        });
+
+        await download.promise;
+
+        if (onProgress) onProgress(`Finalizing Java runtime ${component}...`, 100);
+
+        for (const [name, file] of entries) {
+            const filePath = path.join(partialDir, name);
+            if (file.type === 'link' && file.target && !fs.existsSync(filePath)) {
+                fs.mkdirSync(path.dirname(filePath), { recursive: true });
+                fs.symlinkSync(file.target, filePath);
+            } else if (file.type === 'file' && file.executable && process.platform !== 'win32') {
+                fs.chmodSync(filePath, 0o755);
+            }
+        }
+
+        if (!this.findJavaBinary(partialDir)) throw new Error(`Java runtime ${component} installed but executable not found.`);
+        this.promoteInstall(partialDir, targetDir);
+
+        return this.findJavaBinary(targetDir)!;
+    }
+
+    // Swaps a finished install into place, replacing whatever was there (a broken older install)
+    private promoteInstall(partialDir: string, targetDir: string) {
+        fs.rmSync(targetDir, { recursive: true, force: true });
+        fs.renameSync(partialDir, targetDir);
+    }
+
+    /**
+     * Runs `java -XshowSettings:properties -version` and reads vendor, version and arch from it.
+     * Returns null when the file is not a working Java executable.
+     */
+    static probe(bin: string, source: JavaInstallation['source'] = 'system'): Promise<JavaInstallation | null> {
+        return new Promise((resolve) => {
+            const proc = spawn(bin, ['-XshowSettings:properties', '-version']);
+            let output = '';
+            proc.stderr.on('data', (d) => output += d.toString());
+            proc.stdout.on('data', (d) => output += d.toString());
+
+            const timer = setTimeout(() => proc.kill(), 10000);
+            proc.on('error', () => {
+                clearTimeout(timer);
+                resolve(null);
+            });
+            proc.on('close', () => {
+                clearTimeout(timer);
+                const prop = (key: string) => output.match(new RegExp(`^\\s*${key.replace(/\./g, '\\.')} = (.*)$`, 'm'))?.[1]?.trim() || '';
+
+                const version = prop('java.version');
+                if (!version) return resolve(null);
+
+                const [first, second] = version.split('.');
+                const major = first === '1' ? second : first.replace(/\D.*$/, '');
+                const arch = prop('os.arch');
+
+                resolve({
+                    path: bin,
+                    home: prop('java.home'),
+                    version,
+                    major,
+                    vendor: prop('java.vendor') || prop('java.vm.vendor'),
+                    arch,
+                    is64Bit: prop('sun.arch.data.model') === '64' || /64/.test(arch),
+                    source
+                });
+            });
+        });
+    }
+
+    /**
+     * Enumerates JDKs/JREs from PATH, JAVA_HOME, common install roots and the managed runtimes folder.
+     */
+    async scanInstallations(): Promise<JavaInstallation[]> {
+        const exe = JavaManager.getJavaExecutable();
+        const candidates: { bin: string; source: JavaInstallation['source'] }[] = [];
+
+        for (const dir of (process.env.PATH || '').split(path.delimiter)) {
+            if (dir) candidates.push({ bin: path.join(dir, exe), source: 'path' });
+        }
+
+        if (process.env.JAVA_HOME) {
+            candidates.push({ bin: path.join(process.env.JAVA_HOME, 'bin', exe), source: 'java_home' });
+        }
+
+        for (const root of this.getScanRoots()) {
+            for (const bin of this.listJavaBinaries(root)) candidates.push({ bin, source: 'system' });
         }
 
-        const scanRoots = [
-            `C:\\Program Files\\Java`,
-            `C:\\Program Files\\Eclipse Adoptium`,
+        if (fs.existsSync(this.javaPath)) {
+            for (const dir of fs.readdirSync(this.javaPath)) {
+                if (dir.endsWith(PARTIAL_SUFFIX)) continue;
+                const bin = this.findJavaBinary(path.join(this.javaPath, dir));
+                if (bin) candidates.push({ bin, source: 'managed' });
+            }
+        }
+
+        // The same runtime is often reachable several ways (PATH symlink + JAVA_HOME)
+        const seen = new Set<string>();
+        const unique = candidates.filter(({ bin }) => {
+            if (!fs.existsSync(bin)) return false;
+            let real = bin;
+            try { real = fs.realpathSync(bin); } catch { }
+            if (seen.has(real)) return false;
+            seen.add(real);
+            return true;
+        });
+
+        const probed = await Promise.all(unique.map(({ bin, source }) => JavaManager.probe(bin, source)));
+        return probed.filter((j): j is JavaInstallation => j !== null);
+    }
+
+    private getScanRoots(): string[] {
+        return [
+            ...(process.platform === 'win32' ? [
+                `C:\\Program Files\\Java`,
+                `C:\\Program Files\\Eclipse Adoptium`,
+            ] : process.platform === 'darwin' ? [
+                '/Library/Java/JavaVirtualMachines',
+            ] : [
+                '/usr/lib/jvm',
+                '/usr/java',
+            ]),
             path.join(app.getPath('userData'), '../.minecraft/runtime'),
             path.join(app.getPath('userData'), '../.tlauncher/jvms'),
             path.join(app.getPath('userData'), '../.curseforge/minecraft/Install/runtime'),
         ];
+    }
+
+    // Java binaries one level below a root, in every layout we know of
+    private listJavaBinaries(root: string): string[] {
+        if (!fs.existsSync(root)) return [];
+
+        const exe = JavaManager.getJavaExecutable();
+        const { mojang } = JavaManager.getPlatform();
+        const found: string[] = [];
+
+        try {
+            for (const dir of fs.readdirSync(root)) {
+                const fullDir = path.join(root, dir);
+                const possibleBins = [
+                    path.join(fullDir, 'bin', exe),
+                    path.join(fullDir, 'Contents', 'Home', 'bin', exe),
+                    path.join(fullDir, 'java-runtime-gamma', 'bin', exe),
+                    path.join(fullDir, mojang, 'java-runtime-gamma', 'bin', exe),
+                ];
+                found.push(...possibleBins.filter(bin => fs.existsSync(bin)));
+            }
+        } catch { }
+
+        return found;
+    }
+
+    private async detectSystemJava(majorVersion: string): Promise<string | null> {
+        if (await this.checkJavaVersion('java', majorVersion)) {
+            console.log(`[Java] System 'java' command matches version ${majorVersion}`);
+            return 'java';
+        }
 
         console.log(`[Java] Scanning system for Java ${majorVersion}...`);
 
-        for (const root of scanRoots) {
-            if (!fs.existsSync(root)) continue;
-
-            try {
-                const subdirs = fs.readdirSync(root);
-                for (const dir of subdirs) {
-                    const fullDir = path.join(root, dir);
-                    const possibleBins = [
-                        path.join(fullDir, 'bin', 'java.exe'),
-                        path.join(fullDir, 'java-runtime-gamma', 'bin', 'java.exe'),
-                        path.join(fullDir, 'windows-x64', 'java-runtime-gamma', 'bin', 'java.exe'),
-                    ];
-
-                    for (const attemptBin of possibleBins) {
-                        if (fs.existsSync(attemptBin)) {
-                            if (await this.checkJavaVersion(attemptBin, majorVersion)) {
-                                return attemptBin;
-                            }
-                        }
-                    }
+        for (const root of this.getScanRoots()) {
+            for (const bin of this.listJavaBinaries(root)) {
+                if (await this.checkJavaVersion(bin, majorVersion)) {
+                    return bin;
                 }
-            } catch (e) { }
+            }
         }
 
         return null;
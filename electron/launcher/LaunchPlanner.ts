@@ -0,0 +1,768 @@
+import path from 'path';
+import fs from 'fs';
+import { DownloadTask } from './AssetDownloader';
+import { ArgumentEvaluator, LEGACY_JVM_ARGS, RuleContext } from './ArgumentEvaluator';
+
+/**
+ * LaunchPlanner turns an instance + version + account into a LaunchPlan:
+ * everything needed to start the game, computed up front without touching the network
+ * (other than fetching version JSONs through the injected source) or spawning anything.
+ *
+ * It deliberately has no Electron imports so each stage can be run against fixture
+ * version JSONs from plain Node.
+ */
+
+// Fetches a version JSON by id (usually from Mojang's manifest). Returns null if unknown.
+export type VersionSource = (versionId: string) => Promise<any | null>;
+
+export interface LaunchAuth {
+    name: string;
+    uuid: string;
+    token?: string;
+    type?: string;
+    xuid?: string;
+    clientId?: string;
+}
+
+export interface QuickPlayTarget {
+    type: 'singleplayer' | 'multiplayer' | 'realms';
+    // World folder name, server address or realm id
+    target: string;
+}
+
+export interface LaunchSettings {
+    minRam: number;
+    maxRam: number;
+    jvmPreset: string;
+    jvmArgs: string[];
+    proxy: {
+        enabled: boolean;
+        host: string;
+        port: number;
+        type: 'http' | 'socks';
+    };
+}
+
+export interface LaunchPlanInput {
+    instanceId: string;
+    versionId: string;
+    auth: LaunchAuth;
+    gamePath: string;
+    instancesRoot: string;
+    settings: LaunchSettings;
+    resolution?: { width: number; height: number };
+    quickPlay?: QuickPlayTarget;
+    fullscreen?: boolean;
+    // Java binary bound to the instance, if any
+    javaBinding?: string;
+    // Command the game is run through (gamemoderun, prime-run, ...)
+    wrapperCommand?: string;
+    env?: Record<string, string>;
+    preLaunchCommand?: string;
+    postExitCommand?: string;
+    platform?: NodeJS.Platform;
+    arch?: string;
+}
+
+export interface LaunchPlan {
+    instanceId: string;
+    versionId: string;
+    // Fully resolved version JSON (inheritance merged)
+    version: any;
+    isNativeInstance: boolean;
+    gameDir: string;
+    librariesDir: string;
+    assetsDir: string;
+    nativesDir: string;
+    clientJarPath: string;
+    assetIndex: {
+        id: string;
+        url?: string;
+        path: string;
+    };
+    assetLayout: AssetLayout;
+    // What `${game_assets}` points to: assetsDir, or the copy legacy indexes are unpacked into
+    gameAssetsDir: string;
+    classpath: string[];
+    // Legacy natives jars to unpack into nativesDir before spawning
+    nativeJars: NativeJar[];
+    // Missing files that must be fetched before spawning (assets are resolved once the index is present)
+    downloads: DownloadTask[];
+    javaVersion: string;
+    // Mojang runtime component the version asks for (java-runtime-gamma, jre-legacy, ...)
+    javaComponent?: string;
+    // Instance-bound Java; used as-is instead of auto-detection
+    javaBinding: string | null;
+    javaPath: string | null;
+    minRam: number;
+    maxRam: number;
+    jvmArgs: string[];
+    mainClass: string;
+    gameArgs: string[];
+    wrapper: string[];
+    // Extra environment variables for the game and its hooks
+    env: Record<string, string>;
+    preLaunchCommand: string | null;
+    postExitCommand: string | null;
+    // Full command line, argv[0] being the wrapper if set, otherwise the Java binary
+    argv: string[];
+}
+
+/**
+ * How the game expects to find assets:
+ * - `hashed`: objects/<xx>/<hash>, looked up through the index (1.7.3+)
+ * - `virtual`: plain paths under assets/virtual/<index id> (`legacy` index, 1.6 - 1.7.2)
+ * - `resources`: plain paths under <gameDir>/resources (`pre-1.6` index, betas and alphas)
+ */
+export type AssetLayout = 'hashed' | 'virtual' | 'resources';
+
+export interface NativeJar {
+    path: string;
+    // Entry prefixes that must not be extracted (usually META-INF/)
+    exclude: string[];
+}
+
+interface GameDirectory {
+    isNativeInstance: boolean;
+    gameDir: string;
+}
+
+const LAUNCHER_BRAND = 'whoap';
+const LAUNCHER_VERSION = '2.0.0';
+
+const PRESET_FLAGS: Record<string, string[]> = {
+    potato: [
+        '-XX:+UseG1GC',
+        '-XX:G1HeapRegionSize=4M',
+        '-XX:+UnlockExperimentalVMOptions',
+        '-XX:+ParallelRefProcEnabled',
+        '-XX:+AlwaysPreTouch',
+    ],
+    standard: [
+        '-XX:+UseG1GC',
+        '-XX:+UnlockExperimentalVMOptions',
+        '-XX:+ParallelRefProcEnabled',
+        '-XX:MaxGCPauseMillis=200',
+        '-XX:+AlwaysPreTouch',
+        '-XX:G1NewSizePercent=30',
+        '-XX:G1MaxNewSizePercent=40',
+        '-XX:G1HeapRegionSize=8M',
+        '-XX:G1ReservePercent=20',
+        '-XX:G1HeapWastePercent=5',
+        '-XX:G1MixedGCCountTarget=4',
+        '-XX:InitiatingHeapOccupancyPercent=15',
+        '-XX:G1MixedGCLiveThresholdPercent=90',
+        '-XX:G1RSetUpdatingPauseTimePercent=5',
+        '-XX:SurvivorRatio=32',
+        '-XX:+PerfDisableSharedMem',
+        '-XX:MaxTenuringThreshold=1',
+    ],
+    pro: [
+        // Aikar's Flags (Optimizations for Mods/Server-heavy clients)
+        '-XX:+UseG1GC',
+        '-XX:+UnlockExperimentalVMOptions',
+        '-XX:+AlwaysPreTouch',
+        '-XX:+ParallelRefProcEnabled',
+        '-XX:MaxGCPauseMillis=200',
+        '-XX:G1NewSizePercent=30',
+        '-XX:G1MaxNewSizePercent=40',
+        '-XX:G1HeapRegionSize=8M',
+        '-XX:G1ReservePercent=20',
+        '-XX:G1HeapWastePercent=5',
+        '-XX:G1MixedGCCountTarget=4',
+        '-XX:InitiatingHeapOccupancyPercent=15',
+        '-XX:G1MixedGCLiveThresholdPercent=90',
+        '-XX:G1RSetUpdatingPauseTimePercent=5',
+        '-XX:SurvivorRatio=32',
+        '-XX:+PerfDisableSharedMem',
+        '-XX:MaxTenuringThreshold=1',
+        '-Dusing.aikars.flags=https://mcutils.com',
+        '-Daikars.new.flags=true'
+    ],
+    extreme: [
+        // Aggressive optimizations for high-RAM systems
+        '-XX:+UseG1GC',
+        '-XX:+UnlockExperimentalVMOptions',
+        '-XX:+AlwaysPreTouch',
+        '-XX:+ParallelRefProcEnabled',
+        '-XX:MaxGCPauseMillis=50',
+        '-XX:G1HeapRegionSize=32M',
+        '-XX:G1NewSizePercent=40',
+        '-XX:G1MaxNewSizePercent=50',
+        '-XX:G1ReservePercent=15',
+        '-XX:G1HeapWastePercent=5',
+        '-XX:G1MixedGCCountTarget=4',
+        '-XX:InitiatingHeapOccupancyPercent=20',
+        '-XX:G1MixedGCLiveThresholdPercent=90',
+        '-XX:G1RSetUpdatingPauseTimePercent=5',
+        '-XX:SurvivorRatio=32',
+        '-XX:+PerfDisableSharedMem',
+        '-XX:MaxTenuringThreshold=1',
+        '-XX:+UseStringDeduplication',
+    ],
+    custom: []
+};
+
+export class LaunchPlanner {
+    /**
+     * Runs every planning stage and returns the resulting plan.
+     * javaPath is left null; bind one with withJava() once it has been resolved.
+     */
+    static async create(input: LaunchPlanInput, source: VersionSource): Promise<LaunchPlan> {
+        const { gamePath, instancesRoot, instanceId, versionId } = input;
+
+        const { isNativeInstance, gameDir } = this.resolveGameDirectory(instanceId, versionId, gamePath, instancesRoot);
+
+        const version = await this.loadVersion(versionId, gamePath, source);
+        const ruleContext = this.createRuleContext(input);
+
+        // Reuse shared folders
+        const librariesDir = path.join(gamePath, 'libraries');
+        const assetsDir = path.join(gamePath, 'assets');
+        // For imported versions, natives go to versions/<ver>/natives
+        // For instances, they go to instances/<id>/natives
+        const nativesDir = isNativeInstance
+            ? path.join(gameDir, 'natives')
+            : path.join(gamePath, 'versions', versionId, 'natives');
+
+        const downloads: DownloadTask[] = [];
+
+        const assetIndex = this.resolveAssetIndex(version, assetsDir);
+        if (assetIndex.download) downloads.push(assetIndex.download);
+
+        const clientJar = this.resolveClientJar(version, versionId, instanceId, isNativeInstance, gamePath, instancesRoot);
+        if (clientJar.download) downloads.push(clientJar.download);
+
+        const libraries = this.collectLibraries(version, librariesDir, ruleContext);
+        downloads.push(...libraries.downloads);
+
+        const assets = this.resolveAssetLayout(assetIndex.id, assetIndex.path, assetsDir, gameDir);
+
+        const plan: LaunchPlan = {
+            instanceId,
+            versionId,
+            version,
+            isNativeInstance,
+            gameDir,
+            librariesDir,
+            assetsDir,
+            nativesDir,
+            clientJarPath: clientJar.path,
+            assetIndex: { id: assetIndex.id, url: assetIndex.url, path: assetIndex.path },
+            assetLayout: assets.layout,
+            gameAssetsDir: assets.dir,
+            classpath: [...libraries.classpath, clientJar.path],
+            nativeJars: libraries.nativeJars,
+            downloads,
+            javaVersion: this.resolveJavaVersion(version, versionId),
+            javaComponent: version.javaVersion?.component,
+            javaBinding: input.javaBinding || null,
+            javaPath: null,
+            minRam: input.settings.minRam,
+            maxRam: input.settings.maxRam,
+            jvmArgs: [],
+            mainClass: version.mainClass,
+            gameArgs: [],
+            wrapper: this.splitCommand(input.wrapperCommand || ''),
+            env: input.env || {},
+            preLaunchCommand: input.preLaunchCommand || null,
+            postExitCommand: input.postExitCommand || null,
+            argv: []
+        };
+
+        const vars = this.buildVariables(plan, input);
+        plan.jvmArgs = this.buildJvmArgs(plan, input.settings, ruleContext, vars);
+        plan.gameArgs = this.buildGameArgs(version, input, ruleContext, vars);
+        plan.argv = this.buildArgv(plan);
+
+        return plan;
+    }
+
+    /**
+     * Returns a copy of the plan bound to a concrete Java binary.
+     */
+    static withJava(plan: LaunchPlan, javaPath: string): LaunchPlan {
+        const bound = { ...plan, javaPath };
+        bound.argv = this.buildArgv(bound);
+        return bound;
+    }
+
+    /**
+     * Determines the game directory:
+     * - Native Instance (useExternalPath: true) -> Use version folder
+     * - Native Instance -> Isolated in instances/<id>
+     * - Imported Version WITH mods/config -> Use version folder (TLauncher style)
+     * - Imported Version without custom content -> Use shared .minecraft
+     */
+    static resolveGameDirectory(instanceId: string, versionId: string, gamePath: string, instancesRoot: string): GameDirectory {
+        const instanceRootPath = path.join(instancesRoot, instanceId);
+        const isNativeInstance = fs.existsSync(instanceRootPath);
+        let useExternalPath = false;
+
+        if (isNativeInstance) {
+            const configPath = path.join(instanceRootPath, 'instance.json');
+            if (fs.existsSync(configPath)) {
+                try {
+                    const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+                    if (config.useExternalPath) {
+                        useExternalPath = true;
+                    }
+                } catch (e) {
+                    console.error("[LaunchPlanner] Failed to read instance config", e);
+                }
+            }
+        }
+
+        // For TLauncher/custom versions, check if the version folder has mods/configs
+        // If so, use the version folder as gameDir (TLauncher's "version isolation" behavior)
+        const versionFolder = path.join(gamePath, 'versions', versionId);
+        const versionHasCustomContent = fs.existsSync(path.join(versionFolder, 'mods'))
+            || fs.existsSync(path.join(versionFolder, 'config'));
+
+        const gameDir = (isNativeInstance && !useExternalPath)
+            ? instanceRootPath
+            : (useExternalPath || versionHasCustomContent ? versionFolder : gamePath);
+
+        return { isNativeInstance, gameDir };
+    }
+
+    /**
+     * Loads a version JSON (remote first, then versions/<id>/<id>.json) and resolves its inheritance chain.
+     */
+    static async loadVersion(versionId: string, gamePath: string, source: VersionSource): Promise<any> {
+        const data = await this.readVersionJson(versionId, gamePath, source);
+        if (!data) throw new Error("Could not fetch or find version details");
+        return await this.resolveInheritance(data, gamePath, source);
+    }
+
+    private static async readVersionJson(versionId: string, gamePath: string, source: VersionSource): Promise<any | null> {
+        let data: any = null;
+        try {
+            data = await source(versionId);
+        } catch (e) {
+            console.warn(`[LaunchPlanner] Failed to fetch remote version details for ${versionId}, falling back to local:`, e);
+        }
+
+        // Fallback: Local JSON (TLauncher/Custom/Loader profiles)
+        if (!data) {
+            const localJsonPath = path.join(gamePath, 'versions', versionId, `${versionId}.json`);
+            if (fs.existsSync(localJsonPath)) {
+                try {
+                    data = JSON.parse(fs.readFileSync(localJsonPath, 'utf-8'));
+                } catch (e) {
+                    console.error(`[LaunchPlanner] Failed to parse local JSON for ${versionId}`, e);
+                }
+            }
+        }
+
+        return data;
+    }
+
+    /**
+     * Merges a version with its parents (e.g. Fabric -> Vanilla). Child values override the parent.
+     */
+    static async resolveInheritance(data: any, gamePath: string, source: VersionSource): Promise<any> {
+        if (!data.inheritsFrom) return data;
+
+        let parentData = await this.readVersionJson(data.inheritsFrom, gamePath, source);
+        if (!parentData) {
+            throw new Error(`Parent version ${data.inheritsFrom} not found/resolved. Cannot launch.`);
+        }
+
+        parentData = await this.resolveInheritance(parentData, gamePath, source);
+
+        const merged = {
+            ...parentData,
+            ...data, // Child overrides parent
+            libraries: this.deduplicateLibraries([...(parentData.libraries || []), ...(data.libraries || [])])
+        };
+
+        // Only merge argument arrays when one side uses them, so legacy minecraftArguments keep working
+        if (parentData.arguments || data.arguments) {
+            // A legacy parent's implied JVM defaults (natives path, -cp) and its game string would
+            // otherwise be lost as soon as the child adds a single argument of its own
+            const legacyParent = !parentData.arguments;
+            const legacyGame = legacyParent && typeof merged.minecraftArguments === 'string'
+                ? merged.minecraftArguments.split(' ').filter((arg: string) => arg.length > 0)
+                : [];
+
+            merged.arguments = {
+                game: [...(legacyParent ? legacyGame : parentData.arguments.game || []), ...(data.arguments?.game || [])],
+                jvm: [...(legacyParent ? LEGACY_JVM_ARGS : parentData.arguments.jvm || []), ...(data.arguments?.jvm || [])]
+            };
+        }
+
+        return merged;
+    }
+
+    /**
+     * Deduplicates libraries by group:artifact[:classifier], keeping the last occurrence.
+     * Natives/classifiers are preserved while older versions of the same artifact are dropped.
+     */
+    static deduplicateLibraries(libs: any[]): any[] {
+        const libMap = new Map<string, any>();
+
+        libs.forEach(lib => {
+            if (!lib.name) return;
+
+            const parts = lib.name.split(':');
+            if (parts.length < 3) return;
+
+            let key = `${parts[0]}:${parts[1]}`;
+            if (parts.length > 3) {
+                key += `:${parts[3]}`;
+            }
+
+            libMap.set(key, lib);
+        });
+
+        return Array.from(libMap.values());
+    }
+
+    static resolveAssetIndex(version: any, assetsDir: string): { id: string; url?: string; path: string; download?: DownloadTask } {
+        const id = version.assetIndex?.id || version.assets || 'legacy';
+        const url = version.assetIndex?.url;
+        const indexPath = path.join(assetsDir, 'indexes', `${id}.json`);
+
+        let download: DownloadTask | undefined;
+        if (url && !fs.existsSync(indexPath)) {
+            download = {
+                url,
+                destination: indexPath,
+                sha1: version.assetIndex?.sha1,
+                size: version.assetIndex?.size,
+                priority: 15 // High priority for index
+            };
+        }
+
+        return { id, url, path: indexPath, download };
+    }
+
+    /**
+     * Layout the asset index asks for and the directory `${game_assets}` should point to.
+     * The index flags win when it is on disk; before its first download the well-known ids decide.
+     */
+    static resolveAssetLayout(indexId: string, indexPath: string, assetsDir: string, gameDir: string): { layout: AssetLayout; dir: string } {
+        let flags: { virtual?: boolean; map_to_resources?: boolean } = {
+            virtual: indexId === 'legacy',
+            map_to_resources: indexId === 'pre-1.6'
+        };
+
+        try {
+            if (fs.existsSync(indexPath)) {
+                const index = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+                flags = { virtual: !!index.virtual, map_to_resources: !!index.map_to_resources };
+            }
+        } catch {
+            // Unreadable index: it is re-downloaded on repair, keep the id-based guess
+        }
+
+        if (flags.map_to_resources) return { layout: 'resources', dir: path.join(gameDir, 'resources') };
+        if (flags.virtual) return { layout: 'virtual', dir: path.join(assetsDir, 'virtual', indexId) };
+        return { layout: 'hashed', dir: assetsDir };
+    }
+
+    static resolveClientJar(
+        version: any,
+        versionId: string,
+        instanceId: string,
+        isNativeInstance: boolean,
+        gamePath: string,
+        instancesRoot: string
+    ): { path: string; download?: DownloadTask } {
+        const sharedJarPath = path.join(gamePath, 'versions', versionId, `${versionId}.jar`);
+        const instanceJarPath = path.join(instancesRoot, instanceId, 'client.jar');
+        const client = version.downloads?.client;
+
+        let jarPath = isNativeInstance ? instanceJarPath : sharedJarPath;
+
+        // If utilizing shared JAR and it exists, prefer it.
+        // Custom versions without a URL also fall back to an existing shared jar.
+        if (fs.existsSync(sharedJarPath) && (!isNativeInstance || !client?.url)) {
+            jarPath = sharedJarPath;
+        }
+
+        // Loader profiles (Forge/NeoForge/Fabric) expect the parent's jar as versions/<id>/<id>.jar,
+        // Forge's module layer only ignores it under that name.
+        if (version.inheritsFrom) {
+            jarPath = sharedJarPath;
+        }
+
+        let download: DownloadTask | undefined;
+        if (client?.url && !fs.existsSync(jarPath)) {
+            download = {
+                url: client.url,
+                destination: jarPath,
+                sha1: client.sha1,
+                size: client.size,
+                priority: 10
+            };
+        }
+
+        return { path: jarPath, download };
+    }
+
+    /**
+     * Applies library rules for the current OS and returns the classpath, the legacy natives jars
+     * and the missing files. Existing files are trusted to keep launches fast;
+     * IntegrityChecker does the full check on repair.
+     */
+    static collectLibraries(version: any, librariesDir: string, ruleContext: RuleContext): { classpath: string[]; nativeJars: NativeJar[]; downloads: DownloadTask[] } {
+        const classpath: string[] = [];
+        const nativeJars: NativeJar[] = [];
+        const downloads: DownloadTask[] = [];
+
+        (version.libraries || []).forEach((lib: any) => {
+            if (!ArgumentEvaluator.isAllowed(lib.rules, ruleContext)) return;
+
+            const native = this.resolveNativeArtifact(lib, librariesDir, ruleContext);
+            if (native) {
+                nativeJars.push({ path: native.destination, exclude: lib.extract?.exclude || [] });
+                if (native.url && !fs.existsSync(native.destination)) downloads.push(native);
+            }
+
+            const artifact = this.resolveLibraryArtifact(lib, librariesDir);
+            if (!artifact) return;
+
+            classpath.push(artifact.destination);
+
+            if (!fs.existsSync(artifact.destination)) {
+                if (artifact.url) {
+                    downloads.push(artifact);
+                } else {
+                    console.warn(`[LaunchPlanner] Missing library ${lib.name} and no URL found.`);
+                }
+            }
+        });
+
+        return { classpath, nativeJars, downloads };
+    }
+
+    /**
+     * Location, URL and checksum of a library's main artifact. The URL is empty when the
+     * library has no known source (installer-extracted Forge libraries). Natives-only libraries
+     * (lwjgl-platform and friends) have no main artifact and return null.
+     */
+    static resolveLibraryArtifact(lib: any, librariesDir: string): DownloadTask | null {
+        if (lib.natives && !lib.downloads?.artifact) return null;
+
+        if (lib.downloads && lib.downloads.artifact) {
+            // Standard Modern Format
+            const artifact = lib.downloads.artifact;
+            return {
+                url: artifact.url || '',
+                destination: path.join(librariesDir, artifact.path),
+                sha1: artifact.sha1,
+                size: artifact.size
+            };
+        }
+
+        if (lib.name) {
+            // Legacy / Maven Format (TLauncher/Forge): group:name:version
+            const parts = lib.name.split(':');
+            const group = parts[0].replace(/\./g, '/');
+            const artifactId = parts[1];
+            const libVersion = parts[2];
+            const filename = `${artifactId}-${libVersion}.jar`;
+            const relative = `${group}/${artifactId}/${libVersion}/${filename}`;
+
+            return {
+                url: (lib.url || 'https://libraries.minecraft.net/') + relative,
+                destination: path.join(librariesDir, ...relative.split('/'))
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Legacy natives jar (`natives` + `downloads.classifiers`) for the current OS, if the library has one.
+     * Newer versions list natives as ordinary libraries guarded by rules instead.
+     */
+    static resolveNativeArtifact(lib: any, librariesDir: string, ruleContext: RuleContext): DownloadTask | null {
+        const osName = ArgumentEvaluator.osName(ruleContext.platform);
+        const classifier = osName && lib.natives?.[osName];
+        if (!classifier) return null;
+
+        const key = classifier.replace('${arch}', ruleContext.arch === 'ia32' ? '32' : '64');
+        const artifact = lib.downloads?.classifiers?.[key];
+        if (!artifact?.path) return null;
+
+        return {
+            url: artifact.url || '',
+            destination: path.join(librariesDir, artifact.path),
+            sha1: artifact.sha1,
+            size: artifact.size
+        };
+    }
+
+    /**
+     * Lists asset objects that are missing or whose size does not match the index.
+     * Requires the asset index to be on disk.
+     */
+    static collectAssetDownloads(plan: LaunchPlan, onCheck?: (checked: number, total: number) => void): DownloadTask[] {
+        if (!fs.existsSync(plan.assetIndex.path)) return [];
+
+        const assetIndex = JSON.parse(fs.readFileSync(plan.assetIndex.path, 'utf-8'));
+        const objectsDir = path.join(plan.assetsDir, 'objects');
+        const assets = assetIndex.objects || {};
+        const assetKeys = Object.keys(assets);
+        const downloads: DownloadTask[] = [];
+
+        assetKeys.forEach((assetKey, i) => {
+            const { hash, size } = assets[assetKey];
+
+            // Asset path follows Minecraft structure: objects/[first 2 chars of hash]/[hash]
+            const hashPrefix = hash.substring(0, 2);
+            const assetPath = path.join(objectsDir, hashPrefix, hash);
+
+            if (!fs.existsSync(assetPath) || fs.statSync(assetPath).size !== size) {
+                downloads.push({
+                    url: `https://resources.download.minecraft.net/${hashPrefix}/${hash}`,
+                    destination: assetPath,
+                    sha1: hash,
+                    size,
+                    priority: 5 // Lower priority than libraries
+                });
+            }
+
+            if (onCheck && (i + 1) % 100 === 0) onCheck(i + 1, assetKeys.length);
+        });
+
+        return downloads;
+    }
+
+    /**
+     * Required Java major version, from version metadata or a heuristic on the version id
+     * (metadata is commonly missing from modloader profiles).
+     */
+    static resolveJavaVersion(version: any, versionId: string): string {
+        const declared = version.javaVersion?.majorVersion?.toString();
+        if (declared) return declared;
+
+        const v = versionId.match(/1\.(\d+)/);
+        if (!v || !v[1]) return '8';
+
+        const minor = parseInt(v[1]);
+        if (minor >= 21) return '21'; // 1.21+ needs Java 21
+        if (minor >= 20 && versionId.includes('1.20.5')) return '21'; // 1.20.5+ needs Java 21
+        if (minor >= 18) return '17'; // 1.18+ needs Java 17
+        if (minor === 17) return '16'; // 1.17 needs Java 16
+        return '8';
+    }
+
+    static createRuleContext(input: LaunchPlanInput): RuleContext {
+        const quickPlay = input.quickPlay;
+        return ArgumentEvaluator.createContext({
+            is_demo_user: false,
+            has_custom_resolution: !!input.resolution,
+            has_quick_plays_support: false,
+            is_quick_play_singleplayer: quickPlay?.type === 'singleplayer',
+            is_quick_play_multiplayer: quickPlay?.type === 'multiplayer',
+            is_quick_play_realms: quickPlay?.type === 'realms'
+        }, input.platform || process.platform, input.arch || process.arch);
+    }
+
+    /**
+     * Values for every `${placeholder}` the version JSON formats use.
+     */
+    static buildVariables(plan: LaunchPlan, input: LaunchPlanInput): Record<string, string> {
+        const { auth, resolution, quickPlay } = input;
+        const token = auth.token || '0';
+
+        return {
+            auth_player_name: auth.name,
+            auth_uuid: auth.uuid,
+            auth_access_token: token,
+            auth_session: `token:${token}:${auth.uuid}`,
+            auth_xuid: auth.xuid || '0',
+            clientid: auth.clientId || '0',
+            user_type: auth.type === 'microsoft' ? 'msa' : 'mojang',
+            user_properties: '{}',
+            version_name: plan.versionId,
+            version_type: plan.version.type || 'release',
+            game_directory: plan.gameDir,
+            assets_root: plan.assetsDir,
+            game_assets: plan.gameAssetsDir,
+            assets_index_name: plan.assetIndex.id,
+            natives_directory: plan.nativesDir,
+            library_directory: plan.librariesDir,
+            classpath: plan.classpath.join(path.delimiter),
+            classpath_separator: path.delimiter,
+            primary_jar: plan.clientJarPath,
+            launcher_name: LAUNCHER_BRAND,
+            launcher_version: LAUNCHER_VERSION,
+            resolution_width: String(resolution?.width ?? 854),
+            resolution_height: String(resolution?.height ?? 480),
+            quickPlayPath: path.join(plan.gameDir, 'quickPlay', 'log.json'),
+            quickPlaySingleplayer: quickPlay?.type === 'singleplayer' ? quickPlay.target : '',
+            quickPlayMultiplayer: quickPlay?.type === 'multiplayer' ? quickPlay.target : '',
+            quickPlayRealms: quickPlay?.type === 'realms' ? quickPlay.target : ''
+        };
+    }
+
+    /**
+     * Launcher flags (memory, proxy, preset, custom) followed by the version's own JVM arguments,
+     * which carry the natives path, the classpath and loader-specific flags such as Forge's module path.
+     */
+    static buildJvmArgs(plan: LaunchPlan, settings: LaunchSettings, ruleContext: RuleContext, vars: Record<string, string>): string[] {
+        const proxyArgs: string[] = [];
+        const proxy = settings.proxy;
+        if (proxy.enabled && proxy.host && proxy.port) {
+            if (proxy.type === 'http') {
+                proxyArgs.push(`-Dhttp.proxyHost=${proxy.host}`);
+                proxyArgs.push(`-Dhttp.proxyPort=${proxy.port}`);
+                proxyArgs.push(`-Dhttps.proxyHost=${proxy.host}`);
+                proxyArgs.push(`-Dhttps.proxyPort=${proxy.port}`);
+            } else if (proxy.type === 'socks') {
+                proxyArgs.push(`-DsocksProxyHost=${proxy.host}`);
+                proxyArgs.push(`-DsocksProxyPort=${proxy.port}`);
+            }
+        }
+
+        return [
+            `-Xms${plan.minRam}M`,
+            `-Xmx${plan.maxRam}M`,
+            ...proxyArgs,
+            ...(PRESET_FLAGS[settings.jvmPreset] || []),
+            ...settings.jvmArgs,
+            '-Dminecraft.client.jar=' + plan.clientJarPath,
+            ...ArgumentEvaluator.jvmArguments(plan.version, ruleContext, vars)
+        ];
+    }
+
+    /**
+     * The version's game arguments plus window options it cannot express itself:
+     * legacy versions have no resolution placeholders and none have a fullscreen one.
+     */
+    static buildGameArgs(version: any, input: LaunchPlanInput, ruleContext: RuleContext, vars: Record<string, string>): string[] {
+        const args = ArgumentEvaluator.gameArguments(version, ruleContext, vars);
+
+        // Modern versions add these through has_custom_resolution; legacy strings (even merged into a child's arguments) can't
+        if (input.resolution && !args.includes('--width')) {
+            args.push('--width', String(input.resolution.width), '--height', String(input.resolution.height));
+        }
+        if (input.fullscreen) {
+            args.push('--fullscreen');
+        }
+
+        return args;
+    }
+
+    static buildArgv(plan: LaunchPlan): string[] {
+        return [...plan.wrapper, plan.javaPath || 'java', ...plan.jvmArgs, plan.mainClass, ...plan.gameArgs];
+    }
+
+    /**
+     * Splits a command line on whitespace, honouring single and double quotes.
+     */
+    static splitCommand(command: string): string[] {
+        const parts: string[] = [];
+        const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(command)) !== null) {
+            parts.push(match[1] ?? match[2] ?? match[3]);
+        }
+        return parts;
+    }
+}
@@ -1,18 +1,42 @@
-import { app, ipcMain, BrowserWindow } from 'electron';
+import { app, ipcMain, BrowserWindow, IpcMainEvent, IpcMainInvokeEvent } from 'electron';
 import path from 'path';
 import fs from 'fs';
-import { AssetDownloader, DownloadTask } from './AssetDownloader';
+import { AssetDownloader, DownloadBatchError, DownloadProgress, DownloadTask } from './AssetDownloader';
 import { JavaManager } from './JavaManager';
 import { spawn } from 'child_process';
+import AdmZip from 'adm-zip';
 import { VersionManager } from './VersionManager';
+import { LaunchPlanner, LaunchPlan } from './LaunchPlanner';
+import { IntegrityChecker, IntegrityIssue } from './IntegrityChecker';
 import { ConfigManager } from '../managers/ConfigManager';
+import { InstanceManager } from '../managers/InstanceManager';
 import { LogWindowManager } from '../managers/LogWindowManager';
 import { CloudManager } from '../managers/CloudManager';
 import { DiscordManager } from '../managers/DiscordManager';
+import { PlaytimeManager } from '../managers/PlaytimeManager';
+import { GameProcessRegistry } from './GameProcessRegistry';
+import { GameLogManager } from '../managers/GameLogManager';
+
+// Repair and the offline check only need file locations, not a real account
+const PLACEHOLDER_AUTH = { name: 'Player', uuid: '00000000-0000-0000-0000-000000000000' };
+
+export interface OfflineMissingItem {
+    kind: 'version' | 'client' | 'assetIndex' | 'library' | 'asset' | 'java';
+    name: string;
+    path?: string;
+}
+
+export interface OfflineReadiness {
+    // Missing assets don't block a launch, everything else does
+    ready: boolean;
+    missing: OfflineMissingItem[];
+}
 
 export class LaunchProcess {
     private downloader: AssetDownloader;
     private javaManager: JavaManager;
+    // Instances between game:launch and spawn; the registry only knows them once the process exists
+    private launching = new Set<string>();
 
     constructor() {
         this.downloader = new AssetDownloader();
@@ -21,7 +45,42 @@ export class LaunchProcess {
     }
 
     private registerListeners() {
+        // Dry-run: compute what would be launched without downloading or spawning anything
+        ipcMain.handle('game:plan', async (_, instanceId: string, versionId: string, authData: any) => {
+            try {
+                let plan = await this.buildPlan(instanceId, versionId, authData);
+                const javaPath = this.findJava(plan);
+                if (javaPath) plan = LaunchPlanner.withJava(plan, javaPath);
+                return { success: true, plan: this.redactPlan(plan, authData?.token) };
+            } catch (error) {
+                console.error("[Launch] Failed to build launch plan", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:repair', async (event, instanceId: string, versionId: string) => {
+            try {
+                return await this.repairInstance(instanceId, versionId, event);
+            } catch (error) {
+                console.error("[Repair] Failed to repair instance", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:check-offline-ready', async (_, instanceId: string, versionId: string) => {
+            try {
+                return await this.checkOfflineReady(instanceId, versionId);
+            } catch (error) {
+                console.error("[Launch] Offline check failed", error);
+                return { ready: false, missing: [], error: String(error) };
+            }
+        });
+
         ipcMain.handle('game:launch', async (event, instanceId: string, _unusedPath: string, versionId: string, authData: any) => {
+            if (this.launching.has(instanceId) || GameProcessRegistry.getInstance().isRunning(instanceId)) {
+                return { success: false, error: `${instanceId} is already running` };
+            }
+
             // Trigger Cloud Sync
             try {
                 // Construct synthetic instance object for sync
@@ -43,7 +102,7 @@ export class LaunchProcess {
                 // We assume if authData.type === 'supabase', token is valid for RLS.
                 // If authData.type === 'mojang' or 'offline', we likely CANNOT sync to RLS tables.
 
-                if (authData.type === 'supabase') {
+                if (authData.type === 'supabase' && !ConfigManager.getOfflineMode()) {
                     CloudManager.getInstance().syncInstance(instanceObj, authData.uuid, authData.token);
                 }
             } catch (e) {
@@ -62,722 +121,657 @@ export class LaunchProcess {
             // Window Management
             const mainWindow = BrowserWindow.fromWebContents(event.sender);
 
-            const gamePath = ConfigManager.getGamePath();
-            const instancesRoot = ConfigManager.getInstancesPath();
+            this.launching.add(instanceId);
+            try {
+                if (await this.confirmModIssues(instanceId, event) === 'cancel') {
+                    return { success: false, cancelled: true, error: 'Launch cancelled' };
+                }
 
-            // Determine if this is a native instance or imported
-            const instanceRootPath = path.join(instancesRoot, instanceId);
-            let isNativeInstance = fs.existsSync(instanceRootPath);
-            let useExternalPath = false;
+                const plan = await this.buildPlan(instanceId, versionId, authData);
+                await this.executePlan(plan, authData, event, mainWindow);
+                return { success: true };
+            } catch (error) {
+                console.error("Launch failed", error);
+                // Ensure window is back if we crashed synchronously
+                mainWindow?.show();
+                return { success: false, error: String(error) };
+            } finally {
+                this.launching.delete(instanceId);
+            }
+        });
+    }
 
-            if (isNativeInstance) {
-                const configPath = path.join(instanceRootPath, 'instance.json');
-                if (fs.existsSync(configPath)) {
-                    try {
-                        const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-                        if (config.useExternalPath) {
-                            useExternalPath = true;
-                        }
-                    } catch (e) {
-                        console.error("[Launch] Failed to read instance config", e);
-                    }
-                }
+    /**
+     * Checks the instance's mods before launch. When any would stop the game from loading, the
+     * renderer is shown them (with whatever fixes were found) and decides whether to go ahead.
+     * A check that fails itself never blocks the launch.
+     */
+    private async confirmModIssues(instanceId: string, event: IpcMainInvokeEvent): Promise<'launch' | 'cancel'> {
+        let result: Awaited<ReturnType<InstanceManager['checkMods']>>;
+        try {
+            event.sender.send('launch:progress', { status: 'Checking mods...', progress: 0, total: 100 });
+            result = await InstanceManager.getInstance().checkMods(instanceId);
+        } catch (e) {
+            console.warn('[Launch] Mod check failed, launching anyway:', e);
+            return 'launch';
+        }
+        if (!result.issues.some(issue => issue.severity === 'error')) return 'launch';
+
+        console.log(`[Launch] ${result.issues.length} mod issue(s) in ${instanceId}, asking the user`);
+        const sender = event.sender;
+
+        return new Promise<'launch' | 'cancel'>((resolve) => {
+            const finish = (action: 'launch' | 'cancel') => {
+                ipcMain.off('mod-check-consent', onConsent);
+                sender.off('did-navigate', onGone);
+                sender.off('render-process-gone', onGone);
+                sender.off('destroyed', onGone);
+                resolve(action);
+            };
+            const onConsent = (consentEvent: IpcMainEvent, id: string, action: 'launch' | 'cancel') => {
+                if (consentEvent.sender !== sender || id !== instanceId) return;
+                finish(action === 'launch' ? 'launch' : 'cancel');
+            };
+            // A reloaded or closed window has lost the prompt and can never answer it
+            const onGone = () => {
+                console.log(`[Launch] Window went away while asking about ${instanceId}'s mods, cancelling`);
+                finish('cancel');
+            };
+
+            ipcMain.on('mod-check-consent', onConsent);
+            sender.on('did-navigate', onGone);
+            sender.on('render-process-gone', onGone);
+            sender.on('destroyed', onGone);
+            sender.send('mod-check-request', { instanceId, ...result });
+        });
+    }
+
+    /**
+     * Computes the launch plan for an instance: the instance's overrides merged over the global config.
+     * Offline, version JSONs come only from disk and the metadata cache.
+     */
+    private async buildPlan(instanceId: string, versionId: string, authData: any, offline = ConfigManager.getOfflineMode()): Promise<LaunchPlan> {
+        const overrides = InstanceManager.getInstance().getOverrides(instanceId);
+
+        return await LaunchPlanner.create({
+            instanceId,
+            versionId,
+            auth: authData,
+            javaBinding: overrides.javaPath,
+            resolution: overrides.resolution,
+            fullscreen: overrides.fullscreen,
+            wrapperCommand: overrides.wrapperCommand,
+            env: overrides.env,
+            preLaunchCommand: overrides.preLaunchCommand,
+            postExitCommand: overrides.postExitCommand,
+            gamePath: ConfigManager.getGamePath(),
+            instancesRoot: ConfigManager.getInstancesPath(),
+            settings: {
+                minRam: overrides.minRam ?? ConfigManager.getMinRam(),
+                maxRam: overrides.maxRam ?? ConfigManager.getMaxRam(),
+                jvmPreset: overrides.jvmPreset ?? ConfigManager.getJvmPreset(),
+                jvmArgs: [...ConfigManager.getJvmArgs(), ...(overrides.jvmArgs || [])],
+                proxy: ConfigManager.getProxy()
             }
+        }, offline
+            ? async (id) => VersionManager.getCachedVersionDetails(id)
+            : (id) => VersionManager.getVersionDetails(id));
+    }
+
+    /**
+     * Java that would be used without installing anything: the instance binding,
+     * then the configured path, else a managed runtime.
+     */
+    private findJava(plan: LaunchPlan): string | null {
+        if (plan.javaBinding) return plan.javaBinding;
+        const configJavaPath = ConfigManager.getJavaPath(plan.javaVersion);
+        if (configJavaPath && configJavaPath !== 'auto') return configJavaPath;
+        return this.javaManager.findInstalledJava(plan.javaVersion, plan.javaComponent);
+    }
 
-            // For TLauncher/custom versions, check if the version folder has mods/configs
-            // If so, use the version folder as gameDir (TLauncher's "version isolation" behavior)
-            const versionFolder = path.join(gamePath, 'versions', versionId);
-            const versionHasMods = fs.existsSync(path.join(versionFolder, 'mods'));
-            const versionHasConfig = fs.existsSync(path.join(versionFolder, 'config'));
-            const versionHasCustomContent = versionHasMods || versionHasConfig;
-
-            // Determine game directory:
-            // - Native Instance (useExternalPath: true) -> Use version folder
-            // - Native Instance -> Isolated in instances/<id>
-            // - Imported Version WITH mods/config -> Use version folder (TLauncher style)
-            // - Imported Version without custom content -> Use shared .minecraft
-            let instancePath = (isNativeInstance && !useExternalPath)
-                ? instanceRootPath
-                : (useExternalPath || versionHasCustomContent ? versionFolder : gamePath);
+    /**
+     * Strips the access token before a plan is handed to the renderer.
+     */
+    private redactPlan(plan: LaunchPlan, token?: string): LaunchPlan {
+        if (!token) return plan;
+        const redact = (args: string[]) => args.map(arg => arg.split(token).join('********'));
+        return { ...plan, gameArgs: redact(plan.gameArgs), argv: redact(plan.argv) };
+    }
+
+    /**
+     * Downloads whatever the plan is missing, binds Java and spawns the game.
+     * In offline mode nothing is downloaded: missing required files or Java fail the launch up front.
+     */
+    private async executePlan(plan: LaunchPlan, authData: any, event: IpcMainInvokeEvent, mainWindow: BrowserWindow | null) {
+        const { instanceId, versionId } = plan;
+        const offline = ConfigManager.getOfflineMode();
+
+        // Ensure directories
+        if (!fs.existsSync(plan.librariesDir)) fs.mkdirSync(plan.librariesDir, { recursive: true });
+        if (!fs.existsSync(plan.assetsDir)) fs.mkdirSync(plan.assetsDir, { recursive: true });
+        if (!fs.existsSync(plan.nativesDir)) fs.mkdirSync(plan.nativesDir, { recursive: true });
+
+        // 1. Libraries, client jar and asset index
+        if (offline && plan.downloads.length > 0) {
+            const names = plan.downloads.slice(0, 3).map(task => path.basename(task.destination)).join(', ');
+            const more = plan.downloads.length > 3 ? ` and ${plan.downloads.length - 3} more` : '';
+            throw new Error(`Offline mode: ${plan.downloads.length} required file(s) are missing (${names}${more}). Go online once to download them.`);
+        }
+
+        if (plan.downloads.length > 0) {
+            DiscordManager.getInstance().updatePresence({
+                details: `Launching ${instanceId}`,
+                state: 'Downloading game files...',
+                largeImageKey: 'logo',
+                largeImageText: 'Whoap Launcher',
+            });
+
+            event.sender.send('launch:progress', { status: 'Downloading files...', progress: 0, total: plan.downloads.length });
 
             try {
-                // 1. Fetch Version Data
-                // Try remote first
-                let versionData: any = null;
-                try {
-                    versionData = await VersionManager.getVersionDetails(versionId);
-                } catch (e) {
-                    console.warn("[Launch] Failed to fetch remote version details, falling back to local:", e);
+                await this.runDownloads(plan.downloads, event, 'Downloading...');
+            } catch (e: any) {
+                // The queue only contains missing files, so a failure here means we cannot launch.
+                console.error("[Launch] Download failed:", e.message);
+                if (e instanceof DownloadBatchError) {
+                    e.failures.forEach(f => console.error(`[Launch]   ${f.destination}: ${f.error}`));
                 }
+                throw new Error(`Failed to download required files: ${e.message}. Please check your connection.`);
+            }
+        }
 
-                // Fallback: Local JSON (TLauncher/Custom)
-                if (!versionData) {
-                    const localJsonPath = path.join(gamePath, 'versions', versionId, `${versionId}.json`);
-                    if (fs.existsSync(localJsonPath)) {
-                        console.log("Loading local version JSON...");
-                        try {
-                            versionData = JSON.parse(fs.readFileSync(localJsonPath, 'utf-8'));
-                        } catch (e) {
-                            console.error("Failed to parse local JSON", e);
-                        }
+        // 2. Missing/Corrupt Assets
+        if (plan.assetIndex.url && fs.existsSync(plan.assetIndex.path)) {
+            event.sender.send('launch:progress', { status: 'Checking assets...', progress: 0, total: 100 });
+
+            try {
+                const assetDownloads = LaunchPlanner.collectAssetDownloads(plan, (checked, total) => {
+                    event.sender.send('launch:progress', {
+                        status: `Checking assets... ${checked}/${total}`,
+                        progress: checked,
+                        total
+                    });
+                });
+
+                if (offline && assetDownloads.length > 0) {
+                    console.warn(`[Launch] Offline mode: ${assetDownloads.length} assets missing, launching without them`);
+                } else if (assetDownloads.length > 0) {
+                    console.log(`[Launch] Downloading ${assetDownloads.length} missing/corrupt assets...`);
+                    event.sender.send('launch:progress', {
+                        status: `Downloading ${assetDownloads.length} assets...`,
+                        progress: 0,
+                        total: assetDownloads.length
+                    });
+
+                    try {
+                        await this.runDownloads(assetDownloads, event, 'Downloading assets...');
+                    } catch (e: any) {
+                        // Missing textures are better than no game at all
+                        console.warn("[Launch] Failed to download assets, likely offline. Launching anyway...", e);
                     }
                 }
+            } catch (e) {
+                console.error('[Launch] Failed to process asset index:', e);
+                // Continue launch even if asset check fails
+            }
+        }
 
-                if (!versionData) throw new Error("Could not fetch or find version details");
+        // Pre-1.7.3 versions read plain files instead of hashed objects, and LWJGL 2 natives come as jars
+        if (plan.assetLayout !== 'hashed') {
+            event.sender.send('launch:progress', { status: 'Preparing legacy assets...', progress: 0, total: 100 });
+            await this.unpackLegacyAssets(plan);
+        }
+        if (plan.nativeJars.length > 0) {
+            this.extractNatives(plan);
+        }
 
-                // Helper to deduplicate libraries by artifact ID
-                const deduplicateLibraries = (libs: any[]) => {
-                    const libMap = new Map<string, any>();
+        // 3. Java
+        event.sender.send('launch:progress', { status: 'Verifying Java...', progress: 99, total: 100 });
 
-                    libs.forEach(lib => {
-                        if (!lib.name) return; // Should not happen for standard libraries
+        const configJavaPath = ConfigManager.getJavaPath(plan.javaVersion);
+        let javaPath: string;
 
-                        // Parse "group:artifact:version:classifier"
-                        const parts = lib.name.split(':');
-                        if (parts.length < 3) return;
+        if (plan.javaBinding) {
+            javaPath = plan.javaBinding;
+        } else if (configJavaPath && configJavaPath !== 'auto') {
+            javaPath = configJavaPath;
+        } else if (offline) {
+            const installed = this.javaManager.findInstalledJava(plan.javaVersion, plan.javaComponent);
+            if (!installed) {
+                throw new Error(`Offline mode: Java ${plan.javaVersion} is not installed. Go online once to install it, or pick an installed Java in Settings.`);
+            }
+            javaPath = installed;
+        } else {
+            try {
+                javaPath = await this.javaManager.ensureJava(plan.javaVersion, (status, progress) => {
+                    event.sender.send('launch:progress', {
+                        status: status,
+                        progress: progress,
+                        total: 100
+                    });
+                    // Forward specific java progress to the modal too, if it's open
+                    event.sender.send('java-install-progress', { requestId: instanceId, status, progress });
+                }, JavaManager.askInstall(event.sender, instanceId, true), plan.javaComponent);
+            } finally {
+                // Closes this launch's modal, whether the runtime installed or not
+                if (!event.sender.isDestroyed()) event.sender.send('java-install-done', instanceId);
+            }
+        }
 
-                        // IDKey = group:artifact[:classifier]
-                        // We must preserve natives/classifiers, but deduplicate versions of the same artifact.
-                        let key = `${parts[0]}:${parts[1]}`;
-                        if (parts.length > 3) {
-                            key += `:${parts[3]}`;
-                        }
+        // Use javaw.exe on windows to avoid console window creation
+        if (process.platform === 'win32' && javaPath.endsWith('java.exe')) {
+            javaPath = javaPath.replace('java.exe', 'javaw.exe');
+        }
 
-                        // Overwrite with latest
-                        libMap.set(key, lib);
-                    });
+        plan = LaunchPlanner.withJava(plan, javaPath);
 
-                    return Array.from(libMap.values());
-                };
+        const launchBehavior = ConfigManager.getLaunchBehavior();
+        const showConsole = ConfigManager.getShowConsoleOnLaunch();
 
-                // Resolve Inheritance (e.g. Fabric -> Vanilla)
-                // We do this concurrently to ensure we have all data (libraries, client jar, etc.)
-                const resolveInheritance = async (data: any): Promise<any> => {
-                    if (data.inheritsFrom) {
-                        let parentData = await VersionManager.getVersionDetails(data.inheritsFrom);
-
-                        if (!parentData) {
-                            const parentLocalPath = path.join(gamePath, 'versions', data.inheritsFrom, `${data.inheritsFrom}.json`);
-                            if (fs.existsSync(parentLocalPath)) {
-                                try { parentData = JSON.parse(fs.readFileSync(parentLocalPath, 'utf-8')); } catch { }
-                            }
-                        }
+        // Show log window if enabled (before hooks so their output is visible)
+        if (showConsole) {
+            LogWindowManager.create(instanceId);
+        }
 
-                        if (parentData) {
-                            parentData = await resolveInheritance(parentData); // Recursive
-
-                            // Merge and Deduplicate Libraries
-                            const allLibraries = [...(parentData.libraries || []), ...(data.libraries || [])];
-                            const uniqueLibraries = deduplicateLibraries(allLibraries);
-
-                            const merged = {
-                                ...parentData,
-                                ...data, // Child overrides parent
-                                libraries: uniqueLibraries,
-                                arguments: { // Merge args complex object
-                                    game: [...(parentData.arguments?.game || []), ...(data.arguments?.game || [])],
-                                    jvm: [...(parentData.arguments?.jvm || []), ...(data.arguments?.jvm || [])]
-                                }
-                            };
-                            return merged;
-                        } else {
-                            console.error(`[Launch] Failed to find parent version ${data.inheritsFrom}!`);
-                            throw new Error(`Parent version ${data.inheritsFrom} not found/resolved. Cannot launch.`);
-                        }
-                    } else {
-                        console.log(`[Launch] No inheritance for ${data.id}`);
-                    }
-                    return data;
-                };
+        // 4. Pre-launch command; a failure aborts the launch
+        if (plan.preLaunchCommand) {
+            event.sender.send('launch:progress', { status: 'Running pre-launch command...', progress: 99, total: 100 });
+            const code = await this.runHook(plan.preLaunchCommand, plan, showConsole);
+            if (code !== 0) {
+                throw new Error(`Pre-launch command exited with code ${code}`);
+            }
+        }
 
-                versionData = await resolveInheritance(versionData);
-
-                // Reuse shared folders
-                const librariesDir = path.join(gamePath, 'libraries');
-                const assetsDir = path.join(gamePath, 'assets');
-                // For imported versions, natives go to versions/<ver>/natives
-                // For instances, they go to instances/<id>/natives
-                const nativesDir = isNativeInstance
-                    ? path.join(instancePath, 'natives')
-                    : path.join(gamePath, 'versions', versionId, 'natives');
-
-                // Client JAR
-                const sharedJarPath = path.join(gamePath, 'versions', versionId, `${versionId}.jar`);
-                const instanceJarPath = path.join(instancesRoot, instanceId, 'client.jar');
-
-                let clientJarPath = isNativeInstance ? instanceJarPath : sharedJarPath;
-
-                let clientJarUrl = versionData.downloads?.client?.url;
-                let clientJarSha1 = versionData.downloads?.client?.sha1;
-                let clientJarSize = versionData.downloads?.client?.size;
-
-                // If utilizing shared JAR and it exists, prefer it
-                if (!isNativeInstance && fs.existsSync(sharedJarPath)) {
-                    clientJarPath = sharedJarPath;
-                } else if (!clientJarUrl && fs.existsSync(sharedJarPath)) {
-                    // Fallback if no URL but file exists (custom versions)
-                    clientJarPath = sharedJarPath;
-                }
+        // 5. Spawn
+        // Handle window based on launch behavior
+        if (launchBehavior === 'hide') {
+            mainWindow?.hide();
+        } else if (launchBehavior === 'minimize') {
+            mainWindow?.minimize();
+        }
+        // 'keep' = keep launcher open, do nothing
 
-                // Ensure directories
-                if (!fs.existsSync(librariesDir)) fs.mkdirSync(librariesDir, { recursive: true });
-                if (!fs.existsSync(assetsDir)) fs.mkdirSync(assetsDir, { recursive: true });
-                if (!fs.existsSync(nativesDir)) fs.mkdirSync(nativesDir, { recursive: true });
-
-                // 2. Queue Downloads
-                const downloads: DownloadTask[] = [];
-
-                // 2.1 Download Asset Index and Assets
-                const assetIndexId = versionData.assetIndex?.id || versionData.assets || 'legacy';
-                const assetIndexUrl = versionData.assetIndex?.url;
-                const assetIndexPath = path.join(assetsDir, 'indexes', `${assetIndexId}.json`);
-
-                if (assetIndexUrl) {
-                    // Ensure indexes directory exists
-                    const indexesDir = path.join(assetsDir, 'indexes');
-                    if (!fs.existsSync(indexesDir)) fs.mkdirSync(indexesDir, { recursive: true });
-
-                    // Download asset index if missing or check existing
-                    if (!fs.existsSync(assetIndexPath)) {
-                        downloads.push({
-                            url: assetIndexUrl,
-                            destination: assetIndexPath,
-                            sha1: versionData.assetIndex?.sha1,
-                            size: versionData.assetIndex?.size,
-                            priority: 15 // High priority for index
-                        });
+        // Every session is written to disk, whether or not the console is shown
+        const gameLogs = GameLogManager.getInstance();
+        gameLogs.startSession(instanceId);
 
-                        console.log(`[Launch] Asset index will be downloaded: ${assetIndexId}`);
-                    }
-                }
+        const launchInfo = [`Starting ${instanceId} (${versionId})...`, `Java: ${javaPath}`, `RAM: ${plan.minRam}MB - ${plan.maxRam}MB`];
+        if (plan.wrapper.length > 0) {
+            launchInfo.push(`Wrapper: ${plan.wrapper.join(' ')}`);
+        }
+        for (const line of launchInfo) {
+            gameLogs.write(instanceId, line, 'info');
+            if (showConsole) LogWindowManager.send(instanceId, line, 'info');
+        }
 
+        // Auto-configure Skin Loader if present
+        await this.ensureSkinConfig(plan.gameDir, authData);
 
-                // Only download client if we have a URL and (it's missing OR we want to verify)
-                // For imported versions, if it exists, assume it's good (TLauncher logic)
-                if (clientJarUrl && !fs.existsSync(clientJarPath)) {
-                    downloads.push({
-                        url: clientJarUrl,
-                        destination: clientJarPath,
-                        sha1: clientJarSha1,
-                        size: clientJarSize,
-                        priority: 10
-                    });
-                }
+        DiscordManager.getInstance().updatePresence({
+            details: `Playing ${instanceId}`,
+            state: `Version ${versionId}`,
+            largeImageKey: 'logo',
+            largeImageText: 'Whoap Launcher',
+            startTimestamp: Date.now()
+        });
 
-                // Libraries match
-                const cpLibraries: string[] = [];
-                if (versionData.libraries) {
-                    versionData.libraries.forEach((lib: any) => {
-                        // Rules Check
-                        if (lib.rules) {
-                            let allowed = false;
-                            if (lib.rules.some((r: any) => r.action === 'allow' && !r.os)) allowed = true;
-                            const osName = process.platform === 'win32' ? 'windows' : process.platform === 'darwin' ? 'osx' : 'linux';
-                            if (lib.rules.some((r: any) => r.action === 'allow' && r.os?.name === osName)) allowed = true;
-                            if (lib.rules.some((r: any) => r.action === 'disallow' && r.os?.name === osName)) allowed = false;
-                            if (!allowed) return;
-                        }
+        const [command, ...args] = plan.argv;
+        const gameProcess = spawn(command, args, {
+            cwd: plan.gameDir,
+            env: { ...process.env, ...plan.env },
+            detached: false, // Keep attached to main process to avoid new terminal window
+            stdio: 'pipe'
+        });
 
-                        // Path Resolution
-                        let libPath = '';
-                        let libUrl = '';
-                        let libSha1 = '';
-                        let libSize = 0;
-
-                        if (lib.downloads && lib.downloads.artifact) {
-                            // Standard Modern Format
-                            libPath = path.join(librariesDir, lib.downloads.artifact.path);
-                            libUrl = lib.downloads.artifact.url;
-                            libSha1 = lib.downloads.artifact.sha1;
-                            libSize = lib.downloads.artifact.size;
-                        } else if (lib.name) {
-                            // Legacy / Maven Format (TLauncher/Forge)
-                            // Format: group:name:version
-                            const parts = lib.name.split(':');
-                            const group = parts[0].replace(/\./g, path.sep); // com.example -> com/example
-                            const artifactId = parts[1];
-                            const version = parts[2];
-                            const filename = `${artifactId}-${version}.jar`;
-
-                            libPath = path.join(librariesDir, group, artifactId, version, filename);
-
-                            // Try to guess URL if missing? usually libraries.minecraft.net OR maven central
-                            // But usually local versions assume files exist or providing a `url` field in the ID root.
-                            if (lib.url) {
-                                libUrl = lib.url + `${group.replace(/\\/g, '/')}/${artifactId}/${version}/${filename}`;
-                            } else {
-                                // Default repo fallback?
-                                libUrl = `https://libraries.minecraft.net/${group.replace(/\\/g, '/')}/${artifactId}/${version}/${filename}`;
-                            }
-                        }
+        const registry = GameProcessRegistry.getInstance();
+        registry.register(instanceId, versionId, gameProcess);
 
-                        if (libPath) {
-                            cpLibraries.push(libPath);
-
-                            // Download if missing or check validity
-                            // For local/imported versions, we act robust: if it exists, use it.
-                            const exists = fs.existsSync(libPath);
-                            if (!exists) {
-                                if (libUrl) {
-                                    downloads.push({
-                                        url: libUrl,
-                                        destination: libPath,
-                                        sha1: libSha1,
-                                        size: libSize
-                                    });
-                                } else {
-                                    console.warn(`[Launch] Missing library ${lib.name} and no URL found.`);
-                                }
-                            } else if (authData.type !== 'offline') {
-                                // Online: We can optionally verify SHA1 if strict.
-                                // But for now we trust existing files to speed up launch, 
-                                // unless user forces "repair".
-                            }
-                        }
-                    });
-                }
+        // Only a process that actually started counts as a session
+        let sessionStart: number | null = null;
+        gameProcess.once('spawn', () => {
+            sessionStart = Date.now();
+        });
 
-                // 3. Start Downloads
-                if (downloads.length > 0) {
-                    // Check only connectivity if we have downloads?
-                    // Actually, let the downloader try. If it fails, we catch it.
-                    // But maybe we want to fail faster if we know we are offline?
-                    // For now, let's rely on downloader error, but catch it specifically.
-
-                    DiscordManager.getInstance().updatePresence({
-                        details: `Launching ${instanceId}`,
-                        state: 'Downloading game files...',
-                        largeImageKey: 'logo',
-                        largeImageText: 'Whoap Launcher',
-                    });
+        gameProcess.stdout.on('data', (d) => {
+            const str = d.toString();
+            registry.appendLog(instanceId, str);
+            gameLogs.write(instanceId, str, 'stdout');
+            if (showConsole) {
+                LogWindowManager.send(instanceId, str, 'stdout');
+            }
+        });
 
-                    event.sender.send('launch:progress', { status: 'Downloading files...', progress: 0, total: downloads.length });
-                    this.downloader.addToQueue(downloads);
+        gameProcess.stderr.on('data', (d) => {
+            const str = d.toString();
+            registry.appendLog(instanceId, str);
+            gameLogs.write(instanceId, str, 'stderr');
+            if (showConsole) {
+                LogWindowManager.send(instanceId, str, 'stderr');
+            }
+        });
 
-                    try {
-                        await new Promise<void>((resolve, reject) => {
-                            this.downloader.on('done', resolve);
-                            this.downloader.on('error', reject);
-                            let lastProgress = 0;
-                            this.downloader.on('progress', (p) => {
-                                const now = Date.now();
-                                if (now - lastProgress > 200) {
-                                    event.sender.send('launch:progress', {
-                                        status: `Downloading... ${(p.current / 1024 / 1024).toFixed(1)}MB`,
-                                        progress: p.current,
-                                        total: p.total
-                                    });
-                                    lastProgress = now;
-                                }
-                            });
+        // Window and presence belong to the launcher as a whole; only hand them back once the last game is gone
+        const restoreLauncher = () => {
+            const stillRunning = registry.list();
+            if (stillRunning.length > 0) {
+                const other = stillRunning[stillRunning.length - 1];
+                DiscordManager.getInstance().updatePresence({
+                    details: `Playing ${other.instanceId}`,
+                    state: `Version ${other.versionId}`,
+                    largeImageKey: 'logo',
+                    largeImageText: 'Whoap Launcher',
+                    startTimestamp: other.startTime
+                });
+                return;
+            }
+
+            // Show Launcher
+            mainWindow?.show();
+            mainWindow?.focus();
+
+            // Restore Menu Presence
+            DiscordManager.getInstance().updatePresence({
+                details: 'Browsing Menu',
+                state: 'Ready to play',
+                largeImageKey: 'logo',
+                largeImageText: 'Whoap Launcher',
+                startTimestamp: Date.now()
+            });
+        };
+
+        gameProcess.on('error', (err) => {
+            console.error("Failed to start game process", err);
+            event.sender.send('launch:error', err.message);
+            gameLogs.write(instanceId, `Launch Error: ${err.message}`, 'info');
+            gameLogs.endSession(instanceId);
+            if (showConsole) {
+                LogWindowManager.send(instanceId, `Launch Error: ${err.message}`, 'stderr');
+            }
+            if (registry.unregister(instanceId)) restoreLauncher();
+        });
+
+        gameProcess.on('close', (code) => {
+            LogWindowManager.end(instanceId);
+            gameLogs.write(instanceId, `Game exited with code ${code}`, 'info');
+            gameLogs.endSession(instanceId);
+            const game = registry.unregister(instanceId);
+            // Already handled by 'error'
+            if (!game) return;
+
+            // Stopping a game from the launcher isn't a crash
+            const crashed = code !== 0 && !game.killed;
+
+            if (sessionStart !== null) {
+                const end = Date.now();
+                PlaytimeManager.getInstance().recordSession(instanceId, {
+                    start: sessionStart,
+                    end,
+                    durationMs: end - sessionStart,
+                    exitCode: code,
+                    crashed,
+                    versionId,
+                    javaPath,
+                    minRam: plan.minRam,
+                    maxRam: plan.maxRam
+                }).catch(e => console.error('[Launch] Failed to record session', e));
+            }
+
+            if (plan.postExitCommand) {
+                this.runHook(plan.postExitCommand, plan, showConsole)
+                    .then(hookCode => {
+                        if (hookCode !== 0) console.warn(`[Launch] Post-exit command exited with code ${hookCode}`);
+                    });
+            }
+
+            if (crashed) {
+                console.log("Game crashed! Analyzing...");
+                import('./CrashAnalyzer')
+                    .then(({ CrashAnalyzer }) => CrashAnalyzer.analyze(code || 1, game.logBuffer, plan.gameDir, game.startTime))
+                    .then(report => {
+                        event.sender.send('launch:crash', {
+                            instanceId,
+                            report,
+                            log: game.logBuffer.slice(-100).join('\n') // Send last 100 lines for quick view
                         });
-                    } catch (e: any) {
-                        // If we failed to download, check if we are offline.
-                        // If we are offline, and the files are ESSENTIAL (libraries), we must fail.
-                        // But wait, the queue only contains missing files. So we are missing files.
-                        console.error("[Launch] Download failed:", e);
-                        throw new Error(`Failed to download required files: ${e.message}. Please check your connection.`);
-                    }
-                }
+                    })
+                    .catch(e => console.error('[Launch] Crash analysis failed', e));
+            }
 
-                // 3.5 Download Missing/Corrupt Assets
-                if (assetIndexUrl && fs.existsSync(assetIndexPath)) {
-                    event.sender.send('launch:progress', { status: 'Checking assets...', progress: 0, total: 100 });
+            restoreLauncher();
+        });
 
-                    try {
-                        const assetIndex = JSON.parse(fs.readFileSync(assetIndexPath, 'utf-8'));
-                        const assetDownloads: DownloadTask[] = [];
-                        const objectsDir = path.join(assetsDir, 'objects');
+        gameProcess.unref();
+    }
 
-                        if (!fs.existsSync(objectsDir)) {
-                            fs.mkdirSync(objectsDir, { recursive: true });
-                        }
+    /**
+     * Lists what an offline launch of the instance would be missing, without touching the network.
+     * Only checks presence (and asset sizes); repair does the full hash check.
+     */
+    private async checkOfflineReady(instanceId: string, versionId: string): Promise<OfflineReadiness> {
+        let plan: LaunchPlan;
+        try {
+            plan = await this.buildPlan(instanceId, versionId, PLACEHOLDER_AUTH, true);
+        } catch (e) {
+            console.warn(`[Launch] ${versionId} cannot be resolved offline:`, e);
+            return { ready: false, missing: [{ kind: 'version', name: versionId }] };
+        }
 
-                        // Check each asset
-                        const assets = assetIndex.objects || {};
-                        const assetKeys = Object.keys(assets);
-                        let checkedCount = 0;
-
-                        for (const assetKey of assetKeys) {
-                            const asset = assets[assetKey];
-                            const hash = asset.hash;
-                            const size = asset.size;
-
-                            // Asset path follows Minecraft structure: objects/[first 2 chars of hash]/[hash]
-                            const hashPrefix = hash.substring(0, 2);
-                            const assetDir = path.join(objectsDir, hashPrefix);
-                            const assetPath = path.join(assetDir, hash);
-
-                            // Check if asset exists and verify size
-                            let needsDownload = false;
-                            if (!fs.existsSync(assetPath)) {
-                                needsDownload = true;
-                            } else {
-                                // Verify file size matches
-                                const stats = fs.statSync(assetPath);
-                                if (stats.size !== size) {
-                                    // console.log(`[Launch] Asset ${assetKey} size mismatch. Expected: ${size}, Got: ${stats.size}`);
-                                    needsDownload = true;
-                                }
-                            }
-
-                            if (needsDownload) {
-                                // Ensure subdirectory exists
-                                if (!fs.existsSync(assetDir)) {
-                                    fs.mkdirSync(assetDir, { recursive: true });
-                                }
-
-                                assetDownloads.push({
-                                    url: `https://resources.download.minecraft.net/${hashPrefix}/${hash}`,
-                                    destination: assetPath,
-                                    sha1: hash,
-                                    size: size,
-                                    priority: 5 // Lower priority than libraries
-                                });
-                            }
-
-                            checkedCount++;
-                            if (checkedCount % 100 === 0) {
-                                event.sender.send('launch:progress', {
-                                    status: `Checking assets... ${checkedCount}/${assetKeys.length}`,
-                                    progress: checkedCount,
-                                    total: assetKeys.length
-                                });
-                            }
-                        }
+        const missing: OfflineMissingItem[] = plan.downloads.map(task => ({
+            kind: task.destination === plan.clientJarPath ? 'client'
+                : task.destination === plan.assetIndex.path ? 'assetIndex'
+                    : 'library',
+            name: path.basename(task.destination),
+            path: task.destination
+        }));
+
+        const java = this.findJava(plan);
+        if (!java || !fs.existsSync(java)) {
+            missing.push({ kind: 'java', name: `Java ${plan.javaVersion}`, path: java || undefined });
+        }
 
-                        // Download missing/corrupt assets
-                        if (assetDownloads.length > 0) {
-                            console.log(`[Launch] Downloading ${assetDownloads.length} missing/corrupt assets...`);
-                            event.sender.send('launch:progress', {
-                                status: `Downloading ${assetDownloads.length} assets...`,
-                                progress: 0,
-                                total: assetDownloads.length
-                            });
-
-                            this.downloader.addToQueue(assetDownloads);
-
-                            // For assets, if we are offline, we might want to skip downloading and try launching anyway?
-                            // Minecraft might look broken (missing textures) but it might run.
-                            // But AssetDownloader throws on error. 
-                            // Let's wrapping this too.
-                            try {
-                                await new Promise<void>((resolve, reject) => {
-                                    this.downloader.on('done', resolve);
-                                    this.downloader.on('error', reject);
-                                    let lastProgress = 0;
-                                    this.downloader.on('progress', (p) => {
-                                        const now = Date.now();
-                                        if (now - lastProgress > 200) {
-                                            event.sender.send('launch:progress', {
-                                                status: `Downloading assets... ${(p.current / 1024 / 1024).toFixed(1)}MB`,
-                                                progress: p.current,
-                                                total: p.total
-                                            });
-                                            lastProgress = now;
-                                        }
-                                    });
-                                });
-                            } catch (e: any) {
-                                console.warn("[Launch] Failed to download assets, likely offline. Launching anyway...", e);
-                                // We proceed!
-                            }
-                        }
-                    } catch (e) {
-                        console.error('[Launch] Failed to process asset index:', e);
-                        // Continue launch even if asset check fails
-                    }
-                }
+        LaunchPlanner.collectAssetDownloads(plan).forEach(task => {
+            missing.push({ kind: 'asset', name: path.basename(task.destination), path: task.destination });
+        });
 
-                // 4. Build Classpath
-                const classpath = [...cpLibraries, clientJarPath].join(path.delimiter);
-
-                // 5. Get Java
-                event.sender.send('launch:progress', { status: 'Verifying Java...', progress: 99, total: 100 });
-
-                // Determine required Java version from version data
-                let requiredJavaVersion = versionData.javaVersion?.majorVersion?.toString();
-
-                if (!requiredJavaVersion) {
-                    // Fallback to heuristic based on version number if metadata is missing (common with modloaders)
-                    const v = versionId.match(/1\.(\d+)/);
-                    if (v && v[1]) {
-                        const minor = parseInt(v[1]);
-                        if (minor >= 21) requiredJavaVersion = '21'; // 1.21+ needs Java 21
-                        else if (minor >= 20 && versionId.includes('1.20.5')) requiredJavaVersion = '21'; // 1.20.5+ needs Java 21
-                        else if (minor >= 18) requiredJavaVersion = '17'; // 1.18+ needs Java 17
-                        else if (minor === 17) requiredJavaVersion = '16'; // 1.17 needs Java 16
-                        else requiredJavaVersion = '8'; // Older needs Java 8
-                    } else {
-                        requiredJavaVersion = '8';
-                    }
-                    console.log(`[Launch] Heuristic determined Java version ${requiredJavaVersion} for ${versionId}`);
-                }
+        return { ready: missing.every(item => item.kind === 'asset'), missing };
+    }
 
-                // Check for custom Java path in config for this specific version
-                const configJavaPath = ConfigManager.getJavaPath(requiredJavaVersion);
-                let javaPath: string;
+    /**
+     * Hashes the client jar, asset index, libraries, natives and assets of an instance and re-downloads
+     * anything missing or corrupt. Each finding and its outcome is streamed as instance:repair-log.
+     */
+    private async repairInstance(instanceId: string, versionId: string, event: IpcMainInvokeEvent) {
+        const plan = await this.buildPlan(instanceId, versionId, PLACEHOLDER_AUTH);
+
+        const progress = (status: string, current: number, total: number) => {
+            event.sender.send('instance:repair-progress', { status, progress: current, total });
+        };
+        const log = (issue: IntegrityIssue, status: 'missing' | 'corrupt' | 'fixed' | 'failed') => {
+            event.sender.send('instance:repair-log', { kind: issue.kind, file: path.basename(issue.path), path: issue.path, status });
+        };
+
+        const fixed: IntegrityIssue[] = [];
+        const failed: IntegrityIssue[] = [];
+
+        const repair = async (issues: IntegrityIssue[], label: string) => {
+            issues.forEach(issue => log(issue, issue.reason));
+
+            const repairable = issues.filter(issue => issue.download);
+            issues.filter(issue => !issue.download).forEach(issue => {
+                failed.push(issue);
+                log(issue, 'failed');
+            });
+            if (repairable.length === 0) return;
 
-                if (configJavaPath && configJavaPath !== 'auto') {
-                    javaPath = configJavaPath;
-                } else {
-                    javaPath = await this.javaManager.ensureJava(requiredJavaVersion, (status, progress) => {
-                        event.sender.send('launch:progress', {
-                            status: status,
-                            progress: progress,
-                            total: 100
-                        });
-                        // Forward specific java progress to the modal too, if it's open
-                        event.sender.send('java-install-progress', { status, progress });
-                    }, async (ver, size) => {
-                        console.log(`[Launch] Asking user consent for Java ${ver} (${size} bytes)`);
-                        event.sender.send('java-install-request', { version: ver, sizeInBytes: size });
-
-                        return new Promise<'install' | 'skip' | 'cancel'>((resolve) => {
-                            // Listen for one-time consent response
-                            ipcMain.once('java-install-consent', (_, action: 'install' | 'skip' | 'cancel') => {
-                                resolve(action);
-                                // Also notify frontend that we are done/start (handled by progress events mostly)
-                                if (action !== 'install') event.sender.send('java-install-done');
-                            });
-                        });
-                    });
+            // Files without a checksum would be trusted by the downloader, so clear them first
+            repairable.forEach(issue => {
+                if (fs.existsSync(issue.path)) fs.unlinkSync(issue.path);
+            });
 
-                    event.sender.send('java-install-done');
+            progress(`Re-downloading ${repairable.length} ${label}...`, 0, repairable.length);
+            await this.downloadForRepair(repairable.map(issue => issue.download!));
+
+            for (const issue of repairable) {
+                const status = await IntegrityChecker.checkFile(issue.path, issue.download!);
+                if (status === 'ok') {
+                    fixed.push(issue);
+                    log(issue, 'fixed');
+                } else {
+                    failed.push(issue);
+                    log(issue, 'failed');
                 }
+            }
+        };
 
-                // Get RAM settings and JVM Preset
-                const jvmPreset = ConfigManager.getJvmPreset();
-                const customJvmArgs = ConfigManager.getJvmArgs();
-                let minRam = ConfigManager.getMinRam();
-                let maxRam = ConfigManager.getMaxRam();
-
-                // Preset mappings
-                const presetFlags: Record<string, string[]> = {
-                    potato: [
-                        '-XX:+UseG1GC',
-                        '-XX:G1HeapRegionSize=4M',
-                        '-XX:+UnlockExperimentalVMOptions',
-                        '-XX:+ParallelRefProcEnabled',
-                        '-XX:+AlwaysPreTouch',
-                    ],
-                    standard: [
-                        '-XX:+UseG1GC',
-                        '-XX:+UnlockExperimentalVMOptions',
-                        '-XX:+ParallelRefProcEnabled',
-                        '-XX:MaxGCPauseMillis=200',
-                        '-XX:+AlwaysPreTouch',
-                        '-XX:G1NewSizePercent=30',
-                        '-XX:G1MaxNewSizePercent=40',
-                        '-XX:G1HeapRegionSize=8M',
-                        '-XX:G1ReservePercent=20',
-                        '-XX:G1HeapWastePercent=5',
-                        '-XX:G1MixedGCCountTarget=4',
-                        '-XX:InitiatingHeapOccupancyPercent=15',
-                        '-XX:G1MixedGCLiveThresholdPercent=90',
-                        '-XX:G1RSetUpdatingPauseTimePercent=5',
-                        '-XX:SurvivorRatio=32',
-                        '-XX:+PerfDisableSharedMem',
-                        '-XX:MaxTenuringThreshold=1',
-                    ],
-                    pro: [
-                        // Aikar's Flags (Optimizations for Mods/Server-heavy clients)
-                        '-XX:+UseG1GC',
-                        '-XX:+UnlockExperimentalVMOptions',
-                        '-XX:+AlwaysPreTouch',
-                        '-XX:+ParallelRefProcEnabled',
-                        '-XX:MaxGCPauseMillis=200',
-                        '-XX:G1NewSizePercent=30',
-                        '-XX:G1MaxNewSizePercent=40',
-                        '-XX:G1HeapRegionSize=8M',
-                        '-XX:G1ReservePercent=20',
-                        '-XX:G1HeapWastePercent=5',
-                        '-XX:G1MixedGCCountTarget=4',
-                        '-XX:InitiatingHeapOccupancyPercent=15',
-                        '-XX:G1MixedGCLiveThresholdPercent=90',
-                        '-XX:G1RSetUpdatingPauseTimePercent=5',
-                        '-XX:SurvivorRatio=32',
-                        '-XX:+PerfDisableSharedMem',
-                        '-XX:MaxTenuringThreshold=1',
-                        '-Dusing.aikars.flags=https://mcutils.com',
-                        '-Daikars.new.flags=true'
-                    ],
-                    extreme: [
-                        // Aggressive optimizations for high-RAM systems
-                        '-XX:+UseG1GC',
-                        '-XX:+UnlockExperimentalVMOptions',
-                        '-XX:+AlwaysPreTouch',
-                        '-XX:+ParallelRefProcEnabled',
-                        '-XX:MaxGCPauseMillis=50',
-                        '-XX:G1HeapRegionSize=32M',
-                        '-XX:G1NewSizePercent=40',
-                        '-XX:G1MaxNewSizePercent=50',
-                        '-XX:G1ReservePercent=15',
-                        '-XX:G1HeapWastePercent=5',
-                        '-XX:G1MixedGCCountTarget=4',
-                        '-XX:InitiatingHeapOccupancyPercent=20',
-                        '-XX:G1MixedGCLiveThresholdPercent=90',
-                        '-XX:G1RSetUpdatingPauseTimePercent=5',
-                        '-XX:SurvivorRatio=32',
-                        '-XX:+PerfDisableSharedMem',
-                        '-XX:MaxTenuringThreshold=1',
-                        '-XX:+UseStringDeduplication',
-                    ],
-                    custom: []
-                };
+        progress('Verifying client jar...', 0, 1);
+        await repair(await IntegrityChecker.verifyClient(plan), 'client files');
 
-                const proxy = ConfigManager.getProxy();
-                const proxyArgs: string[] = [];
-                if (proxy.enabled && proxy.host && proxy.port) {
-                    if (proxy.type === 'http') {
-                        proxyArgs.push(`-Dhttp.proxyHost=${proxy.host}`);
-                        proxyArgs.push(`-Dhttp.proxyPort=${proxy.port}`);
-                        proxyArgs.push(`-Dhttps.proxyHost=${proxy.host}`);
-                        proxyArgs.push(`-Dhttps.proxyPort=${proxy.port}`);
-                    } else if (proxy.type === 'socks') {
-                        proxyArgs.push(`-DsocksProxyHost=${proxy.host}`);
-                        proxyArgs.push(`-DsocksProxyPort=${proxy.port}`);
-                    }
-                }
+        // The asset index must be good before the objects it lists can be checked
+        progress('Verifying asset index...', 0, 1);
+        await repair(await IntegrityChecker.verifyAssetIndex(plan), 'asset index');
 
-                const jvmArgs = [
-                    `-Xms${minRam}M`,
-                    `-Xmx${maxRam}M`,
-                    ...proxyArgs,
-                    ...(presetFlags[jvmPreset] || []),
-                    ...customJvmArgs,
-                    `-Djava.library.path=${nativesDir}`,
-                    '-Dminecraft.launcher.brand=whoap',
-                    '-Dminecraft.launcher.version=2.0.0',
-                    '-Dminecraft.client.jar=' + clientJarPath,
-                    '-cp', classpath,
-                    versionData.mainClass,
-                    '--username', authData.name,
-                    '--version', versionId,
-                    '--gameDir', instancePath,
-                    '--assetsDir', assetsDir,
-                    '--assetIndex', versionData.assetIndex?.id || versionData.assets || 'legacy',
-                    '--uuid', authData.uuid,
-                    // Access token for server authentication
-                    '--accessToken', authData.token || '0',
-                    '--userType', 'mojang',
-                    '--versionType', versionData.type || 'release'
-                ];
-
-                const launchBehavior = ConfigManager.getLaunchBehavior();
-                const showConsole = ConfigManager.getShowConsoleOnLaunch();
-
-                // Handle window based on launch behavior
-                if (launchBehavior === 'hide') {
-                    mainWindow?.hide();
-                } else if (launchBehavior === 'minimize') {
-                    mainWindow?.minimize();
-                }
-                // 'keep' = keep launcher open, do nothing
-
-                // Show log window if enabled
-                if (showConsole) {
-                    LogWindowManager.create(instanceId);
-                    LogWindowManager.send(instanceId, `Starting ${instanceId} (${versionId})...`, 'info');
-                    LogWindowManager.send(instanceId, `Java: ${javaPath}`, 'info');
-                    LogWindowManager.send(instanceId, `RAM: ${minRam}MB - ${maxRam}MB`, 'info');
-                }
+        const libraryIssues = await IntegrityChecker.verifyLibraries(plan, (checked, total) => {
+            progress(`Verifying libraries... ${checked}/${total}`, checked, total);
+        });
+        await repair(libraryIssues, 'libraries');
+
+        const assetIssues = await IntegrityChecker.verifyAssets(plan, (checked, total) => {
+            progress(`Verifying assets... ${checked}/${total}`, checked, total);
+        });
+        await repair(assetIssues, 'assets');
+
+        const summary = (issues: IntegrityIssue[]) => issues.map(issue => ({ kind: issue.kind, path: issue.path }));
+        return { success: failed.length === 0, fixed: summary(fixed), failed: summary(failed) };
+    }
+
+    /**
+     * Failures are left for the caller's re-verification.
+     */
+    private async downloadForRepair(tasks: DownloadTask[]): Promise<void> {
+        try {
+            await this.downloader.addToQueue(tasks, 'Repair').promise;
+        } catch (e: any) {
+            console.warn('[Repair] Download failed:', e.message);
+        }
+    }
 
-                // Use javaw.exe on windows to avoid console window creation
-                if (process.platform === 'win32' && javaPath.endsWith('java.exe')) {
-                    javaPath = javaPath.replace('java.exe', 'javaw.exe');
+    /**
+     * Runs a pre-launch/post-exit command through the shell in the game directory and resolves with its exit code.
+     * Exposes the same INST_* variables as MultiMC so existing scripts keep working.
+     */
+    private runHook(command: string, plan: LaunchPlan, showConsole: boolean): Promise<number> {
+        return new Promise((resolve) => {
+            const hook = spawn(command, {
+                cwd: plan.gameDir,
+                shell: true,
+                env: {
+                    ...process.env,
+                    ...plan.env,
+                    INST_ID: plan.instanceId,
+                    INST_DIR: plan.gameDir,
+                    INST_MC_DIR: plan.gameDir,
+                    INST_JAVA: plan.javaPath || 'java'
                 }
+            });
 
-                // Auto-configure Skin Loader if present
-                await this.ensureSkinConfig(instancePath, authData);
+            const forward = (d: Buffer) => {
+                if (showConsole) LogWindowManager.send(plan.instanceId, d.toString(), 'stdout');
+            };
+            hook.stdout.on('data', forward);
+            hook.stderr.on('data', forward);
 
-                DiscordManager.getInstance().updatePresence({
-                    details: `Playing ${instanceId}`,
-                    state: `Version ${versionId}`,
-                    largeImageKey: 'logo',
-                    largeImageText: 'Whoap Launcher',
-                    startTimestamp: Date.now()
-                });
+            hook.on('error', (err) => {
+                console.error(`[Launch] Failed to run "${command}"`, err);
+                resolve(-1);
+            });
+            hook.on('close', (code) => resolve(code ?? -1));
+        });
+    }
 
-                const gameProcess = spawn(javaPath, jvmArgs, {
-                    cwd: instancePath,
-                    detached: false, // Keep attached to main process to avoid new terminal window
-                    stdio: 'pipe'
+    /**
+     * Queues one batch and resolves once exactly those files are in place, forwarding progress as launch:progress.
+     * Rejects with a DownloadBatchError listing every failed file.
+     */
+    private runDownloads(tasks: DownloadTask[], event: IpcMainInvokeEvent, label: string): Promise<void> {
+        const download = this.downloader.addToQueue(tasks);
+
+        let lastProgress = 0;
+        download.on('progress', (p: DownloadProgress) => {
+            const now = Date.now();
+            if (now - lastProgress > 200) {
+                event.sender.send('launch:progress', {
+                    status: `${label} ${(p.current / 1024 / 1024).toFixed(1)}MB`,
+                    progress: p.current,
+                    total: p.total
                 });
+                lastProgress = now;
+            }
+        });
 
-                const logBuffer: string[] = [];
-                const MAX_LOG_LINES = 500;
+        return download.promise;
+    }
 
-                const appendLog = (data: string) => {
-                    const lines = data.split('\n');
-                    logBuffer.push(...lines);
-                    if (logBuffer.length > MAX_LOG_LINES) {
-                        logBuffer.splice(0, logBuffer.length - MAX_LOG_LINES);
-                    }
-                };
+    /**
+     * Copies hashed asset objects to the plain paths `virtual` and `map_to_resources` indexes expect.
+     * Files already in place with the right size are kept; objects that were never downloaded are skipped.
+     */
+    private async unpackLegacyAssets(plan: LaunchPlan) {
+        if (!fs.existsSync(plan.assetIndex.path)) return;
 
-                gameProcess.stdout.on('data', (d) => {
-                    const str = d.toString();
-                    appendLog(str);
-                    if (showConsole) {
-                        LogWindowManager.send(instanceId, str, 'stdout');
-                    }
-                });
+        try {
+            const assetIndex = JSON.parse(fs.readFileSync(plan.assetIndex.path, 'utf-8'));
+            const objects: Record<string, { hash: string; size: number }> = assetIndex.objects || {};
+            let copied = 0;
 
-                gameProcess.stderr.on('data', (d) => {
-                    const str = d.toString();
-                    appendLog(str);
-                    if (showConsole) {
-                        LogWindowManager.send(instanceId, str, 'stderr');
-                    }
-                });
+            for (const [name, { hash, size }] of Object.entries(objects)) {
+                const source = path.join(plan.assetsDir, 'objects', hash.substring(0, 2), hash);
+                const target = path.join(plan.gameAssetsDir, ...name.split('/'));
 
-                gameProcess.on('error', (err) => {
-                    console.error("Failed to start game process", err);
-                    event.sender.send('launch:error', err.message);
-                    if (showConsole) {
-                        LogWindowManager.send(instanceId, `Launch Error: ${err.message}`, 'stderr');
-                    }
-                    mainWindow?.show();
-                });
+                if (!fs.existsSync(source)) continue;
+                if (fs.existsSync(target) && fs.statSync(target).size === size) continue;
 
-                gameProcess.on('close', (code) => {
-                    if (code !== 0) {
-                        console.log("Game crashed! Analyzing...");
-                        import('./CrashAnalyzer').then(({ CrashAnalyzer }) => {
-                            const report = CrashAnalyzer.analyze(code || 1, logBuffer);
-                            event.sender.send('launch:crash', {
-                                report,
-                                log: logBuffer.slice(-100).join('\n') // Send last 100 lines for quick view
-                            });
-                        });
-                    }
+                await fs.promises.mkdir(path.dirname(target), { recursive: true });
+                await fs.promises.copyFile(source, target);
+                copied++;
+            }
 
-                    // Show Launcher
-                    mainWindow?.show();
-                    mainWindow?.focus();
-
-                    // Restore Menu Presence
-                    DiscordManager.getInstance().updatePresence({
-                        details: 'Browsing Menu',
-                        state: 'Ready to play',
-                        largeImageKey: 'logo',
-                        largeImageText: 'Whoap Launcher',
-                        startTimestamp: Date.now()
-                    });
-                });
+            if (copied > 0) console.log(`[Launch] Unpacked ${copied} legacy assets to ${plan.gameAssetsDir}`);
+        } catch (e) {
+            // Missing sounds are better than no game at all
+            console.error('[Launch] Failed to unpack legacy assets:', e);
+        }
+    }
 
-                gameProcess.unref();
+    /**
+     * Unpacks legacy natives jars into the natives directory, skipping excluded entries.
+     * Files that are already there with the same size are left alone: another running
+     * instance of the same version may have them loaded (and locked, on Windows).
+     */
+    private extractNatives(plan: LaunchPlan) {
+        for (const jar of plan.nativeJars) {
+            if (!fs.existsSync(jar.path)) {
+                console.warn(`[Launch] Natives jar missing: ${jar.path}`);
+                continue;
+            }
 
-                return { success: true };
+            try {
+                new AdmZip(jar.path).getEntries().forEach(entry => {
+                    if (entry.isDirectory) return;
+                    if (jar.exclude.some(prefix => entry.entryName.startsWith(prefix))) return;
 
-            } catch (error) {
-                console.error("Launch failed", error);
-                // Ensure window is back if we crashed synchronously
-                mainWindow?.show();
-                return { success: false, error: String(error) };
+                    const target = path.join(plan.nativesDir, entry.entryName);
+                    // Guard against entries escaping the natives directory
+                    if (!target.startsWith(plan.nativesDir + path.sep)) return;
+
+                    if (fs.existsSync(target) && fs.statSync(target).size === entry.header.size) return;
+
+                    fs.mkdirSync(path.dirname(target), { recursive: true });
+                    fs.writeFileSync(target, entry.getData());
+                });
+            } catch (e) {
+                throw new Error(`Failed to extract natives from ${path.basename(jar.path)}: ${e}`);
             }
-        });
+        }
     }
 
     /**
@@ -846,7 +840,7 @@ export class LaunchProcess {
                     console.warn(`[Launch] Custom ${type} source NOT FOUND: "${srcPath}"`);
                     return false;
                 }
-            } else if (type === 'skin') {
+            } else if (type === 'skin' && !ConfigManager.getOfflineMode()) {
                 // Username — download skin texture from mc-heads.net
                 const skinUrl = `https://mc-heads.net/skin/${encodeURIComponent(skinSource)}`;
                 console.log(`[Launch] Downloading remote skin for "${skinSource}"...`);
@@ -0,0 +1,175 @@
+export type LogLevel = 'TRACE' | 'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'FATAL';
+export type LogSource = 'stdout' | 'stderr' | 'info';
+
+export interface LogEntry {
+    time: number | null; // epoch ms; null when the layout has no usable timestamp
+    thread?: string;
+    level: LogLevel;
+    logger?: string;
+    message: string;
+    throwable?: string;
+    source: LogSource;
+}
+
+const LEVELS = new Set<LogLevel>(['TRACE', 'DEBUG', 'INFO', 'WARN', 'ERROR', 'FATAL']);
+
+// An unterminated event this large is not going to be closed; give up and show it as text
+const MAX_PENDING_XML = 1024 * 1024;
+
+// [12:34:56] [Render thread/INFO]: ...                      vanilla
+// [12:34:56] [main/INFO] (FabricLoader/GameProvider) ...    fabric
+// [12Jan2024 12:34:56.789] [main/INFO] [cpw.mods.modlauncher/]: ...   forge
+const PLAIN_LINE = /^\[([^\]]+)\] \[([^\]]*)\/([A-Z]+)\](?: \[([^\]]*)\]| \(([^)]*)\))?:? ?(.*)$/;
+
+// Lines that continue the previous entry's stack trace
+const TRACE_LINE = /^(\s+at |\s*Caused by: |\s*Suppressed: |\s+\.\.\. \d+ more|[\w.$]+(Exception|Error|Throwable)(: |$))/;
+
+/**
+ * Turns a game's stdout or stderr into structured entries. Understands log4j2's XMLLayout
+ * (what the vanilla launcher's logging config produces) and the common plain-text patterns,
+ * and folds stack trace lines into the entry they belong to.
+ *
+ * Chunks may split lines and events anywhere, so input is buffered: `feed` returns only
+ * entries that are complete, and `flush` hands over whatever is still held back.
+ */
+export class LogParser {
+    private buffer = '';
+    // Last plain-text entry; held back until a line shows its stack trace (if any) is over
+    private pending: LogEntry | null = null;
+
+    constructor(private source: LogSource) { }
+
+    feed(chunk: string): LogEntry[] {
+        this.buffer += chunk.replace(/\r\n?/g, '\n');
+        const entries: LogEntry[] = [];
+
+        while (this.buffer.length > 0) {
+            const trimmed = this.buffer.trimStart();
+            if (trimmed.startsWith('<log4j:Event')) {
+                const end = trimmed.indexOf('</log4j:Event>');
+                if (end === -1) {
+                    if (trimmed.length < MAX_PENDING_XML) break;
+                } else {
+                    this.release(entries);
+                    const xml = trimmed.slice(0, end + '</log4j:Event>'.length);
+                    entries.push(this.parseEvent(xml));
+                    this.buffer = trimmed.slice(xml.length);
+                    continue;
+                }
+            } else if ('<log4j:Event'.startsWith(trimmed)) {
+                // Could still become the start of an event
+                break;
+            }
+
+            const newline = this.buffer.indexOf('\n');
+            if (newline === -1) break;
+            this.parseLine(this.buffer.slice(0, newline), entries);
+            this.buffer = this.buffer.slice(newline + 1);
+        }
+
+        return entries;
+    }
+
+    /**
+     * Everything still buffered, e.g. once the process has exited or output has gone quiet.
+     */
+    flush(): LogEntry[] {
+        const entries: LogEntry[] = [];
+        if (this.buffer.trim()) this.parseLine(this.buffer, entries);
+        this.buffer = '';
+        this.release(entries);
+        return entries;
+    }
+
+    hasPending(): boolean {
+        return this.pending !== null || this.buffer.length > 0;
+    }
+
+    private parseLine(line: string, entries: LogEntry[]) {
+        if (!line.trim()) return;
+
+        if (this.pending && TRACE_LINE.test(line)) {
+            this.pending.throwable = this.pending.throwable ? `${this.pending.throwable}\n${line}` : line;
+            return;
+        }
+
+        this.release(entries);
+
+        const match = PLAIN_LINE.exec(line);
+        if (match && LEVELS.has(match[3] as LogLevel)) {
+            this.pending = {
+                time: parseTime(match[1]),
+                thread: match[2],
+                level: match[3] as LogLevel,
+                logger: match[4] || match[5] || undefined,
+                message: match[6],
+                source: this.source
+            };
+            return;
+        }
+
+        // Unstructured output: System.out prints, JVM warnings, launcher messages
+        this.pending = {
+            time: null,
+            level: this.source === 'stderr' ? 'ERROR' : 'INFO',
+            message: line,
+            source: this.source
+        };
+    }
+
+    private release(entries: LogEntry[]) {
+        if (this.pending) entries.push(this.pending);
+        this.pending = null;
+    }
+
+    private parseEvent(xml: string): LogEntry {
+        const attr = (name: string) => {
+            const match = new RegExp(`\\b${name}="([^"]*)"`).exec(xml);
+            return match ? unescapeXml(match[1]) : undefined;
+        };
+        const level = attr('level') as LogLevel | undefined;
+        const timestamp = Number(attr('timestamp'));
+        const throwable = elementText(xml, 'Throwable');
+
+        return {
+            time: Number.isFinite(timestamp) && timestamp > 0 ? timestamp : null,
+            thread: attr('thread'),
+            level: level && LEVELS.has(level) ? level : 'INFO',
+            logger: attr('logger'),
+            message: elementText(xml, 'Message') ?? '',
+            throwable: throwable?.replace(/\s+$/, '') || undefined,
+            source: this.source
+        };
+    }
+}
+
+function elementText(xml: string, name: string): string | undefined {
+    const match = new RegExp(`<log4j:${name}>([\\s\\S]*?)</log4j:${name}>`).exec(xml);
+    if (!match) return undefined;
+
+    const cdata = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/.exec(match[1]);
+    return cdata ? cdata[1] : unescapeXml(match[1]);
+}
+
+function unescapeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Plain-text layouts only print a time of day (forge adds a date); assume today unless a date is given.
+ */
+function parseTime(text: string): number | null {
+    const match = /^(?:(\d{1,2})([A-Za-z]{3})(\d{4}) )?(\d{1,2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?$/.exec(text.trim());
+    if (!match) return null;
+
+    const date = match[1] ? new Date(`${match[1]} ${match[2]} ${match[3]}`) : new Date();
+    if (Number.isNaN(date.getTime())) return null;
+    date.setHours(Number(match[4]), Number(match[5]), Number(match[6]), Number((match[7] || '0').padEnd(3, '0')));
+    return date.getTime();
+}
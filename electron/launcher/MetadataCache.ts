@@ -0,0 +1,256 @@
+import { app, net } from 'electron';
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { MirrorUtils } from '../utils/MirrorUtils';
+import { ConfigManager } from '../managers/ConfigManager';
+
+export type MetadataSource = 'vanilla' | 'version' | 'fabric' | 'quilt' | 'forge' | 'neoforge';
+
+const MINUTE = 60 * 1000;
+
+// How long a cached response is served without asking the server again
+const TTL: Record<MetadataSource, number> = {
+    vanilla: 15 * MINUTE,
+    // Version JSON URLs embed their sha1, so the content never changes
+    version: Infinity,
+    fabric: 30 * MINUTE,
+    quilt: 30 * MINUTE,
+    forge: 60 * MINUTE,
+    neoforge: 60 * MINUTE
+};
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+interface CacheEntry {
+    file: string;
+    source: MetadataSource;
+    fetchedAt: number;
+    etag?: string;
+    lastModified?: string;
+}
+
+interface HttpResponse {
+    status: number;
+    body: string;
+    etag?: string;
+    lastModified?: string;
+}
+
+/**
+ * Disk-backed cache for version manifests and loader metadata under userData/cache/metadata.
+ * Fresh entries are served without touching the network, expired ones are revalidated with
+ * ETag/Last-Modified, and anything cached is served stale when the network is unavailable.
+ * In offline mode only cached entries are served.
+ */
+export class MetadataCache {
+    private static index: Record<string, CacheEntry> | null = null;
+    private static memory = new Map<string, string>();
+    // Concurrent callers for the same URL share one request
+    private static inflight = new Map<string, Promise<string>>();
+
+    static async getJson<T>(url: string, source: MetadataSource): Promise<T> {
+        const text = await this.getText(url, source);
+        try {
+            return JSON.parse(text) as T;
+        } catch (e) {
+            // Don't keep serving a broken body
+            this.remove(url);
+            throw new Error('Failed to parse JSON from ' + url);
+        }
+    }
+
+    static getText(url: string, source: MetadataSource): Promise<string> {
+        const pending = this.inflight.get(url);
+        if (pending) return pending;
+
+        const request = this.load(url, source).finally(() => this.inflight.delete(url));
+        this.inflight.set(url, request);
+        return request;
+    }
+
+    /**
+     * Cached copy only, regardless of age. Never touches the network.
+     */
+    static peekJson<T>(url: string): T | null {
+        const entry = this.getIndex()[url];
+        const cached = entry ? this.readBody(url, entry) : null;
+        if (cached === null) return null;
+
+        try {
+            return JSON.parse(cached) as T;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Marks every entry (or those of one source) as expired so the next read revalidates.
+     * Bodies are kept for conditional requests and offline use.
+     */
+    static expire(source?: MetadataSource) {
+        const index = this.getIndex();
+        for (const entry of Object.values(index)) {
+            if (!source || entry.source === source) entry.fetchedAt = 0;
+        }
+        this.saveIndex();
+    }
+
+    private static async load(url: string, source: MetadataSource): Promise<string> {
+        const entry = this.getIndex()[url];
+        const cached = entry ? this.readBody(url, entry) : null;
+
+        if (cached !== null && Date.now() - entry.fetchedAt < TTL[source]) {
+            return cached;
+        }
+
+        if (ConfigManager.getOfflineMode()) {
+            if (cached !== null) return cached;
+            throw new Error(`Offline mode: ${url} is not cached`);
+        }
+
+        try {
+            const headers: Record<string, string> = {};
+            if (cached !== null && entry.etag) headers['If-None-Match'] = entry.etag;
+            if (cached !== null && entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+
+            const response = await MirrorUtils.tryEach(url, (candidate) => this.request(candidate, headers));
+
+            if (response.status === 304 && cached !== null) {
+                entry.fetchedAt = Date.now();
+                this.saveIndex();
+                return cached;
+            }
+
+            this.store(url, source, response);
+            return response.body;
+        } catch (e) {
+            if (cached !== null) {
+                console.warn(`[MetadataCache] ${url} unavailable, serving cached copy`);
+                return cached;
+            }
+            throw e;
+        }
+    }
+
+    private static store(url: string, source: MetadataSource, response: HttpResponse) {
+        const file = crypto.createHash('sha1').update(url).digest('hex');
+        const dir = this.getCacheDir();
+
+        try {
+            fs.mkdirSync(dir, { recursive: true });
+            fs.writeFileSync(path.join(dir, file), response.body);
+            this.getIndex()[url] = {
+                file,
+                source,
+                fetchedAt: Date.now(),
+                etag: response.etag,
+                lastModified: response.lastModified
+            };
+            this.saveIndex();
+        } catch (e) {
+            console.error(`[MetadataCache] Failed to cache ${url}`, e);
+        }
+        this.memory.set(url, response.body);
+    }
+
+    private static remove(url: string) {
+        this.memory.delete(url);
+        const entry = this.getIndex()[url];
+        if (!entry) return;
+
+        delete this.getIndex()[url];
+        this.saveIndex();
+        try {
+            fs.unlinkSync(path.join(this.getCacheDir(), entry.file));
+        } catch {
+            // Already gone
+        }
+    }
+
+    private static readBody(url: string, entry: CacheEntry): string | null {
+        const remembered = this.memory.get(url);
+        if (remembered !== undefined) return remembered;
+
+        try {
+            const body = fs.readFileSync(path.join(this.getCacheDir(), entry.file), 'utf-8');
+            this.memory.set(url, body);
+            return body;
+        } catch {
+            return null;
+        }
+    }
+
+    private static getCacheDir(): string {
+        return path.join(app.getPath('userData'), 'cache', 'metadata');
+    }
+
+    private static getIndex(): Record<string, CacheEntry> {
+        if (!this.index) {
+            try {
+                this.index = JSON.parse(fs.readFileSync(path.join(this.getCacheDir(), 'index.json'), 'utf-8'));
+            } catch {
+                this.index = {};
+            }
+        }
+        return this.index!;
+    }
+
+    private static saveIndex() {
+        try {
+            fs.mkdirSync(this.getCacheDir(), { recursive: true });
+            fs.writeFileSync(path.join(this.getCacheDir(), 'index.json'), JSON.stringify(this.index, null, 2));
+        } catch (e) {
+            console.error('[MetadataCache] Failed to save index', e);
+        }
+    }
+
+    // Electron's net module (bypasses CORS issues); 304 counts as success
+    private static request(url: string, headers: Record<string, string>): Promise<HttpResponse> {
+        return new Promise((resolve, reject) => {
+            const request = net.request(url);
+            Object.entries(headers).forEach(([name, value]) => request.setHeader(name, value));
+
+            const timer = setTimeout(() => {
+                request.abort();
+                reject(new Error(`Timed out fetching ${url}`));
+            }, REQUEST_TIMEOUT_MS);
+
+            request.on('response', (response) => {
+                const header = (name: string) => {
+                    const value = response.headers[name];
+                    return Array.isArray(value) ? value[0] : value;
+                };
+
+                if (response.statusCode >= 400) {
+                    clearTimeout(timer);
+                    reject(new Error(`HTTP ${response.statusCode} from ${url}`));
+                    return;
+                }
+
+                const chunks: Buffer[] = [];
+                response.on('data', (chunk) => chunks.push(chunk));
+                response.on('end', () => {
+                    clearTimeout(timer);
+                    resolve({
+                        status: response.statusCode,
+                        body: Buffer.concat(chunks).toString('utf-8'),
+                        etag: header('etag'),
+                        lastModified: header('last-modified')
+                    });
+                });
+                response.on('error', (err: Error) => {
+                    clearTimeout(timer);
+                    reject(err);
+                });
+            });
+
+            request.on('error', (err) => {
+                clearTimeout(timer);
+                reject(err);
+            });
+
+            request.end();
+        });
+    }
+}
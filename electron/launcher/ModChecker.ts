@@ -0,0 +1,198 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import { ModMetadataCache } from '../managers/ModMetadataCache';
+import { ModLoader, ModMetadata } from '../utils/ModMetadata';
+import { RangeSyntax, VersionRange } from '../utils/VersionRange';
+
+export type ModIssueKind = 'missing-dependency' | 'dependency-version' | 'duplicate' | 'wrong-loader' | 'wrong-minecraft' | 'incompatible';
+
+/**
+ * What a fix does, once the user picks it:
+ * - `install`: a Modrinth version (with its own required dependencies) into mods/
+ * - `replace`: swaps `file` for a Modrinth version that fits
+ * - `disable`: renames `file` to .disabled
+ */
+export type ModFix =
+    | { action: 'install'; label: string; versionId: string }
+    | { action: 'replace'; label: string; file: string; update: { versionId: string; versionNumber: string; filename: string; url: string; sha1: string; size: number } }
+    | { action: 'disable'; label: string; file: string };
+
+export interface ModIssue {
+    kind: ModIssueKind;
+    // Errors stop the game from loading; warnings might not
+    severity: 'error' | 'warning';
+    file: string; // jar the issue is about
+    modId: string;
+    modName: string;
+    message: string;
+    dependencyId?: string;
+    versionRange?: string;
+    otherFiles?: string[]; // the jars it clashes with
+    fix?: ModFix;
+}
+
+export interface ModCheckTarget {
+    gameVersion: string;
+    loader: string; // instance loader; 'vanilla' loads no mods
+}
+
+export interface InstalledModInfo {
+    file: string;
+    sha1: string;
+    metadata: ModMetadata;
+}
+
+interface Provider {
+    file: string;
+    version?: string;
+    bundled: boolean; // jar-in-jar or alias, not the jar's own mod
+}
+
+// Ids the loader itself satisfies
+const LOADER_PROVIDED: Record<string, string[]> = {
+    fabric: ['mixinextras'],
+    quilt: ['mixinextras', 'fabricloader'],
+    neoforge: ['mixinextras']
+};
+
+/**
+ * Checks the enabled jars in a mods folder against each other and against the instance, from the
+ * metadata embedded in each jar alone. Jars without loader metadata are left out.
+ */
+export class ModChecker {
+    static async readMods(modsDir: string): Promise<InstalledModInfo[]> {
+        if (!existsSync(modsDir)) return [];
+
+        const mods: InstalledModInfo[] = [];
+        for (const file of (await fs.readdir(modsDir)).filter(name => name.endsWith('.jar'))) {
+            try {
+                const { sha1, metadata } = await ModMetadataCache.getInstance().get(path.join(modsDir, file));
+                if (metadata) mods.push({ file, sha1, metadata });
+            } catch (e) {
+                console.warn(`[ModChecker] Skipping ${file}:`, e);
+            }
+        }
+        return mods;
+    }
+
+    static check(mods: InstalledModInfo[], target: ModCheckTarget): ModIssue[] {
+        if (target.loader === 'vanilla') return [];
+
+        const issues: ModIssue[] = [];
+        const providers = new Map<string, Provider[]>();
+        const provide = (id: string, provider: Provider) => {
+            const list = providers.get(id) ?? [];
+            list.push(provider);
+            providers.set(id, list);
+        };
+        for (const { file, metadata } of mods) {
+            provide(metadata.id, { file, version: metadata.version, bundled: false });
+            for (const provided of metadata.provides) provide(provided.id, { file, version: provided.version, bundled: true });
+        }
+        const builtIn = new Set(LOADER_PROVIDED[target.loader] ?? []);
+        const accepted = this.acceptedLoaders(target);
+        const releaseVersion = /^\d+\.\d+(\.\d+)?$/.test(target.gameVersion);
+
+        for (const { file, metadata } of mods) {
+            const about = { file, modId: metadata.id, modName: metadata.name };
+            const syntax = this.syntaxFor(metadata);
+
+            // Two jars whose own mod is the same; the loader refuses to start. Reported once, on each older copy
+            const copies = (providers.get(metadata.id) ?? []).filter(p => !p.bundled);
+            const newest = copies.reduce((best, p) => VersionRange.compare(p.version ?? '', best.version ?? '') > 0 ? p : best, copies[0]);
+            if (copies.length > 1 && newest.file !== file) {
+                issues.push({
+                    ...about,
+                    kind: 'duplicate',
+                    severity: 'error',
+                    message: `${metadata.name} is installed more than once: ${file} (${metadata.version}) and ${newest.file} (${newest.version}).`,
+                    otherFiles: [newest.file],
+                    fix: { action: 'disable', label: `Disable ${file}`, file }
+                });
+            }
+
+            if (!metadata.loaders.some(loader => accepted.includes(loader))) {
+                issues.push({
+                    ...about,
+                    kind: 'wrong-loader',
+                    severity: 'error',
+                    message: `${metadata.name} is built for ${metadata.loaders.join('/')}, but this instance uses ${target.loader}.`
+                });
+                // Its dependencies and game version don't matter if it can't load at all
+                continue;
+            }
+
+            if (releaseVersion && metadata.minecraftVersion && !VersionRange.satisfies(target.gameVersion, metadata.minecraftVersion, syntax)) {
+                issues.push({
+                    ...about,
+                    kind: 'wrong-minecraft',
+                    severity: 'error',
+                    message: `${metadata.name} ${metadata.version} requires Minecraft ${metadata.minecraftVersion}, not ${target.gameVersion}.`,
+                    versionRange: metadata.minecraftVersion
+                });
+            }
+
+            for (const dependency of metadata.dependencies) {
+                if (dependency.kind === 'optional' || builtIn.has(dependency.id)) continue;
+                // A jar's bundled mods load like any other; only its own entry can't satisfy itself
+                const found = (providers.get(dependency.id) ?? []).filter(p => p.file !== file || p.bundled);
+                const matching = found.filter(p => !p.version || VersionRange.satisfies(p.version, dependency.versionRange, syntax));
+
+                if (dependency.kind === 'incompatible' || dependency.kind === 'discouraged') {
+                    if (matching.length === 0) continue;
+                    issues.push({
+                        ...about,
+                        kind: 'incompatible',
+                        severity: dependency.kind === 'incompatible' ? 'error' : 'warning',
+                        message: `${metadata.name} ${dependency.kind === 'incompatible' ? 'is incompatible with' : 'advises against'} ${dependency.id}${dependency.versionRange && dependency.versionRange !== '*' ? ` ${dependency.versionRange}` : ''} (${matching.map(p => p.file).join(', ')}).`,
+                        dependencyId: dependency.id,
+                        versionRange: dependency.versionRange,
+                        otherFiles: [...new Set(matching.map(p => p.file))]
+                    });
+                } else if (found.length === 0) {
+                    issues.push({
+                        ...about,
+                        kind: 'missing-dependency',
+                        severity: 'error',
+                        message: `${metadata.name} requires ${dependency.id}${dependency.versionRange && dependency.versionRange !== '*' ? ` ${dependency.versionRange}` : ''}, which is not installed.`,
+                        dependencyId: dependency.id,
+                        versionRange: dependency.versionRange
+                    });
+                } else if (matching.length === 0) {
+                    issues.push({
+                        ...about,
+                        kind: 'dependency-version',
+                        severity: 'error',
+                        message: `${metadata.name} requires ${dependency.id} ${dependency.versionRange}, but ${found.map(p => `${p.version} (${p.file})`).join(', ')} is installed.`,
+                        dependencyId: dependency.id,
+                        versionRange: dependency.versionRange,
+                        otherFiles: [...new Set(found.map(p => p.file))]
+                    });
+                }
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Loaders whose mods the instance's loader runs. Quilt runs fabric mods; neoforge on 1.20.1
+     * still runs forge mods, since it forked from forge there.
+     */
+    private static acceptedLoaders(target: ModCheckTarget): ModLoader[] {
+        switch (target.loader) {
+            case 'quilt': return ['quilt', 'fabric'];
+            case 'neoforge': return target.gameVersion === '1.20.1' ? ['neoforge', 'forge'] : ['neoforge'];
+            case 'forge': return ['forge'];
+            default: return ['fabric'];
+        }
+    }
+
+    /**
+     * Range syntax a mod's own metadata is written in.
+     */
+    static syntaxFor(metadata: ModMetadata): RangeSyntax {
+        return metadata.loaders[0] === 'forge' || metadata.loaders[0] === 'neoforge' ? 'maven' : 'semver';
+    }
+}
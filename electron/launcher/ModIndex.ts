@@ -0,0 +1,87 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import AdmZip from 'adm-zip';
+import { readModMetadata } from '../utils/ModMetadata';
+
+export interface IndexedMod {
+    file: string; // jar file name in the mods folder
+    ids: string[];
+}
+
+// Packages that turn up in many jars (shaded libraries, vanilla, loaders) say nothing about which mod is at fault
+const SHARED_PACKAGES = /^(java|javax|jdk|sun|com\/sun|net\/minecraft|com\/mojang|net\/minecraftforge|net\/neoforged|net\/fabricmc|org\/quiltmc|org\/spongepowered|org\/apache|org\/slf4j|org\/lwjgl|com\/google|it\/unimi|io\/netty|kotlin|kotlinx|scala)(\/|$)/;
+
+/**
+ * Which enabled jar in a mods folder declares which mod id, and which jar owns which Java package.
+ * Built on demand when a crash needs attributing, so it reads only what that needs.
+ */
+export class ModIndex {
+    private byId = new Map<string, IndexedMod>();
+    private byFile = new Map<string, IndexedMod>();
+    private byPackage = new Map<string, IndexedMod | null>(); // null: claimed by more than one jar
+
+    static async build(modsDir: string): Promise<ModIndex> {
+        const index = new ModIndex();
+        if (!existsSync(modsDir)) return index;
+
+        for (const file of await fs.readdir(modsDir)) {
+            if (!file.endsWith('.jar')) continue;
+            try {
+                index.add(file, new AdmZip(path.join(modsDir, file)));
+            } catch (e) {
+                console.warn(`[ModIndex] Could not read ${file}:`, e);
+            }
+        }
+        return index;
+    }
+
+    get size(): number {
+        return this.byFile.size;
+    }
+
+    /**
+     * Looks a name up as a mod id, a jar file name, then a class or package name.
+     */
+    resolve(name: string): IndexedMod | null {
+        const trimmed = name.trim();
+        return this.findById(trimmed) ?? this.findByFile(trimmed) ?? this.findByClass(trimmed) ?? this.findByPackage(trimmed);
+    }
+
+    findById(id: string): IndexedMod | null {
+        return this.byId.get(id.toLowerCase()) ?? null;
+    }
+
+    findByFile(file: string): IndexedMod | null {
+        return this.byFile.get(path.basename(file)) ?? null;
+    }
+
+    findByClass(className: string): IndexedMod | null {
+        const dot = className.lastIndexOf('.');
+        return dot > 0 ? this.findByPackage(className.slice(0, dot)) : null;
+    }
+
+    findByPackage(pkg: string): IndexedMod | null {
+        return this.byPackage.get(pkg.replace(/\./g, '/')) ?? null;
+    }
+
+    private add(file: string, zip: AdmZip) {
+        const metadata = readModMetadata(zip);
+        // Bundled jar-in-jar mods are disabled along with the jar that carries them
+        const ids = metadata ? [metadata.id, ...metadata.provides.map(provided => provided.id)] : [];
+        const mod: IndexedMod = { file, ids };
+        this.byFile.set(file, mod);
+        for (const id of mod.ids) this.byId.set(id.toLowerCase(), mod);
+
+        const packages = new Set<string>();
+        for (const entry of zip.getEntries()) {
+            const name = entry.entryName;
+            if (!name.endsWith('.class') || name.startsWith('META-INF/')) continue;
+            const dir = path.posix.dirname(name);
+            if (dir !== '.' && !SHARED_PACKAGES.test(dir)) packages.add(dir);
+        }
+        for (const pkg of packages) {
+            this.byPackage.set(pkg, this.byPackage.has(pkg) ? null : mod);
+        }
+    }
+}
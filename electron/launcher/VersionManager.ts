@@ -1,4 +1,5 @@
-import { ipcMain, net } from 'electron';
+import { ipcMain } from 'electron';
+import { MetadataCache } from './MetadataCache';
 
 const VANILLA_MANIFEST_URL = 'https://piston-meta.mojang.com/mc/game/version_manifest_v2.json';
 const FABRIC_LOADER_URL = 'https://meta.fabricmc.net/v2/versions/loader';
@@ -26,43 +27,7 @@ export interface VersionManifest {
     versions: MinecraftVersion[];
 }
 
-// Helper to fetch JSON using Electron's net module (bypasses CORS issues)
-async function fetchJson<T>(url: string): Promise<T> {
-    return new Promise((resolve, reject) => {
-        const request = net.request(url);
-        let data = '';
-
-        request.on('response', (response) => {
-            response.on('data', (chunk) => {
-                data += chunk.toString();
-            });
-            response.on('end', () => {
-                try {
-                    resolve(JSON.parse(data));
-                } catch (e) {
-                    reject(new Error('Failed to parse JSON from ' + url));
-                }
-            });
-            response.on('error', (err) => {
-                reject(err);
-            });
-        });
-
-        request.on('error', (err) => {
-            reject(err);
-        });
-
-        request.end();
-    });
-}
-
 export class VersionManager {
-    private vanillaManifest: VersionManifest | null = null;
-    private fabricLoaders: FabricLoaderVersion[] = [];
-    private fabricGames: { version: string; stable: boolean }[] = [];
-    private forgeVersions: string[] = [];
-    private neoforgeVersions: string[] = [];
-
     constructor() {
         this.registerListeners();
         console.log('[VersionManager] Initialized');
@@ -73,14 +38,12 @@ export class VersionManager {
         ipcMain.handle('versions:get-vanilla', async () => {
             console.log('[VersionManager] Fetching vanilla versions...');
             try {
-                if (!this.vanillaManifest) {
-                    this.vanillaManifest = await fetchJson<VersionManifest>(VANILLA_MANIFEST_URL);
-                    console.log('[VersionManager] Loaded', this.vanillaManifest.versions.length, 'vanilla versions');
-                }
+                const manifest = await MetadataCache.getJson<VersionManifest>(VANILLA_MANIFEST_URL, 'vanilla');
+                console.log('[VersionManager] Loaded', manifest.versions.length, 'vanilla versions');
                 return {
                     success: true,
-                    latest: this.vanillaManifest.latest,
-                    versions: this.vanillaManifest.versions
+                    latest: manifest.latest,
+                    versions: manifest.versions
                 };
             } catch (error) {
                 console.error('[VersionManager] Failed to fetch vanilla manifest:', error);
@@ -91,11 +54,8 @@ export class VersionManager {
         // Fetch Fabric loaders
         ipcMain.handle('versions:get-fabric-loaders', async () => {
             try {
-                if (this.fabricLoaders.length === 0) {
-                    const loaders = await fetchJson<{ version: string; stable: boolean }[]>(FABRIC_LOADER_URL);
-                    this.fabricLoaders = loaders.map(l => ({ version: l.version, stable: l.stable }));
-                }
-                return { success: true, loaders: this.fabricLoaders };
+                const loaders = await MetadataCache.getJson<FabricLoaderVersion[]>(FABRIC_LOADER_URL, 'fabric');
+                return { success: true, loaders: loaders.map(l => ({ version: l.version, stable: l.stable })) };
             } catch (error) {
                 console.error('[VersionManager] Failed to fetch Fabric loaders:', error);
                 return { success: false, error: String(error) };
@@ -105,10 +65,8 @@ export class VersionManager {
         // Fetch Fabric-compatible game versions
         ipcMain.handle('versions:get-fabric-games', async () => {
             try {
-                if (this.fabricGames.length === 0) {
-                    this.fabricGames = await fetchJson<{ version: string; stable: boolean }[]>(FABRIC_GAME_URL);
-                }
-                return { success: true, versions: this.fabricGames };
+                const versions = await MetadataCache.getJson<{ version: string; stable: boolean }[]>(FABRIC_GAME_URL, 'fabric');
+                return { success: true, versions };
             } catch (error) {
                 console.error('[VersionManager] Failed to fetch Fabric game versions:', error);
                 return { success: false, error: String(error) };
@@ -133,17 +91,10 @@ export class VersionManager {
         // Get version details (for downloading assets/libraries)
         ipcMain.handle('versions:get-details', async (_, versionId: string) => {
             try {
-                if (!this.vanillaManifest) {
-                    this.vanillaManifest = await fetchJson<VersionManifest>(VANILLA_MANIFEST_URL);
-                }
-
-                const version = this.vanillaManifest.versions.find(v => v.id === versionId);
-                if (!version) {
+                const details = await VersionManager.getVersionDetails(versionId);
+                if (!details) {
                     return { success: false, error: 'Version not found' };
                 }
-
-                // Fetch the detailed version JSON
-                const details = await fetchJson<any>(version.url);
                 return { success: true, details };
             } catch (error) {
                 console.error('[VersionManager] Failed to fetch version details:', error);
@@ -151,18 +102,16 @@ export class VersionManager {
             }
         });
 
-        // Clear cache (useful for refreshing)
+        // Revalidate everything on next use (cached copies stay available offline)
         ipcMain.handle('versions:refresh', async () => {
-            this.vanillaManifest = null;
-            this.fabricLoaders = [];
-            this.fabricGames = [];
+            MetadataCache.expire();
             return { success: true };
         });
     }
 
     static async getForgeLoaders(gameVersion: string): Promise<any> {
         try {
-            const data = await fetchJson<any>(`https://meta.creeperhost.net/minecraft/forge/versions/${gameVersion}`);
+            const data = await MetadataCache.getJson<any>(`https://meta.creeperhost.net/minecraft/forge/versions/${gameVersion}`, 'forge');
             return { success: true, loaders: data || [] };
         } catch (error) {
             console.error('[VersionManager] Failed to fetch Forge loaders:', error);
@@ -172,7 +121,7 @@ export class VersionManager {
 
     static async getNeoForgeLoaders(gameVersion: string): Promise<any> {
         try {
-            const text = await VersionManager.fetchText(NEOFORGE_MANIFEST_URL);
+            const text = await MetadataCache.getText(NEOFORGE_MANIFEST_URL, 'neoforge');
             const versions = [...text.matchAll(/<version>(.*?)<\/version>/g)].map(m => m[1]);
             const filtered = versions.filter(v => v.startsWith(gameVersion) || v.includes(gameVersion)).reverse();
             return { success: true, loaders: filtered };
@@ -184,7 +133,7 @@ export class VersionManager {
 
     static async getQuiltLoaders(gameVersion: string): Promise<any> {
         try {
-            const data = await fetchJson<any>(`https://meta.quiltmc.org/v3/versions/loader/${gameVersion}`);
+            const data = await MetadataCache.getJson<any>(`https://meta.quiltmc.org/v3/versions/loader/${gameVersion}`, 'quilt');
             return { success: true, loaders: data.map((l: any) => ({ id: l.loader.version, stable: true })) };
         } catch (error) {
             console.error('[VersionManager] Failed to fetch Quilt loaders:', error);
@@ -192,28 +141,22 @@ export class VersionManager {
         }
     }
 
-    private static async fetchText(url: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const request = net.request(url);
-            let data = '';
-            request.on('response', (response) => {
-                response.on('data', (chunk) => data += chunk.toString());
-                response.on('end', () => resolve(data));
-                response.on('error', (err) => reject(err));
-            });
-            request.on('error', (err) => reject(err));
-            request.end();
-        });
-    }
-
-    // Static helper for internal use (LaunchProcess)
+    /**
+     * Vanilla version JSON by id, from the metadata cache. Returns null for ids the manifest doesn't list.
+     */
     static async getVersionDetails(versionId: string): Promise<any> {
-        // This is a quick hack to reuse the existing logic without properly refactoring into a shared service
-        // In a real app, the manifest fetching and caching should be a singleton service
-        const VANILLA_MANIFEST_URL = 'https://piston-meta.mojang.com/mc/game/version_manifest_v2.json';
-        const manifest = await fetchJson<VersionManifest>(VANILLA_MANIFEST_URL);
+        const manifest = await MetadataCache.getJson<VersionManifest>(VANILLA_MANIFEST_URL, 'vanilla');
         const version = manifest.versions.find(v => v.id === versionId);
         if (!version) return null;
-        return await fetchJson<any>(version.url);
+        return await MetadataCache.getJson<any>(version.url, 'version');
+    }
+
+    /**
+     * Same as getVersionDetails, but only from what is already cached on disk.
+     */
+    static getCachedVersionDetails(versionId: string): any | null {
+        const manifest = MetadataCache.peekJson<VersionManifest>(VANILLA_MANIFEST_URL);
+        const version = manifest?.versions.find(v => v.id === versionId);
+        return version ? MetadataCache.peekJson<any>(version.url) : null;
     }
 }
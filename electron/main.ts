@@ -1,6 +1,7 @@
 import { app, BrowserWindow, ipcMain, Tray, Menu, nativeImage, protocol, net } from 'electron';
 import path from 'path';
 import fs from 'fs';
+import { pathToFileURL } from 'url';
 
 // --- 0. Load .env manually for Main Process ---
 function loadEnv() {
@@ -33,6 +34,7 @@ import { AuthManager } from './managers/AuthManager';
 import { InstanceManager } from './managers/InstanceManager';
 import { VersionManager } from './launcher/VersionManager';
 import { LaunchProcess } from './launcher/LaunchProcess';
+import { GameProcessRegistry } from './launcher/GameProcessRegistry';
 import { ConfigManager } from './managers/ConfigManager';
 import { LogWindowManager } from './managers/LogWindowManager';
 import { CloudManager } from './managers/CloudManager';
@@ -45,6 +47,12 @@ import { ScreenshotManager } from './managers/ScreenshotManager';
 import { ModPlatformManager } from './managers/ModPlatformManager';
 import { ResourcePackManager } from './managers/ResourcePackManager';
 import { ShaderPackManager } from './managers/ShaderPackManager';
+import { DownloadManager } from './managers/DownloadManager';
+import { BackupManager } from './managers/BackupManager';
+import { TemplateManager } from './managers/TemplateManager';
+import { PlaytimeManager } from './managers/PlaytimeManager';
+import { TrashManager } from './managers/TrashManager';
+import { GameLogManager } from './managers/GameLogManager';
 
 // Paths Configuration
 process.env.DIST = path.join(__dirname, '../dist-react');
@@ -53,7 +61,8 @@ process.env.PUBLIC = app.isPackaged ? process.env.DIST! : path.join(process.env.
 // --- 0.5 Register Protocols as Privileged ---
 protocol.registerSchemesAsPrivileged([
     { scheme: 'whoap-skin', privileges: { secure: true, standard: true, supportFetchAPI: true } },
-    { scheme: 'whoap-cape', privileges: { secure: true, standard: true, supportFetchAPI: true } }
+    { scheme: 'whoap-cape', privileges: { secure: true, standard: true, supportFetchAPI: true } },
+    { scheme: 'whoap-icon', privileges: { secure: true, standard: true, supportFetchAPI: true } }
 ]);
 
 const VITE_DEV_SERVER_URL = process.env['VITE_DEV_SERVER_URL'];
@@ -178,10 +187,12 @@ if (!app.requestSingleInstanceLock()) {
 
         // Initialize Core Managers
         new ConfigManager();
+        DownloadManager.getInstance();
         new AuthManager();
         InstanceManager.getInstance();
         new VersionManager();
         new LaunchProcess();
+        GameProcessRegistry.getInstance();
         new LogWindowManager();
         new ModpackManager();
         new ModsManager();
@@ -192,6 +203,11 @@ if (!app.requestSingleInstanceLock()) {
         CloudManager.getInstance();
         DiscordManager.getInstance();
         ModPlatformManager.getInstance();
+        BackupManager.getInstance();
+        TemplateManager.getInstance();
+        PlaytimeManager.getInstance();
+        TrashManager.getInstance();
+        GameLogManager.getInstance();
 
         // Register IPC Handlers
         registerIpcHandlers();
@@ -241,6 +257,23 @@ if (!app.requestSingleInstanceLock()) {
             }
         });
 
+        // whoap-icon://instance/<instanceId>/<icon file>. The id goes in the path: the scheme is
+        // standard, so the host is lowercased and can't hold characters like spaces
+        protocol.handle('whoap-icon', async (request: Request) => {
+            const [, instanceId, icon] = new URL(request.url).pathname
+                .split('/')
+                .map(part => decodeURIComponent(part));
+
+            const filePath = instanceId && icon ? InstanceManager.getInstance().getIconPath(instanceId, icon) : null;
+            if (!filePath) return new Response(null, { status: 404 });
+            try {
+                return await net.fetch(pathToFileURL(filePath).toString());
+            } catch (e) {
+                console.error('[Protocol] Failed to load instance icon', e);
+                return new Response(null, { status: 404 });
+            }
+        });
+
         createMainWindow();   // Load main app in background
         createTray();
     });
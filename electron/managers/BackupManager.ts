@@ -0,0 +1,453 @@
+import { app, ipcMain } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import { createReadStream, existsSync } from 'fs';
+import crypto from 'crypto';
+import { ConfigManager } from './ConfigManager';
+import { InstanceManager } from './InstanceManager';
+import { GameProcessRegistry } from '../launcher/GameProcessRegistry';
+
+export type SnapshotReason = 'manual' | 'mod-install' | 'mod-delete' | 'loader-change' | 'restore';
+
+// Game directory entries a snapshot covers
+const SNAPSHOT_SCOPES = ['mods', 'config', 'saves', 'options.txt'];
+
+// Held open by a running game; never worth restoring
+const SKIPPED_FILES = new Set(['session.lock']);
+
+// instance.json fields a restore puts back; name, favourites and play times stay as they are
+const RESTORED_CONFIG_FIELDS = ['version', 'loader', 'launchVersionId', 'overrides'];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+interface SnapshotFile {
+    hash: string;
+    size: number;
+    mtime: number;
+}
+
+interface SnapshotManifest {
+    id: string;
+    instanceId: string;
+    created: number;
+    reason: SnapshotReason;
+    label?: string;
+    // Keys are '/'-separated paths relative to the game directory
+    files: Record<string, SnapshotFile>;
+    // Hash of instance.json at the time, if the instance has one
+    instanceConfig?: string;
+}
+
+export interface SnapshotInfo {
+    id: string;
+    instanceId: string;
+    created: number;
+    reason: SnapshotReason;
+    label?: string;
+    automatic: boolean;
+    fileCount: number;
+    totalSize: number;
+}
+
+/**
+ * Timestamped snapshots of an instance's mods, config, saves and options.txt under userData/backups.
+ * File contents live once in a shared content-addressed store (objects/<xx>/<sha1>), so unchanged
+ * files cost nothing; each snapshot is a small manifest in snapshots/<instanceId>/<snapshotId>.json.
+ * Automatic snapshots are pruned by the retention settings, manual ones only when deleted.
+ */
+export class BackupManager {
+    private static instance: BackupManager;
+    // Snapshots, restores and object cleanup share the object store, so they run one at a time
+    private queue: Promise<unknown> = Promise.resolve();
+
+    private constructor() {
+        this.registerListeners();
+    }
+
+    public static getInstance(): BackupManager {
+        if (!BackupManager.instance) {
+            BackupManager.instance = new BackupManager();
+        }
+        return BackupManager.instance;
+    }
+
+    private registerListeners() {
+        ipcMain.handle('instance:snapshot', async (_, instanceId: string, label?: string) => {
+            try {
+                const snapshot = await this.snapshot(instanceId, 'manual', label);
+                return { success: true, snapshot };
+            } catch (error) {
+                console.error("Failed to snapshot instance:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:list-snapshots', async (_, instanceId: string) => {
+            try {
+                return await this.listSnapshots(instanceId);
+            } catch (error) {
+                console.error("Failed to list snapshots:", error);
+                return [];
+            }
+        });
+
+        ipcMain.handle('instance:restore', async (_, instanceId: string, snapshotId: string) => {
+            try {
+                return await this.restore(instanceId, snapshotId);
+            } catch (error) {
+                console.error("Failed to restore snapshot:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:delete-snapshot', async (_, instanceId: string, snapshotId: string) => {
+            try {
+                return await this.deleteSnapshot(instanceId, snapshotId);
+            } catch (error) {
+                console.error("Failed to delete snapshot:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+    }
+
+    /**
+     * Snapshot taken before a risky change. Does nothing when automatic snapshots are off,
+     * and never throws: a failed backup is logged but doesn't block the change itself.
+     */
+    async autoSnapshot(instanceId: string, reason: SnapshotReason, label?: string): Promise<SnapshotInfo | null> {
+        if (!ConfigManager.getAutoSnapshots()) return null;
+
+        try {
+            return await this.snapshot(instanceId, reason, label);
+        } catch (e) {
+            console.error(`[Backup] Automatic snapshot of ${instanceId} failed:`, e);
+            return null;
+        }
+    }
+
+    /**
+     * Records the current state of the instance. An automatic snapshot identical to the latest one
+     * is not stored again; the latest one is returned instead.
+     */
+    snapshot(instanceId: string, reason: SnapshotReason, label?: string): Promise<SnapshotInfo> {
+        return this.exclusive(async () => {
+            const gameDir = this.getGameDir(instanceId);
+            const previous = (await this.readManifests(instanceId))[0];
+
+            const files = await this.collectFiles(gameDir, previous?.files || {});
+            const configPath = this.getInstanceConfigPath(instanceId);
+            const instanceConfig = existsSync(configPath) ? await this.storeObject(configPath) : undefined;
+
+            if (reason !== 'manual' && previous && previous.instanceConfig === instanceConfig && this.sameContent(previous.files, files)) {
+                console.log(`[Backup] ${instanceId} unchanged since ${previous.id}, skipping ${reason} snapshot`);
+                return this.toInfo(previous);
+            }
+
+            const created = Date.now();
+            const manifest: SnapshotManifest = {
+                id: `${created}-${reason}`,
+                instanceId,
+                created,
+                reason,
+                label,
+                files,
+                instanceConfig
+            };
+
+            await fs.mkdir(this.getSnapshotDir(instanceId), { recursive: true });
+            await fs.writeFile(this.getManifestPath(instanceId, manifest.id), JSON.stringify(manifest));
+            console.log(`[Backup] Snapshot ${manifest.id} of ${instanceId}: ${Object.keys(files).length} files`);
+
+            await this.prune(instanceId);
+            return this.toInfo(manifest);
+        });
+    }
+
+    async listSnapshots(instanceId: string): Promise<SnapshotInfo[]> {
+        return (await this.readManifests(instanceId)).map(m => this.toInfo(m));
+    }
+
+    /**
+     * Makes the covered entries match the snapshot: changed and deleted files come back and files
+     * added since are removed. The current state is snapshotted first so a restore can be undone.
+     */
+    async restore(instanceId: string, snapshotId: string) {
+        const target = (await this.readManifests(instanceId)).find(m => m.id === snapshotId);
+        if (!target) return { success: false, error: 'Snapshot not found' };
+
+        // The running game holds mods open (locked on Windows) and rewrites config on exit
+        if (GameProcessRegistry.getInstance().isRunning(instanceId)) {
+            return { success: false, error: 'Stop the game before restoring a snapshot' };
+        }
+
+        await this.snapshot(instanceId, 'restore', `Before restoring ${new Date(target.created).toLocaleString()}`);
+
+        return this.exclusive(async () => {
+            const gameDir = this.getGameDir(instanceId);
+            const current = await this.collectFiles(gameDir, target.files);
+            let restored = 0;
+            let removed = 0;
+
+            for (const relative of Object.keys(current)) {
+                if (!target.files[relative]) {
+                    await fs.rm(path.join(gameDir, ...relative.split('/')), { force: true });
+                    removed++;
+                }
+            }
+
+            for (const [relative, file] of Object.entries(target.files)) {
+                if (current[relative]?.hash === file.hash) continue;
+
+                const destination = path.join(gameDir, ...relative.split('/'));
+                await fs.mkdir(path.dirname(destination), { recursive: true });
+                await fs.copyFile(this.getObjectPath(file.hash), destination);
+                restored++;
+            }
+
+            for (const scope of SNAPSHOT_SCOPES) {
+                await this.removeEmptyDirs(path.join(gameDir, scope));
+            }
+
+            if (target.instanceConfig) {
+                await this.restoreInstanceConfig(instanceId, target.instanceConfig);
+            }
+
+            console.log(`[Backup] Restored ${snapshotId} to ${instanceId}: ${restored} files written, ${removed} removed`);
+            return { success: true, restored, removed };
+        });
+    }
+
+    deleteSnapshot(instanceId: string, snapshotId: string) {
+        return this.exclusive(async () => {
+            await fs.rm(this.getManifestPath(instanceId, snapshotId), { force: true });
+            await this.collectGarbage();
+            return { success: true };
+        });
+    }
+
+    /**
+     * Drops automatic snapshots beyond the newest `snapshotKeepCount` or older than
+     * `snapshotMaxAgeDays` (0 keeps them regardless of age), then frees unreferenced objects.
+     */
+    private async prune(instanceId: string) {
+        const keepCount = ConfigManager.getSnapshotKeepCount();
+        const maxAgeDays = ConfigManager.getSnapshotMaxAgeDays();
+        const automatic = (await this.readManifests(instanceId)).filter(m => m.reason !== 'manual');
+
+        const expired = automatic.filter((m, i) =>
+            i >= keepCount || (maxAgeDays > 0 && Date.now() - m.created > maxAgeDays * DAY)
+        );
+        if (expired.length === 0) return;
+
+        for (const manifest of expired) {
+            await fs.rm(this.getManifestPath(instanceId, manifest.id), { force: true });
+        }
+        console.log(`[Backup] Pruned ${expired.length} old snapshot(s) of ${instanceId}`);
+
+        await this.collectGarbage();
+    }
+
+    // Deletes objects no manifest of any instance refers to
+    private async collectGarbage() {
+        const root = this.getBackupRoot();
+        const referenced = new Set<string>();
+
+        for (const instanceId of await this.readDirSafe(path.join(root, 'snapshots'))) {
+            for (const manifest of await this.readManifests(instanceId)) {
+                Object.values(manifest.files).forEach(f => referenced.add(f.hash));
+                if (manifest.instanceConfig) referenced.add(manifest.instanceConfig);
+            }
+        }
+
+        let freed = 0;
+        const objectsDir = path.join(root, 'objects');
+        for (const prefix of await this.readDirSafe(objectsDir)) {
+            for (const hash of await this.readDirSafe(path.join(objectsDir, prefix))) {
+                if (referenced.has(hash)) continue;
+                await fs.rm(path.join(objectsDir, prefix, hash), { force: true });
+                freed++;
+            }
+        }
+        if (freed > 0) console.log(`[Backup] Freed ${freed} unreferenced object(s)`);
+    }
+
+    /**
+     * Hashes every covered file into the object store. Files whose size and mtime match `known`
+     * reuse its hash instead of being read again.
+     */
+    private async collectFiles(gameDir: string, known: Record<string, SnapshotFile>): Promise<Record<string, SnapshotFile>> {
+        const files: Record<string, SnapshotFile> = {};
+
+        const visit = async (absolute: string, relative: string) => {
+            let stat;
+            try {
+                stat = await fs.stat(absolute);
+            } catch {
+                return;
+            }
+
+            if (stat.isDirectory()) {
+                for (const name of await this.readDirSafe(absolute)) {
+                    await visit(path.join(absolute, name), `${relative}/${name}`);
+                }
+                return;
+            }
+
+            if (!stat.isFile() || SKIPPED_FILES.has(path.basename(absolute))) return;
+
+            const previous = known[relative];
+            if (previous && previous.size === stat.size && previous.mtime === stat.mtimeMs && existsSync(this.getObjectPath(previous.hash))) {
+                files[relative] = previous;
+                return;
+            }
+
+            try {
+                files[relative] = { hash: await this.storeObject(absolute), size: stat.size, mtime: stat.mtimeMs };
+            } catch (e) {
+                console.warn(`[Backup] Skipping unreadable file ${absolute}:`, e);
+            }
+        };
+
+        for (const scope of SNAPSHOT_SCOPES) {
+            await visit(path.join(gameDir, scope), scope);
+        }
+        return files;
+    }
+
+    // Copies a file into the object store unless its content is already there; returns its hash
+    private async storeObject(filePath: string): Promise<string> {
+        const hash = await this.hashFile(filePath);
+        const objectPath = this.getObjectPath(hash);
+
+        if (!existsSync(objectPath)) {
+            await fs.mkdir(path.dirname(objectPath), { recursive: true });
+            const temp = `${objectPath}.${process.pid}.tmp`;
+            await fs.copyFile(filePath, temp);
+            await fs.rename(temp, objectPath);
+        }
+        return hash;
+    }
+
+    private hashFile(filePath: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const hash = crypto.createHash('sha1');
+            createReadStream(filePath)
+                .on('data', chunk => hash.update(chunk))
+                .on('end', () => resolve(hash.digest('hex')))
+                .on('error', reject);
+        });
+    }
+
+    private async restoreInstanceConfig(instanceId: string, hash: string) {
+        const configPath = this.getInstanceConfigPath(instanceId);
+        if (!existsSync(configPath)) return;
+
+        try {
+            const saved = JSON.parse(await fs.readFile(this.getObjectPath(hash), 'utf-8'));
+            const data = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+
+            for (const field of RESTORED_CONFIG_FIELDS) {
+                if (saved[field] === undefined) delete data[field];
+                else data[field] = saved[field];
+            }
+            await fs.writeFile(configPath, JSON.stringify(data, null, 4));
+        } catch (e) {
+            console.warn(`[Backup] Could not restore instance.json of ${instanceId}:`, e);
+        }
+    }
+
+    private async removeEmptyDirs(dir: string): Promise<boolean> {
+        let stat;
+        try {
+            stat = await fs.stat(dir);
+        } catch {
+            return false;
+        }
+        if (!stat.isDirectory()) return false;
+
+        let empty = true;
+        for (const name of await this.readDirSafe(dir)) {
+            if (!(await this.removeEmptyDirs(path.join(dir, name)))) empty = false;
+        }
+        if (empty) await fs.rmdir(dir).catch(() => { });
+        return empty;
+    }
+
+    private sameContent(a: Record<string, SnapshotFile>, b: Record<string, SnapshotFile>): boolean {
+        const keys = Object.keys(a);
+        if (keys.length !== Object.keys(b).length) return false;
+        return keys.every(key => b[key]?.hash === a[key].hash);
+    }
+
+    // Newest first; unreadable manifests are skipped
+    private async readManifests(instanceId: string): Promise<SnapshotManifest[]> {
+        const dir = this.getSnapshotDir(instanceId);
+        const manifests: SnapshotManifest[] = [];
+
+        for (const file of await this.readDirSafe(dir)) {
+            if (!file.endsWith('.json')) continue;
+            try {
+                manifests.push(JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8')));
+            } catch (e) {
+                console.warn(`[Backup] Ignoring unreadable snapshot ${file}:`, e);
+            }
+        }
+
+        return manifests.sort((a, b) => b.created - a.created);
+    }
+
+    private toInfo(manifest: SnapshotManifest): SnapshotInfo {
+        const files = Object.values(manifest.files);
+        return {
+            id: manifest.id,
+            instanceId: manifest.instanceId,
+            created: manifest.created,
+            reason: manifest.reason,
+            label: manifest.label,
+            automatic: manifest.reason !== 'manual',
+            fileCount: files.length,
+            totalSize: files.reduce((sum, f) => sum + f.size, 0)
+        };
+    }
+
+    private exclusive<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task, task);
+        this.queue = run.catch(() => { });
+        return run;
+    }
+
+    private async readDirSafe(dir: string): Promise<string[]> {
+        try {
+            return await fs.readdir(dir);
+        } catch {
+            return [];
+        }
+    }
+
+    private getGameDir(instanceId: string): string {
+        const gameDir = InstanceManager.getInstance().resolveInstancePath(instanceId);
+        if (!gameDir) throw new Error('Instance not found');
+        return gameDir;
+    }
+
+    private getInstanceConfigPath(instanceId: string): string {
+        return path.join(ConfigManager.getInstancesPath(), instanceId, 'instance.json');
+    }
+
+    private getBackupRoot(): string {
+        return path.join(app.getPath('userData'), 'backups');
+    }
+
+    private getSnapshotDir(instanceId: string): string {
+        // Ids come from the renderer; keep them inside the snapshots folder
+        return path.join(this.getBackupRoot(), 'snapshots', path.basename(instanceId));
+    }
+
+    private getManifestPath(instanceId: string, snapshotId: string): string {
+        return path.join(this.getSnapshotDir(instanceId), `${path.basename(snapshotId)}.json`);
+    }
+
+    private getObjectPath(hash: string): string {
+        return path.join(this.getBackupRoot(), 'objects', hash.substring(0, 2), hash);
+    }
+}
@@ -2,6 +2,7 @@ import Store from 'electron-store';
 import { app, ipcMain, dialog } from 'electron';
 import path from 'path';
 import { VersionUtils } from '../utils/VersionUtils';
+import { JavaManager } from '../launcher/JavaManager';
 
 interface JavaPaths {
     [version: string]: string; // e.g., { "8": "path/to/java8", "17": "auto", "21": "path/to/java21" }
@@ -16,6 +17,28 @@ interface ProxyConfig {
     password?: string;
 }
 
+export interface MirrorRule {
+    // Official URL prefix, e.g. https://libraries.minecraft.net/
+    prefix: string;
+    // Replacement prefixes, tried in order
+    mirrors: string[];
+}
+
+// BMCLAPI mirrors every Mojang/loader host under one domain
+export const BMCLAPI_MIRRORS: MirrorRule[] = [
+    { prefix: 'https://piston-meta.mojang.com/', mirrors: ['https://bmclapi2.bangbang93.com/'] },
+    { prefix: 'https://launchermeta.mojang.com/', mirrors: ['https://bmclapi2.bangbang93.com/'] },
+    { prefix: 'https://piston-data.mojang.com/', mirrors: ['https://bmclapi2.bangbang93.com/'] },
+    { prefix: 'https://launcher.mojang.com/', mirrors: ['https://bmclapi2.bangbang93.com/'] },
+    { prefix: 'https://resources.download.minecraft.net/', mirrors: ['https://bmclapi2.bangbang93.com/assets/'] },
+    { prefix: 'https://libraries.minecraft.net/', mirrors: ['https://bmclapi2.bangbang93.com/maven/'] },
+    { prefix: 'https://maven.minecraftforge.net/', mirrors: ['https://bmclapi2.bangbang93.com/maven/'] },
+    { prefix: 'https://maven.neoforged.net/releases/', mirrors: ['https://bmclapi2.bangbang93.com/maven/'] },
+    { prefix: 'https://maven.fabricmc.net/', mirrors: ['https://bmclapi2.bangbang93.com/maven/'] },
+    { prefix: 'https://meta.fabricmc.net/', mirrors: ['https://bmclapi2.bangbang93.com/fabric-meta/'] },
+    { prefix: 'https://meta.quiltmc.org/', mirrors: ['https://bmclapi2.bangbang93.com/quilt-meta/'] }
+];
+
 interface AppConfig {
     gamePath: string;
     instancesPath: string;
@@ -27,11 +50,25 @@ interface AppConfig {
     // Launch Behavior
     launchBehavior: 'hide' | 'minimize' | 'keep';
     showConsoleOnLaunch: boolean;
+    // Never touch the network; launch from local files and the metadata cache only
+    offlineMode: boolean;
     // JVM Tuning
     jvmPreset: 'potato' | 'standard' | 'pro' | 'extreme' | 'custom';
     jvmArgs: string[];
     // Proxy (Proxifier style)
     proxy: ProxyConfig;
+    // Downloads
+    maxConcurrentDownloads: number;
+    downloadSpeedLimit: number; // KB/s, 0 = unlimited
+    // Mirrors
+    mirrors: MirrorRule[];
+    preferMirrors: boolean; // try mirrors before the official host
+    // Instance snapshots
+    autoSnapshots: boolean; // snapshot before mod installs/deletes and loader changes
+    snapshotKeepCount: number; // automatic snapshots kept per instance
+    snapshotMaxAgeDays: number; // 0 = no age limit
+    // Deleted instances
+    trashRetentionDays: number; // days before a deleted instance is purged for good
 }
 
 const store = new Store<AppConfig>({
@@ -44,6 +81,7 @@ const store = new Store<AppConfig>({
         javaPaths: {},
         launchBehavior: 'hide',
         showConsoleOnLaunch: true,
+        offlineMode: false,
         jvmPreset: 'standard',
         jvmArgs: [],
         proxy: {
@@ -51,11 +89,21 @@ const store = new Store<AppConfig>({
             host: '127.0.0.1',
             port: 8080,
             type: 'http'
-        }
+        },
+        maxConcurrentDownloads: 5,
+        downloadSpeedLimit: 0,
+        mirrors: [],
+        preferMirrors: false,
+        autoSnapshots: true,
+        snapshotKeepCount: 10,
+        snapshotMaxAgeDays: 30,
+        trashRetentionDays: 30
     }
 });
 
 export class ConfigManager {
+    private javaManager: JavaManager | null = null;
+
     constructor() {
         this.registerListeners();
     }
@@ -64,6 +112,8 @@ export class ConfigManager {
         // Get all config
         ipcMain.handle('config:get', () => store.store);
 
+        ipcMain.handle('config:mirror-presets', () => ({ bmclapi: BMCLAPI_MIRRORS }));
+
         // Set any config key
         ipcMain.handle('config:set', (_, key: keyof AppConfig, value: any) => {
             store.set(key, value);
@@ -97,6 +147,15 @@ export class ConfigManager {
 
             if (!result.canceled && result.filePaths.length > 0) {
                 const javaPath = result.filePaths[0];
+
+                const info = await JavaManager.probe(javaPath, 'system');
+                if (!info) {
+                    return { success: false, error: 'The selected file is not a working Java executable' };
+                }
+                if (info.major !== version) {
+                    return { success: false, error: `Selected Java is version ${info.major}, expected ${version}` };
+                }
+
                 const javaPaths = store.get('javaPaths') || {};
                 javaPaths[version] = javaPath;
                 store.set('javaPaths', javaPaths);
@@ -131,6 +190,17 @@ export class ConfigManager {
             return store.get('javaPaths') || {};
         });
 
+        // Discover every Java installation on this machine
+        ipcMain.handle('java:scan', async () => {
+            try {
+                if (!this.javaManager) this.javaManager = new JavaManager();
+                return { success: true, installations: await this.javaManager.scanInstallations() };
+            } catch (e) {
+                console.error('Java scan error:', e);
+                return { success: false, error: String(e), installations: [] };
+            }
+        });
+
         // Scan versions from game path
         ipcMain.handle('config:scan-versions', async (event) => {
             const gamePath = store.get('gamePath');
@@ -219,6 +289,10 @@ export class ConfigManager {
         return store.get('showConsoleOnLaunch');
     }
 
+    static getOfflineMode(): boolean {
+        return store.get('offlineMode') || false;
+    }
+
     static getJvmPreset(): string {
         return store.get('jvmPreset') || 'standard';
     }
@@ -230,4 +304,36 @@ export class ConfigManager {
     static getProxy(): ProxyConfig {
         return store.get('proxy') || { enabled: false, host: '127.0.0.1', port: 8080, type: 'http' };
     }
+
+    static getMaxConcurrentDownloads(): number {
+        return store.get('maxConcurrentDownloads') || 5;
+    }
+
+    static getDownloadSpeedLimit(): number {
+        return store.get('downloadSpeedLimit') || 0;
+    }
+
+    static getMirrors(): MirrorRule[] {
+        return store.get('mirrors') || [];
+    }
+
+    static getPreferMirrors(): boolean {
+        return store.get('preferMirrors') || false;
+    }
+
+    static getAutoSnapshots(): boolean {
+        return store.get('autoSnapshots') ?? true;
+    }
+
+    static getSnapshotKeepCount(): number {
+        return store.get('snapshotKeepCount') || 10;
+    }
+
+    static getSnapshotMaxAgeDays(): number {
+        return store.get('snapshotMaxAgeDays') ?? 30;
+    }
+
+    static getTrashRetentionDays(): number {
+        return store.get('trashRetentionDays') || 30;
+    }
 }
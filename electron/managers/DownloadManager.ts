@@ -0,0 +1,584 @@
+import { BrowserWindow, ipcMain } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import axios, { AxiosRequestConfig } from 'axios';
+import { DownloadTask } from '../launcher/AssetDownloader';
+import { ConfigManager } from './ConfigManager';
+import { MirrorUtils } from '../utils/MirrorUtils';
+
+const MAX_RETRIES = 5;
+// Per source, when mirrors give a download somewhere else to go
+const MIRROR_RETRIES = 2;
+const INITIAL_BACKOFF_MS = 1000;
+// Tasks without an explicit priority rank between assets (5) and asset indexes (15)
+const DEFAULT_PRIORITY = 10;
+const USER_AGENT = 'WhoapLauncher/2.0';
+const BROADCAST_INTERVAL_MS = 500;
+// Window used for speed/ETA
+const SPEED_WINDOW_MS = 5000;
+// Finished jobs kept for the downloads panel
+const MAX_FINISHED_JOBS = 20;
+
+export type DownloadJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface DownloadFailure {
+    task: DownloadTask;
+    error: Error;
+}
+
+export interface DownloadResult {
+    cancelled: boolean;
+    failed: DownloadFailure[];
+}
+
+export interface DownloadJobInfo {
+    id: string;
+    label: string;
+    status: DownloadJobStatus;
+    totalFiles: number;
+    completedFiles: number;
+    failedFiles: number;
+    totalBytes: number;
+    downloadedBytes: number;
+    speed: number; // bytes/s
+    eta: number | null; // seconds
+    createdAt: number;
+}
+
+export interface DownloadSnapshot {
+    jobs: DownloadJobInfo[];
+    totalBytes: number;
+    downloadedBytes: number;
+    speed: number;
+    eta: number | null;
+}
+
+// One fetch. Several jobs asking for the same destination share one entry; other destinations
+// asking for the same URL are copies, filled from the downloaded file.
+interface DownloadEntry {
+    task: DownloadTask;
+    copies: DownloadTask[];
+    jobs: Set<DownloadJob>;
+    state: 'queued' | 'active' | 'done' | 'failed';
+    controller?: AbortController;
+    seq: number;
+}
+
+class DownloadCancelledError extends Error {
+    constructor(public reason: 'paused' | 'cancelled') {
+        super(`Download ${reason}`);
+    }
+}
+
+/**
+ * A batch of files queued together. Emits:
+ * - `progress` { current, total } in bytes, for this job only
+ * - `file` { task, ok } whenever one of its files finishes
+ * - `error` (Error) for every file that could not be downloaded
+ * - `done` (DownloadResult) once every file has finished or the job was cancelled
+ */
+export class DownloadJob extends EventEmitter {
+    readonly id: string;
+    readonly createdAt = Date.now();
+    status: DownloadJobStatus = 'queued';
+    entries: DownloadEntry[] = [];
+    totalBytes = 0;
+    downloadedBytes = 0;
+    completedFiles = 0;
+    failures: DownloadFailure[] = [];
+    readonly done: Promise<DownloadResult>;
+
+    private samples: { time: number; bytes: number }[] = [];
+    private resolveDone!: (result: DownloadResult) => void;
+
+    constructor(public readonly label: string) {
+        super();
+        this.id = crypto.randomUUID();
+        this.done = new Promise(resolve => this.resolveDone = resolve);
+        // Callers that only await `done` should not crash on per-file errors
+        this.on('error', () => { });
+    }
+
+    get finished(): boolean {
+        return this.status === 'completed' || this.status === 'failed' || this.status === 'cancelled';
+    }
+
+    addBytes(bytes: number) {
+        this.downloadedBytes += bytes;
+        this.samples.push({ time: Date.now(), bytes });
+        this.emit('progress', { current: this.downloadedBytes, total: this.totalBytes });
+    }
+
+    speed(): number {
+        const cutoff = Date.now() - SPEED_WINDOW_MS;
+        this.samples = this.samples.filter(s => s.time >= cutoff);
+        const bytes = this.samples.reduce((acc, s) => acc + s.bytes, 0);
+        return bytes / (SPEED_WINDOW_MS / 1000);
+    }
+
+    finish(status: 'completed' | 'failed' | 'cancelled') {
+        if (this.finished) return;
+        this.status = status;
+        const result = { cancelled: status === 'cancelled', failed: this.failures };
+        this.emit('done', result);
+        this.resolveDone(result);
+    }
+
+    info(): DownloadJobInfo {
+        const speed = this.status === 'running' ? this.speed() : 0;
+        const remaining = this.totalBytes - this.downloadedBytes;
+        return {
+            id: this.id,
+            label: this.label,
+            status: this.status,
+            totalFiles: this.entries.length,
+            completedFiles: this.completedFiles,
+            failedFiles: this.failures.length,
+            totalBytes: this.totalBytes,
+            downloadedBytes: this.downloadedBytes,
+            speed,
+            eta: speed > 0 && remaining > 0 ? Math.round(remaining / speed) : null,
+            createdAt: this.createdAt
+        };
+    }
+}
+
+/**
+ * Single download queue shared by the launcher, Java installs, modpacks and mods.
+ * Honours task priority, de-duplicates by destination and URL and enforces the configured
+ * concurrency and bandwidth limits across all of them.
+ */
+export class DownloadManager {
+    private static instance: DownloadManager;
+
+    private jobs: DownloadJob[] = [];
+    // Unfinished entries by destination (copies included) and by URL
+    private entries = new Map<string, DownloadEntry>();
+    private entriesByUrl = new Map<string, DownloadEntry>();
+    private pending: DownloadEntry[] = [];
+    private active = 0;
+    private seq = 0;
+
+    // Token bucket for the bandwidth cap
+    private bucket = 0;
+    private bucketTime = Date.now();
+
+    private broadcastTimer: NodeJS.Timeout | null = null;
+
+    private constructor() {
+        this.registerListeners();
+    }
+
+    public static getInstance(): DownloadManager {
+        if (!DownloadManager.instance) {
+            DownloadManager.instance = new DownloadManager();
+        }
+        return DownloadManager.instance;
+    }
+
+    private registerListeners() {
+        ipcMain.handle('download:list', () => this.snapshot());
+
+        ipcMain.handle('download:cancel', (_, jobId: string) => {
+            return { success: this.cancel(jobId) };
+        });
+
+        ipcMain.handle('download:pause', (_, jobId: string) => {
+            return { success: this.pause(jobId) };
+        });
+
+        ipcMain.handle('download:resume', (_, jobId: string) => {
+            return { success: this.resume(jobId) };
+        });
+    }
+
+    /**
+     * Queues a batch of files as one job. Files already queued by another job are shared, not fetched twice.
+     */
+    enqueue(tasks: DownloadTask[], label: string): DownloadJob {
+        const job = new DownloadJob(label);
+        this.jobs.push(job);
+
+        for (const task of tasks) {
+            let entry = this.entries.get(task.destination) ?? this.findByUrl(task);
+            if (!entry) {
+                entry = { task, copies: [], jobs: new Set(), state: 'queued', seq: this.seq++ };
+                this.entries.set(task.destination, entry);
+                this.entriesByUrl.set(task.url, entry);
+                this.insertPending(entry);
+            } else if (!this.entries.has(task.destination)) {
+                entry.copies.push(task);
+                this.entries.set(task.destination, entry);
+            }
+
+            // The same file (or URL) twice in one batch
+            if (job.entries.includes(entry)) continue;
+            entry.jobs.add(job);
+            job.entries.push(entry);
+            job.totalBytes += task.size || 0;
+        }
+
+        this.pruneFinishedJobs();
+        this.startBroadcasting();
+
+        // Finish asynchronously so callers can attach listeners first
+        setImmediate(() => {
+            if (job.entries.length === 0) job.finish('completed');
+            this.processQueue();
+        });
+
+        return job;
+    }
+
+    cancel(jobId: string): boolean {
+        const job = this.jobs.find(j => j.id === jobId);
+        if (!job || job.finished) return false;
+
+        for (const entry of job.entries) {
+            entry.jobs.delete(job);
+            if (entry.jobs.size === 0) this.dropEntry(entry, 'cancelled');
+        }
+
+        job.finish('cancelled');
+        this.processQueue();
+        return true;
+    }
+
+    pause(jobId: string): boolean {
+        const job = this.jobs.find(j => j.id === jobId);
+        if (!job || job.finished || job.status === 'paused') return false;
+
+        job.status = 'paused';
+        // Stop transfers nobody else is waiting for; the .part file is kept for resuming
+        for (const entry of job.entries) {
+            if (entry.state === 'active' && this.isPaused(entry)) {
+                entry.controller?.abort(new DownloadCancelledError('paused'));
+            }
+        }
+
+        this.processQueue();
+        return true;
+    }
+
+    resume(jobId: string): boolean {
+        const job = this.jobs.find(j => j.id === jobId);
+        if (!job || job.status !== 'paused') return false;
+
+        job.status = 'queued';
+        this.processQueue();
+        return true;
+    }
+
+    snapshot(): DownloadSnapshot {
+        const jobs = this.jobs.map(j => j.info());
+        const running = jobs.filter(j => j.status === 'running' || j.status === 'queued' || j.status === 'paused');
+        const totalBytes = running.reduce((acc, j) => acc + j.totalBytes, 0);
+        const downloadedBytes = running.reduce((acc, j) => acc + j.downloadedBytes, 0);
+        const speed = running.reduce((acc, j) => acc + j.speed, 0);
+        const remaining = totalBytes - downloadedBytes;
+
+        return {
+            jobs,
+            totalBytes,
+            downloadedBytes,
+            speed,
+            eta: speed > 0 && remaining > 0 ? Math.round(remaining / speed) : null
+        };
+    }
+
+    // Highest priority first, FIFO within a priority
+    private insertPending(entry: DownloadEntry) {
+        const priority = entry.task.priority ?? DEFAULT_PRIORITY;
+        const index = this.pending.findIndex(e => (e.task.priority ?? DEFAULT_PRIORITY) < priority);
+        if (index === -1) {
+            this.pending.push(entry);
+        } else {
+            this.pending.splice(index, 0, entry);
+        }
+    }
+
+    // Same URL counts as the same file unless the expected hashes say otherwise
+    private findByUrl(task: DownloadTask): DownloadEntry | undefined {
+        const entry = this.entriesByUrl.get(task.url);
+        if (entry && task.sha1 && entry.task.sha1 && task.sha1 !== entry.task.sha1) return undefined;
+        return entry;
+    }
+
+    private forgetEntry(entry: DownloadEntry) {
+        for (const task of [entry.task, ...entry.copies]) {
+            if (this.entries.get(task.destination) === entry) this.entries.delete(task.destination);
+        }
+        if (this.entriesByUrl.get(entry.task.url) === entry) this.entriesByUrl.delete(entry.task.url);
+    }
+
+    private isPaused(entry: DownloadEntry): boolean {
+        return Array.from(entry.jobs).every(j => j.status === 'paused');
+    }
+
+    private dropEntry(entry: DownloadEntry, reason: 'cancelled') {
+        this.forgetEntry(entry);
+        this.pending = this.pending.filter(e => e !== entry);
+        if (entry.state === 'active') {
+            entry.controller?.abort(new DownloadCancelledError(reason));
+        }
+        entry.state = 'failed';
+    }
+
+    private processQueue() {
+        const limit = Math.max(1, ConfigManager.getMaxConcurrentDownloads());
+
+        while (this.active < limit) {
+            const index = this.pending.findIndex(e => !this.isPaused(e));
+            if (index === -1) break;
+
+            const [entry] = this.pending.splice(index, 1);
+            this.active++;
+            entry.state = 'active';
+            entry.jobs.forEach(j => { if (j.status === 'queued') j.status = 'running'; });
+
+            this.runEntry(entry).finally(() => {
+                this.active--;
+                this.processQueue();
+            });
+        }
+    }
+
+    private async runEntry(entry: DownloadEntry) {
+        try {
+            await this.downloadFile(entry);
+            await this.fillCopies(entry);
+            this.completeEntry(entry, null);
+        } catch (error: any) {
+            if (error instanceof DownloadCancelledError) {
+                if (error.reason === 'paused' && entry.jobs.size > 0) {
+                    entry.state = 'queued';
+                    this.insertPending(entry);
+                }
+                return;
+            }
+            this.completeEntry(entry, error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    private completeEntry(entry: DownloadEntry, error: Error | null) {
+        entry.state = error ? 'failed' : 'done';
+        this.forgetEntry(entry);
+
+        for (const job of entry.jobs) {
+            if (error) {
+                job.failures.push({ task: entry.task, error });
+                job.emit('error', error);
+            } else {
+                job.completedFiles++;
+            }
+            job.emit('file', { task: entry.task, ok: !error });
+
+            const settled = job.completedFiles + job.failures.length;
+            if (settled >= job.entries.length) {
+                job.finish(job.failures.length > 0 ? 'failed' : 'completed');
+            }
+        }
+    }
+
+    private async downloadFile(entry: DownloadEntry) {
+        const task = entry.task;
+        const credit = (bytes: number) => entry.jobs.forEach(j => j.addBytes(bytes));
+
+        const dir = path.dirname(task.destination);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        // 1. Check if complete file exists and is valid
+        if (fs.existsSync(task.destination)) {
+            if (!task.sha1) {
+                // Without a hash there is nothing to compare against; trust it to avoid redownloading everything.
+                credit(task.size || 0);
+                return;
+            }
+            if (await this.verifyFile(task.destination, task.sha1)) {
+                console.log(`[Downloader] Cache hit for ${path.basename(task.destination)}`);
+                credit(task.size || 0);
+                return;
+            }
+            console.warn(`[Downloader] Hash mismatch for existing file ${task.destination}, redownloading.`);
+            fs.unlinkSync(task.destination);
+        }
+
+        if (ConfigManager.getOfflineMode()) {
+            throw new Error(`Offline mode is on, cannot download ${path.basename(task.destination)}`);
+        }
+
+        // 2. Download with retries, falling back through mirrors
+        const sources = MirrorUtils.resolve(task.url);
+        // With somewhere else to go, don't spend long on a failing source
+        const attemptsPerSource = sources.length > 1 ? MIRROR_RETRIES : MAX_RETRIES;
+        let lastError: Error | null = null;
+
+        for (const url of sources) {
+            lastError = null;
+            let attempt = 0;
+
+            while (attempt < attemptsPerSource) {
+                // Cancel/pause may have landed while verifying or backing off
+                if (entry.jobs.size === 0) throw new DownloadCancelledError('cancelled');
+                if (this.isPaused(entry)) throw new DownloadCancelledError('paused');
+
+                entry.controller = new AbortController();
+                try {
+                    await this.performDownload(task, url, entry.controller.signal, credit);
+                    lastError = null;
+                    break;
+                } catch (error: any) {
+                    const reason = entry.controller.signal.reason;
+                    if (reason instanceof DownloadCancelledError) throw reason;
+
+                    attempt++;
+                    lastError = error instanceof Error ? error : new Error(String(error));
+                    console.error(`[Downloader] Failed ${url} (Attempt ${attempt}/${attemptsPerSource}): ${lastError.message}`);
+
+                    // The file isn't on this source; retrying won't change that
+                    if ([403, 404, 410].includes(error.response?.status)) break;
+
+                    if (attempt < attemptsPerSource) {
+                        // Exponential Backoff
+                        const delay = INITIAL_BACKOFF_MS * Math.pow(2, attempt - 1);
+                        await new Promise(r => setTimeout(r, delay));
+                    }
+                }
+            }
+
+            if (lastError) continue;
+
+            // 3. Post-download validation; a bad copy from one source may be fine on the next
+            if (task.sha1 && !(await this.verifyFile(task.destination, task.sha1))) {
+                console.error(`[Downloader] Hash verification failed after download from ${url}`);
+                fs.unlinkSync(task.destination);
+                lastError = new Error(`Hash mismatch after download for ${path.basename(task.destination)}`);
+                continue;
+            }
+
+            return;
+        }
+
+        const tried = sources.length > 1 ? ` (tried ${sources.length} sources)` : '';
+        throw new Error(`Failed to download ${path.basename(task.destination)}${tried}: ${lastError?.message}`);
+    }
+
+    private async fillCopies(entry: DownloadEntry) {
+        for (const copy of entry.copies) {
+            await fs.promises.mkdir(path.dirname(copy.destination), { recursive: true });
+            await fs.promises.copyFile(entry.task.destination, copy.destination);
+        }
+    }
+
+    private async performDownload(task: DownloadTask, url: string, signal: AbortSignal, credit: (bytes: number) => void): Promise<void> {
+        const partFile = `${task.destination}.part`;
+        let startByte = 0;
+
+        // Resume support
+        if (fs.existsSync(partFile)) {
+            startByte = fs.statSync(partFile).size;
+            // If local part is larger than expected size, it's corrupt. Reset.
+            if (task.size && startByte > task.size) {
+                startByte = 0;
+                fs.unlinkSync(partFile);
+            }
+        }
+
+        const config: AxiosRequestConfig = {
+            responseType: 'stream',
+            timeout: 30000,
+            signal,
+            headers: { 'User-Agent': USER_AGENT }
+        };
+
+        if (startByte > 0) {
+            console.log(`[Downloader] Resuming ${path.basename(task.destination)} from byte ${startByte}`);
+            config.headers = { ...config.headers, 'Range': `bytes=${startByte}-` };
+        }
+
+        const response = await axios.get(url, config);
+
+        // Server ignored the range request and sent the whole file
+        if (startByte > 0 && response.status === 200) {
+            console.warn(`[Downloader] Server does not support resume for ${url}, restarting.`);
+            startByte = 0;
+        }
+
+        const throttle = new Transform({
+            transform: (chunk: Buffer, _encoding, callback) => {
+                this.throttle(chunk.length).then(() => {
+                    credit(chunk.length);
+                    callback(null, chunk);
+                });
+            }
+        });
+
+        const writer = fs.createWriteStream(partFile, { flags: startByte > 0 ? 'a' : 'w' });
+        await pipeline(response.data, throttle, writer, { signal });
+
+        fs.renameSync(partFile, task.destination);
+    }
+
+    // Waits until the global bandwidth budget allows `bytes` more
+    private async throttle(bytes: number) {
+        const limit = ConfigManager.getDownloadSpeedLimit() * 1024;
+        if (!limit) return;
+
+        const now = Date.now();
+        this.bucket = Math.min(limit, this.bucket + ((now - this.bucketTime) / 1000) * limit);
+        this.bucketTime = now;
+        this.bucket -= bytes;
+
+        if (this.bucket < 0) {
+            await new Promise(r => setTimeout(r, (-this.bucket / limit) * 1000));
+        }
+    }
+
+    private verifyFile(filePath: string, sha1: string): Promise<boolean> {
+        return new Promise((resolve) => {
+            const hash = crypto.createHash('sha1');
+            const stream = fs.createReadStream(filePath);
+
+            stream.on('data', (data) => hash.update(data));
+            stream.on('end', () => {
+                const fileHash = hash.digest('hex');
+                if (fileHash !== sha1) {
+                    console.warn(`[Verify] Fail: Expected ${sha1}, got ${fileHash}`);
+                }
+                resolve(fileHash === sha1);
+            });
+            stream.on('error', () => resolve(false));
+        });
+    }
+
+    private pruneFinishedJobs() {
+        const finished = this.jobs.filter(j => j.finished);
+        if (finished.length > MAX_FINISHED_JOBS) {
+            const drop = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS));
+            this.jobs = this.jobs.filter(j => !drop.has(j));
+        }
+    }
+
+    // Pushes the job list to every window while anything is in flight
+    private startBroadcasting() {
+        if (this.broadcastTimer) return;
+
+        this.broadcastTimer = setInterval(() => {
+            const snapshot = this.snapshot();
+            BrowserWindow.getAllWindows().forEach(win => {
+                if (!win.isDestroyed()) win.webContents.send('download:update', snapshot);
+            });
+
+            if (this.jobs.every(j => j.finished)) {
+                clearInterval(this.broadcastTimer!);
+                this.broadcastTimer = null;
+            }
+        }, BROADCAST_INTERVAL_MS);
+    }
+}
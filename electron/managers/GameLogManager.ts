@@ -0,0 +1,251 @@
+import { app, ipcMain } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream, existsSync, mkdirSync, WriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import { InstanceManager } from './InstanceManager';
+import { LogEntry, LogParser } from '../launcher/LogParser';
+
+// Compressed session logs kept per instance; the oldest go first
+const MAX_SESSION_LOGS = 20;
+
+// A session log is rotated into a new part once it grows past this, so a noisy game
+// can't fill the disk: at most MAX_SESSION_LOGS parts are kept
+const MAX_SESSION_PART_BYTES = 16 * 1024 * 1024;
+
+// Only the tail of larger files is read
+const MAX_READ_BYTES = 4 * 1024 * 1024;
+
+export type LogFileKind = 'session' | 'game' | 'crash-report';
+
+export interface LogFileInfo {
+    id: string; // '<kind>/<file name>', what logs:read takes
+    kind: LogFileKind;
+    name: string;
+    size: number;
+    modified: number;
+}
+
+interface SessionLog {
+    stream: WriteStream;
+    file: string;
+    base: string; // file path without the part suffix and extension
+    part: number;
+    written: number;
+}
+
+/**
+ * Writes what each game session prints (plus the launcher's own notes) to
+ * userData/logs/<instanceId>/<start>.log (then <start>.partNNN.log as it rotates), gzipped once
+ * the game exits, and serves those files together with the game's logs/ and crash-reports/ folders.
+ */
+export class GameLogManager {
+    private static instance: GameLogManager;
+    private sessions = new Map<string, SessionLog>();
+
+    private constructor() {
+        this.registerListeners();
+    }
+
+    public static getInstance(): GameLogManager {
+        if (!GameLogManager.instance) {
+            GameLogManager.instance = new GameLogManager();
+        }
+        return GameLogManager.instance;
+    }
+
+    private registerListeners() {
+        ipcMain.handle('logs:list', async (_, instanceId: string) => {
+            try {
+                return await this.list(instanceId);
+            } catch (error) {
+                console.error("Failed to list logs:", error);
+                return [];
+            }
+        });
+
+        ipcMain.handle('logs:read', async (_, instanceId: string, fileId: string) => {
+            try {
+                return await this.read(instanceId, fileId);
+            } catch (error) {
+                console.error("Failed to read log:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+    }
+
+    startSession(instanceId: string) {
+        this.sessions.get(instanceId)?.stream.end();
+        this.sessions.delete(instanceId);
+
+        const dir = this.getSessionDir(instanceId);
+        try {
+            mkdirSync(dir, { recursive: true });
+            this.sessions.set(instanceId, this.openPart(path.join(dir, new Date().toISOString().replace(/[:.]/g, '-')), 1));
+        } catch (e) {
+            console.error(`[Logs] Could not start session log for ${instanceId}:`, e);
+        }
+    }
+
+    /**
+     * Appends raw process output as-is, or a launcher message (type 'info') in the vanilla
+     * plain-text layout so it reads back as a log entry.
+     */
+    write(instanceId: string, text: string, type: 'stdout' | 'stderr' | 'info' = 'stdout') {
+        const session = this.sessions.get(instanceId);
+        if (!session) return;
+
+        if (type === 'info') {
+            const time = new Date().toLocaleTimeString([], { hour12: false });
+            text = `[${time}] [Whoap/INFO]: ${text}\n`;
+        }
+        session.stream.write(text);
+        session.written += Buffer.byteLength(text);
+
+        if (session.written >= MAX_SESSION_PART_BYTES) {
+            try {
+                this.sessions.set(instanceId, this.openPart(session.base, session.part + 1));
+            } catch (e) {
+                // Keep writing to the full part rather than lose output
+                console.error(`[Logs] Could not rotate session log for ${instanceId}:`, e);
+                return;
+            }
+            this.archive(instanceId, session);
+        }
+    }
+
+    /**
+     * Closes the session log, compresses it and drops the oldest ones past MAX_SESSION_LOGS.
+     */
+    async endSession(instanceId: string) {
+        const session = this.sessions.get(instanceId);
+        if (!session) return;
+        this.sessions.delete(instanceId);
+        await this.archive(instanceId, session);
+    }
+
+    async deleteLogs(instanceId: string) {
+        await fs.rm(this.getSessionDir(instanceId), { recursive: true, force: true });
+    }
+
+    async list(instanceId: string): Promise<LogFileInfo[]> {
+        const files: LogFileInfo[] = [];
+        for (const kind of ['session', 'game', 'crash-report'] as const) {
+            const dir = this.getDir(instanceId, kind);
+            if (!dir || !existsSync(dir)) continue;
+
+            for (const name of await fs.readdir(dir)) {
+                if (!this.isLogFile(kind, name)) continue;
+                const stat = await fs.stat(path.join(dir, name));
+                if (stat.isFile()) files.push({ id: `${kind}/${name}`, kind, name, size: stat.size, modified: stat.mtimeMs });
+            }
+        }
+        return files.sort((a, b) => b.modified - a.modified);
+    }
+
+    /**
+     * Log files come back parsed into entries; crash reports as plain text.
+     */
+    async read(instanceId: string, fileId: string): Promise<{ success: boolean; entries?: LogEntry[]; content?: string; truncated?: boolean; error?: string }> {
+        const [kind, ...rest] = fileId.split('/');
+        const name = path.basename(rest.join('/'));
+        const dir = this.getDir(instanceId, kind as LogFileKind);
+        if (!dir || !this.isLogFile(kind as LogFileKind, name)) return { success: false, error: 'Unknown log file' };
+
+        const file = path.join(dir, name);
+        if (!existsSync(file)) return { success: false, error: 'Log file no longer exists' };
+
+        const tail = name.endsWith('.gz') ? await this.readGzipTail(file) : await this.readTail(file);
+        let text = tail.data.toString('utf-8');
+        // The cut lands mid-line (maybe mid-character); start at the next full line
+        if (tail.truncated) text = text.slice(text.indexOf('\n') + 1);
+        const truncated = tail.truncated;
+
+        if (kind === 'crash-report') return { success: true, content: text, truncated };
+
+        const parser = new LogParser('stdout');
+        const entries = [...parser.feed(text), ...parser.flush()];
+        return { success: true, entries, truncated };
+    }
+
+    private openPart(base: string, part: number): SessionLog {
+        const file = part === 1 ? `${base}.log` : `${base}.part${String(part).padStart(3, '0')}.log`;
+        const stream = createWriteStream(file, { flags: 'a' });
+        stream.on('error', (e) => console.error(`[Logs] Failed to write ${file}:`, e));
+        return { stream, file, base, part, written: 0 };
+    }
+
+    private async archive(instanceId: string, session: SessionLog) {
+        try {
+            await new Promise<void>(resolve => session.stream.end(resolve));
+            await pipeline(createReadStream(session.file), zlib.createGzip(), createWriteStream(`${session.file}.gz`));
+            await fs.rm(session.file, { force: true });
+            await this.prune(instanceId);
+        } catch (e) {
+            console.error(`[Logs] Failed to archive ${session.file}:`, e);
+        }
+    }
+
+    private async readTail(file: string): Promise<{ data: Buffer; truncated: boolean }> {
+        const handle = await fs.open(file, 'r');
+        try {
+            const { size } = await handle.stat();
+            const length = Math.min(size, MAX_READ_BYTES);
+            const data = Buffer.alloc(length);
+            const { bytesRead } = await handle.read(data, 0, length, size - length);
+            return { data: data.subarray(0, bytesRead), truncated: size > length };
+        } finally {
+            await handle.close();
+        }
+    }
+
+    // Inflates the whole archive but only ever holds its last MAX_READ_BYTES (plus one chunk)
+    private async readGzipTail(file: string): Promise<{ data: Buffer; truncated: boolean }> {
+        const chunks: Buffer[] = [];
+        let kept = 0;
+        let truncated = false;
+
+        const inflate = zlib.createGunzip();
+        const source = createReadStream(file).on('error', e => inflate.destroy(e));
+        for await (const chunk of source.pipe(inflate) as AsyncIterable<Buffer>) {
+            chunks.push(chunk);
+            kept += chunk.length;
+            while (kept - chunks[0].length >= MAX_READ_BYTES) {
+                kept -= chunks.shift()!.length;
+                truncated = true;
+            }
+        }
+
+        const data = Buffer.concat(chunks);
+        if (data.length <= MAX_READ_BYTES) return { data, truncated };
+        return { data: data.subarray(data.length - MAX_READ_BYTES), truncated: true };
+    }
+
+    private isLogFile(kind: LogFileKind, name: string): boolean {
+        if (kind === 'crash-report') return name.endsWith('.txt');
+        return (kind === 'session' || kind === 'game') && (name.endsWith('.log') || name.endsWith('.log.gz'));
+    }
+
+    private async prune(instanceId: string) {
+        const dir = this.getSessionDir(instanceId);
+        const archives = (await fs.readdir(dir)).filter(name => name.endsWith('.log.gz')).sort();
+        for (const name of archives.slice(0, Math.max(0, archives.length - MAX_SESSION_LOGS))) {
+            await fs.rm(path.join(dir, name), { force: true });
+        }
+    }
+
+    private getDir(instanceId: string, kind: LogFileKind): string | null {
+        if (kind === 'session') return this.getSessionDir(instanceId);
+
+        const gameDir = InstanceManager.getInstance().resolveInstancePath(instanceId);
+        if (!gameDir) return null;
+        if (kind === 'game') return path.join(gameDir, 'logs');
+        if (kind === 'crash-report') return path.join(gameDir, 'crash-reports');
+        return null;
+    }
+
+    private getSessionDir(instanceId: string): string {
+        return path.join(app.getPath('userData'), 'logs', path.basename(instanceId));
+    }
+}
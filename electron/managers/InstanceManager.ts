@@ -5,8 +5,66 @@ import { existsSync, mkdirSync, readdirSync, readFileSync } from 'fs';
 import { ConfigManager } from './ConfigManager';
 import { VersionUtils } from '../utils/VersionUtils';
 import { VersionManager } from '../launcher/VersionManager';
+import { MetadataCache } from '../launcher/MetadataCache';
+import { BackupManager } from './BackupManager';
+import { TrashManager, DeleteMode } from './TrashManager';
+import { GameProcessRegistry } from '../launcher/GameProcessRegistry';
+import { ModPlatformManager, ModCompatibility, ModUpdate } from './ModPlatformManager';
+import { ModChecker, ModCheckTarget, ModFix, ModIssue } from '../launcher/ModChecker';
+import { ConfirmCallback } from '../launcher/JavaManager';
 import AdmZip from 'adm-zip';
 import { dialog } from 'electron';
+import axios from 'axios';
+
+// Per-instance launch settings; anything left unset falls back to the global config
+export interface InstanceOverrides {
+    minRam?: number; // MB
+    maxRam?: number; // MB
+    jvmPreset?: 'potato' | 'standard' | 'pro' | 'extreme' | 'custom';
+    jvmArgs?: string[]; // Appended after the global JVM args
+    javaPath?: string; // Java binary bound to this instance, wins over the global per-version paths
+    resolution?: { width: number; height: number };
+    fullscreen?: boolean;
+    env?: Record<string, string>;
+    wrapperCommand?: string; // e.g. "gamemoderun" or "prime-run"
+    preLaunchCommand?: string;
+    postExitCommand?: string;
+}
+
+// Every key of InstanceOverrides, so nothing else the renderer or a template sends reaches instance.json
+const OVERRIDE_KEYS: Record<keyof InstanceOverrides, true> = {
+    minRam: true,
+    maxRam: true,
+    jvmPreset: true,
+    jvmArgs: true,
+    javaPath: true,
+    resolution: true,
+    fullscreen: true,
+    env: true,
+    wrapperCommand: true,
+    preLaunchCommand: true,
+    postExitCommand: true
+};
+
+export type ModAction = 'update' | 'keep' | 'disable';
+
+export interface VersionChange {
+    version: string;
+    loader: Instance['loader'];
+    loaderVersion?: string;
+    // Per mod file; files left out are kept as they are
+    modActions?: Record<string, ModAction>;
+    // Update to install for files whose action is 'update', as returned by the compatibility check
+    updates?: Record<string, ModUpdate>;
+}
+
+export interface InstanceJavaStatus {
+    instanceId: string;
+    name: string;
+    versionId: string;
+    requiredJava: string;
+    javaPath: string | null;
+}
 
 export interface Instance {
     id: string;
@@ -19,9 +77,18 @@ export interface Instance {
     isFavorite?: boolean;
     isImported?: boolean;
     launchVersionId?: string; // The actual ID to launch (e.g. fabric-loader-x.x.x-1.20.1)
+    loaderVersion?: string; // Loader build behind launchVersionId, when known
     useExternalPath?: boolean; // If true, launch using the original version folder as gameDir
+    overrides?: InstanceOverrides;
+    group?: string;
+    tags?: string[];
+    icon?: string; // File name of the cached icon inside the instance folder
+    sortIndex?: number; // Position in the manual order; unset until the list is first reordered
 }
 
+const ICON_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp'];
+const MAX_ICON_SIZE = 2 * 1024 * 1024;
+
 export class InstanceManager {
     private static instance: InstanceManager;
     private instancesPath: string;
@@ -49,9 +116,12 @@ export class InstanceManager {
     }
 
     private registerListeners() {
-        ipcMain.handle('instance:create', async (_, data: { name: string; version: string; loader?: string, loaderVersion?: string }) => {
+        ipcMain.handle('instance:create', async (event, data: { name: string; version: string; loader?: string, loaderVersion?: string }) => {
             try {
-                return await this.createInstance(data.name, data.version, data.loader, data.loaderVersion);
+                const { JavaManager } = await import('../launcher/JavaManager');
+                return await this.createInstance(data.name, data.version, data.loader, data.loaderVersion, (status, progress, total) => {
+                    event.sender.send('instance:install-progress', { status, progress, total });
+                }, JavaManager.askInstall(event.sender, data.name));
             } catch (error) {
                 console.error("Failed to create instance:", error);
                 return { success: false, error: String(error) };
@@ -83,18 +153,18 @@ export class InstanceManager {
             }
         });
 
-        ipcMain.handle('instance:delete', async (_, id: string) => {
+        ipcMain.handle('instance:delete', async (_, id: string, options?: { mode?: DeleteMode; confirmExternal?: boolean }) => {
             try {
-                return await this.deleteInstance(id);
+                return await this.deleteInstance(id, options);
             } catch (error) {
                 console.error("Failed to delete instance:", error);
                 return { success: false, error: String(error) };
             }
         });
 
-        ipcMain.handle('meta:get-versions', async () => {
+        ipcMain.handle('meta:get-versions', async (_, types?: string[]) => {
             try {
-                return await this.fetchVersions();
+                return await this.fetchVersions(types);
             } catch (error) {
                 console.error("Failed to fetch versions:", error);
                 return [];
@@ -168,6 +238,107 @@ export class InstanceManager {
             }
         });
 
+        ipcMain.handle('instance:set-organization', async (_, instanceId: string, organization: { group?: string; tags?: string[] }) => {
+            try {
+                return await this.setOrganization(instanceId, organization);
+            } catch (error) {
+                console.error("Failed to save instance group/tags:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:set-icon', async (_, instanceId: string, url?: string) => {
+            try {
+                return await this.setIcon(instanceId, url);
+            } catch (error: any) {
+                console.error("Failed to set instance icon:", error);
+                return { success: false, error: error.message || String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:clear-icon', async (_, instanceId: string) => {
+            try {
+                return await this.clearIcon(instanceId);
+            } catch (error) {
+                console.error("Failed to clear instance icon:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:reorder', async (_, orderedIds: string[]) => {
+            try {
+                return await this.reorderInstances(orderedIds);
+            } catch (error) {
+                console.error("Failed to reorder instances:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:get-overrides', async (_, instanceId: string) => {
+            return this.getOverrides(instanceId);
+        });
+
+        ipcMain.handle('instance:set-overrides', async (_, instanceId: string, overrides: InstanceOverrides) => {
+            try {
+                return await this.setOverrides(instanceId, overrides);
+            } catch (error) {
+                console.error("Failed to save overrides:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:set-java', async (_, instanceId: string, javaPath: string | null) => {
+            try {
+                return await this.setJava(instanceId, javaPath);
+            } catch (error) {
+                console.error("Failed to bind Java:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:check-version-change', async (_, instanceId: string, version: string, loader: string) => {
+            try {
+                return { success: true, mods: await this.checkVersionChange(instanceId, version, loader) };
+            } catch (error) {
+                console.error("Failed to check mod compatibility:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:check-mods', async (_, instanceId: string) => {
+            try {
+                return { success: true, ...await this.checkMods(instanceId) };
+            } catch (error) {
+                console.error("Failed to check mods:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:fix-mod-issue', async (_, instanceId: string, fix: ModFix) => {
+            try {
+                return await this.fixModIssue(instanceId, fix);
+            } catch (error: any) {
+                console.error("Failed to fix mod issue:", error);
+                return { success: false, error: error.message || String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:change-version', async (event, instanceId: string, change: VersionChange) => {
+            try {
+                const { JavaManager } = await import('../launcher/JavaManager');
+                return await this.changeVersion(instanceId, change, (status, progress, total) => {
+                    event.sender.send('instance:change-version-progress', { status, progress, total });
+                }, JavaManager.askInstall(event.sender, instanceId));
+            } catch (error: any) {
+                console.error("Failed to change instance version:", error);
+                return { success: false, error: error.message || String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:java-status', async () => {
+            return await this.getJavaStatus();
+        });
+
         ipcMain.handle('instance:import-external', async (event, versionIds: string[]) => {
             try {
                 return await this.importExternalInstances(event, versionIds);
@@ -178,7 +349,11 @@ export class InstanceManager {
         });
     }
 
-    private resolveInstancePath(instanceId: string): string | null {
+    /**
+     * Directory holding the instance's game data (mods, saves, config). For imported instances
+     * that is the original versions/<id> folder.
+     */
+    resolveInstancePath(instanceId: string): string | null {
         console.log(`Resolving path for ID: ${instanceId}`);
         // 1. Check local instances (Whoap/instances)
         let p = path.join(this.instancesPath, instanceId);
@@ -257,17 +432,19 @@ export class InstanceManager {
         }
     }
 
-    async fetchVersions() {
-        // Fetch from Mojang's Piston Meta
-        const response = await fetch('https://piston-meta.mojang.com/mc/game/version_manifest_v2.json');
-        const data = await response.json();
-        return data.versions.filter((v: any) => v.type === 'release'); // Only return releases for now
+    /**
+     * Versions from Mojang's manifest, newest first. `types` narrows it to some channels
+     * (release, snapshot, old_beta, old_alpha); all of them are returned by default.
+     */
+    async fetchVersions(types?: string[]) {
+        const data = await MetadataCache.getJson<any>('https://piston-meta.mojang.com/mc/game/version_manifest_v2.json', 'vanilla');
+        if (!types || types.length === 0) return data.versions;
+        return data.versions.filter((v: any) => types.includes(v.type));
     }
 
     async getFabricLoaders(gameVersion: string) {
         try {
-            const res = await fetch(`https://meta.fabricmc.net/v2/versions/loader/${gameVersion}`);
-            const data = await res.json();
+            const data = await MetadataCache.getJson<any[]>(`https://meta.fabricmc.net/v2/versions/loader/${gameVersion}`, 'fabric');
             return data.map((l: any) => ({
                 id: l.loader.version,
                 stable: l.loader.stable
@@ -278,7 +455,14 @@ export class InstanceManager {
         }
     }
 
-    async createInstance(name: string, version: string, loader: string = 'vanilla', loaderVersion?: string) {
+    async createInstance(
+        name: string,
+        version: string,
+        loader: string = 'vanilla',
+        loaderVersion?: string,
+        onProgress?: (status: string, progress: number, total: number) => void,
+        onConfirmJava?: ConfirmCallback
+    ) {
         const folderName = name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
         const instancePath = path.join(this.instancesPath, folderName);
 
@@ -288,64 +472,13 @@ export class InstanceManager {
 
         // Install Mod Loader if requested
         let launchVersionId = version; // Default to vanilla version
-
-        if (loader === 'fabric' || loader === 'quilt') {
-            try {
-                // If specific loader version not provided, fetch stable defaults
-                let targetLoaderVersion = loaderVersion;
-
-                if (!targetLoaderVersion) {
-                    // 1. Fetch stable loader version for this game version
-                    const metaUrl = loader === 'fabric'
-                        ? `https://meta.fabricmc.net/v2/versions/loader/${version}`
-                        : `https://meta.quiltmc.org/v3/versions/loader/${version}`;
-
-                    const metaRes = await fetch(metaUrl);
-                    const metaData = await metaRes.json();
-
-                    if (metaData && metaData.length > 0) {
-                        const bestLoader = metaData.find((l: any) => l.loader?.stable || l.stable) || metaData[0];
-                        targetLoaderVersion = bestLoader.loader?.version || bestLoader.version;
-                    }
-                }
-
-                if (targetLoaderVersion) {
-                    // 2. Fetch the actual profile JSON
-                    // Format: https://meta.fabricmc.net/v2/versions/loader/<game_version>/<loader_version>/profile/json (Same for Quilt mostly)
-                    const baseUrl = loader === 'fabric' ? 'https://meta.fabricmc.net' : 'https://meta.quiltmc.org';
-                    const profileRes = await fetch(`${baseUrl}/v2/versions/loader/${version}/${targetLoaderVersion}/profile/json`);
-                    const profileJson = await profileRes.json();
-
-                    const versionId = profileJson.id;
-                    const versionsDir = path.join(ConfigManager.getGamePath(), 'versions');
-                    const versionDir = path.join(versionsDir, versionId);
-
-                    if (!existsSync(versionDir)) {
-                        await fs.mkdir(versionDir, { recursive: true });
-                        await fs.writeFile(path.join(versionDir, `${versionId}.json`), JSON.stringify(profileJson, null, 4));
-                    }
-
-                    launchVersionId = versionId;
-                }
-            } catch (e) {
-                console.warn(`Failed to install ${loader} loader`, e);
-            }
-        } else if ((loader === 'forge' || loader === 'neoforge') && loaderVersion) {
-            // For Forge/NeoForge, we use the standard naming convention
-            // e.g. "1.20.1-forge-47.2.0" or "1.21.1-neoforge-21.1.0"
-            launchVersionId = loader === 'forge'
-                ? `${version}-forge-${loaderVersion}`
-                : `${loaderVersion}`; // NeoForge versions are often just the ID now
-
-            // Check if this version already exists in .minecraft/versions
-            const versionsDir = path.join(ConfigManager.getGamePath(), 'versions');
-            const versionDir = path.join(versionsDir, launchVersionId);
-
-            if (!existsSync(versionDir)) {
-                console.log(`[CreateInstance] ${loader} version ${launchVersionId} not found in versions folder.`);
-                // In a future update, we could add downlaoder logic here.
-                // For now, we'll create the instance and it will show as "Missing" or fail at launch with a clear error.
-            }
+        let installedLoaderVersion: string | undefined;
+        try {
+            ({ launchVersionId, loaderVersion: installedLoaderVersion } = await this.installLoader(version, loader, loaderVersion, onProgress, onConfirmJava));
+        } catch (e) {
+            // Forge can't run without its installer output; Fabric/Quilt instances start out vanilla instead
+            if (loader === 'forge' || loader === 'neoforge') throw e;
+            console.warn(`Failed to install ${loader} loader`, e);
         }
 
         const instanceData: Instance = {
@@ -356,7 +489,8 @@ export class InstanceManager {
             created: Date.now(),
             lastPlayed: 0,
             type: 'created',
-            launchVersionId: launchVersionId
+            launchVersionId: launchVersionId,
+            loaderVersion: installedLoaderVersion
         };
 
         await fs.mkdir(instancePath, { recursive: true });
@@ -368,17 +502,252 @@ export class InstanceManager {
         return { success: true, instance: instanceData };
     }
 
-    async deleteInstance(instanceId: string) {
-        const instancePath = this.resolveInstancePath(instanceId);
+    /**
+     * Installs the loader profile for a game version and returns the version id to launch along
+     * with the loader build actually installed. Vanilla, and Forge/NeoForge without a loader
+     * version, launch the game version itself.
+     */
+    private async installLoader(
+        version: string,
+        loader: string,
+        loaderVersion?: string,
+        onProgress?: (status: string, progress: number, total: number) => void,
+        onConfirmJava?: ConfirmCallback
+    ): Promise<{ launchVersionId: string; loaderVersion?: string }> {
+        if (loader === 'fabric' || loader === 'quilt') {
+            // If specific loader version not provided, fetch stable defaults
+            let targetLoaderVersion = loaderVersion;
 
-        if (instancePath) {
-            // Check if it's in the instances folder to allow safe deletion
-            // Or allow deleting external versions too? User asked for "really delete".
-            // Let's allow it but maybe careful.
-            await fs.rm(instancePath, { recursive: true, force: true });
-            return { success: true };
+            if (!targetLoaderVersion) {
+                // 1. Fetch stable loader version for this game version
+                const metaUrl = loader === 'fabric'
+                    ? `https://meta.fabricmc.net/v2/versions/loader/${version}`
+                    : `https://meta.quiltmc.org/v3/versions/loader/${version}`;
+
+                const metaData = await MetadataCache.getJson<any[]>(metaUrl, loader);
+
+                if (metaData && metaData.length > 0) {
+                    const bestLoader = metaData.find((l: any) => l.loader?.stable || l.stable) || metaData[0];
+                    targetLoaderVersion = bestLoader.loader?.version || bestLoader.version;
+                }
+            }
+
+            if (!targetLoaderVersion) {
+                throw new Error(`No ${loader} loader available for ${version}`);
+            }
+
+            // 2. Fetch the actual profile JSON
+            // Format: https://meta.fabricmc.net/v2/versions/loader/<game_version>/<loader_version>/profile/json (Same for Quilt mostly)
+            const baseUrl = loader === 'fabric' ? 'https://meta.fabricmc.net' : 'https://meta.quiltmc.org';
+            const profileJson = await MetadataCache.getJson<any>(`${baseUrl}/v2/versions/loader/${version}/${targetLoaderVersion}/profile/json`, loader);
+
+            const versionId = profileJson.id;
+            const versionsDir = path.join(ConfigManager.getGamePath(), 'versions');
+            const versionDir = path.join(versionsDir, versionId);
+
+            if (!existsSync(versionDir)) {
+                await fs.mkdir(versionDir, { recursive: true });
+                await fs.writeFile(path.join(versionDir, `${versionId}.json`), JSON.stringify(profileJson, null, 4));
+            }
+
+            return { launchVersionId: versionId, loaderVersion: targetLoaderVersion };
         }
-        return { success: false, error: "Instance not found" };
+
+        if ((loader === 'forge' || loader === 'neoforge') && loaderVersion) {
+            // Runs the official installer headlessly (binpatching etc.) and writes versions/<id>/<id>.json
+            const { ForgeInstaller } = await import('../launcher/ForgeInstaller');
+            try {
+                const launchVersionId = await ForgeInstaller.install(loader, version, loaderVersion, onProgress || (() => { }), onConfirmJava);
+                return { launchVersionId, loaderVersion };
+            } catch (e: any) {
+                console.error(`[InstanceManager] Failed to install ${loader} ${loaderVersion}`, e);
+                throw new Error(`Failed to install ${loader} ${loaderVersion}: ${e.message}`);
+            }
+        }
+
+        return { launchVersionId: version };
+    }
+
+    /**
+     * Checks the instance's mods against a game version and loader it might switch to.
+     */
+    async checkVersionChange(instanceId: string, version: string, loader: string): Promise<ModCompatibility[]> {
+        const gameDir = this.resolveInstancePath(instanceId);
+        if (!gameDir) throw new Error('Instance not found');
+        return await ModPlatformManager.getInstance().checkCompatibility(path.join(gameDir, 'mods'), version, loader);
+    }
+
+    /**
+     * Game version and loader the instance's mods have to fit. Instances without an instance.json
+     * (external version folders) are read from their version JSON.
+     */
+    getModTarget(instanceId: string): ModCheckTarget {
+        const configPath = path.join(this.instancesPath, instanceId, 'instance.json');
+        if (existsSync(configPath)) {
+            const data: Instance = JSON.parse(readFileSync(configPath, 'utf-8'));
+            return { gameVersion: data.version, loader: data.loader };
+        }
+
+        const info = VersionUtils.getInfo(path.join(ConfigManager.getGamePath(), 'versions', instanceId, `${instanceId}.json`), instanceId);
+        return { gameVersion: info.mcVersion, loader: info.loader };
+    }
+
+    /**
+     * Checks the instance's enabled mods against each other and the instance from their own
+     * metadata, then looks for Modrinth fixes to what it finds.
+     */
+    async checkMods(instanceId: string): Promise<{ target: ModCheckTarget; issues: ModIssue[] }> {
+        const gameDir = this.resolveInstancePath(instanceId);
+        if (!gameDir) throw new Error('Instance not found');
+
+        const target = this.getModTarget(instanceId);
+        const mods = await ModChecker.readMods(path.join(gameDir, 'mods'));
+        const issues = ModChecker.check(mods, target);
+        if (issues.length === 0) return { target, issues };
+
+        return { target, issues: await ModPlatformManager.getInstance().findModFixes(issues, mods, target) };
+    }
+
+    /**
+     * Applies a fix from checkMods, after snapshotting the instance.
+     */
+    async fixModIssue(instanceId: string, fix: ModFix) {
+        const gameDir = this.resolveInstancePath(instanceId);
+        if (!gameDir) throw new Error('Instance not found');
+        const modsDir = path.join(gameDir, 'mods');
+
+        await BackupManager.getInstance().autoSnapshot(instanceId, fix.action === 'disable' ? 'mod-delete' : 'mod-install', `Before: ${fix.label}`);
+
+        switch (fix.action) {
+            case 'install': {
+                const results = await ModPlatformManager.getInstance().smartInstall(instanceId, fix.versionId, 'mod', () => { });
+                const failed = results.find(r => r.status === 'failed');
+                if (failed) throw new Error(`${failed.modName}: ${failed.error ?? 'install failed'}`);
+                break;
+            }
+            case 'replace':
+                await ModPlatformManager.getInstance().replaceMod(modsDir, fix.file, fix.update);
+                break;
+            case 'disable':
+                await fs.rename(path.join(modsDir, fix.file), path.join(modsDir, `${fix.file}.disabled`));
+                break;
+        }
+
+        console.log(`[InstanceManager] ${instanceId}: ${fix.label}`);
+        return { success: true };
+    }
+
+    /**
+     * Moves an instance to another game version and/or loader in place: snapshots it, installs the
+     * new loader profile, applies the chosen action to each mod, then rewrites instance.json.
+     * Nothing but the snapshot is touched if the loader install fails.
+     */
+    async changeVersion(
+        instanceId: string,
+        change: VersionChange,
+        onProgress?: (status: string, progress: number, total: number) => void,
+        onConfirmJava?: ConfirmCallback
+    ) {
+        const configPath = path.join(this.instancesPath, instanceId, 'instance.json');
+        if (!existsSync(configPath)) throw new Error('Instance not found');
+
+        const data: Instance = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+        if (data.useExternalPath || data.type === 'imported') {
+            throw new Error('Only launcher-created instances can change version');
+        }
+        // Mods are swapped and renamed in place, which a running game (and Windows file locks) won't allow
+        if (GameProcessRegistry.getInstance().isRunning(instanceId)) {
+            throw new Error('Stop the game before changing its version');
+        }
+        if ((change.loader === 'forge' || change.loader === 'neoforge') && !change.loaderVersion) {
+            throw new Error(`Pick a ${change.loader} version to switch to`);
+        }
+
+        const report = (status: string, progress = 0, total = 100) => onProgress?.(status, progress, total);
+
+        report('Creating snapshot...');
+        await BackupManager.getInstance().autoSnapshot(instanceId, 'loader-change', `Before switching to ${change.loader} ${change.version}`);
+
+        report(`Installing ${change.loader} ${change.version}...`);
+        const installed = await this.installLoader(change.version, change.loader, change.loaderVersion, onProgress, onConfirmJava);
+
+        const modsDir = path.join(this.instancesPath, instanceId, 'mods');
+        const mods: { file: string; action: ModAction; success: boolean; error?: string }[] = [];
+        const actions = Object.entries(change.modActions || {});
+
+        for (let i = 0; i < actions.length; i++) {
+            const [file, action] = actions[i];
+            if (action === 'keep') continue;
+
+            report(`${action === 'update' ? 'Updating' : 'Disabling'} ${file}...`, i, actions.length);
+            try {
+                if (action === 'update') {
+                    const update = change.updates?.[file];
+                    if (!update) throw new Error('No update selected');
+                    await ModPlatformManager.getInstance().replaceMod(modsDir, file, update);
+                } else {
+                    await fs.rename(path.join(modsDir, file), path.join(modsDir, `${file}.disabled`));
+                }
+                mods.push({ file, action, success: true });
+            } catch (e: any) {
+                console.error(`[InstanceManager] Failed to ${action} ${file}`, e);
+                mods.push({ file, action, success: false, error: e.message || String(e) });
+            }
+        }
+
+        data.version = change.version;
+        data.loader = change.loader;
+        data.launchVersionId = installed.launchVersionId;
+        data.loaderVersion = installed.loaderVersion;
+        await fs.writeFile(configPath, JSON.stringify(data, null, 4));
+
+        console.log(`[InstanceManager] ${instanceId} switched to ${change.loader} ${change.version} (${installed.launchVersionId})`);
+        return { success: true, instance: data, mods };
+    }
+
+    /**
+     * Moves the instance into the trash. 'remove' takes only the Whoap entry and leaves an imported
+     * instance's external game folder alone; 'delete' takes that folder too, but only when
+     * `confirmExternal` is set, since it usually belongs to another launcher.
+     */
+    async deleteInstance(instanceId: string, options: { mode?: DeleteMode; confirmExternal?: boolean } = {}) {
+        const mode = options.mode ?? 'delete';
+        const entryPath = path.join(this.instancesPath, instanceId);
+        if (!this.isManagedPath(entryPath)) return { success: false, error: "Invalid instance id" };
+
+        const dataPath = this.resolveInstancePath(instanceId);
+        if (!dataPath) return { success: false, error: "Instance not found" };
+
+        if (GameProcessRegistry.getInstance().isRunning(instanceId)) {
+            return { success: false, error: "Stop the game before deleting this instance" };
+        }
+
+        const folders = existsSync(entryPath) ? [entryPath] : [];
+        if (mode === 'delete' && dataPath !== entryPath) {
+            if (!this.isManagedPath(dataPath) && !options.confirmExternal) {
+                return {
+                    success: false,
+                    requiresConfirmation: true,
+                    externalPath: dataPath,
+                    error: `${dataPath} is outside the Whoap instances folder`
+                };
+            }
+            folders.push(dataPath);
+        }
+        if (folders.length === 0) return { success: false, error: "Nothing to remove: the instance isn't managed by Whoap" };
+
+        let name = instanceId;
+        try {
+            name = JSON.parse(await fs.readFile(path.join(entryPath, 'instance.json'), 'utf-8')).name || instanceId;
+        } catch { }
+
+        const deleted = await TrashManager.getInstance().moveToTrash(instanceId, name, mode, folders);
+        return { success: true, deleted };
+    }
+
+    private isManagedPath(target: string): boolean {
+        const relative = path.relative(this.instancesPath, target);
+        return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
     }
 
     async renameInstance(instanceId: string, newName: string) {
@@ -397,6 +766,214 @@ export class InstanceManager {
         }
     }
 
+    /**
+     * Sets the group and tags stored in instance.json. Blank groups and duplicate tags are dropped.
+     */
+    async setOrganization(instanceId: string, organization: { group?: string; tags?: string[] }) {
+        const configPath = path.join(this.instancesPath, instanceId, 'instance.json');
+        if (!existsSync(configPath)) throw new Error("Cannot organize this instance type (no instance.json)");
+
+        const data = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+
+        if (organization.group !== undefined) {
+            const group = organization.group.trim();
+            if (group) data.group = group;
+            else delete data.group;
+        }
+        if (organization.tags !== undefined) {
+            const tags = [...new Set(organization.tags.map(t => t.trim()).filter(Boolean))];
+            if (tags.length > 0) data.tags = tags;
+            else delete data.tags;
+        }
+
+        await fs.writeFile(configPath, JSON.stringify(data, null, 4));
+        return { success: true, group: data.group as string | undefined, tags: data.tags as string[] | undefined };
+    }
+
+    /**
+     * Copies an icon into the instance folder, from an http(s) URL or, without one, from a file
+     * the user picks. The file name changes on every update so the renderer never shows a stale one.
+     */
+    async setIcon(instanceId: string, url?: string) {
+        const instancePath = path.join(this.instancesPath, instanceId);
+        const configPath = path.join(instancePath, 'instance.json');
+        if (!existsSync(configPath)) throw new Error("Cannot set an icon for this instance type (no instance.json)");
+
+        let content: Buffer;
+        let ext: string;
+        if (url) {
+            if (!/^https?:\/\//i.test(url)) throw new Error("Icon URL must start with http:// or https://");
+            const response = await axios.get(url, { responseType: 'arraybuffer', timeout: 15000, maxContentLength: MAX_ICON_SIZE });
+            const contentType = String(response.headers['content-type'] || '');
+            if (!contentType.startsWith('image/')) throw new Error("URL does not point to an image");
+
+            content = Buffer.from(response.data);
+            const fromType = '.' + contentType.slice('image/'.length).split(';')[0].trim();
+            const fromUrl = path.extname(new URL(url).pathname).toLowerCase();
+            ext = ICON_EXTENSIONS.includes(fromType) ? fromType : ICON_EXTENSIONS.includes(fromUrl) ? fromUrl : '.png';
+        } else {
+            const { canceled, filePaths } = await dialog.showOpenDialog({
+                title: 'Choose Instance Icon',
+                properties: ['openFile'],
+                filters: [{ name: 'Images', extensions: ICON_EXTENSIONS.map(e => e.slice(1)) }]
+            });
+            if (canceled || filePaths.length === 0) return { success: false, canceled: true };
+
+            ext = path.extname(filePaths[0]).toLowerCase();
+            if (!ICON_EXTENSIONS.includes(ext)) throw new Error("Unsupported image type");
+            const stat = await fs.stat(filePaths[0]);
+            if (stat.size > MAX_ICON_SIZE) throw new Error("Icon is larger than 2 MB");
+            content = await fs.readFile(filePaths[0]);
+        }
+
+        const data = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+        const icon = `icon-${Date.now()}${ext}`;
+        await fs.writeFile(path.join(instancePath, icon), content);
+        if (data.icon) await fs.rm(path.join(instancePath, path.basename(data.icon)), { force: true });
+
+        data.icon = icon;
+        await fs.writeFile(configPath, JSON.stringify(data, null, 4));
+        return { success: true, icon };
+    }
+
+    async clearIcon(instanceId: string) {
+        const instancePath = path.join(this.instancesPath, instanceId);
+        const configPath = path.join(instancePath, 'instance.json');
+        if (!existsSync(configPath)) return { success: true };
+
+        const data = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+        if (data.icon) {
+            await fs.rm(path.join(instancePath, path.basename(data.icon)), { force: true });
+            delete data.icon;
+            await fs.writeFile(configPath, JSON.stringify(data, null, 4));
+        }
+        return { success: true };
+    }
+
+    /**
+     * Resolves the icon file of an instance for the whoap-icon:// protocol.
+     */
+    getIconPath(instanceId: string, icon: string): string | null {
+        const iconPath = path.join(this.instancesPath, path.basename(instanceId), path.basename(icon));
+        return ICON_EXTENSIONS.includes(path.extname(iconPath).toLowerCase()) && existsSync(iconPath) ? iconPath : null;
+    }
+
+    /**
+     * Stores the manual order as sortIndex in each instance.json. Ids without one are skipped.
+     */
+    async reorderInstances(orderedIds: string[]) {
+        for (let i = 0; i < orderedIds.length; i++) {
+            const configPath = path.join(this.instancesPath, orderedIds[i], 'instance.json');
+            if (!existsSync(configPath)) continue;
+
+            const data = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+            if (data.sortIndex === i) continue;
+            data.sortIndex = i;
+            await fs.writeFile(configPath, JSON.stringify(data, null, 4));
+        }
+        return { success: true };
+    }
+
+    /**
+     * Per-instance overrides from instance.json. Imported versions have none.
+     */
+    getOverrides(instanceId: string): InstanceOverrides {
+        const configPath = path.join(this.instancesPath, instanceId, 'instance.json');
+        if (!existsSync(configPath)) return {};
+        try {
+            return JSON.parse(readFileSync(configPath, 'utf-8')).overrides || {};
+        } catch (e) {
+            console.warn(`Failed to read overrides for ${instanceId}`, e);
+            return {};
+        }
+    }
+
+    /**
+     * Replaces the overrides block. Empty values are dropped so they fall back to the global config.
+     */
+    async setOverrides(instanceId: string, overrides: InstanceOverrides) {
+        const configPath = path.join(this.instancesPath, instanceId, 'instance.json');
+        if (!existsSync(configPath)) throw new Error("Cannot override settings of this instance type (no instance.json)");
+
+        const data = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+
+        if (overrides.javaPath && overrides.javaPath !== data.overrides?.javaPath) {
+            const { JavaManager } = await import('../launcher/JavaManager');
+            const info = await JavaManager.probe(overrides.javaPath);
+            if (!info) throw new Error(`${overrides.javaPath} is not a working Java executable`);
+        }
+
+        // One side may fall back to the global setting, so compare what the launch would actually use
+        const minRam = overrides.minRam || ConfigManager.getMinRam();
+        const maxRam = overrides.maxRam || ConfigManager.getMaxRam();
+        if (minRam > maxRam) {
+            throw new Error(`Minimum RAM (${minRam} MB) cannot be higher than maximum RAM (${maxRam} MB)`);
+        }
+
+        const cleaned: InstanceOverrides = {};
+        const copy = <K extends keyof InstanceOverrides>(key: K) => {
+            const value = overrides[key];
+            if (value === undefined || value === null || value === '') return;
+            if (Array.isArray(value) && value.length === 0) return;
+            if (typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0) return;
+            cleaned[key] = value;
+        };
+        (Object.keys(OVERRIDE_KEYS) as (keyof InstanceOverrides)[]).forEach(copy);
+
+        data.overrides = cleaned;
+        await fs.writeFile(configPath, JSON.stringify(data, null, 4));
+        return { success: true, overrides: cleaned };
+    }
+
+    async setJava(instanceId: string, javaPath: string | null) {
+        const overrides = { ...this.getOverrides(instanceId) };
+        if (javaPath) {
+            overrides.javaPath = javaPath;
+        } else {
+            delete overrides.javaPath;
+        }
+        await this.setOverrides(instanceId, overrides);
+        return { success: true, javaPath };
+    }
+
+    /**
+     * Java requirement and binding of every instance, read from the local version JSONs.
+     */
+    async getJavaStatus(): Promise<InstanceJavaStatus[]> {
+        const { LaunchPlanner } = await import('../launcher/LaunchPlanner');
+        const versionsPath = path.join(ConfigManager.getGamePath(), 'versions');
+        const instances = await this.getInstances();
+
+        return instances.map(instance => {
+            const versionId = instance.launchVersionId || instance.version;
+
+            // Walk inheritsFrom until something declares javaVersion
+            let declared: any = null;
+            let current: string | undefined = versionId;
+            const visited = new Set<string>();
+            while (current && !declared && !visited.has(current)) {
+                visited.add(current);
+                const jsonPath = path.join(versionsPath, current, `${current}.json`);
+                if (!existsSync(jsonPath)) break;
+                try {
+                    const json = JSON.parse(readFileSync(jsonPath, 'utf-8'));
+                    declared = json.javaVersion || null;
+                    current = json.inheritsFrom;
+                } catch {
+                    break;
+                }
+            }
+
+            return {
+                instanceId: instance.id,
+                name: instance.name,
+                versionId,
+                requiredJava: LaunchPlanner.resolveJavaVersion({ javaVersion: declared }, instance.version),
+                javaPath: instance.overrides?.javaPath || null
+            };
+        });
+    }
+
     async getInstances(): Promise<Instance[]> {
         const instances: Instance[] = [];
         const externalVersions: Instance[] = [];
@@ -471,8 +1048,14 @@ export class InstanceManager {
 
         const allInstances = [...instances, ...externalVersions];
 
-        // Sort: Favorites first, then created flag? No, favorites first, then Version/Name
+        // Sort: manual order once the user has set one (new instances on top), otherwise favorites first, then Version/Name
         return allInstances.sort((a, b) => {
+            if (a.sortIndex !== undefined || b.sortIndex !== undefined) {
+                if (a.sortIndex === undefined) return -1;
+                if (b.sortIndex === undefined) return 1;
+                if (a.sortIndex !== b.sortIndex) return a.sortIndex - b.sortIndex;
+            }
+
             if (a.isFavorite && !b.isFavorite) return -1;
             if (!a.isFavorite && b.isFavorite) return 1;
 
@@ -526,6 +1109,7 @@ export class InstanceManager {
             const data = JSON.parse(content);
             data.id = newFolderName;
             data.name = newName;
+            delete data.sortIndex;
             data.created = Date.now();
             data.lastPlayed = 0;
             await fs.writeFile(configPath, JSON.stringify(data, null, 4));
@@ -657,9 +1241,10 @@ export class InstanceManager {
 
             const { ModpackInstaller } = await import('../utils/ModpackInstaller');
             try {
+                const { JavaManager } = await import('../launcher/JavaManager');
                 return await ModpackInstaller.installFromLocalZip(zipPath, (status, progress) => {
                     event?.sender.send('instance:import-progress', { status, progress });
-                });
+                }, undefined, undefined, event ? JavaManager.askInstall(event.sender, path.basename(zipPath)) : undefined);
             } catch (error: any) {
                 console.error("[InstanceManager] Modpack import failed:", error);
                 return { success: false, error: `Modpack import failed: ${error.message}` };
@@ -1,14 +1,24 @@
-import { BrowserWindow, ipcMain, app } from 'electron';
+import { BrowserWindow, ipcMain } from 'electron';
 import path from 'path';
+import { LogEntry, LogParser, LogSource } from '../launcher/LogParser';
 
 interface LogWindowData {
     window: BrowserWindow;
-    messageBuffer: { message: string, type: string }[];
+    entryBuffer: LogEntry[];
     isReady: boolean;
 }
 
+// Entries held for a window that hasn't loaded yet
+const MAX_BUFFERED_ENTRIES = 5000;
+
+// A held-back line is sent anyway once output has been quiet this long
+const FLUSH_DELAY = 250;
+
 export class LogWindowManager {
     private static logWindows: Map<string, LogWindowData> = new Map();
+    // One parser per instance and stream; stdout and stderr chunks interleave arbitrarily
+    private static parsers: Map<string, LogParser> = new Map();
+    private static flushTimers: Map<string, NodeJS.Timeout> = new Map();
 
     constructor() {
         this.registerListeners();
@@ -55,116 +65,30 @@ export class LogWindowManager {
         }
 
         const logWindow = new BrowserWindow({
-            width: 900,
-            height: 600,
+            width: 1000,
+            height: 640,
+            minWidth: 640,
+            minHeight: 360,
             backgroundColor: '#111',
             title: `Game Output - ${instanceId}`,
             frame: false, // Frameless
             autoHideMenuBar: true,
             icon: path.join(__dirname, '../public/favicon.ico'),
             webPreferences: {
-                nodeIntegration: true,
-                contextIsolation: false
+                preload: path.join(__dirname, '../preload.js'),
+                nodeIntegration: false,
+                contextIsolation: true
             }
         });
 
-        const logHtml = `
-            <!DOCTYPE html>
-            <html>
-            <head>
-                <style>
-                    body { 
-                        background: #000; 
-                        color: #ddd; 
-                        font-family: 'Consolas', monospace; 
-                        margin: 0; 
-                        overflow: hidden; 
-                        display: flex;
-                        flex-direction: column;
-                        height: 100vh;
-                        border: 1px solid #333;
-                        box-sizing: border-box;
-                    }
-
-                    /* TitleBar CSS */
-                    .titlebar {
-                        height: 38px;
-                        background: rgba(20, 20, 20, 0.98);
-                        border-bottom: 1px solid rgba(255, 255, 255, 0.05);
-                        display: flex;
-                        justify-content: space-between;
-                        align-items: center;
-                        padding: 0 12px;
-                        -webkit-app-region: drag;
-                        user-select: none;
-                    }
-                    .title { font-size: 12px; font-weight: 600; color: #888; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; }
-                    .controls { display: flex; gap: 4px; -webkit-app-region: no-drag; }
-                    .btn {
-                        width: 32px; height: 26px; border: none; background: transparent; color: #666;
-                        display: flex; align-items: center; justify-content: center; cursor: pointer; border-radius: 6px;
-                    }
-                    .btn:hover { background: rgba(255, 255, 255, 0.08); color: white; }
-                    .btn.close:hover { background: #e81123; }
-                    
-                    /* Log Area */
-                    #logs {
-                        flex: 1;
-                        overflow-y: auto;
-                        padding: 16px;
-                        font-size: 13px;
-                    }
-                    .log-line { margin-bottom: 4px; white-space: pre-wrap; word-break: break-all; }
-                    .err { color: #ff5555; }
-                    .info { color: #55ff55; }
-                    
-                    /* Scrollbar */
-                    ::-webkit-scrollbar { width: 8px; }
-                    ::-webkit-scrollbar-track { background: #111; }
-                    ::-webkit-scrollbar-thumb { background: #333; border-radius: 4px; }
-                    ::-webkit-scrollbar-thumb:hover { background: #555; }
-                </style>
-            </head>
-            <body>
-                <div class="titlebar">
-                    <div class="title">Game Output</div>
-                    <div class="controls">
-                        <button class="btn" id="minBtn">
-                            <svg width="10" height="1" viewBox="0 0 10 1" fill="currentColor"><rect width="10" height="1"/></svg>
-                        </button>
-                        <button class="btn close" id="closeBtn">
-                            <svg width="10" height="10" viewBox="0 0 10 10" fill="currentColor">
-                                <path d="M1 0L0 1L4 5L0 9L1 10L5 6L9 10L10 9L6 5L10 1L9 0L5 4L1 0Z"/>
-                            </svg>
-                        </button>
-                    </div>
-                </div>
-                <div id="logs"></div>
-                <script>
-                    const { ipcRenderer } = require('electron');
-                    const container = document.getElementById('logs');
-                    
-                    // Window controls
-                    document.getElementById('minBtn').onclick = () => ipcRenderer.send('log-window-minimize');
-                    document.getElementById('closeBtn').onclick = () => ipcRenderer.send('log-window-close');
-
-                    // Log messages
-                    ipcRenderer.on('game:log', (e, data) => {
-                        const div = document.createElement('div');
-                        div.className = 'log-line ' + (data.type === 'stderr' ? 'err' : (data.type === 'info' ? 'info' : ''));
-                        div.textContent = data.message;
-                        container.appendChild(div);
-                        container.scrollTop = container.scrollHeight;
-                    });
-                    
-                    // Signal ready to receive logs
-                    ipcRenderer.send('log-window-ready');
-                </script>
-            </body>
-            </html>
-        `;
-
-        logWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(logHtml)}`);
+        // Same renderer bundle as the main window; main.tsx renders the log viewer for view=log
+        const query = { view: 'log', instance: instanceId };
+        const devServerUrl = process.env['VITE_DEV_SERVER_URL'];
+        if (devServerUrl) {
+            logWindow.loadURL(`${devServerUrl}?${new URLSearchParams(query)}`);
+        } else {
+            logWindow.loadFile(path.join(process.env.DIST!, 'index.html'), { query });
+        }
 
         logWindow.on('closed', () => {
             LogWindowManager.logWindows.delete(instanceId);
@@ -173,17 +97,66 @@ export class LogWindowManager {
         // Store the new window data
         LogWindowManager.logWindows.set(instanceId, {
             window: logWindow,
-            messageBuffer: [],
+            entryBuffer: [],
             isReady: false
         });
     }
 
-    static send(instanceId: string, message: string, type: 'stdout' | 'stderr' | 'info' = 'stdout') {
+    /**
+     * Feeds raw process output (or a launcher message, for 'info') through the log parser and
+     * forwards the finished entries to the instance's log window.
+     */
+    static send(instanceId: string, message: string, type: LogSource = 'stdout') {
+        if (type === 'info') {
+            LogWindowManager.deliver(instanceId, [{ time: Date.now(), level: 'INFO', logger: 'Whoap', message, source: 'info' }]);
+            return;
+        }
+
+        const key = `${instanceId}:${type}`;
+        let parser = LogWindowManager.parsers.get(key);
+        if (!parser) {
+            parser = new LogParser(type);
+            LogWindowManager.parsers.set(key, parser);
+        }
+
+        LogWindowManager.deliver(instanceId, parser.feed(message));
+
+        clearTimeout(LogWindowManager.flushTimers.get(key));
+        if (parser.hasPending()) {
+            const held = parser;
+            LogWindowManager.flushTimers.set(key, setTimeout(() => {
+                LogWindowManager.flushTimers.delete(key);
+                LogWindowManager.deliver(instanceId, held.flush());
+            }, FLUSH_DELAY));
+        }
+    }
+
+    /**
+     * Sends whatever the parsers still hold and forgets them; called when the game exits.
+     */
+    static end(instanceId: string) {
+        for (const type of ['stdout', 'stderr'] as const) {
+            const key = `${instanceId}:${type}`;
+            clearTimeout(LogWindowManager.flushTimers.get(key));
+            LogWindowManager.flushTimers.delete(key);
+
+            const parser = LogWindowManager.parsers.get(key);
+            if (parser) LogWindowManager.deliver(instanceId, parser.flush());
+            LogWindowManager.parsers.delete(key);
+        }
+    }
+
+    private static deliver(instanceId: string, entries: LogEntry[]) {
+        if (entries.length === 0) return;
+
         const data = LogWindowManager.logWindows.get(instanceId);
         if (data && !data.window.isDestroyed() && data.isReady) {
-            data.window.webContents.send('game:log', { message, type });
+            data.window.webContents.send('game:log-entries', entries);
         } else if (data) {
-            data.messageBuffer.push({ message, type });
+            data.entryBuffer.push(...entries);
+            if (data.entryBuffer.length > MAX_BUFFERED_ENTRIES) {
+                data.entryBuffer.splice(0, data.entryBuffer.length - MAX_BUFFERED_ENTRIES);
+            }
         }
     }
 
@@ -191,11 +164,9 @@ export class LogWindowManager {
         const data = LogWindowManager.logWindows.get(instanceId);
         if (!data || data.window.isDestroyed()) return;
 
-        while (data.messageBuffer.length > 0) {
-            const item = data.messageBuffer.shift();
-            if (item) {
-                data.window.webContents.send('game:log', item);
-            }
+        if (data.entryBuffer.length > 0) {
+            data.window.webContents.send('game:log-entries', data.entryBuffer);
+            data.entryBuffer = [];
         }
     }
 
@@ -0,0 +1,115 @@
+import { app } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import { createReadStream, existsSync } from 'fs';
+import crypto from 'crypto';
+import AdmZip from 'adm-zip';
+import { ModMetadata, readModMetadata } from '../utils/ModMetadata';
+
+// Bump when ModMetadata changes shape so stale entries are re-read
+const CACHE_VERSION = 2;
+
+// Writes are batched; a listing touches many entries at once
+const SAVE_DELAY_MS = 2000;
+
+interface CacheFile {
+    version: number;
+    // sha1 -> metadata; null when the jar has none
+    entries: Record<string, ModMetadata | null>;
+}
+
+/**
+ * Metadata read from mod jars, kept in userData/cache/mod-metadata.json by the jar's sha1 so the
+ * same file is only opened once, whichever instance or name it turns up under. Hashes themselves are
+ * remembered per path, size and mtime for the lifetime of the app.
+ */
+export class ModMetadataCache {
+    private static instance: ModMetadataCache;
+    private entries: Record<string, ModMetadata | null> | null = null;
+    private hashes = new Map<string, { size: number; mtimeMs: number; sha1: string }>();
+    private saveTimer: NodeJS.Timeout | null = null;
+
+    private constructor() { }
+
+    public static getInstance(): ModMetadataCache {
+        if (!ModMetadataCache.instance) {
+            ModMetadataCache.instance = new ModMetadataCache();
+        }
+        return ModMetadataCache.instance;
+    }
+
+    /**
+     * Metadata and sha1 of a mod jar, reading the jar only on a cache miss.
+     */
+    async get(file: string): Promise<{ sha1: string; metadata: ModMetadata | null }> {
+        const sha1 = await this.hash(file);
+        const entries = await this.load();
+        if (sha1 in entries) return { sha1, metadata: entries[sha1] };
+
+        let metadata: ModMetadata | null = null;
+        try {
+            metadata = readModMetadata(new AdmZip(file));
+        } catch (e) {
+            console.warn(`[ModMetadata] Could not read ${path.basename(file)}:`, e);
+        }
+        entries[sha1] = metadata;
+        this.scheduleSave();
+        return { sha1, metadata };
+    }
+
+    private async hash(file: string): Promise<string> {
+        const stat = await fs.stat(file);
+        const known = this.hashes.get(file);
+        if (known && known.size === stat.size && known.mtimeMs === stat.mtimeMs) return known.sha1;
+
+        const sha1 = await new Promise<string>((resolve, reject) => {
+            const hash = crypto.createHash('sha1');
+            createReadStream(file)
+                .on('data', chunk => hash.update(chunk))
+                .on('end', () => resolve(hash.digest('hex')))
+                .on('error', reject);
+        });
+        this.hashes.set(file, { size: stat.size, mtimeMs: stat.mtimeMs, sha1 });
+        return sha1;
+    }
+
+    private async load(): Promise<Record<string, ModMetadata | null>> {
+        if (this.entries) return this.entries;
+
+        let entries: Record<string, ModMetadata | null> = {};
+        const file = this.getCachePath();
+        if (existsSync(file)) {
+            try {
+                const data: CacheFile = JSON.parse(await fs.readFile(file, 'utf-8'));
+                if (data.version === CACHE_VERSION) entries = data.entries ?? {};
+            } catch (e) {
+                console.warn('[ModMetadata] Cache unreadable, starting over:', e);
+            }
+        }
+        // Another caller may have loaded it while this one was reading
+        this.entries ??= entries;
+        return this.entries;
+    }
+
+    private scheduleSave() {
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.save().catch(e => console.error('[ModMetadata] Failed to save cache:', e));
+        }, SAVE_DELAY_MS);
+    }
+
+    private async save() {
+        if (!this.entries) return;
+        const file = this.getCachePath();
+        const data: CacheFile = { version: CACHE_VERSION, entries: this.entries };
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        // Write-then-rename so a crash mid-write can't leave a truncated cache
+        await fs.writeFile(`${file}.tmp`, JSON.stringify(data));
+        await fs.rename(`${file}.tmp`, file);
+    }
+
+    private getCachePath(): string {
+        return path.join(app.getPath('userData'), 'cache', 'mod-metadata.json');
+    }
+}
@@ -2,10 +2,13 @@ import { ipcMain } from 'electron';
 import axios from 'axios';
 import fs from 'fs/promises';
 import path from 'path';
-import { createWriteStream } from 'fs';
-import { pipeline } from 'stream/promises';
+import crypto from 'crypto';
 import { InstanceManager } from './InstanceManager';
 import { ConfigManager } from './ConfigManager';
+import { DownloadManager, DownloadJob } from './DownloadManager';
+import { BackupManager } from './BackupManager';
+import { InstalledModInfo, ModCheckTarget, ModChecker, ModFix, ModIssue } from '../launcher/ModChecker';
+import { VersionRange } from '../utils/VersionRange';
 
 const API_BASE = 'https://api.modrinth.com/v2';
 const USER_AGENT = 'WhoapLauncher/2.3.1 (contact@whoap.gg)'; // Replace with real contact if available
@@ -23,7 +26,7 @@ interface ModrinthProject {
     server_side: string;
 }
 
-interface ModrinthVersion {
+export interface ModrinthVersion {
     id: string;
     project_id: string;
     author_id: string;
@@ -47,7 +50,32 @@ interface ModrinthVersion {
     }[];
 }
 
-interface InstallStatus {
+export interface ModUpdate {
+    versionId: string;
+    versionNumber: string;
+    filename: string;
+    url: string;
+    sha1: string;
+    size: number;
+}
+
+/**
+ * How an installed mod jar fares on a target game version and loader:
+ * - `compatible`: the installed file already supports it
+ * - `update`: another version of the project does (see `update`)
+ * - `incompatible`: the project has nothing for the target
+ * - `unknown`: the file isn't on Modrinth, so it can't be checked
+ */
+export interface ModCompatibility {
+    file: string;
+    status: 'compatible' | 'update' | 'incompatible' | 'unknown';
+    projectId?: string;
+    title?: string;
+    currentVersion?: string;
+    update?: ModUpdate;
+}
+
+export interface InstallStatus {
     modName: string;
     status: 'pending' | 'downloading' | 'installed' | 'skipped' | 'failed';
     error?: string;
@@ -86,6 +114,7 @@ export class ModPlatformManager {
         // Generalized Install
         ipcMain.handle('platform:install', async (event, instanceId: string, versionId: string, type: 'mod' | 'resourcepack' | 'shader' = 'mod') => {
             try {
+                await BackupManager.getInstance().autoSnapshot(instanceId, 'mod-install');
                 const results = await this.smartInstall(instanceId, versionId, type, (status) => {
                     event.sender.send('platform:install-progress', status);
                 });
@@ -102,6 +131,7 @@ export class ModPlatformManager {
         ipcMain.handle('mods:get-projects', async (_, pids: string[]) => this.getProjects(pids));
         ipcMain.handle('mods:install', async (e, iid, vid) => {
             try {
+                await BackupManager.getInstance().autoSnapshot(iid, 'mod-install');
                 const results = await this.smartInstall(iid, vid, 'mod', (s) => e.sender.send('mods:install-progress', s));
                 return { success: true, results };
             } catch (error: any) { return { success: false, error: error.message }; }
@@ -190,7 +220,7 @@ export class ModPlatformManager {
     /**
      * Recursively resolves dependencies and installs them.
      */
-    private async smartInstall(
+    public async smartInstall(
         instanceId: string,
         rootVersionId: string,
         type: 'mod' | 'resourcepack' | 'shader',
@@ -242,32 +272,270 @@ export class ModPlatformManager {
 
         await resolve(rootVersionId);
 
-        // 2. Install Phase
-        const results: InstallStatus[] = [];
+        // 2. Install Phase: queue every missing file up front so the shared queue can run them in parallel
+        const jobs = new Map<ModrinthVersion, DownloadJob>();
         for (const ver of installQueue) {
             const primaryFile = ver.files.find(f => f.primary) || ver.files[0];
             const destPath = path.join(targetDir, primaryFile.filename);
 
             try {
                 await fs.access(destPath);
+            } catch {
+                jobs.set(ver, DownloadManager.getInstance().enqueue([{
+                    url: primaryFile.url,
+                    destination: destPath,
+                    sha1: primaryFile.hashes?.sha1,
+                    size: primaryFile.size
+                }], ver.name));
+            }
+        }
+
+        const results: InstallStatus[] = [];
+        for (const ver of installQueue) {
+            const job = jobs.get(ver);
+            if (!job) {
                 results.push({ modName: ver.name, status: 'skipped' });
                 progressCallback({ modName: ver.name, status: 'skipped' });
-            } catch {
-                progressCallback({ modName: ver.name, status: 'downloading' });
-                try {
-                    const response = await axios.get(primaryFile.url, { responseType: 'stream' });
-                    await pipeline(response.data, createWriteStream(destPath));
-                    results.push({ modName: ver.name, status: 'installed' });
-                    progressCallback({ modName: ver.name, status: 'installed' });
-                } catch (e: any) {
-                    results.push({ modName: ver.name, status: 'failed', error: e.message });
-                    progressCallback({ modName: ver.name, status: 'failed', error: e.message });
-                }
+                continue;
+            }
+
+            progressCallback({ modName: ver.name, status: 'downloading' });
+            const { cancelled, failed } = await job.done;
+            if (cancelled || failed.length > 0) {
+                const error = cancelled ? 'Download cancelled' : failed[0].error.message;
+                results.push({ modName: ver.name, status: 'failed', error });
+                progressCallback({ modName: ver.name, status: 'failed', error });
+            } else {
+                results.push({ modName: ver.name, status: 'installed' });
+                progressCallback({ modName: ver.name, status: 'installed' });
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Identifies every enabled jar in `modsDir` on Modrinth by its sha1 and checks it against the
+     * target game version and loader. Quilt targets also accept Fabric builds, which Quilt loads.
+     */
+    public async checkCompatibility(modsDir: string, gameVersion: string, loader: string): Promise<ModCompatibility[]> {
+        const hashes = await this.hashJars(modsDir);
+        const files = Array.from(hashes.keys());
+        if (files.length === 0) return [];
+
+        // Vanilla runs no mods at all
+        if (loader === 'vanilla') {
+            return files.map(file => ({ file, status: 'incompatible' as const }));
+        }
+
+        const hashList = Array.from(hashes.values());
+        const loaders = loader === 'quilt' ? ['quilt', 'fabric'] : [loader];
+
+        const [currentByHash, updates] = await Promise.all([
+            this.lookupHashes(hashList),
+            axios.post(`${API_BASE}/version_files/update`, { hashes: hashList, algorithm: 'sha1', loaders, game_versions: [gameVersion] }, {
+                headers: { 'User-Agent': USER_AGENT }
+            })
+        ]);
+        const updateByHash: Record<string, ModrinthVersion> = updates.data || {};
+
+        const projectIds = Array.from(new Set(Object.values(currentByHash).map(v => v.project_id)));
+        const projects: { id: string; title: string }[] = await this.getProjects(projectIds);
+        const titles = new Map(projects.map(p => [p.id, p.title]));
+
+        return files.map(file => {
+            const hash = hashes.get(file)!;
+            const installed = currentByHash[hash];
+            if (!installed) return { file, status: 'unknown' as const };
+
+            const info = {
+                file,
+                projectId: installed.project_id,
+                title: titles.get(installed.project_id),
+                currentVersion: installed.version_number
+            };
+
+            const supported = installed.game_versions.includes(gameVersion) && installed.loaders.some(l => loaders.includes(l));
+            if (supported) return { ...info, status: 'compatible' as const };
+
+            const next = updateByHash[hash];
+            const update = next && this.toModUpdate(next);
+            if (!next || !update || next.id === installed.id) return { ...info, status: 'incompatible' as const };
+
+            return { ...info, status: 'update' as const, update };
+        });
+    }
+
+    /**
+     * Looks for a Modrinth fix for each issue the local check found and has no fix for yet:
+     * - missing dependency: the project whose slug or id is the mod id, in a version the range allows
+     * - dependency out of range: another version of the installed dependency that is in range
+     * - wrong Minecraft version or loader: the mod's own build for the instance
+     * Issues without a fix on Modrinth come back as they were. Offline, nothing is looked up.
+     */
+    public async findModFixes(issues: ModIssue[], mods: InstalledModInfo[], target: ModCheckTarget): Promise<ModIssue[]> {
+        if (ConfigManager.getOfflineMode()) return issues;
+
+        const results: ModIssue[] = [];
+        for (const issue of issues) {
+            if (issue.fix) {
+                results.push(issue);
+                continue;
+            }
+            try {
+                const fix = await this.findModFix(issue, mods, target);
+                results.push(fix ? { ...issue, fix } : issue);
+            } catch (e) {
+                console.warn(`[ModPlatform] No fix found for ${issue.kind} in ${issue.file}:`, e);
+                results.push(issue);
             }
         }
         return results;
     }
 
+    private async findModFix(issue: ModIssue, mods: InstalledModInfo[], target: ModCheckTarget): Promise<ModFix | null> {
+        const dependent = mods.find(m => m.file === issue.file);
+        const inRange = (v: ModrinthVersion) => !dependent || VersionRange.satisfies(v.version_number, issue.versionRange, ModChecker.syntaxFor(dependent.metadata));
+
+        switch (issue.kind) {
+            case 'missing-dependency': {
+                const project = await this.findProject(issue.dependencyId!);
+                if (!project) return null;
+                const versions = await this.getTargetVersions(project.id, target);
+                // Modrinth's version numbers don't always follow the mod's own, so an out-of-range build beats none
+                const version = versions.find(inRange) ?? versions[0];
+                if (!version) return null;
+                return { action: 'install', label: `Install ${project.title} ${version.version_number}`, versionId: version.id };
+            }
+            case 'dependency-version': {
+                // Only a jar that is the dependency itself can be swapped; one that bundles it can't
+                const installed = mods.find(m => m.metadata.id === issue.dependencyId && issue.otherFiles?.includes(m.file));
+                if (!installed) return null;
+                const current = (await this.lookupHashes([installed.sha1]))[installed.sha1];
+                if (!current) return null;
+                const version = (await this.getTargetVersions(current.project_id, target)).find(inRange);
+                const update = version && version.id !== current.id ? this.toModUpdate(version) : null;
+                if (!update) return null;
+                return { action: 'replace', label: `Switch ${installed.metadata.name} to ${update.versionNumber}`, file: installed.file, update };
+            }
+            case 'wrong-minecraft':
+            case 'wrong-loader': {
+                if (!dependent) return null;
+                const response = await axios.post(`${API_BASE}/version_files/update`, {
+                    hashes: [dependent.sha1],
+                    algorithm: 'sha1',
+                    loaders: this.targetLoaders(target),
+                    game_versions: [target.gameVersion]
+                }, {
+                    headers: { 'User-Agent': USER_AGENT }
+                });
+                const next: ModrinthVersion | undefined = response.data?.[dependent.sha1];
+                const update = next && this.toModUpdate(next);
+                if (!update || update.sha1 === dependent.sha1) return null;
+                return { action: 'replace', label: `Update to ${update.versionNumber}`, file: dependent.file, update };
+            }
+            default:
+                return null;
+        }
+    }
+
+    // Mod ids usually double as Modrinth slugs ("sodium", "fabric-api")
+    private async findProject(modId: string): Promise<ModrinthProject & { project_type: string } | null> {
+        try {
+            const response = await axios.get(`${API_BASE}/project/${encodeURIComponent(modId)}`, {
+                headers: { 'User-Agent': USER_AGENT }
+            });
+            return response.data?.project_type === 'mod' ? response.data : null;
+        } catch (e: any) {
+            if (e.response?.status === 404) return null;
+            throw e;
+        }
+    }
+
+    // Newest first, as Modrinth lists them
+    private async getTargetVersions(projectId: string, target: ModCheckTarget): Promise<ModrinthVersion[]> {
+        const response = await axios.get(`${API_BASE}/project/${projectId}/version`, {
+            params: {
+                game_versions: JSON.stringify([target.gameVersion]),
+                loaders: JSON.stringify(this.targetLoaders(target))
+            },
+            headers: { 'User-Agent': USER_AGENT }
+        });
+        return response.data || [];
+    }
+
+    private targetLoaders(target: ModCheckTarget): string[] {
+        return target.loader === 'quilt' ? ['quilt', 'fabric'] : [target.loader];
+    }
+
+    private toModUpdate(version: ModrinthVersion): ModUpdate | null {
+        const primary = version.files.find(f => f.primary) || version.files[0];
+        if (!primary) return null;
+        return {
+            versionId: version.id,
+            versionNumber: version.version_number,
+            filename: primary.filename,
+            url: primary.url,
+            sha1: primary.hashes.sha1,
+            size: primary.size
+        };
+    }
+
+    /**
+     * Downloads `update` into `modsDir` and removes the file it replaces.
+     */
+    public async replaceMod(modsDir: string, file: string, update: ModUpdate): Promise<void> {
+        const job = DownloadManager.getInstance().enqueue([{
+            url: update.url,
+            destination: path.join(modsDir, update.filename),
+            sha1: update.sha1,
+            size: update.size
+        }], update.filename);
+
+        const { cancelled, failed } = await job.done;
+        if (cancelled) throw new Error('Download cancelled');
+        if (failed.length > 0) throw failed[0].error;
+
+        if (update.filename !== file) {
+            await fs.rm(path.join(modsDir, file), { force: true });
+        }
+    }
+
+    /**
+     * Matches every enabled jar in `modsDir` to its Modrinth version. Files Modrinth doesn't know
+     * come back without a version.
+     */
+    public async identifyMods(modsDir: string): Promise<{ file: string; version?: ModrinthVersion }[]> {
+        const hashes = await this.hashJars(modsDir);
+        if (hashes.size === 0) return [];
+
+        const byHash = await this.lookupHashes(Array.from(hashes.values()));
+        return Array.from(hashes.entries()).map(([file, hash]) => ({ file, version: byHash[hash] }));
+    }
+
+    // sha1 of every enabled jar in the folder, by file name
+    private async hashJars(modsDir: string): Promise<Map<string, string>> {
+        const hashes = new Map<string, string>();
+        let files: string[] = [];
+        try {
+            files = (await fs.readdir(modsDir)).filter(f => f.endsWith('.jar'));
+        } catch {
+            return hashes;
+        }
+
+        for (const file of files) {
+            const content = await fs.readFile(path.join(modsDir, file));
+            hashes.set(file, crypto.createHash('sha1').update(content).digest('hex'));
+        }
+        return hashes;
+    }
+
+    private async lookupHashes(hashes: string[]): Promise<Record<string, ModrinthVersion>> {
+        const response = await axios.post(`${API_BASE}/version_files`, { hashes, algorithm: 'sha1' }, {
+            headers: { 'User-Agent': USER_AGENT }
+        });
+        return response.data || {};
+    }
+
     private async findCompatibleVersion(projectId: string, gameVersion: string, loader: string): Promise<ModrinthVersion | null> {
         const versions = await this.getProjectVersions(projectId, 'mod', { version: gameVersion, loader });
         return versions.length > 0 ? versions[0] : null;
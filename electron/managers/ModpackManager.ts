@@ -1,5 +1,6 @@
 import { ipcMain, BrowserWindow } from 'electron';
 import { ModpackInstaller } from '../utils/ModpackInstaller';
+import { JavaManager } from '../launcher/JavaManager';
 import axios from 'axios';
 
 const MODRINTH_API = 'https://api.modrinth.com/v2';
@@ -112,7 +113,8 @@ export class ModpackManager {
                     data.projectId,
                     data.projectName,
                     data.iconUrl,
-                    onProgress
+                    onProgress,
+                    JavaManager.askInstall(event.sender, data.projectName)
                 );
 
                 return { success: true, instanceId: result.instanceId };
@@ -3,12 +3,17 @@ import path from 'path';
 import fs from 'fs/promises';
 import { existsSync, readdirSync, statSync } from 'fs';
 import { ConfigManager } from './ConfigManager';
+import { BackupManager } from './BackupManager';
+import { ModMetadataCache } from './ModMetadataCache';
+import { ModMetadata } from '../utils/ModMetadata';
 
 export interface Mod {
     name: string;
     path: string;
     size: number;
     isEnabled: boolean;
+    sha1?: string;
+    metadata: ModMetadata | null; // null when the jar has no loader metadata or can't be read
 }
 
 export class ModsManager {
@@ -115,12 +120,19 @@ export class ModsManager {
                     const filePath = path.join(modsPath, file);
                     const stats = await fs.stat(filePath);
                     const isEnabled = file.endsWith('.jar');
+                    const { sha1, metadata } = await ModMetadataCache.getInstance().get(filePath)
+                        .catch(e => {
+                            console.warn(`[ModsManager] No metadata for ${file}:`, e);
+                            return { sha1: undefined, metadata: null };
+                        });
 
                     mods.push({
                         name: file,
                         path: filePath,
                         size: stats.size,
-                        isEnabled
+                        isEnabled,
+                        sha1,
+                        metadata
                     });
                 }
             }
@@ -145,6 +157,8 @@ export class ModsManager {
     }
 
     private async deleteMod(instanceId: string, modName: string) {
+        await BackupManager.getInstance().autoSnapshot(instanceId, 'mod-delete', `Before deleting ${modName}`);
+
         const modsPath = this.getModsPath(instanceId);
         const filePath = path.join(modsPath, modName);
         await fs.unlink(filePath);
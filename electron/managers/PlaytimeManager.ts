@@ -0,0 +1,163 @@
+import { app, ipcMain } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+
+// Individual sessions kept per instance; the totals cover every session ever recorded
+const MAX_SESSIONS = 500;
+
+export interface PlaySession {
+    start: number;
+    end: number;
+    durationMs: number;
+    exitCode: number | null;
+    crashed: boolean;
+    versionId: string;
+    javaPath: string;
+    minRam: number;
+    maxRam: number;
+}
+
+interface SessionHistory {
+    totals: {
+        sessions: number;
+        playtimeMs: number;
+        crashes: number;
+    };
+    sessions: PlaySession[]; // Newest last
+}
+
+export interface InstanceStats {
+    instanceId: string;
+    totalPlaytimeMs: number;
+    sessionCount: number;
+    averageSessionMs: number;
+    crashCount: number;
+    crashRate: number; // 0..1
+    lastSession?: PlaySession;
+    recentSessions: PlaySession[]; // Newest first
+}
+
+/**
+ * Records every game session LaunchProcess runs (spawn to close) in userData/sessions/<instanceId>.json
+ * and derives playtime and crash statistics from them.
+ */
+export class PlaytimeManager {
+    private static instance: PlaytimeManager;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    private constructor() {
+        this.registerListeners();
+    }
+
+    public static getInstance(): PlaytimeManager {
+        if (!PlaytimeManager.instance) {
+            PlaytimeManager.instance = new PlaytimeManager();
+        }
+        return PlaytimeManager.instance;
+    }
+
+    private registerListeners() {
+        ipcMain.handle('instance:stats', async (_, instanceId: string, recent: number = 20) => {
+            try {
+                return await this.getStats(instanceId, recent);
+            } catch (error) {
+                console.error("Failed to read instance stats:", error);
+                return this.toStats(instanceId, this.emptyHistory(), 0);
+            }
+        });
+
+        ipcMain.handle('instance:stats-all', async () => {
+            try {
+                return await this.getAllStats();
+            } catch (error) {
+                console.error("Failed to read instance stats:", error);
+                return [];
+            }
+        });
+    }
+
+    async recordSession(instanceId: string, session: PlaySession) {
+        return this.exclusive(async () => {
+            const history = await this.readHistory(instanceId);
+            history.totals.sessions++;
+            history.totals.playtimeMs += session.durationMs;
+            if (session.crashed) history.totals.crashes++;
+
+            history.sessions.push(session);
+            if (history.sessions.length > MAX_SESSIONS) {
+                history.sessions.splice(0, history.sessions.length - MAX_SESSIONS);
+            }
+
+            await fs.mkdir(this.getSessionsDir(), { recursive: true });
+            await fs.writeFile(this.getHistoryPath(instanceId), JSON.stringify(history, null, 2));
+            console.log(`[Playtime] ${instanceId}: ${Math.round(session.durationMs / 1000)}s session recorded${session.crashed ? ' (crashed)' : ''}`);
+        });
+    }
+
+    async getStats(instanceId: string, recent: number = 20): Promise<InstanceStats> {
+        return this.toStats(instanceId, await this.readHistory(instanceId), recent);
+    }
+
+    /**
+     * Stats of every instance that has at least one recorded session.
+     */
+    async getAllStats(): Promise<InstanceStats[]> {
+        const dir = this.getSessionsDir();
+        if (!existsSync(dir)) return [];
+
+        const stats: InstanceStats[] = [];
+        for (const file of await fs.readdir(dir)) {
+            if (!file.endsWith('.json')) continue;
+            const instanceId = file.slice(0, -'.json'.length);
+            stats.push(this.toStats(instanceId, await this.readHistory(instanceId), 5));
+        }
+        return stats;
+    }
+
+    async deleteHistory(instanceId: string) {
+        return this.exclusive(() => fs.rm(this.getHistoryPath(instanceId), { force: true }));
+    }
+
+    private toStats(instanceId: string, history: SessionHistory, recent: number): InstanceStats {
+        const { sessions, playtimeMs, crashes } = history.totals;
+        return {
+            instanceId,
+            totalPlaytimeMs: playtimeMs,
+            sessionCount: sessions,
+            averageSessionMs: sessions > 0 ? Math.round(playtimeMs / sessions) : 0,
+            crashCount: crashes,
+            crashRate: sessions > 0 ? crashes / sessions : 0,
+            lastSession: history.sessions[history.sessions.length - 1],
+            recentSessions: history.sessions.slice(-recent).reverse()
+        };
+    }
+
+    private async readHistory(instanceId: string): Promise<SessionHistory> {
+        try {
+            const history = JSON.parse(await fs.readFile(this.getHistoryPath(instanceId), 'utf-8'));
+            if (history?.totals && Array.isArray(history.sessions)) return history;
+        } catch (e: any) {
+            if (e.code !== 'ENOENT') console.warn(`[Playtime] Unreadable history for ${instanceId}, starting over`, e);
+        }
+        return this.emptyHistory();
+    }
+
+    private emptyHistory(): SessionHistory {
+        return { totals: { sessions: 0, playtimeMs: 0, crashes: 0 }, sessions: [] };
+    }
+
+    private exclusive<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task, task);
+        this.queue = run.catch(() => { });
+        return run;
+    }
+
+    private getSessionsDir(): string {
+        return path.join(app.getPath('userData'), 'sessions');
+    }
+
+    private getHistoryPath(instanceId: string): string {
+        return path.join(this.getSessionsDir(), `${path.basename(instanceId)}.json`);
+    }
+}
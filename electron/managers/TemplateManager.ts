@@ -0,0 +1,419 @@
+import { app, dialog, ipcMain } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import { ConfigManager } from './ConfigManager';
+import { Instance, InstanceManager, InstanceOverrides } from './InstanceManager';
+import { ModPlatformManager } from './ModPlatformManager';
+import { ConfirmCallback, JavaManager } from '../launcher/JavaManager';
+
+const TEMPLATE_FORMAT_VERSION = 1;
+
+// Config files larger than this are left out to keep template files shareable
+const MAX_CONFIG_FILE_SIZE = 512 * 1024;
+
+// Overrides that run programs or change their environment (JVM args can load agents or run commands on OOM);
+// an imported template only keeps them once the user agrees
+const COMMAND_OVERRIDES: (keyof InstanceOverrides)[] = ['preLaunchCommand', 'postExitCommand', 'wrapperCommand', 'env', 'jvmArgs'];
+
+export interface TemplateMod {
+    versionId: string;
+    projectId: string;
+    title: string;
+    filename: string;
+}
+
+export interface TemplateFile {
+    // '/'-separated, relative to the instance folder (config/... or options.txt)
+    path: string;
+    content: string; // base64
+}
+
+export interface InstanceTemplate {
+    formatVersion: number;
+    id: string;
+    name: string;
+    description?: string;
+    created: number;
+    version: string;
+    loader: Instance['loader'];
+    loaderVersion?: string;
+    mods: TemplateMod[];
+    // Jars that aren't on Modrinth and so can't be reinstalled from the template
+    skippedMods: string[];
+    files: TemplateFile[];
+    overrides: InstanceOverrides;
+}
+
+export interface TemplateSummary {
+    id: string;
+    name: string;
+    description?: string;
+    created: number;
+    version: string;
+    loader: Instance['loader'];
+    loaderVersion?: string;
+    modCount: number;
+}
+
+/**
+ * Reusable instance presets stored as single JSON files in userData/templates. A template pins
+ * the loader, the Modrinth versions of its mods, config files, options.txt and launch overrides;
+ * mods are reinstalled from Modrinth rather than stored.
+ */
+export class TemplateManager {
+    private static instance: TemplateManager;
+
+    private constructor() {
+        this.registerListeners();
+    }
+
+    public static getInstance(): TemplateManager {
+        if (!TemplateManager.instance) {
+            TemplateManager.instance = new TemplateManager();
+        }
+        return TemplateManager.instance;
+    }
+
+    private registerListeners() {
+        ipcMain.handle('template:list', async () => {
+            try {
+                return await this.listTemplates();
+            } catch (error) {
+                console.error("Failed to list templates:", error);
+                return [];
+            }
+        });
+
+        ipcMain.handle('template:save', async (_, instanceId: string, name: string, description?: string) => {
+            try {
+                const template = await this.saveFromInstance(instanceId, name, description);
+                return { success: true, template: this.toSummary(template), skippedMods: template.skippedMods };
+            } catch (error: any) {
+                console.error("Failed to save template:", error);
+                return { success: false, error: error.message || String(error) };
+            }
+        });
+
+        ipcMain.handle('template:delete', async (_, templateId: string) => {
+            try {
+                await fs.rm(this.getTemplatePath(templateId), { force: true });
+                return { success: true };
+            } catch (error) {
+                console.error("Failed to delete template:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('template:export', async (_, templateId: string) => {
+            try {
+                return await this.exportTemplate(templateId);
+            } catch (error: any) {
+                console.error("Failed to export template:", error);
+                return { success: false, error: error.message || String(error) };
+            }
+        });
+
+        ipcMain.handle('template:import', async () => {
+            try {
+                return await this.importTemplate();
+            } catch (error: any) {
+                console.error("Failed to import template:", error);
+                return { success: false, error: error.message || String(error) };
+            }
+        });
+
+        ipcMain.handle('template:create-instance', async (event, templateId: string, name: string) => {
+            try {
+                return await this.createInstance(templateId, name, (status, progress, total) => {
+                    event.sender.send('instance:install-progress', { status, progress, total });
+                }, JavaManager.askInstall(event.sender, name));
+            } catch (error: any) {
+                console.error("Failed to create instance from template:", error);
+                return { success: false, error: error.message || String(error) };
+            }
+        });
+    }
+
+    async listTemplates(): Promise<TemplateSummary[]> {
+        const dir = this.getTemplatesDir();
+        if (!existsSync(dir)) return [];
+
+        const templates: TemplateSummary[] = [];
+        for (const file of await fs.readdir(dir)) {
+            if (!file.endsWith('.json')) continue;
+            try {
+                templates.push(this.toSummary(JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8'))));
+            } catch (e) {
+                console.warn(`[Templates] Ignoring unreadable template ${file}:`, e);
+            }
+        }
+        return templates.sort((a, b) => b.created - a.created);
+    }
+
+    /**
+     * Captures an instance as a template. Mods are identified on Modrinth by hash; jars it
+     * doesn't know are listed in `skippedMods` instead.
+     */
+    async saveFromInstance(instanceId: string, name: string, description?: string): Promise<InstanceTemplate> {
+        const instanceManager = InstanceManager.getInstance();
+        const gameDir = instanceManager.resolveInstancePath(instanceId);
+        if (!gameDir) throw new Error('Instance not found');
+
+        const configPath = path.join(ConfigManager.getInstancesPath(), instanceId, 'instance.json');
+        if (!existsSync(configPath)) throw new Error('Only launcher instances can be saved as templates');
+        const data: Instance = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+
+        const mods: TemplateMod[] = [];
+        const skippedMods: string[] = [];
+        const identified = await ModPlatformManager.getInstance().identifyMods(path.join(gameDir, 'mods'));
+        const projects: { id: string; title: string }[] = await ModPlatformManager.getInstance()
+            .getProjects(identified.filter(m => m.version).map(m => m.version!.project_id));
+        const titles = new Map(projects.map(p => [p.id, p.title]));
+
+        for (const { file, version } of identified) {
+            if (!version) {
+                skippedMods.push(file);
+                continue;
+            }
+            mods.push({
+                versionId: version.id,
+                projectId: version.project_id,
+                title: titles.get(version.project_id) || version.name,
+                filename: file
+            });
+        }
+
+        const template: InstanceTemplate = {
+            formatVersion: TEMPLATE_FORMAT_VERSION,
+            id: `${Date.now()}-${name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}`,
+            name,
+            description,
+            created: Date.now(),
+            version: data.version,
+            loader: data.loader,
+            loaderVersion: data.loaderVersion || this.guessLoaderVersion(data),
+            mods,
+            skippedMods,
+            files: await this.collectFiles(gameDir),
+            overrides: this.portableOverrides(instanceManager.getOverrides(instanceId))
+        };
+
+        await this.writeTemplate(template);
+        console.log(`[Templates] Saved ${instanceId} as "${name}" (${mods.length} mods, ${template.files.length} files)`);
+        return template;
+    }
+
+    /**
+     * Creates a new instance from a template: loader via InstanceManager.createInstance, then the
+     * template's files and overrides, then its mods through smartInstall.
+     */
+    async createInstance(templateId: string, name: string, onProgress: (status: string, progress: number, total: number) => void, onConfirmJava?: ConfirmCallback) {
+        const template = await this.readTemplate(templateId);
+        const instanceManager = InstanceManager.getInstance();
+
+        const result = await instanceManager.createInstance(name, template.version, template.loader, template.loaderVersion, onProgress, onConfirmJava);
+        const instanceId = result.instance.id;
+        const instancePath = path.join(ConfigManager.getInstancesPath(), instanceId);
+
+        onProgress('Copying config files...', 0, 100);
+        for (const file of template.files) {
+            const destination = this.resolveTemplateFile(instancePath, file.path);
+            if (!destination) {
+                console.warn(`[Templates] Skipping ${file.path}: not under config/ or options.txt`);
+                continue;
+            }
+
+            await fs.mkdir(path.dirname(destination), { recursive: true });
+            await fs.writeFile(destination, Buffer.from(file.content, 'base64'));
+        }
+
+        // The instance exists by now; bad overrides shouldn't throw it away along with its mods
+        let overridesError: string | undefined;
+        const overrides = this.portableOverrides(template.overrides || {});
+        if (Object.keys(overrides).length > 0) {
+            try {
+                await instanceManager.setOverrides(instanceId, overrides);
+            } catch (e: any) {
+                console.warn(`[Templates] Could not apply launch settings to ${instanceId}:`, e);
+                overridesError = e.message || String(e);
+            }
+        }
+
+        const failedMods: string[] = [];
+        for (let i = 0; i < template.mods.length; i++) {
+            const mod = template.mods[i];
+            onProgress(`Installing ${mod.title} (${i + 1}/${template.mods.length})...`, i, template.mods.length);
+            try {
+                const statuses = await ModPlatformManager.getInstance().smartInstall(instanceId, mod.versionId, 'mod', () => { });
+                if (statuses.length === 0 || statuses.some(s => s.status === 'failed')) failedMods.push(mod.title);
+            } catch (e) {
+                console.error(`[Templates] Failed to install ${mod.title}:`, e);
+                failedMods.push(mod.title);
+            }
+        }
+
+        return { success: true, instance: result.instance, failedMods, overridesError };
+    }
+
+    async exportTemplate(templateId: string) {
+        const template = await this.readTemplate(templateId);
+
+        const { filePath } = await dialog.showSaveDialog({
+            title: 'Export Template',
+            defaultPath: `${template.name.replace(/[^a-z0-9 _-]/gi, '_')}.whoap-template.json`,
+            filters: [{ name: 'Instance Template', extensions: ['json'] }]
+        });
+        if (!filePath) return { success: false, canceled: true };
+
+        await fs.writeFile(filePath, JSON.stringify(template, null, 2));
+        return { success: true, filePath };
+    }
+
+    async importTemplate() {
+        const { filePaths } = await dialog.showOpenDialog({
+            title: 'Import Template',
+            properties: ['openFile'],
+            filters: [{ name: 'Instance Template', extensions: ['json'] }]
+        });
+        if (!filePaths || filePaths.length === 0) return { success: false, canceled: true };
+
+        const imported = JSON.parse(await fs.readFile(filePaths[0], 'utf-8'));
+        if (!imported || typeof imported.version !== 'string' || typeof imported.loader !== 'string' || !Array.isArray(imported.mods)) {
+            throw new Error('Not a template file');
+        }
+        if (imported.formatVersion > TEMPLATE_FORMAT_VERSION) {
+            throw new Error('This template was made by a newer launcher version');
+        }
+
+        const name = String(imported.name || path.basename(filePaths[0], '.json'));
+        // Any root will do here; only where each path ends up relative to it matters
+        const files: TemplateFile[] = (Array.isArray(imported.files) ? imported.files : [])
+            .filter((file: any) => typeof file?.path === 'string' && typeof file?.content === 'string' && this.resolveTemplateFile('/instance', file.path));
+
+        // Commands in a shared template would run on the next launch without anyone seeing them
+        const overrides: InstanceOverrides = this.portableOverrides(imported.overrides && typeof imported.overrides === 'object' ? imported.overrides : {});
+        const commands = COMMAND_OVERRIDES.filter(key => overrides[key] !== undefined);
+        if (commands.length > 0) {
+            const details = commands.map(key => `${key}: ${key === 'env' ? JSON.stringify(overrides.env) : Array.isArray(overrides[key]) ? (overrides[key] as string[]).join(' ') : overrides[key]}`).join('\n');
+            const { response } = await dialog.showMessageBox({
+                type: 'warning',
+                title: 'Import Template',
+                message: `"${name}" runs commands, sets environment variables or adds JVM arguments when its instances launch.`,
+                detail: `${details}\n\nOnly keep these if you trust where the template came from.`,
+                buttons: ['Import Without Them', 'Keep Them'],
+                defaultId: 0,
+                cancelId: 0
+            });
+            if (response !== 1) {
+                for (const key of commands) delete overrides[key];
+            }
+        }
+
+        const template: InstanceTemplate = {
+            formatVersion: TEMPLATE_FORMAT_VERSION,
+            // Fresh id so importing the same file twice doesn't overwrite anything
+            id: `${Date.now()}-${name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}`,
+            name,
+            description: imported.description,
+            created: Date.now(),
+            version: imported.version,
+            loader: imported.loader,
+            loaderVersion: imported.loaderVersion,
+            mods: imported.mods,
+            skippedMods: imported.skippedMods || [],
+            files,
+            overrides
+        };
+
+        await this.writeTemplate(template);
+        return { success: true, template: this.toSummary(template) };
+    }
+
+    // config/ plus options.txt, as base64
+    private async collectFiles(gameDir: string): Promise<TemplateFile[]> {
+        const files: TemplateFile[] = [];
+
+        const visit = async (absolute: string, relative: string) => {
+            const stat = await fs.stat(absolute).catch(() => null);
+            if (!stat) return;
+
+            if (stat.isDirectory()) {
+                for (const name of await fs.readdir(absolute)) {
+                    await visit(path.join(absolute, name), `${relative}/${name}`);
+                }
+            } else if (stat.isFile()) {
+                if (stat.size > MAX_CONFIG_FILE_SIZE) {
+                    console.warn(`[Templates] Skipping large file ${relative} (${stat.size} bytes)`);
+                    return;
+                }
+                files.push({ path: relative, content: (await fs.readFile(absolute)).toString('base64') });
+            }
+        };
+
+        await visit(path.join(gameDir, 'config'), 'config');
+        await visit(path.join(gameDir, 'options.txt'), 'options.txt');
+        return files;
+    }
+
+    /**
+     * Where a template file goes in the instance, or null unless it lands inside config/ or is
+     * options.txt itself. Checked after resolving, so "config/../mods/x.jar" is refused.
+     */
+    private resolveTemplateFile(instancePath: string, relative: string): string | null {
+        const destination = path.resolve(instancePath, ...relative.split('/'));
+        if (destination === path.resolve(instancePath, 'options.txt')) return destination;
+        return destination.startsWith(path.resolve(instancePath, 'config') + path.sep) ? destination : null;
+    }
+
+    // A Java path only means something on the machine it was picked on
+    private portableOverrides(overrides: InstanceOverrides): InstanceOverrides {
+        const { javaPath: _javaPath, ...rest } = overrides;
+        return rest;
+    }
+
+    // Instances created before loaderVersion was recorded only have it inside their launch id
+    private guessLoaderVersion(data: Instance): string | undefined {
+        const id = data.launchVersionId || '';
+        const patterns: Partial<Record<Instance['loader'], RegExp>> = {
+            fabric: /^fabric-loader-(.+)-[^-]+$/,
+            quilt: /^quilt-loader-(.+)-[^-]+$/,
+            forge: /^[^-]+-forge-(.+)$/,
+            neoforge: /^neoforge-(.+)$/
+        };
+        return id.match(patterns[data.loader] || /$^/)?.[1];
+    }
+
+    private async readTemplate(templateId: string): Promise<InstanceTemplate> {
+        const templatePath = this.getTemplatePath(templateId);
+        if (!existsSync(templatePath)) throw new Error('Template not found');
+        return JSON.parse(await fs.readFile(templatePath, 'utf-8'));
+    }
+
+    private async writeTemplate(template: InstanceTemplate) {
+        await fs.mkdir(this.getTemplatesDir(), { recursive: true });
+        await fs.writeFile(this.getTemplatePath(template.id), JSON.stringify(template, null, 2));
+    }
+
+    private toSummary(template: InstanceTemplate): TemplateSummary {
+        return {
+            id: template.id,
+            name: template.name,
+            description: template.description,
+            created: template.created,
+            version: template.version,
+            loader: template.loader,
+            loaderVersion: template.loaderVersion,
+            modCount: template.mods.length
+        };
+    }
+
+    private getTemplatesDir(): string {
+        return path.join(app.getPath('userData'), 'templates');
+    }
+
+    private getTemplatePath(templateId: string): string {
+        // Ids come from the renderer; keep them inside the templates folder
+        return path.join(this.getTemplatesDir(), `${path.basename(templateId)}.json`);
+    }
+}
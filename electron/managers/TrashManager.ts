@@ -0,0 +1,241 @@
+import { app, ipcMain } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import crypto from 'crypto';
+import { ConfigManager } from './ConfigManager';
+import { PlaytimeManager } from './PlaytimeManager';
+import { GameLogManager } from './GameLogManager';
+
+// 'remove' only drops the Whoap entry; 'delete' also takes the game data, wherever it lives
+export type DeleteMode = 'remove' | 'delete';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+interface TrashManifest {
+    id: string;
+    instanceId: string;
+    name: string;
+    mode: DeleteMode;
+    deletedAt: number;
+    // Folders moved into the trash item, stored as entries/<index>
+    entries: { from: string; size: number }[];
+}
+
+export interface DeletedInstance {
+    id: string;
+    instanceId: string;
+    name: string;
+    mode: DeleteMode;
+    deletedAt: number;
+    expiresAt: number;
+    paths: string[];
+    totalSize: number;
+}
+
+/**
+ * Recoverable trash for deleted instances under userData/trash. Each deletion becomes
+ * trash/<id>/ holding a manifest.json and the moved folders; items older than the
+ * `trashRetentionDays` setting are purged on startup and whenever the trash is listed.
+ */
+export class TrashManager {
+    private static instance: TrashManager;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    private constructor() {
+        this.registerListeners();
+        this.purgeExpired().catch(e => console.error('[Trash] Failed to purge expired items:', e));
+    }
+
+    public static getInstance(): TrashManager {
+        if (!TrashManager.instance) {
+            TrashManager.instance = new TrashManager();
+        }
+        return TrashManager.instance;
+    }
+
+    private registerListeners() {
+        ipcMain.handle('instance:list-deleted', async () => {
+            try {
+                await this.purgeExpired();
+                return await this.list();
+            } catch (error) {
+                console.error("Failed to list deleted instances:", error);
+                return [];
+            }
+        });
+
+        ipcMain.handle('instance:restore-deleted', async (_, trashId: string) => {
+            try {
+                return await this.restore(trashId);
+            } catch (error) {
+                console.error("Failed to restore instance:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+
+        ipcMain.handle('instance:purge-deleted', async (_, trashId?: string) => {
+            try {
+                if (trashId) {
+                    await this.purge(trashId);
+                } else {
+                    for (const item of await this.list()) await this.purge(item.id);
+                }
+                return { success: true };
+            } catch (error) {
+                console.error("Failed to purge deleted instances:", error);
+                return { success: false, error: String(error) };
+            }
+        });
+    }
+
+    /**
+     * Moves the given folders into a new trash item. If a move fails, whatever was already moved
+     * is put back before the error is rethrown.
+     */
+    async moveToTrash(instanceId: string, name: string, mode: DeleteMode, folders: string[]): Promise<DeletedInstance> {
+        return this.exclusive(async () => {
+            const id = `${Date.now()}-${crypto.randomBytes(3).toString('hex')}`;
+            const itemDir = this.getItemDir(id);
+            await fs.mkdir(path.join(itemDir, 'entries'), { recursive: true });
+
+            const manifest: TrashManifest = { id, instanceId, name, mode, deletedAt: Date.now(), entries: [] };
+            try {
+                for (const from of folders) {
+                    const size = await this.getSize(from);
+                    await this.move(from, path.join(itemDir, 'entries', String(manifest.entries.length)));
+                    manifest.entries.push({ from, size });
+                }
+            } catch (e) {
+                for (const [index, entry] of manifest.entries.entries()) {
+                    await this.move(path.join(itemDir, 'entries', String(index)), entry.from)
+                        .catch(err => console.error(`[Trash] Could not put ${entry.from} back:`, err));
+                }
+                await fs.rm(itemDir, { recursive: true, force: true });
+                throw e;
+            }
+
+            await fs.writeFile(path.join(itemDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+            console.log(`[Trash] ${instanceId} moved to trash (${mode}): ${folders.join(', ')}`);
+            return this.toDeleted(manifest);
+        });
+    }
+
+    async list(): Promise<DeletedInstance[]> {
+        const dir = this.getTrashDir();
+        if (!existsSync(dir)) return [];
+
+        const items: DeletedInstance[] = [];
+        for (const id of await fs.readdir(dir)) {
+            const manifest = await this.readManifest(id);
+            if (manifest) items.push(this.toDeleted(manifest));
+        }
+        return items.sort((a, b) => b.deletedAt - a.deletedAt);
+    }
+
+    /**
+     * Moves every folder back to where it came from. Refuses if any of those locations has been
+     * taken in the meantime, e.g. by a new instance with the same id.
+     */
+    async restore(trashId: string) {
+        return this.exclusive(async () => {
+            const manifest = await this.readManifest(trashId);
+            if (!manifest) return { success: false, error: 'Deleted instance not found' };
+
+            const taken = manifest.entries.find(entry => existsSync(entry.from));
+            if (taken) return { success: false, error: `${taken.from} already exists` };
+
+            const itemDir = this.getItemDir(trashId);
+            for (const [index, entry] of manifest.entries.entries()) {
+                await fs.mkdir(path.dirname(entry.from), { recursive: true });
+                await this.move(path.join(itemDir, 'entries', String(index)), entry.from);
+            }
+            await fs.rm(itemDir, { recursive: true, force: true });
+
+            console.log(`[Trash] ${manifest.instanceId} restored`);
+            return { success: true, instanceId: manifest.instanceId };
+        });
+    }
+
+    /**
+     * Deletes a trash item for good. Play history and session logs go with it unless the id is in use again.
+     */
+    async purge(trashId: string) {
+        return this.exclusive(async () => {
+            const manifest = await this.readManifest(trashId);
+            await fs.rm(this.getItemDir(trashId), { recursive: true, force: true });
+
+            if (manifest && !existsSync(path.join(ConfigManager.getInstancesPath(), manifest.instanceId))) {
+                await PlaytimeManager.getInstance().deleteHistory(manifest.instanceId);
+                await GameLogManager.getInstance().deleteLogs(manifest.instanceId);
+            }
+        });
+    }
+
+    async purgeExpired() {
+        const retention = ConfigManager.getTrashRetentionDays() * DAY;
+        for (const item of await this.list()) {
+            if (Date.now() - item.deletedAt > retention) {
+                console.log(`[Trash] Retention expired for ${item.instanceId}, purging`);
+                await this.purge(item.id);
+            }
+        }
+    }
+
+    private toDeleted(manifest: TrashManifest): DeletedInstance {
+        return {
+            id: manifest.id,
+            instanceId: manifest.instanceId,
+            name: manifest.name,
+            mode: manifest.mode,
+            deletedAt: manifest.deletedAt,
+            expiresAt: manifest.deletedAt + ConfigManager.getTrashRetentionDays() * DAY,
+            paths: manifest.entries.map(entry => entry.from),
+            totalSize: manifest.entries.reduce((sum, entry) => sum + entry.size, 0)
+        };
+    }
+
+    private async readManifest(trashId: string): Promise<TrashManifest | null> {
+        try {
+            return JSON.parse(await fs.readFile(path.join(this.getItemDir(trashId), 'manifest.json'), 'utf-8'));
+        } catch {
+            return null;
+        }
+    }
+
+    // rename can't cross drives, which external game folders often are on
+    private async move(from: string, to: string) {
+        try {
+            await fs.rename(from, to);
+        } catch (e: any) {
+            if (e.code !== 'EXDEV') throw e;
+            await fs.cp(from, to, { recursive: true });
+            await fs.rm(from, { recursive: true, force: true });
+        }
+    }
+
+    private async getSize(target: string): Promise<number> {
+        const stat = await fs.lstat(target);
+        if (!stat.isDirectory()) return stat.size;
+
+        let size = 0;
+        for (const entry of await fs.readdir(target)) {
+            size += await this.getSize(path.join(target, entry));
+        }
+        return size;
+    }
+
+    private exclusive<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task, task);
+        this.queue = run.catch(() => { });
+        return run;
+    }
+
+    private getTrashDir(): string {
+        return path.join(app.getPath('userData'), 'trash');
+    }
+
+    private getItemDir(trashId: string): string {
+        return path.join(this.getTrashDir(), path.basename(trashId));
+    }
+}
@@ -0,0 +1,38 @@
+import { ConfigManager, MirrorRule } from '../managers/ConfigManager';
+
+export class MirrorUtils {
+    /**
+     * Every URL worth trying for `url`, in order. The longest matching mirror prefix wins;
+     * the official URL comes first unless mirrors are preferred.
+     */
+    static resolve(url: string, rules: MirrorRule[] = ConfigManager.getMirrors(), preferMirrors = ConfigManager.getPreferMirrors()): string[] {
+        const rule = rules
+            .filter(r => r.prefix && url.startsWith(r.prefix))
+            .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+        if (!rule) return [url];
+
+        const rest = url.slice(rule.prefix.length);
+        const mirrored = rule.mirrors.filter(Boolean).map(m => m + rest);
+        const ordered = preferMirrors ? [...mirrored, url] : [url, ...mirrored];
+        return Array.from(new Set(ordered));
+    }
+
+    /**
+     * Runs `request` against each candidate URL until one succeeds. Rethrows the last error.
+     */
+    static async tryEach<T>(url: string, request: (candidate: string) => Promise<T>): Promise<T> {
+        const candidates = this.resolve(url);
+        let lastError: unknown;
+
+        for (const candidate of candidates) {
+            try {
+                return await request(candidate);
+            } catch (e) {
+                lastError = e;
+                if (candidates.length > 1) console.warn(`[Mirrors] ${candidate} failed, trying next source`);
+            }
+        }
+
+        throw lastError;
+    }
+}
@@ -0,0 +1,320 @@
+import path from 'path';
+import AdmZip from 'adm-zip';
+
+export type ModLoader = 'fabric' | 'quilt' | 'forge' | 'neoforge';
+
+// 'incompatible': fabric/quilt breaks, forge incompatible (won't load); 'discouraged': fabric conflicts, forge discouraged (loads with a warning)
+export type ModDependencyKind = 'required' | 'optional' | 'incompatible' | 'discouraged';
+
+export interface ModDependency {
+    id: string;
+    kind: ModDependencyKind;
+    versionRange?: string; // as written by the mod, in its loader's syntax
+}
+
+export interface ModMetadata {
+    id: string;
+    name: string;
+    version: string;
+    authors: string[];
+    description?: string;
+    icon?: string; // data URL
+    loaders: ModLoader[];
+    minecraftVersion?: string; // range, in the loader's syntax
+    dependencies: ModDependency[];
+    // Other ids this jar satisfies: extra mods in the same jar, bundled jar-in-jar mods, declared aliases
+    provides: { id: string; version?: string }[];
+}
+
+// Bigger icons are left out so the metadata cache stays small
+const MAX_ICON_BYTES = 64 * 1024;
+
+// Not mods: the game, the runtime and the loaders themselves
+const PLATFORM_IDS = new Set(['minecraft', 'java', 'fabricloader', 'quilt_loader', 'forge', 'neoforge']);
+
+const ICON_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp'
+};
+
+/**
+ * Reads whatever loader metadata a mod jar carries: fabric.mod.json, quilt.mod.json,
+ * (neoforge.)mods.toml or the legacy mcmod.info. Jars built for several loaders report all of them;
+ * the other fields come from the first file found in that order. Returns null for jars without any.
+ */
+export function readModMetadata(zip: AdmZip): ModMetadata | null {
+    const read = (name: string) => zip.getEntry(name) ? zip.readAsText(name) : null;
+    const parsed: ModMetadata[] = [];
+
+    const parsers: [string, (text: string) => ModMetadata | null][] = [
+        ['fabric.mod.json', text => fromFabric(JSON.parse(text), zip)],
+        ['quilt.mod.json', text => fromQuilt(JSON.parse(text), zip)],
+        ['META-INF/neoforge.mods.toml', text => fromModsToml(text, 'neoforge', zip)],
+        ['META-INF/mods.toml', text => fromModsToml(text, 'forge', zip)],
+        ['mcmod.info', text => fromMcmodInfo(JSON.parse(text), zip)]
+    ];
+    for (const [file, parse] of parsers) {
+        const text = read(file);
+        if (!text) continue;
+        try {
+            const metadata = parse(text);
+            if (metadata) parsed.push(metadata);
+        } catch (e) {
+            console.warn(`[ModMetadata] Malformed ${file}:`, e);
+        }
+    }
+
+    const [primary, ...rest] = parsed;
+    if (!primary) return null;
+    for (const other of rest) {
+        for (const loader of other.loaders) {
+            if (!primary.loaders.includes(loader)) primary.loaders.push(loader);
+        }
+    }
+    return primary;
+}
+
+function fromFabric(data: any, zip: AdmZip): ModMetadata | null {
+    if (typeof data?.id !== 'string') return null;
+
+    const dependencies: ModDependency[] = [];
+    const kinds: [string, ModDependencyKind][] = [['depends', 'required'], ['recommends', 'optional'], ['suggests', 'optional'], ['breaks', 'incompatible'], ['conflicts', 'discouraged']];
+    let minecraftVersion: string | undefined;
+    for (const [field, kind] of kinds) {
+        for (const [id, range] of Object.entries(data[field] ?? {})) {
+            const versionRange = formatRange(range);
+            if (id === 'minecraft' && kind === 'required') minecraftVersion = versionRange;
+            if (!PLATFORM_IDS.has(id)) dependencies.push({ id, kind, versionRange });
+        }
+    }
+
+    const provides: ModMetadata['provides'] = asArray(data.provides).filter(isString).map(id => ({ id, version: data.version }));
+    for (const nested of asArray(data.jars)) {
+        if (isString(nested?.file)) provides.push(...readNested(zip, nested.file));
+    }
+
+    return {
+        id: data.id,
+        name: isString(data.name) ? data.name : data.id,
+        version: String(data.version ?? ''),
+        authors: asArray(data.authors).map(author => isString(author) ? author : author?.name).filter(isString),
+        description: isString(data.description) ? data.description : undefined,
+        icon: readIcon(zip, pickIcon(data.icon)),
+        loaders: ['fabric'],
+        minecraftVersion,
+        dependencies,
+        provides
+    };
+}
+
+function fromQuilt(data: any, zip: AdmZip): ModMetadata | null {
+    const loader = data?.quilt_loader;
+    if (typeof loader?.id !== 'string') return null;
+    const metadata = loader.metadata ?? {};
+
+    const dependencies: ModDependency[] = [];
+    let minecraftVersion: string | undefined;
+    const addAll = (list: unknown, kind: ModDependencyKind) => {
+        for (const entry of asArray(list)) {
+            const id = isString(entry) ? entry : (entry as any)?.id;
+            if (!isString(id)) continue;
+            const versionRange = isString(entry) ? undefined : formatRange((entry as any).versions);
+            const dependencyKind = kind === 'required' && (entry as any)?.optional ? 'optional' : kind;
+            if (id === 'minecraft' && dependencyKind === 'required') minecraftVersion = versionRange;
+            if (!PLATFORM_IDS.has(id)) dependencies.push({ id, kind: dependencyKind, versionRange });
+        }
+    };
+    addAll(loader.depends, 'required');
+    addAll(loader.breaks, 'incompatible');
+
+    const provides: ModMetadata['provides'] = asArray(loader.provides)
+        .map(entry => isString(entry) ? { id: entry, version: loader.version } : { id: entry?.id, version: entry?.version ?? loader.version })
+        .filter(entry => isString(entry.id));
+    for (const nested of asArray(loader.jars)) {
+        if (isString(nested)) provides.push(...readNested(zip, nested));
+    }
+
+    return {
+        id: loader.id,
+        name: isString(metadata.name) ? metadata.name : loader.id,
+        version: String(loader.version ?? ''),
+        authors: Object.keys(metadata.contributors ?? {}),
+        description: isString(metadata.description) ? metadata.description : undefined,
+        icon: readIcon(zip, pickIcon(metadata.icon)),
+        loaders: ['quilt'],
+        minecraftVersion,
+        dependencies,
+        provides
+    };
+}
+
+function fromModsToml(text: string, loader: ModLoader, zip: AdmZip): ModMetadata | null {
+    const toml = parseToml(text);
+    const [mod, ...others] = toml.tables['mods'] ?? [];
+    if (!isString(mod?.modId)) return null;
+
+    // Forge substitutes the jar's manifest version at load time
+    const jarVersion = /^Implementation-Version:\s*(.+)$/m.exec(zip.getEntry('META-INF/MANIFEST.MF') ? zip.readAsText('META-INF/MANIFEST.MF') : '')?.[1]?.trim();
+    const version = String(mod.version ?? '').replace('${file.jarVersion}', jarVersion ?? '');
+
+    const dependencies: ModDependency[] = [];
+    let minecraftVersion: string | undefined;
+    let declaredLoader = loader;
+    for (const entry of toml.tables[`dependencies.${mod.modId}`] ?? []) {
+        if (!isString(entry.modId)) continue;
+        const type = isString(entry.type) ? entry.type.toLowerCase() : entry.mandatory === false ? 'optional' : 'required';
+        const kind: ModDependencyKind = type === 'incompatible' || type === 'discouraged' || type === 'optional' ? type : 'required';
+        const versionRange = isString(entry.versionRange) ? entry.versionRange : undefined;
+
+        if (entry.modId === 'minecraft') minecraftVersion = versionRange;
+        if (entry.modId === 'neoforge') declaredLoader = 'neoforge';
+        if (!PLATFORM_IDS.has(entry.modId)) dependencies.push({ id: entry.modId, kind, versionRange });
+    }
+
+    return {
+        id: mod.modId,
+        name: isString(mod.displayName) ? mod.displayName : mod.modId,
+        version,
+        authors: isString(mod.authors) ? mod.authors.split(/,\s*/).filter(Boolean) : (isString(toml.root.authors) ? [toml.root.authors] : []),
+        description: isString(mod.description) ? mod.description.trim() : undefined,
+        icon: readIcon(zip, isString(mod.logoFile) ? mod.logoFile : toml.root.logoFile),
+        loaders: [declaredLoader],
+        minecraftVersion,
+        dependencies,
+        provides: others.filter(other => isString(other.modId)).map(other => ({ id: other.modId, version: isString(other.version) ? other.version : undefined }))
+    };
+}
+
+function fromMcmodInfo(data: any, zip: AdmZip): ModMetadata | null {
+    const [mod, ...others] = Array.isArray(data) ? data : asArray(data?.modList);
+    if (!isString(mod?.modid)) return null;
+
+    // "modid@[1.0,)" style entries
+    const dependencies: ModDependency[] = asArray(mod.requiredMods).filter(isString).map(entry => {
+        const [id, versionRange] = entry.split('@');
+        return { id, kind: 'required' as const, versionRange };
+    }).filter(dependency => !PLATFORM_IDS.has(dependency.id.toLowerCase()));
+
+    return {
+        id: mod.modid,
+        name: isString(mod.name) ? mod.name : mod.modid,
+        version: String(mod.version ?? ''),
+        authors: asArray(mod.authorList ?? mod.authors).filter(isString),
+        description: isString(mod.description) ? mod.description : undefined,
+        icon: readIcon(zip, mod.logoFile),
+        loaders: ['forge'],
+        minecraftVersion: isString(mod.mcversion) ? mod.mcversion : undefined,
+        dependencies,
+        provides: others.filter(other => isString(other?.modid)).map(other => ({ id: other.modid, version: other.version }))
+    };
+}
+
+/**
+ * Ids and versions of the jar-in-jar mods a fabric or quilt jar bundles, including what those bundle.
+ */
+function readNested(zip: AdmZip, file: string): { id: string; version?: string }[] {
+    const entry = zip.getEntry(file);
+    if (!entry) return [];
+    try {
+        const nested = readModMetadata(new AdmZip(entry.getData()));
+        return nested ? [{ id: nested.id, version: nested.version }, ...nested.provides] : [];
+    } catch {
+        return [];
+    }
+}
+
+function readIcon(zip: AdmZip, file: unknown): string | undefined {
+    if (!isString(file)) return undefined;
+    const entry = zip.getEntry(file.replace(/^\/+/, '')) ?? zip.getEntry(path.posix.basename(file));
+    const type = ICON_TYPES[path.extname(file).toLowerCase()];
+    if (!entry || !type || entry.header.size > MAX_ICON_BYTES) return undefined;
+    return `data:${type};base64,${entry.getData().toString('base64')}`;
+}
+
+// Fabric and quilt allow { "16": "a.png", "128": "b.png" }; take the largest up to 128px
+function pickIcon(icon: unknown): string | undefined {
+    if (isString(icon)) return icon;
+    if (!icon || typeof icon !== 'object') return undefined;
+    const sizes = Object.keys(icon).map(Number).filter(Number.isFinite).sort((a, b) => a - b);
+    const size = sizes.filter(s => s <= 128).pop() ?? sizes[0];
+    return size !== undefined ? (icon as Record<string, string>)[String(size)] : undefined;
+}
+
+function formatRange(range: unknown): string | undefined {
+    if (isString(range)) return range;
+    if (Array.isArray(range)) return range.filter(isString).join(' || ') || undefined;
+    // quilt's { "any": [...] } / { "all": [...] }
+    if (range && typeof range === 'object') {
+        const { any, all } = range as { any?: unknown; all?: unknown };
+        if (Array.isArray(any)) return any.filter(isString).join(' || ');
+        if (Array.isArray(all)) return all.filter(isString).join(' ');
+    }
+    return undefined;
+}
+
+function asArray(value: unknown): any[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+function isString(value: unknown): value is string {
+    return typeof value === 'string' && value.length > 0;
+}
+
+/**
+ * Just enough TOML for mods.toml: top-level keys, [[array tables]], strings (including
+ * multi-line ones), booleans and numbers. Anything else is skipped.
+ */
+function parseToml(text: string): { root: Record<string, any>; tables: Record<string, Record<string, any>[]> } {
+    const root: Record<string, any> = {};
+    const tables: Record<string, Record<string, any>[]> = {};
+    let current: Record<string, any> | null = root;
+
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line || line.startsWith('#')) continue;
+
+        const arrayTable = /^\[\[\s*([^\]]+?)\s*\]\]/.exec(line);
+        if (arrayTable) {
+            current = {};
+            (tables[arrayTable[1]] ??= []).push(current);
+            continue;
+        }
+        if (line.startsWith('[')) {
+            // Plain tables (modproperties and the like) aren't needed
+            current = null;
+            continue;
+        }
+
+        const pair = /^("[^"]+"|'[^']+'|[\w.-]+)\s*=\s*(.*)$/.exec(line);
+        if (!pair || !current) continue;
+        const key = pair[1].replace(/^["']|["']$/g, '');
+        let value = pair[2];
+
+        const multiline = value.startsWith('"""') ? '"""' : value.startsWith("'''") ? "'''" : null;
+        if (multiline) {
+            let body = value.slice(3);
+            while (!body.includes(multiline) && i + 1 < lines.length) body += '\n' + lines[++i];
+            current[key] = body.slice(0, body.indexOf(multiline)).replace(/^\n/, '');
+            continue;
+        }
+
+        if (value.startsWith('"')) {
+            const match = /^"((?:[^"\\]|\\.)*)"/.exec(value);
+            if (match) current[key] = match[1].replace(/\\(["\\nt])/g, (_, c) => c === 'n' ? '\n' : c === 't' ? '\t' : c);
+        } else if (value.startsWith("'")) {
+            const match = /^'([^']*)'/.exec(value);
+            if (match) current[key] = match[1];
+        } else {
+            value = value.replace(/\s*#.*$/, '');
+            if (value === 'true' || value === 'false') current[key] = value === 'true';
+            else if (/^[+-]?\d+(\.\d+)?$/.test(value)) current[key] = Number(value);
+        }
+    }
+
+    return { root, tables };
+}
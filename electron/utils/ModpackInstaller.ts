@@ -5,6 +5,9 @@ import axios from 'axios';
 import AdmZip from 'adm-zip';
 import { CurseForgeApi } from '../api/CurseForgeApi';
 import { ConfigManager } from '../managers/ConfigManager';
+import { DownloadManager } from '../managers/DownloadManager';
+import { MetadataCache } from '../launcher/MetadataCache';
+import { ConfirmCallback } from '../launcher/JavaManager';
 import { randomUUID } from 'crypto';
 
 export class ModpackInstaller {
@@ -15,7 +18,8 @@ export class ModpackInstaller {
         projectId: string,
         projectName: string,
         iconUrl: string | undefined,
-        onProgress: (status: string, progress: number, total: number) => void
+        onProgress: (status: string, progress: number, total: number) => void,
+        onConfirmJava?: ConfirmCallback
     ) {
         console.log(`[ModpackInstaller] Starting install for ${projectName} (Version: ${versionId})`);
 
@@ -45,9 +49,9 @@ export class ModpackInstaller {
             onProgress("Downloading modpack configuration...", 10, 100);
             console.log(`[ModpackInstaller] Downloading .mrpack from ${primary.url}`);
             const packPath = path.join(instanceDir, 'modpack.mrpack');
-            await this.downloadFile(primary.url, packPath);
+            await this.downloadFile(primary.url, packPath, projectName);
 
-            const result = await this.installFromLocalZip(packPath, onProgress, projectName, iconUrl);
+            const result = await this.installFromLocalZip(packPath, onProgress, projectName, iconUrl, onConfirmJava);
 
             // Clean up the downloaded pack
             if (fs.existsSync(packPath)) fs.unlinkSync(packPath);
@@ -67,7 +71,8 @@ export class ModpackInstaller {
         zipPath: string,
         onProgress: (status: string, progress: number, total: number) => void,
         providedName?: string,
-        providedIcon?: string
+        providedIcon?: string,
+        onConfirmJava?: ConfirmCallback
     ) {
         console.log(`[ModpackInstaller] Installing from local zip: ${zipPath}`);
 
@@ -100,7 +105,7 @@ export class ModpackInstaller {
             let gameVersion = '';
             let loader = 'vanilla';
             let loaderVersion = '';
-            let filesToDownload: { url: string, path: string, fileSize?: number }[] = [];
+            let filesToDownload: { url: string, path: string, fileSize?: number, sha1?: string }[] = [];
 
             if (isModrinth) {
                 onProgress("Parsing Modrinth manifest...", 15, 100);
@@ -120,7 +125,8 @@ export class ModpackInstaller {
                 filesToDownload = indexData.files.map((f: any) => ({
                     url: f.downloads[0],
                     path: f.path,
-                    fileSize: f.fileSize
+                    fileSize: f.fileSize,
+                    sha1: f.hashes?.sha1
                 }));
 
                 // Handle Overrides
@@ -181,42 +187,36 @@ export class ModpackInstaller {
             const totalBytes = filesToDownload.reduce((acc, f) => acc + (f.fileSize || 0), 0);
             const totalMB = (totalBytes / 1024 / 1024).toFixed(1);
 
-            const CONCURRENCY = 5;
+            // Concurrency and bandwidth are handled by the shared download queue
+            const job = DownloadManager.getInstance().enqueue(filesToDownload.map(file => ({
+                url: file.url,
+                destination: path.join(instanceDir, file.path),
+                sha1: file.sha1,
+                size: file.fileSize
+            })), projectName);
+
             let completed = 0;
             let bytesDownloaded = 0;
-            const downloadQueue = [...filesToDownload];
-            const activeWorkers = [];
-
-            const downloadWorker = async () => {
-                while (downloadQueue.length > 0) {
-                    const file = downloadQueue.shift();
-                    if (!file) break;
-
-                    const destPath = path.join(instanceDir, file.path);
-                    const destFolder = path.dirname(destPath);
-                    if (!fs.existsSync(destFolder)) fs.mkdirSync(destFolder, { recursive: true });
-
-                    try {
-                        await this.downloadFile(file.url, destPath);
-                        completed++;
-                        bytesDownloaded += (file.fileSize || 0);
+            job.on('file', ({ task, ok }: { task: { size?: number }, ok: boolean }) => {
+                if (!ok) return;
+                completed++;
+                bytesDownloaded += (task.size || 0);
 
-                        const overallPercent = 30 + Math.floor((completed / totalFiles) * 60);
+                const overallPercent = 30 + Math.floor((completed / totalFiles) * 60);
 
-                        let infoStr = `Downloading files: ${completed}/${totalFiles}`;
-                        if (totalBytes > 0) {
-                            infoStr += ` (${(bytesDownloaded / 1024 / 1024).toFixed(1)}/${totalMB} MB)`;
-                        }
-
-                        onProgress(infoStr, overallPercent, 100);
-                    } catch (err) {
-                        console.error(`Failed to download ${file.path}`, err);
-                    }
+                let infoStr = `Downloading files: ${completed}/${totalFiles}`;
+                if (totalBytes > 0) {
+                    infoStr += ` (${(bytesDownloaded / 1024 / 1024).toFixed(1)}/${totalMB} MB)`;
                 }
-            };
 
-            for (let i = 0; i < CONCURRENCY; i++) activeWorkers.push(downloadWorker());
-            await Promise.all(activeWorkers);
+                onProgress(infoStr, overallPercent, 100);
+            });
+
+            const downloadResult = await job.done;
+            if (downloadResult.cancelled) {
+                throw new Error("Modpack download cancelled");
+            }
+            downloadResult.failed.forEach(({ task, error }) => console.error(`Failed to download ${task.destination}`, error));
 
             // Install Loader
             let launchVersionId = gameVersion;
@@ -226,15 +226,14 @@ export class ModpackInstaller {
                     const metaHost = loader === 'fabric' ? 'https://meta.fabricmc.net/v2' : 'https://meta.quiltmc.org/v3';
 
                     if (!loaderVersion) {
-                        const vRes = await axios.get(`${metaHost}/versions/loader/${gameVersion}`);
-                        const best = vRes.data.find((l: any) => l.loader.stable) || vRes.data[0];
+                        const loaders = await MetadataCache.getJson<any[]>(`${metaHost}/versions/loader/${gameVersion}`, loader);
+                        const best = loaders.find((l: any) => l.loader.stable) || loaders[0];
                         if (best) loaderVersion = best.loader.version;
                     }
 
                     if (loaderVersion) {
                         const profileUrl = `${metaHost}/versions/loader/${gameVersion}/${loaderVersion}/profile/json`;
-                        const profileRes = await axios.get(profileUrl);
-                        const profileJson = profileRes.data;
+                        const profileJson = await MetadataCache.getJson<any>(profileUrl, loader);
 
                         const versionId = profileJson.id;
                         const gamePath = ConfigManager.getGamePath();
@@ -249,6 +248,15 @@ export class ModpackInstaller {
                 } catch (e) {
                     console.error("Failed to install loader", e);
                 }
+            } else if ((loader === 'forge' || loader === 'neoforge') && loaderVersion) {
+                try {
+                    const { ForgeInstaller } = await import('../launcher/ForgeInstaller');
+                    launchVersionId = await ForgeInstaller.install(loader, gameVersion, loaderVersion, (status) => {
+                        onProgress(status, 90, 100);
+                    }, onConfirmJava);
+                } catch (e) {
+                    console.error("Failed to install loader", e);
+                }
             }
 
             const instanceConfig = {
@@ -285,21 +293,10 @@ export class ModpackInstaller {
         }
     }
 
-    private static async downloadFile(url: string, dest: string) {
-        const writer = fs.createWriteStream(dest);
-        const response = await axios({
-            url,
-            method: 'GET',
-            responseType: 'stream',
-            headers: {
-                'User-Agent': 'WhoapLauncher/1.0'
-            }
-        });
-        response.data.pipe(writer);
-        return new Promise<void>((resolve, reject) => {
-            writer.on('finish', () => resolve());
-            writer.on('error', reject);
-        });
+    private static async downloadFile(url: string, dest: string, label: string) {
+        const result = await DownloadManager.getInstance().enqueue([{ url, destination: dest }], label).done;
+        if (result.cancelled) throw new Error("Download cancelled");
+        if (result.failed.length > 0) throw result.failed[0].error;
     }
 
     private static copyRecursiveSync(src: string, dest: string) {
@@ -0,0 +1,118 @@
+// 'semver': fabric/quilt predicates (">=1.2 <2", "~1.20", "1.20.x", "a || b"); 'maven': forge ranges ("[1.0,2.0)")
+export type RangeSyntax = 'semver' | 'maven';
+
+interface ParsedVersion {
+    parts: (number | string)[];
+    pre: string | null;
+}
+
+/**
+ * Mod and Minecraft version comparison, lenient by design: anything that can't be parsed
+ * (no leading digit, unreadable range) counts as satisfied rather than reported.
+ */
+export class VersionRange {
+    static satisfies(version: string, range: string | undefined, syntax: RangeSyntax): boolean {
+        if (!range || !parse(version)) return true;
+        try {
+            return syntax === 'maven' ? satisfiesMaven(version, range) : satisfiesSemver(version, range);
+        } catch {
+            return true;
+        }
+    }
+
+    /**
+     * Negative if a < b, positive if a > b, 0 when equal or not comparable.
+     */
+    static compare(a: string, b: string): number {
+        const left = parse(a);
+        const right = parse(b);
+        return left && right ? compareParsed(left, right) : 0;
+    }
+}
+
+function parse(version: string): ParsedVersion | null {
+    const clean = version.trim().replace(/^v/i, '').split('+')[0];
+    if (!/^\d/.test(clean)) return null;
+
+    // Only a letter after '-' starts a pre-release ("1.0-beta.2"); "1.20.1-47.1.3" is just more parts
+    const pre = /-([a-zA-Z].*)$/.exec(clean);
+    const main = pre ? clean.slice(0, pre.index) : clean;
+    return {
+        parts: main.split(/[.-]/).map(part => /^\d+$/.test(part) ? Number(part) : part),
+        pre: pre ? pre[1] : null
+    };
+}
+
+function compareParsed(a: ParsedVersion, b: ParsedVersion): number {
+    for (let i = 0; i < Math.max(a.parts.length, b.parts.length); i++) {
+        const x = a.parts[i] ?? 0;
+        const y = b.parts[i] ?? 0;
+        if (x === y) continue;
+        if (typeof x === 'number' && typeof y === 'number') return x - y;
+        return String(x).localeCompare(String(y));
+    }
+    if (a.pre === b.pre) return 0;
+    // A release sorts after its pre-releases
+    if (a.pre === null) return 1;
+    if (b.pre === null) return -1;
+    return a.pre.localeCompare(b.pre, undefined, { numeric: true });
+}
+
+function satisfiesSemver(version: string, range: string): boolean {
+    return range.split('||').some(alternative => {
+        const predicates = alternative.trim().split(/\s+/).filter(Boolean);
+        return predicates.every(predicate => matchPredicate(version, predicate));
+    });
+}
+
+function matchPredicate(version: string, predicate: string): boolean {
+    if (predicate === '*') return true;
+
+    const [, operator = '', target] = /^(>=|<=|>|<|=|~|\^)?(.+)$/.exec(predicate)!;
+    const wildcard = target.search(/\.[xX*](\.|$)/);
+    const base = wildcard >= 0 ? target.slice(0, wildcard) : target;
+    if (!parse(base)) return true;
+    const cmp = VersionRange.compare(version, base);
+
+    switch (operator) {
+        case '>=': return cmp >= 0;
+        case '<=': return cmp <= 0;
+        case '>': return cmp > 0;
+        case '<': return cmp < 0;
+        case '~': return cmp >= 0 && VersionRange.compare(version, bump(base, base.split('.').length > 1 ? 1 : 0)) < 0;
+        case '^': return cmp >= 0 && VersionRange.compare(version, bump(base, 0)) < 0;
+        default:
+            // "1.20.x" allows any 1.20 release; a plain version must match exactly
+            if (wildcard >= 0) return cmp >= 0 && VersionRange.compare(version, bump(base, base.split('.').length - 1)) < 0;
+            return cmp === 0;
+    }
+}
+
+// Upper bound for ~, ^ and x-ranges: increments the part at `index` and drops the rest
+function bump(version: string, index: number): string {
+    const parts = version.split('.').slice(0, index + 1).map(Number);
+    parts[index] = (parts[index] || 0) + 1;
+    return parts.join('.');
+}
+
+function satisfiesMaven(version: string, range: string): boolean {
+    const sets = [...range.matchAll(/([[(])([^\])]*)([\])])/g)];
+    // A bare version is only a recommendation to forge; any version is accepted
+    if (sets.length === 0) return true;
+
+    return sets.some(([, open, body, close]) => {
+        const bounds = body.split(',').map(bound => parse(bound) ? bound.trim() : '');
+        if (bounds.length === 1) return !bounds[0] || VersionRange.compare(version, bounds[0]) === 0;
+
+        const [lower, upper] = bounds;
+        if (lower) {
+            const cmp = VersionRange.compare(version, lower);
+            if (open === '[' ? cmp < 0 : cmp <= 0) return false;
+        }
+        if (upper) {
+            const cmp = VersionRange.compare(version, upper);
+            if (close === ']' ? cmp > 0 : cmp >= 0) return false;
+        }
+        return true;
+    });
+}
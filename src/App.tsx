@@ -9,6 +9,7 @@ import { supabase } from './lib/supabase';
 import { Skeleton } from './components/Skeleton';
 import { perf } from './utils/PerformanceProfiler';
 import { JavaInstallModal } from './components/JavaInstallModal';
+import { ModCheckPrompt } from './components/ModCheckModal';
 
 // Mark app module load time
 perf.mark('App module loaded');
@@ -20,6 +21,7 @@ import { Login } from './pages/Login';
 // Lazy-load non-critical pages for faster startup
 const Library = lazy(() => import('./pages/Library').then(m => ({ default: m.Library })));
 const Screenshots = lazy(() => import('./pages/Screenshots').then(m => ({ default: m.Screenshots })));
+const Statistics = lazy(() => import('./pages/Statistics').then(m => ({ default: m.Statistics })));
 const News = lazy(() => import('./pages/News').then(m => ({ default: m.News })));
 const Friends = lazy(() => import('./pages/Friends').then(m => ({ default: m.Friends })));
 const Admin = lazy(() => import('./pages/Admin').then(m => ({ default: m.Admin })));
@@ -243,6 +245,7 @@ function App() {
                     <Toaster position="bottom-right" toastOptions={{ style: { background: '#1f2937', color: '#fff' } }} />
                     <ConfirmProvider>
                         <JavaInstallModal />
+                        <ModCheckPrompt />
                         <MainLayout activeTab={activeTab} onTabChange={setActiveTab} user={user} onLogout={handleLogout}>
                             {activeTab === 'home' && <Home user={user} setUser={setUser} onNavigate={(tab, instanceId) => {
                                     if (instanceId) setSelectedLibraryInstanceId(instanceId);
@@ -256,6 +259,7 @@ function App() {
                                 {activeTab === 'settings' && <Settings />}
                                 {activeTab === 'library' && <Library user={user} isOnline={isOnline} preselectedInstanceId={selectedLibraryInstanceId} />}
                                 {activeTab === 'screenshots' && <Screenshots user={user} />}
+                                {activeTab === 'stats' && <Statistics />}
                                 {activeTab === 'friends' && <Friends isOnline={isOnline} />}
                                 {activeTab === 'news' && <News />}
                                 {activeTab === 'admin' && <Admin user={user} />}
@@ -0,0 +1,50 @@
+export type DownloadJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface DownloadJobInfo {
+    id: string;
+    label: string;
+    status: DownloadJobStatus;
+    totalFiles: number;
+    completedFiles: number;
+    failedFiles: number;
+    totalBytes: number;
+    downloadedBytes: number;
+    speed: number; // bytes/s
+    eta: number | null; // seconds
+    createdAt: number;
+}
+
+export interface DownloadSnapshot {
+    jobs: DownloadJobInfo[];
+    totalBytes: number;
+    downloadedBytes: number;
+    speed: number;
+    eta: number | null;
+}
+
+export const DownloadApi = {
+    list: async (): Promise<DownloadSnapshot> => {
+        return window.ipcRenderer.invoke('download:list');
+    },
+
+    cancel: async (jobId: string): Promise<{ success: boolean }> => {
+        return window.ipcRenderer.invoke('download:cancel', jobId);
+    },
+
+    pause: async (jobId: string): Promise<{ success: boolean }> => {
+        return window.ipcRenderer.invoke('download:pause', jobId);
+    },
+
+    resume: async (jobId: string): Promise<{ success: boolean }> => {
+        return window.ipcRenderer.invoke('download:resume', jobId);
+    },
+
+    // Pushed every 500ms while downloads are active; returns an unsubscribe function
+    onUpdate: (callback: (snapshot: DownloadSnapshot) => void): (() => void) => {
+        const handler = (_: any, snapshot: DownloadSnapshot) => callback(snapshot);
+        window.ipcRenderer.on('download:update', handler);
+        return () => {
+            window.ipcRenderer.off('download:update', handler);
+        };
+    }
+};
@@ -1,3 +1,100 @@
+export interface InstanceOverrides {
+    minRam?: number;
+    maxRam?: number;
+    jvmPreset?: 'potato' | 'standard' | 'pro' | 'extreme' | 'custom';
+    jvmArgs?: string[];
+    javaPath?: string;
+    resolution?: { width: number; height: number };
+    fullscreen?: boolean;
+    env?: Record<string, string>;
+    wrapperCommand?: string;
+    preLaunchCommand?: string;
+    postExitCommand?: string;
+}
+
+export interface InstanceJavaStatus {
+    instanceId: string;
+    name: string;
+    versionId: string;
+    requiredJava: string;
+    javaPath: string | null;
+}
+
+export interface RepairLogEntry {
+    kind: 'client' | 'assetIndex' | 'library' | 'native' | 'asset';
+    file: string;
+    path: string;
+    status: 'missing' | 'corrupt' | 'fixed' | 'failed';
+}
+
+export interface RepairResult {
+    success: boolean;
+    fixed?: { kind: RepairLogEntry['kind']; path: string }[];
+    failed?: { kind: RepairLogEntry['kind']; path: string }[];
+    error?: string;
+}
+
+export interface OfflineMissingItem {
+    kind: 'version' | 'client' | 'assetIndex' | 'library' | 'asset' | 'java';
+    name: string;
+    path?: string;
+}
+
+export interface OfflineReadiness {
+    // Missing assets don't block a launch, everything else does
+    ready: boolean;
+    missing: OfflineMissingItem[];
+    error?: string;
+}
+
+export type SnapshotReason = 'manual' | 'mod-install' | 'mod-delete' | 'loader-change' | 'restore';
+
+export interface SnapshotInfo {
+    id: string;
+    instanceId: string;
+    created: number;
+    reason: SnapshotReason;
+    label?: string;
+    automatic: boolean;
+    fileCount: number;
+    totalSize: number;
+}
+
+export interface ModUpdate {
+    versionId: string;
+    versionNumber: string;
+    filename: string;
+    url: string;
+    sha1: string;
+    size: number;
+}
+
+export interface ModCompatibility {
+    file: string;
+    status: 'compatible' | 'update' | 'incompatible' | 'unknown';
+    projectId?: string;
+    title?: string;
+    currentVersion?: string;
+    update?: ModUpdate;
+}
+
+export type ModAction = 'update' | 'keep' | 'disable';
+
+export interface VersionChange {
+    version: string;
+    loader: Instance['loader'];
+    loaderVersion?: string;
+    modActions?: Record<string, ModAction>;
+    updates?: Record<string, ModUpdate>;
+}
+
+export interface VersionChangeResult {
+    success: boolean;
+    instance?: Instance;
+    mods?: { file: string; action: ModAction; success: boolean; error?: string }[];
+    error?: string;
+}
+
 export interface Instance {
     id: string;
     name: string;
@@ -9,9 +106,76 @@ export interface Instance {
     isFavorite?: boolean;
     isImported?: boolean;
     launchVersionId?: string;
+    loaderVersion?: string;
+    useExternalPath?: boolean; // Game data lives in the original versions/<id> folder, outside Whoap
     type?: 'created' | 'imported';
+    overrides?: InstanceOverrides;
+    group?: string;
+    tags?: string[];
+    sortIndex?: number;
+}
+
+export interface PlaySession {
+    start: number;
+    end: number;
+    durationMs: number;
+    exitCode: number | null;
+    crashed: boolean;
+    versionId: string;
+    javaPath: string;
+    minRam: number;
+    maxRam: number;
+}
+
+export interface InstanceStats {
+    instanceId: string;
+    totalPlaytimeMs: number;
+    sessionCount: number;
+    averageSessionMs: number;
+    crashCount: number;
+    crashRate: number; // 0..1
+    lastSession?: PlaySession;
+    recentSessions: PlaySession[]; // Newest first
 }
 
+// 'remove' drops only the Whoap entry; 'delete' also moves the game data to the trash
+export type DeleteMode = 'remove' | 'delete';
+
+export interface DeleteResult {
+    success: boolean;
+    error?: string;
+    // Set when the game data is outside the Whoap instances folder and confirmExternal wasn't given
+    requiresConfirmation?: boolean;
+    externalPath?: string;
+}
+
+export interface DeletedInstance {
+    id: string;
+    instanceId: string;
+    name: string;
+    mode: DeleteMode;
+    deletedAt: number;
+    expiresAt: number;
+    paths: string[];
+    totalSize: number;
+}
+
+export const formatPlaytime = (ms: number): string => {
+    const minutes = Math.floor(ms / 60000);
+    const hours = Math.floor(minutes / 60);
+    if (hours > 0) return `${hours}h ${minutes % 60}m`;
+    if (minutes > 0) return `${minutes}m`;
+    return ms > 0 ? '<1m' : '0m';
+};
+
+/**
+ * Renderer URL of a local instance's custom icon, or null when it has none.
+ */
+export const getInstanceIconUrl = (instance: Instance): string | null => {
+    if (!instance.icon || instance.type !== 'created') return null;
+    return `whoap-icon://instance/${encodeURIComponent(instance.id)}/${encodeURIComponent(instance.icon)}`;
+};
+
 export interface Version {
     id: string;
     type: string;
@@ -36,13 +200,14 @@ export const InstanceApi = {
         return res.success ? res.loaders : [];
     },
     getQuiltLoaders: async (version: string): Promise<{ id: string; stable: boolean }[]> => {
-        return window.ipcRenderer.invoke('meta:get-quilt-loaders', version);
+        const res = await window.ipcRenderer.invoke('meta:get-quilt-loaders', version);
+        return res.success ? res.loaders : [];
     },
     list: async (): Promise<Instance[]> => {
         return window.ipcRenderer.invoke('instance:list');
     },
-    getVersions: async (): Promise<Version[]> => {
-        return window.ipcRenderer.invoke('meta:get-versions');
+    getVersions: async (types?: string[]): Promise<Version[]> => {
+        return window.ipcRenderer.invoke('meta:get-versions', types);
     },
     toggleFavorite: async (id: string): Promise<{ success: boolean; isFavorite: boolean }> => {
         return window.ipcRenderer.invoke('instance:toggle-favorite', id);
@@ -50,8 +215,18 @@ export const InstanceApi = {
     updateLastPlayed: async (id: string): Promise<void> => {
         return window.ipcRenderer.invoke('instance:update-last-played', id);
     },
-    delete: async (id: string): Promise<{ success: boolean; error?: string }> => {
-        return window.ipcRenderer.invoke('instance:delete', id);
+    delete: async (id: string, options?: { mode?: DeleteMode; confirmExternal?: boolean }): Promise<DeleteResult> => {
+        return window.ipcRenderer.invoke('instance:delete', id, options);
+    },
+    listDeleted: async (): Promise<DeletedInstance[]> => {
+        return window.ipcRenderer.invoke('instance:list-deleted');
+    },
+    restoreDeleted: async (trashId: string): Promise<{ success: boolean; instanceId?: string; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:restore-deleted', trashId);
+    },
+    // Without a trashId the whole trash is emptied
+    purgeDeleted: async (trashId?: string): Promise<{ success: boolean; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:purge-deleted', trashId);
     },
     duplicate: async (id: string, newName: string): Promise<{ success: boolean; instanceId?: string; error?: string }> => {
         return window.ipcRenderer.invoke('instance:duplicate', id, newName);
@@ -65,7 +240,62 @@ export const InstanceApi = {
     rename: async (id: string, newName: string): Promise<{ success: boolean; error?: string }> => {
         return window.ipcRenderer.invoke('instance:rename', id, newName);
     },
+    setOrganization: async (id: string, organization: { group?: string; tags?: string[] }): Promise<{ success: boolean; group?: string; tags?: string[]; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:set-organization', id, organization);
+    },
+    // Without a URL the user picks an image file
+    setIcon: async (id: string, url?: string): Promise<{ success: boolean; icon?: string; canceled?: boolean; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:set-icon', id, url);
+    },
+    clearIcon: async (id: string): Promise<{ success: boolean; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:clear-icon', id);
+    },
+    reorder: async (orderedIds: string[]): Promise<{ success: boolean; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:reorder', orderedIds);
+    },
     openFolder: async (id: string): Promise<{ success: boolean; error?: string }> => {
         return window.ipcRenderer.invoke('instance:open-folder', id);
+    },
+    getOverrides: async (id: string): Promise<InstanceOverrides> => {
+        return window.ipcRenderer.invoke('instance:get-overrides', id);
+    },
+    setOverrides: async (id: string, overrides: InstanceOverrides): Promise<{ success: boolean; overrides?: InstanceOverrides; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:set-overrides', id, overrides);
+    },
+    repair: async (instance: Instance): Promise<RepairResult> => {
+        return window.ipcRenderer.invoke('instance:repair', instance.id, instance.launchVersionId || instance.version);
+    },
+    checkOfflineReady: async (instance: Instance): Promise<OfflineReadiness> => {
+        return window.ipcRenderer.invoke('instance:check-offline-ready', instance.id, instance.launchVersionId || instance.version);
+    },
+    setJava: async (id: string, javaPath: string | null): Promise<{ success: boolean; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:set-java', id, javaPath);
+    },
+    getJavaStatus: async (): Promise<InstanceJavaStatus[]> => {
+        return window.ipcRenderer.invoke('instance:java-status');
+    },
+    checkVersionChange: async (id: string, version: string, loader: string): Promise<{ success: boolean; mods?: ModCompatibility[]; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:check-version-change', id, version, loader);
+    },
+    changeVersion: async (id: string, change: VersionChange): Promise<VersionChangeResult> => {
+        return window.ipcRenderer.invoke('instance:change-version', id, change);
+    },
+    snapshot: async (id: string, label?: string): Promise<{ success: boolean; snapshot?: SnapshotInfo; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:snapshot', id, label);
+    },
+    listSnapshots: async (id: string): Promise<SnapshotInfo[]> => {
+        return window.ipcRenderer.invoke('instance:list-snapshots', id);
+    },
+    restoreSnapshot: async (id: string, snapshotId: string): Promise<{ success: boolean; restored?: number; removed?: number; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:restore', id, snapshotId);
+    },
+    deleteSnapshot: async (id: string, snapshotId: string): Promise<{ success: boolean; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:delete-snapshot', id, snapshotId);
+    },
+    getStats: async (id: string, recent?: number): Promise<InstanceStats> => {
+        return window.ipcRenderer.invoke('instance:stats', id, recent);
+    },
+    getAllStats: async (): Promise<InstanceStats[]> => {
+        return window.ipcRenderer.invoke('instance:stats-all');
     }
 };
@@ -0,0 +1,16 @@
+export interface JavaInstallation {
+    path: string;
+    home: string;
+    version: string;
+    major: string;
+    vendor: string;
+    arch: string;
+    is64Bit: boolean;
+    source: 'path' | 'java_home' | 'system' | 'managed';
+}
+
+export const JavaApi = {
+    scan: async (): Promise<{ success: boolean; installations: JavaInstallation[]; error?: string }> => {
+        return window.ipcRenderer.invoke('java:scan');
+    }
+};
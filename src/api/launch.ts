@@ -1,5 +1,40 @@
 import { Instance } from "./instances";
 
+export interface LaunchPlan {
+    instanceId: string;
+    versionId: string;
+    version: any;
+    isNativeInstance: boolean;
+    gameDir: string;
+    librariesDir: string;
+    assetsDir: string;
+    nativesDir: string;
+    clientJarPath: string;
+    assetIndex: { id: string; url?: string; path: string };
+    classpath: string[];
+    downloads: { url: string; destination: string; sha1?: string; size?: number }[];
+    javaVersion: string;
+    javaBinding: string | null;
+    javaPath: string | null;
+    minRam: number;
+    maxRam: number;
+    jvmArgs: string[];
+    mainClass: string;
+    gameArgs: string[];
+    wrapper: string[];
+    env: Record<string, string>;
+    preLaunchCommand: string | null;
+    postExitCommand: string | null;
+    argv: string[];
+}
+
+export interface RunningGame {
+    instanceId: string;
+    versionId: string;
+    pid: number;
+    startTime: number;
+}
+
 export const LaunchApi = {
     launch: async (instance: Instance, authProfile: any) => {
         // Need to construct the absolute path? 
@@ -29,5 +64,26 @@ export const LaunchApi = {
             authProfile
         );
         return result;
+    },
+
+    // Dry-run: resolves everything the launch would use (classpath, game dir, Java, argv) without running it
+    plan: async (instance: Instance, authProfile: any): Promise<{ success: boolean; plan?: LaunchPlan; error?: string }> => {
+        return window.ipcRenderer.invoke('game:plan',
+            instance.id,
+            instance.launchVersionId || instance.version,
+            authProfile
+        );
+    },
+
+    listRunning: async (): Promise<RunningGame[]> => {
+        return window.ipcRenderer.invoke('game:list-running');
+    },
+
+    kill: async (instanceId: string): Promise<{ success: boolean; error?: string }> => {
+        return window.ipcRenderer.invoke('game:kill', instanceId);
+    },
+
+    focus: async (instanceId: string): Promise<{ success: boolean; error?: string }> => {
+        return window.ipcRenderer.invoke('game:focus', instanceId);
     }
 };
@@ -0,0 +1,68 @@
+export type LogLevel = 'TRACE' | 'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'FATAL';
+
+export interface LogEntry {
+    time: number | null; // epoch ms; null for unstructured output
+    thread?: string;
+    level: LogLevel;
+    logger?: string;
+    message: string;
+    throwable?: string;
+    source: 'stdout' | 'stderr' | 'info'; // 'info' = written by the launcher itself
+}
+
+export type LogFileKind = 'session' | 'game' | 'crash-report';
+
+export interface LogFileInfo {
+    id: string;
+    kind: LogFileKind; // session = written by the launcher, game = the game's logs/ folder
+    name: string;
+    size: number;
+    modified: number;
+}
+
+export interface LogFileContent {
+    success: boolean;
+    entries?: LogEntry[]; // log files
+    content?: string; // crash reports
+    truncated?: boolean; // only the end of a very large file was read
+    error?: string;
+}
+
+/**
+ * Plain-text form of an entry, close to log4j's default pattern.
+ */
+export const formatLogEntry = (entry: LogEntry): string => {
+    const time = entry.time ? new Date(entry.time).toLocaleTimeString([], { hour12: false }) : null;
+    const head = [
+        time && `[${time}]`,
+        entry.thread ? `[${entry.thread}/${entry.level}]` : `[${entry.level}]`,
+        entry.logger && `[${entry.logger}]`
+    ].filter(Boolean).join(' ');
+    return `${head}: ${entry.message}${entry.throwable ? `\n${entry.throwable}` : ''}`;
+};
+
+export const LogApi = {
+    list: async (instanceId: string): Promise<LogFileInfo[]> => {
+        return window.ipcRenderer.invoke('logs:list', instanceId);
+    },
+
+    read: async (instanceId: string, fileId: string): Promise<LogFileContent> => {
+        return window.ipcRenderer.invoke('logs:read', instanceId, fileId);
+    },
+
+    // The rest are channels of the per-game log window (view=log)
+    ready: () => window.ipcRenderer.send('log-window-ready'),
+
+    minimize: () => window.ipcRenderer.send('log-window-minimize'),
+
+    close: () => window.ipcRenderer.send('log-window-close'),
+
+    // Entries arrive in batches as the game writes them; returns an unsubscribe function
+    onEntries: (callback: (entries: LogEntry[]) => void): (() => void) => {
+        const handler = (_: any, entries: LogEntry[]) => callback(entries);
+        window.ipcRenderer.on('game:log-entries', handler);
+        return () => {
+            window.ipcRenderer.off('game:log-entries', handler);
+        };
+    }
+};
@@ -0,0 +1,73 @@
+import { ModUpdate } from './instances';
+
+export type ModLoader = 'fabric' | 'quilt' | 'forge' | 'neoforge';
+
+export interface ModDependency {
+    id: string;
+    kind: 'required' | 'optional' | 'incompatible' | 'discouraged';
+    versionRange?: string; // in the mod loader's own syntax
+}
+
+export interface ModMetadata {
+    id: string;
+    name: string;
+    version: string;
+    authors: string[];
+    description?: string;
+    icon?: string; // data URL
+    loaders: ModLoader[];
+    minecraftVersion?: string;
+    dependencies: ModDependency[];
+    provides: { id: string; version?: string }[]; // bundled and aliased mod ids
+}
+
+export interface InstalledMod {
+    name: string; // file name, '.disabled' included
+    path: string;
+    size: number;
+    isEnabled: boolean;
+    sha1?: string;
+    metadata: ModMetadata | null; // null for jars without loader metadata
+}
+
+export type ModIssueKind = 'missing-dependency' | 'dependency-version' | 'duplicate' | 'wrong-loader' | 'wrong-minecraft' | 'incompatible';
+
+export type ModFix =
+    | { action: 'install'; label: string; versionId: string }
+    | { action: 'replace'; label: string; file: string; update: ModUpdate }
+    | { action: 'disable'; label: string; file: string };
+
+export interface ModIssue {
+    kind: ModIssueKind;
+    severity: 'error' | 'warning'; // errors stop the game from loading
+    file: string;
+    modId: string;
+    modName: string;
+    message: string;
+    dependencyId?: string;
+    versionRange?: string;
+    otherFiles?: string[];
+    fix?: ModFix;
+}
+
+export interface ModCheckResult {
+    success: boolean;
+    target?: { gameVersion: string; loader: string };
+    issues?: ModIssue[];
+    error?: string;
+}
+
+export const ModsApi = {
+    list: async (instanceId: string): Promise<InstalledMod[]> => {
+        return window.ipcRenderer.invoke('mods:list', instanceId);
+    },
+
+    // Dependencies, duplicates, loader and game version, from the jars' own metadata
+    check: async (instanceId: string): Promise<ModCheckResult> => {
+        return window.ipcRenderer.invoke('instance:check-mods', instanceId);
+    },
+
+    fix: async (instanceId: string, fix: ModFix): Promise<{ success: boolean; error?: string }> => {
+        return window.ipcRenderer.invoke('instance:fix-mod-issue', instanceId, fix);
+    }
+};
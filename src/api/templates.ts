@@ -0,0 +1,38 @@
+import { Instance } from './instances';
+
+export interface TemplateSummary {
+    id: string;
+    name: string;
+    description?: string;
+    created: number;
+    version: string;
+    loader: Instance['loader'];
+    loaderVersion?: string;
+    modCount: number;
+}
+
+export const TemplateApi = {
+    list: async (): Promise<TemplateSummary[]> => {
+        return window.ipcRenderer.invoke('template:list');
+    },
+
+    saveFromInstance: async (instanceId: string, name: string, description?: string): Promise<{ success: boolean; template?: TemplateSummary; skippedMods?: string[]; error?: string }> => {
+        return window.ipcRenderer.invoke('template:save', instanceId, name, description);
+    },
+
+    delete: async (templateId: string): Promise<{ success: boolean; error?: string }> => {
+        return window.ipcRenderer.invoke('template:delete', templateId);
+    },
+
+    export: async (templateId: string): Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }> => {
+        return window.ipcRenderer.invoke('template:export', templateId);
+    },
+
+    import: async (): Promise<{ success: boolean; canceled?: boolean; template?: TemplateSummary; error?: string }> => {
+        return window.ipcRenderer.invoke('template:import');
+    },
+
+    createInstance: async (templateId: string, name: string): Promise<{ success: boolean; instance?: Instance; failedMods?: string[]; overridesError?: string; error?: string }> => {
+        return window.ipcRenderer.invoke('template:create-instance', templateId, name);
+    }
+};
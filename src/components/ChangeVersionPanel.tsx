@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import styles from './ChangeVersionPanel.module.css';
+import { Instance, InstanceApi, ModAction, ModCompatibility, VersionChangeResult } from '../api/instances';
+import { VersionsApi, MinecraftVersion } from '../api/versions';
+import { CustomSelect } from './common/CustomSelect';
+import { useToast } from '../context/ToastContext';
+
+interface ChangeVersionPanelProps {
+    instance: Instance;
+    onCancel: () => void;
+    onChanged: () => void;
+}
+
+type LoaderType = Instance['loader'];
+type Step = 'select' | 'review' | 'applying' | 'done';
+
+const LOADER_OPTIONS = [
+    { value: 'vanilla', label: 'Vanilla' },
+    { value: 'fabric', label: 'Fabric' },
+    { value: 'forge', label: 'Forge' },
+    { value: 'neoforge', label: 'NeoForge' },
+    { value: 'quilt', label: 'Quilt' }
+];
+
+const STATUS_LABELS: Record<ModCompatibility['status'], string> = {
+    compatible: 'Compatible',
+    update: 'Update available',
+    incompatible: 'Incompatible',
+    unknown: 'Not on Modrinth'
+};
+
+// Update when we can, disable what won't load, leave the rest alone
+const defaultAction = (mod: ModCompatibility): ModAction =>
+    mod.status === 'update' ? 'update' : mod.status === 'incompatible' ? 'disable' : 'keep';
+
+export const ChangeVersionPanel: React.FC<ChangeVersionPanelProps> = ({ instance, onCancel, onChanged }) => {
+    const { showToast } = useToast();
+    const [step, setStep] = useState<Step>('select');
+
+    const [versions, setVersions] = useState<MinecraftVersion[]>([]);
+    const [showSnapshots, setShowSnapshots] = useState(false);
+    const [version, setVersion] = useState(instance.version);
+    const [loader, setLoader] = useState<LoaderType>(instance.loader);
+    const [loaderVersions, setLoaderVersions] = useState<string[]>([]);
+    const [loaderVersion, setLoaderVersion] = useState('');
+    const [loadingLoaders, setLoadingLoaders] = useState(false);
+    const [checking, setChecking] = useState(false);
+
+    const [mods, setMods] = useState<ModCompatibility[]>([]);
+    const [actions, setActions] = useState<Record<string, ModAction>>({});
+    const [status, setStatus] = useState('');
+    const [result, setResult] = useState<VersionChangeResult | null>(null);
+
+    useEffect(() => {
+        VersionsApi.getVanilla()
+            .then(data => setVersions(data.versions))
+            .catch(e => console.error('[ChangeVersion] Failed to load versions', e));
+    }, []);
+
+    useEffect(() => {
+        if (loader === 'vanilla' || !version) {
+            setLoaderVersions([]);
+            setLoaderVersion('');
+            return;
+        }
+
+        let cancelled = false;
+        const load = async () => {
+            setLoadingLoaders(true);
+            try {
+                let ids: string[] = [];
+                if (loader === 'fabric' || loader === 'quilt') {
+                    const loaders = loader === 'fabric'
+                        ? await InstanceApi.getFabricLoaders(version)
+                        : await InstanceApi.getQuiltLoaders(version);
+                    const stable = loaders.find(l => l.stable);
+                    ids = loaders.map(l => l.id);
+                    if (stable) ids = [stable.id, ...ids.filter(id => id !== stable.id)];
+                } else if (loader === 'forge') {
+                    ids = await InstanceApi.getForgeLoaders(version);
+                } else if (loader === 'neoforge') {
+                    ids = await InstanceApi.getNeoForgeLoaders(version);
+                }
+                if (!cancelled) {
+                    setLoaderVersions(ids);
+                    setLoaderVersion(ids[0] || '');
+                }
+            } catch (e) {
+                console.error('[ChangeVersion] Failed to load loader versions', e);
+                if (!cancelled) setLoaderVersions([]);
+            } finally {
+                if (!cancelled) setLoadingLoaders(false);
+            }
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [loader, version]);
+
+    useEffect(() => {
+        const onProgress = (_: any, data: { status: string }) => setStatus(data.status);
+        window.ipcRenderer.on('instance:change-version-progress', onProgress);
+        return () => {
+            window.ipcRenderer.off('instance:change-version-progress', onProgress);
+        };
+    }, []);
+
+    const unchanged = version === instance.version && loader === instance.loader;
+    const needsLoaderVersion = loader !== 'vanilla';
+    const canContinue = !!version && !unchanged && !checking && !loadingLoaders && (!needsLoaderVersion || !!loaderVersion);
+
+    const handleCheck = async () => {
+        setChecking(true);
+        try {
+            const res = await InstanceApi.checkVersionChange(instance.id, version, loader);
+            if (!res.success) {
+                showToast(`Could not check mods: ${res.error}`, 'error');
+                return;
+            }
+            const found = res.mods || [];
+            setMods(found);
+            setActions(Object.fromEntries(found.map(m => [m.file, defaultAction(m)])));
+            setStep('review');
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    const handleApply = async () => {
+        setStep('applying');
+        setStatus('Starting...');
+
+        const updates = Object.fromEntries(
+            mods.filter(m => m.update && actions[m.file] === 'update').map(m => [m.file, m.update!])
+        );
+
+        const res = await InstanceApi.changeVersion(instance.id, {
+            version,
+            loader,
+            loaderVersion: loaderVersion || undefined,
+            modActions: actions,
+            updates
+        });
+        setResult(res);
+
+        if (res.success) {
+            const failed = res.mods?.filter(m => !m.success).length || 0;
+            showToast(failed ? `Switched, but ${failed} mod(s) could not be changed` : `Switched to ${loader} ${version}`, failed ? 'warning' : 'success');
+            setStep('done');
+            onChanged();
+        } else {
+            showToast(`Version change failed: ${res.error}`, 'error');
+            setStep('review');
+        }
+    };
+
+    const versionOptions = versions
+        .filter(v => showSnapshots || v.type === 'release')
+        .map(v => ({ value: v.id, label: `${v.type === 'release' ? '' : `[${v.type}] `}${v.id}` }));
+
+    if (step === 'applying') {
+        return (
+            <div className={styles.panel}>
+                <label>Changing version</label>
+                <div className={styles.status}>{status}</div>
+            </div>
+        );
+    }
+
+    if (step === 'done' && result) {
+        const failures = result.mods?.filter(m => !m.success) || [];
+        return (
+            <div className={styles.panel}>
+                <label>Now on {loader} {version}</label>
+                {failures.length > 0 ? (
+                    <div className={styles.modList}>
+                        {failures.map(m => (
+                            <div key={m.file} className={styles.modRow}>
+                                <span className={styles.modName} title={m.file}>{m.file}</span>
+                                <span className={`${styles.modStatus} ${styles.incompatible}`} title={m.error}>{m.action} failed</span>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <div className={styles.status}>All mods were handled. A snapshot of the previous state is in Backups.</div>
+                )}
+                <div className={styles.actions}>
+                    <button className={styles.confirmBtn} onClick={onCancel}>Done</button>
+                </div>
+            </div>
+        );
+    }
+
+    if (step === 'review') {
+        return (
+            <div className={styles.panel}>
+                <label>
+                    {instance.loader} {instance.version} <ArrowRight size={12} /> {loader} {version}
+                </label>
+                <div className={styles.modList}>
+                    {mods.length === 0 && <div className={styles.status}>No mods installed.</div>}
+                    {mods.map(mod => (
+                        <div key={mod.file} className={styles.modRow}>
+                            <div className={styles.modInfo}>
+                                <span className={styles.modName} title={mod.file}>{mod.title || mod.file}</span>
+                                <span className={`${styles.modStatus} ${styles[mod.status]}`}>
+                                    {STATUS_LABELS[mod.status]}
+                                    {mod.update && ` (${mod.update.versionNumber})`}
+                                </span>
+                            </div>
+                            <select
+                                className={styles.actionSelect}
+                                value={actions[mod.file]}
+                                onChange={e => setActions(prev => ({ ...prev, [mod.file]: e.target.value as ModAction }))}
+                            >
+                                {mod.update && <option value="update">Update</option>}
+                                <option value="keep">Keep</option>
+                                <option value="disable">Disable</option>
+                            </select>
+                        </div>
+                    ))}
+                </div>
+                <div className={styles.actions}>
+                    <button className={styles.cancelBtn} onClick={() => setStep('select')}>Back</button>
+                    <button className={styles.confirmBtn} onClick={handleApply}>Switch Version</button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className={styles.panel}>
+            <label>Change Version</label>
+            <div className={styles.field}>
+                <span>Mod Loader</span>
+                <CustomSelect value={loader} onChange={v => setLoader(v as LoaderType)} options={LOADER_OPTIONS} searchable={false} />
+            </div>
+            <div className={styles.field}>
+                <span>Game Version</span>
+                <CustomSelect value={version} onChange={setVersion} options={versionOptions} placeholder="Select a version" />
+                <label className={styles.checkbox}>
+                    <input type="checkbox" checked={showSnapshots} onChange={e => setShowSnapshots(e.target.checked)} />
+                    Show snapshots and old versions
+                </label>
+            </div>
+            {needsLoaderVersion && (
+                <div className={styles.field}>
+                    <span>Loader Version</span>
+                    {loadingLoaders ? (
+                        <div className={styles.status}>Fetching loaders...</div>
+                    ) : loaderVersions.length === 0 ? (
+                        <div className={styles.status}>No {loader} builds for {version}.</div>
+                    ) : (
+                        <CustomSelect
+                            value={loaderVersion}
+                            onChange={setLoaderVersion}
+                            options={loaderVersions.map(id => ({ value: id, label: id }))}
+                        />
+                    )}
+                </div>
+            )}
+            <div className={styles.actions}>
+                <button className={styles.cancelBtn} onClick={onCancel}>Cancel</button>
+                <button className={styles.confirmBtn} onClick={handleCheck} disabled={!canContinue}>
+                    {checking ? 'Checking mods...' : 'Check Mods'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -1,22 +1,62 @@
 import React, { useState } from 'react';
 import styles from './CrashReportModal.module.css';
-import { X, Terminal, CheckCircle, Bug } from 'lucide-react';
+import { X, Terminal, CheckCircle, Bug, Package, RotateCcw } from 'lucide-react';
 
-interface CrashReport {
+export type CrashSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface CrashMatch {
+    ruleId: string;
+    cause: string;
+    details: string;
+    suggestion: string;
+    severity: CrashSeverity;
+    hits: number;
+    sources: string[];
+    modFile?: string;
+}
+
+export interface CrashSuspect {
+    file: string;
+    modId?: string;
+    score: number;
+    evidence: string[];
+}
+
+export interface CrashReport {
     cause: string;
     details: string;
     suggestion: string;
     isDetected: boolean;
+    // Reports from before the rule engine only carry the fields above
+    matches?: CrashMatch[];
+    suspects?: CrashSuspect[];
+    sources?: string[];
 }
 
 interface CrashReportModalProps {
     report: CrashReport;
     log: string;
     onClose: () => void;
+    // Disables the mod's jar and launches the instance again
+    onDisableMod?: (file: string) => Promise<void>;
 }
 
-export const CrashReportModal: React.FC<CrashReportModalProps> = ({ report, log, onClose }) => {
+export const CrashReportModal: React.FC<CrashReportModalProps> = ({ report, log, onClose, onDisableMod }) => {
     const [showLog, setShowLog] = useState(false);
+    const [disabling, setDisabling] = useState<string | null>(null);
+
+    const otherMatches = (report.matches ?? []).slice(1);
+    const suspects = report.suspects ?? [];
+
+    const handleDisable = async (file: string) => {
+        if (!onDisableMod) return;
+        setDisabling(file);
+        try {
+            await onDisableMod(file);
+        } finally {
+            setDisabling(null);
+        }
+    };
 
     return (
         <div className={styles.overlay}>
@@ -53,6 +93,53 @@ export const CrashReportModal: React.FC<CrashReportModalProps> = ({ report, log,
                         </div>
                     </div>
 
+                    {suspects.length > 0 && (
+                        <div className={styles.suspectSection}>
+                            <div className={styles.sectionTitle}>
+                                <Package size={16} color="#f59e0b" />
+                                {suspects.length === 1 ? 'Suspected Mod' : 'Suspected Mods'}
+                            </div>
+                            {suspects.map(suspect => (
+                                <div key={suspect.file} className={styles.suspect}>
+                                    <div className={styles.suspectInfo}>
+                                        <div className={styles.suspectName}>
+                                            {suspect.modId ?? suspect.file}
+                                            {suspect.modId && <span className={styles.suspectFile}>{suspect.file}</span>}
+                                        </div>
+                                        <div className={styles.suspectEvidence}>{suspect.evidence.join(' · ')}</div>
+                                    </div>
+                                    {onDisableMod && (
+                                        <button
+                                            className={styles.disableBtn}
+                                            onClick={() => handleDisable(suspect.file)}
+                                            disabled={disabling !== null}
+                                            title="Disable this mod and launch again"
+                                        >
+                                            <RotateCcw size={14} />
+                                            {disabling === suspect.file ? 'Relaunching...' : 'Disable & Relaunch'}
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {otherMatches.length > 0 && (
+                        <div className={styles.matchSection}>
+                            <div className={styles.sectionTitle}>Also Detected</div>
+                            {otherMatches.map(match => (
+                                <div key={match.ruleId} className={styles.match}>
+                                    <span className={`${styles.severity} ${styles[match.severity]}`}>{match.severity}</span>
+                                    <div>
+                                        <div className={styles.matchCause}>{match.cause}</div>
+                                        {match.details && <div className={styles.matchDetails}>{match.details}</div>}
+                                        <div className={styles.matchSuggestion}>{match.suggestion}</div>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     <div className={styles.logSection}>
                         <button
                             className={styles.logToggle}
@@ -67,6 +154,10 @@ export const CrashReportModal: React.FC<CrashReportModalProps> = ({ report, log,
                                 {log}
                             </div>
                         )}
+
+                        {report.sources && report.sources.length > 1 && (
+                            <div className={styles.sources}>Analyzed: {report.sources.join(', ')}</div>
+                        )}
                     </div>
                 </div>
 
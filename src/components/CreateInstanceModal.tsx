@@ -1,9 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { InstanceApi } from '../api/instances';
+import { TemplateApi, TemplateSummary } from '../api/templates';
 import { VersionsApi, MinecraftVersion } from '../api/versions';
 import styles from './CreateInstanceModal.module.css';
 import { CustomSelect } from './common/CustomSelect';
-import { X, ChevronRight, ChevronLeft, Search, Download, Check, WifiOff, Package, Sparkles, Loader2, CheckCircle } from 'lucide-react';
+import { X, ChevronRight, ChevronLeft, Search, Download, Check, WifiOff, Package, Sparkles, Loader2, CheckCircle, Upload, Trash2 } from 'lucide-react';
+import { useConfirm } from '../context/ConfirmContext';
+import { useToast } from '../context/ToastContext';
 
 interface CreateInstanceModalProps {
     onClose: () => void;
@@ -11,7 +14,7 @@ interface CreateInstanceModalProps {
 }
 
 type LoaderType = 'vanilla' | 'fabric' | 'forge' | 'neoforge' | 'quilt';
-type VersionFilter = 'release' | 'snapshot' | 'all';
+type VersionFilter = 'release' | 'snapshot' | 'old_beta' | 'old_alpha' | 'all';
 
 interface PresetMod {
     project_id: string;
@@ -24,9 +27,17 @@ interface PresetMod {
 }
 
 export const CreateInstanceModal: React.FC<CreateInstanceModalProps> = ({ onClose, onCreated }) => {
+    const confirm = useConfirm();
+    const { showToast } = useToast();
+
     // Step state
     const [step, setStep] = useState(1);
 
+    // Templates
+    const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+    const [templateId, setTemplateId] = useState('');
+    const template = templates.find(t => t.id === templateId);
+
     // Step 1: Config
     const [name, setName] = useState('');
     const [version, setVersion] = useState('');
@@ -63,6 +74,18 @@ export const CreateInstanceModal: React.FC<CreateInstanceModalProps> = ({ onClos
         };
     }, []);
 
+    const loadTemplates = useCallback(async () => {
+        try {
+            setTemplates(await TemplateApi.list());
+        } catch (e) {
+            console.error("[CreateInstance] Failed to load templates:", e);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadTemplates();
+    }, [loadTemplates]);
+
     // Load versions
     useEffect(() => {
         const loadVersions = async () => {
@@ -191,8 +214,31 @@ export const CreateInstanceModal: React.FC<CreateInstanceModalProps> = ({ onClos
         setCreateProgress('Creating instance...');
         setError(null);
 
+        // Forge/NeoForge run their installer during creation and report progress
+        const handleInstallProgress = (_event: any, data: { status: string }) => setCreateProgress(data.status);
+        window.ipcRenderer.on('instance:install-progress', handleInstallProgress);
+
         try {
+            if (template) {
+                const result = await TemplateApi.createInstance(template.id, name);
+                if (!result.success) {
+                    setError(result.error || "Failed to create instance.");
+                    return;
+                }
+                if (result.failedMods && result.failedMods.length > 0) {
+                    showToast(`Created, but ${result.failedMods.length} mod(s) could not be installed: ${result.failedMods.join(', ')}`, 'warning');
+                }
+                if (result.overridesError) {
+                    showToast(`Created, but the template's launch settings were not applied: ${result.overridesError}`, 'warning');
+                }
+                setCreateProgress('Done!');
+                onCreated();
+                onClose();
+                return;
+            }
+
             const result = await InstanceApi.create(name, version, loader, selectedLoaderVersion);
+            window.ipcRenderer.off('instance:install-progress', handleInstallProgress);
             if (!result.success) {
                 setError(result.error || "Failed to create instance.");
                 setCreating(false);
@@ -236,12 +282,42 @@ export const CreateInstanceModal: React.FC<CreateInstanceModalProps> = ({ onClos
         } catch (e) {
             setError("An unexpected error occurred.");
         } finally {
+            window.ipcRenderer.off('instance:install-progress', handleInstallProgress);
             setCreating(false);
         }
     };
 
     const canProceedStep1 = name.trim() && version && !fetchingVersions;
-    const showModStep = loader !== 'vanilla';
+    // A template brings its own mods
+    const showModStep = loader !== 'vanilla' && !template;
+
+    const handleImportTemplate = async () => {
+        const result = await TemplateApi.import();
+        if (result.success && result.template) {
+            await loadTemplates();
+            setTemplateId(result.template.id);
+        } else if (!result.canceled) {
+            setError(result.error || "Failed to import template.");
+        }
+    };
+
+    const handleExportTemplate = async () => {
+        if (!template) return;
+        const result = await TemplateApi.export(template.id);
+        if (!result.success && !result.canceled) {
+            setError(result.error || "Failed to export template.");
+        }
+    };
+
+    const handleDeleteTemplate = async () => {
+        if (!template) return;
+        const ok = await confirm('Delete Template?', `"${template.name}" will be removed. Instances created from it are not affected.`, { confirmLabel: 'Delete', isDanger: true });
+        if (!ok) return;
+
+        await TemplateApi.delete(template.id);
+        setTemplateId('');
+        await loadTemplates();
+    };
 
     const handleNext = () => {
         if (step === 1) {
@@ -261,17 +337,24 @@ export const CreateInstanceModal: React.FC<CreateInstanceModalProps> = ({ onClos
         }
     };
 
-    const filteredVersions = versions.filter(v => {
-        if (versionFilter === 'release') return v.type === 'release';
-        if (versionFilter === 'snapshot') return v.type === 'snapshot';
-        return true;
-    });
+    const filteredVersions = versionFilter === 'all'
+        ? versions
+        : versions.filter(v => v.type === versionFilter);
 
-    const versionOptions = filteredVersions.slice(0, 50).map(v => ({
+    // The select is searchable, so every version in the channel is listed
+    const versionOptions = filteredVersions.map(v => ({
         value: v.id,
         label: `${v.type === 'release' ? '' : `[${v.type}] `}${v.id}`
     }));
 
+    const handleFilterChange = (filter: VersionFilter) => {
+        setVersionFilter(filter);
+        const inChannel = filter === 'all' ? versions : versions.filter(v => v.type === filter);
+        if (!inChannel.some(v => v.id === version)) {
+            setVersion(inChannel[0]?.id || '');
+        }
+    };
+
     const loaderOptions = [
         { value: 'vanilla', label: 'Vanilla' },
         { value: 'fabric', label: 'Fabric' },
@@ -283,6 +366,8 @@ export const CreateInstanceModal: React.FC<CreateInstanceModalProps> = ({ onClos
     const filterOptions = [
         { value: 'release', label: 'Releases' },
         { value: 'snapshot', label: 'Snapshots' },
+        { value: 'old_beta', label: 'Beta' },
+        { value: 'old_alpha', label: 'Alpha' },
         { value: 'all', label: 'All Versions' }
     ];
 
@@ -342,77 +427,112 @@ export const CreateInstanceModal: React.FC<CreateInstanceModalProps> = ({ onClos
                                 />
                             </div>
 
-                            <div className={styles.formRow}>
-                                <div className={styles.formGroup}>
-                                    <label>Mod Loader</label>
-                                    <CustomSelect
-                                        value={loader}
-                                        onChange={(v) => setLoader(v as LoaderType)}
-                                        options={loaderOptions}
-                                        placeholder="Select loader"
-                                    />
-                                </div>
-                                <div className={styles.formGroup}>
-                                    <label>Version Filter</label>
+                            <div className={styles.formGroup}>
+                                <label>Template</label>
+                                <div className={styles.templateRow}>
                                     <CustomSelect
-                                        value={versionFilter}
-                                        onChange={(v) => setVersionFilter(v as VersionFilter)}
-                                        options={filterOptions}
-                                        placeholder="Filter"
+                                        value={templateId}
+                                        onChange={setTemplateId}
+                                        options={[
+                                            { value: '', label: 'None (start from scratch)' },
+                                            ...templates.map(t => ({ value: t.id, label: t.name }))
+                                        ]}
+                                        searchable={false}
                                     />
+                                    <button className={styles.templateBtn} onClick={handleImportTemplate} title="Import template">
+                                        <Upload size={16} />
+                                    </button>
+                                    <button className={styles.templateBtn} onClick={handleExportTemplate} disabled={!template} title="Export template">
+                                        <Download size={16} />
+                                    </button>
+                                    <button className={styles.templateBtn} onClick={handleDeleteTemplate} disabled={!template} title="Delete template">
+                                        <Trash2 size={16} />
+                                    </button>
                                 </div>
                             </div>
 
-                            <div className={styles.formGroup}>
-                                <label>Game Version</label>
-                                {fetchingVersions ? (
-                                    <div className={styles.loadingVersions}>Loading versions...</div>
-                                ) : (
-                                    <CustomSelect
-                                        value={version}
-                                        onChange={setVersion}
-                                        options={versionOptions}
-                                        placeholder="Select a version"
-                                    />
-                                )}
-                            </div>
+                            {template ? (
+                                <div className={styles.templateInfo}>
+                                    <strong>{template.loader} {template.version}</strong>
+                                    {template.loaderVersion && ` (${template.loaderVersion})`}
+                                    {' · '}{template.modCount} mods
+                                    {template.description && <div>{template.description}</div>}
+                                </div>
+                            ) : (
+                                <>
+                                    <div className={styles.formRow}>
+                                        <div className={styles.formGroup}>
+                                            <label>Mod Loader</label>
+                                            <CustomSelect
+                                                value={loader}
+                                                onChange={(v) => setLoader(v as LoaderType)}
+                                                options={loaderOptions}
+                                                placeholder="Select loader"
+                                            />
+                                        </div>
+                                        <div className={styles.formGroup}>
+                                            <label>Version Filter</label>
+                                            <CustomSelect
+                                                value={versionFilter}
+                                                onChange={(v) => handleFilterChange(v as VersionFilter)}
+                                                options={filterOptions}
+                                                placeholder="Filter"
+                                            />
+                                        </div>
+                                    </div>
+
+                                    <div className={styles.formGroup}>
+                                        <label>Game Version</label>
+                                        {fetchingVersions ? (
+                                            <div className={styles.loadingVersions}>Loading versions...</div>
+                                        ) : (
+                                            <CustomSelect
+                                                value={version}
+                                                onChange={setVersion}
+                                                options={versionOptions}
+                                                placeholder="Select a version"
+                                            />
+                                        )}
+                                    </div>
 
-                            {(loader === 'fabric' || loader === 'quilt') && (
-                                <div className={styles.formGroup}>
-                                    <label>{loader.charAt(0).toUpperCase() + loader.slice(1)} Loader Version</label>
-                                    {loadingLoaders ? (
-                                        <div className={styles.loadingVersions}>Fetching loaders...</div>
-                                    ) : (
-                                        <CustomSelect
-                                            value={selectedLoaderVersion}
-                                            onChange={setSelectedLoaderVersion}
-                                            options={fabricLoaders.map(l => ({
-                                                value: l.id,
-                                                label: `${l.id} ${l.stable ? '(Stable)' : ''}`
-                                            }))}
-                                            placeholder="Select loader version"
-                                        />
+                                    {(loader === 'fabric' || loader === 'quilt') && (
+                                        <div className={styles.formGroup}>
+                                            <label>{loader.charAt(0).toUpperCase() + loader.slice(1)} Loader Version</label>
+                                            {loadingLoaders ? (
+                                                <div className={styles.loadingVersions}>Fetching loaders...</div>
+                                            ) : (
+                                                <CustomSelect
+                                                    value={selectedLoaderVersion}
+                                                    onChange={setSelectedLoaderVersion}
+                                                    options={fabricLoaders.map(l => ({
+                                                        value: l.id,
+                                                        label: `${l.id} ${l.stable ? '(Stable)' : ''}`
+                                                    }))}
+                                                    placeholder="Select loader version"
+                                                />
+                                            )}
+                                        </div>
                                     )}
-                                </div>
-                            )}
 
-                            {(loader === 'forge' || loader === 'neoforge') && (
-                                <div className={styles.formGroup}>
-                                    <label>{loader.charAt(0).toUpperCase() + loader.slice(1)} Version</label>
-                                    {loadingLoaders ? (
-                                        <div className={styles.loadingVersions}>Fetching loaders...</div>
-                                    ) : (
-                                        <CustomSelect
-                                            value={selectedLoaderVersion}
-                                            onChange={setSelectedLoaderVersion}
-                                            options={extraLoaders.map(l => ({
-                                                value: l,
-                                                label: l
-                                            }))}
-                                            placeholder={`Select ${loader} version`}
-                                        />
+                                    {(loader === 'forge' || loader === 'neoforge') && (
+                                        <div className={styles.formGroup}>
+                                            <label>{loader.charAt(0).toUpperCase() + loader.slice(1)} Version</label>
+                                            {loadingLoaders ? (
+                                                <div className={styles.loadingVersions}>Fetching loaders...</div>
+                                            ) : (
+                                                <CustomSelect
+                                                    value={selectedLoaderVersion}
+                                                    onChange={setSelectedLoaderVersion}
+                                                    options={extraLoaders.map(l => ({
+                                                        value: l,
+                                                        label: l
+                                                    }))}
+                                                    placeholder={`Select ${loader} version`}
+                                                />
+                                            )}
+                                        </div>
                                     )}
-                                </div>
+                                </>
                             )}
                         </div>
                     )}
@@ -442,7 +562,7 @@ export const CreateInstanceModal: React.FC<CreateInstanceModalProps> = ({ onClos
                                                 autoFocus
                                             />
                                         </div>
-                                        {selectedMods.length > 0 && (
+                                        {!template && selectedMods.length > 0 && (
                                             <div className={styles.selectedCount}>
                                                 <CheckCircle size={14} />
                                                 {selectedMods.length} selected
@@ -508,12 +628,22 @@ export const CreateInstanceModal: React.FC<CreateInstanceModalProps> = ({ onClos
                                     </div>
                                     <div className={styles.reviewItem}>
                                         <span className={styles.reviewLabel}>Version</span>
-                                        <span className={styles.reviewValue}>{version}</span>
+                                        <span className={styles.reviewValue}>{template ? template.version : version}</span>
                                     </div>
                                     <div className={styles.reviewItem}>
                                         <span className={styles.reviewLabel}>Loader</span>
-                                        <span className={styles.reviewValue}>{loader}{selectedLoaderVersion ? ` (${selectedLoaderVersion})` : ''}</span>
+                                        <span className={styles.reviewValue}>
+                                            {template
+                                                ? `${template.loader}${template.loaderVersion ? ` (${template.loaderVersion})` : ''}`
+                                                : `${loader}${selectedLoaderVersion ? ` (${selectedLoaderVersion})` : ''}`}
+                                        </span>
                                     </div>
+                                    {template && (
+                                        <div className={styles.reviewItem}>
+                                            <span className={styles.reviewLabel}>Template</span>
+                                            <span className={styles.reviewValue}>{template.name} ({template.modCount} mods)</span>
+                                        </div>
+                                    )}
                                 </div>
                             </div>
 
@@ -578,7 +708,7 @@ export const CreateInstanceModal: React.FC<CreateInstanceModalProps> = ({ onClos
                         <button
                             className={styles.createBtn}
                             onClick={handleCreate}
-                            disabled={creating || !name || !version}
+                            disabled={creating || !name || (!version && !template)}
                         >
                             {creating ? (
                                 <><Loader2 size={16} className={styles.spinner} /> Creating...</>
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import styles from './DeletedInstancesModal.module.css';
+import { X, Trash2, RotateCcw } from 'lucide-react';
+import { DeletedInstance, InstanceApi } from '../api/instances';
+import { useConfirm } from '../context/ConfirmContext';
+import { useToast } from '../context/ToastContext';
+
+interface DeletedInstancesModalProps {
+    onClose: () => void;
+    onRestored: () => void;
+}
+
+const formatSize = (bytes: number) => {
+    if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+    if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+const daysLeft = (expiresAt: number) => Math.max(0, Math.ceil((expiresAt - Date.now()) / (24 * 60 * 60 * 1000)));
+
+export const DeletedInstancesModal: React.FC<DeletedInstancesModalProps> = ({ onClose, onRestored }) => {
+    const [items, setItems] = useState<DeletedInstance[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const confirm = useConfirm();
+    const { showToast } = useToast();
+
+    const load = async () => {
+        setLoading(true);
+        setItems(await InstanceApi.listDeleted());
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        load();
+    }, []);
+
+    const handleRestore = async (item: DeletedInstance) => {
+        setBusyId(item.id);
+        try {
+            const result = await InstanceApi.restoreDeleted(item.id);
+            if (result.success) {
+                showToast(`"${item.name}" restored.`, 'success');
+                onRestored();
+                await load();
+            } else {
+                showToast(`Restore failed: ${result.error}`, 'error');
+            }
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handlePurge = async (item?: DeletedInstance) => {
+        const ok = await confirm(
+            item ? 'Delete Forever?' : 'Empty Trash?',
+            item
+                ? `"${item.name}" and its files will be permanently deleted.`
+                : `All ${items.length} deleted instances and their files will be permanently deleted.`,
+            { confirmLabel: 'Delete Forever', isDanger: true }
+        );
+        if (!ok) return;
+
+        setBusyId(item?.id ?? 'all');
+        try {
+            const result = await InstanceApi.purgeDeleted(item?.id);
+            if (!result.success) showToast(`Failed to delete: ${result.error}`, 'error');
+            await load();
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className={styles.overlay} onClick={onClose}>
+            <div className={styles.modal} onClick={e => e.stopPropagation()}>
+                <div className={styles.header}>
+                    <div className={styles.iconWrapper}>
+                        <Trash2 size={22} color="#a1a1aa" />
+                    </div>
+                    <div>
+                        <h2 className={styles.title}>Recently Deleted</h2>
+                        <div className={styles.subtitle}>Deleted instances are kept here until they expire.</div>
+                    </div>
+                    <button className={styles.closeBtn} onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className={styles.content}>
+                    {loading ? (
+                        <div className={styles.empty}>Loading...</div>
+                    ) : items.length === 0 ? (
+                        <div className={styles.empty}>The trash is empty.</div>
+                    ) : (
+                        items.map(item => (
+                            <div key={item.id} className={styles.item}>
+                                <div className={styles.info}>
+                                    <span className={styles.name}>
+                                        {item.name}
+                                        {item.mode === 'remove' && <span className={styles.modeTag}>Entry only</span>}
+                                    </span>
+                                    <span className={styles.meta}>
+                                        Deleted {new Date(item.deletedAt).toLocaleDateString()} · {formatSize(item.totalSize)} · {daysLeft(item.expiresAt)} days left
+                                    </span>
+                                    <span className={styles.paths} title={item.paths.join('\n')}>{item.paths.join(', ')}</span>
+                                </div>
+                                <button
+                                    className={styles.actionBtn}
+                                    onClick={() => handleRestore(item)}
+                                    disabled={busyId !== null}
+                                    title="Restore"
+                                >
+                                    <RotateCcw size={16} />
+                                </button>
+                                <button
+                                    className={`${styles.actionBtn} ${styles.danger}`}
+                                    onClick={() => handlePurge(item)}
+                                    disabled={busyId !== null}
+                                    title="Delete Forever"
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        ))
+                    )}
+                </div>
+
+                <div className={styles.footer}>
+                    {items.length > 0 && (
+                        <button className={styles.emptyBtn} onClick={() => handlePurge()} disabled={busyId !== null}>
+                            Empty Trash
+                        </button>
+                    )}
+                    <button className={styles.primaryBtn} onClick={onClose}>
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
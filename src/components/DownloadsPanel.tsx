@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Pause, Play, X } from 'lucide-react';
+import styles from './DownloadsPanel.module.css';
+import { DownloadApi, DownloadJobInfo, DownloadSnapshot } from '../api/downloads';
+
+const ACTIVE_STATUSES = ['queued', 'running', 'paused'];
+
+const formatSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatEta = (seconds: number | null) => {
+    if (seconds === null) return '';
+    if (seconds < 60) return `${seconds}s left`;
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s left`;
+};
+
+const isActive = (job: DownloadJobInfo) => ACTIVE_STATUSES.includes(job.status);
+
+export const DownloadsPanel: React.FC = () => {
+    const [snapshot, setSnapshot] = useState<DownloadSnapshot | null>(null);
+    const [open, setOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        DownloadApi.list().then(setSnapshot);
+        return DownloadApi.onUpdate(setSnapshot);
+    }, []);
+
+    // Refresh when opened; updates stop being pushed once everything finishes
+    useEffect(() => {
+        if (open) DownloadApi.list().then(setSnapshot);
+    }, [open]);
+
+    useEffect(() => {
+        if (!open) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [open]);
+
+    const refresh = () => DownloadApi.list().then(setSnapshot);
+
+    const handlePause = (job: DownloadJobInfo) => {
+        const action = job.status === 'paused' ? DownloadApi.resume : DownloadApi.pause;
+        action(job.id).then(refresh);
+    };
+
+    const handleCancel = (job: DownloadJobInfo) => {
+        DownloadApi.cancel(job.id).then(refresh);
+    };
+
+    const jobs = [...(snapshot?.jobs || [])].reverse();
+    const activeCount = jobs.filter(isActive).length;
+
+    return (
+        <div className={styles.container} ref={containerRef}>
+            <button
+                className={`${styles.toggle} ${activeCount > 0 ? styles.toggleActive : ''}`}
+                onClick={() => setOpen(!open)}
+                title="Downloads"
+            >
+                <Download size={14} />
+                {activeCount > 0 && <span className={styles.badge}>{activeCount}</span>}
+            </button>
+
+            {open && (
+                <div className={styles.panel}>
+                    <div className={styles.header}>
+                        <span>Downloads</span>
+                        {snapshot && activeCount > 0 && (
+                            <span className={styles.headerMeta}>
+                                {formatSize(snapshot.speed)}/s {formatEta(snapshot.eta)}
+                            </span>
+                        )}
+                    </div>
+
+                    {jobs.length === 0 ? (
+                        <div className={styles.empty}>No downloads yet</div>
+                    ) : (
+                        <div className={styles.list}>
+                            {jobs.map(job => {
+                                const percent = job.totalBytes > 0
+                                    ? Math.min(100, (job.downloadedBytes / job.totalBytes) * 100)
+                                    : job.totalFiles > 0 ? (job.completedFiles / job.totalFiles) * 100 : 100;
+
+                                return (
+                                    <div key={job.id} className={styles.job}>
+                                        <div className={styles.jobTop}>
+                                            <span className={styles.jobLabel}>{job.label}</span>
+                                            {isActive(job) && (
+                                                <div className={styles.jobActions}>
+                                                    <button onClick={() => handlePause(job)} title={job.status === 'paused' ? 'Resume' : 'Pause'}>
+                                                        {job.status === 'paused' ? <Play size={12} /> : <Pause size={12} />}
+                                                    </button>
+                                                    <button onClick={() => handleCancel(job)} title="Cancel">
+                                                        <X size={12} />
+                                                    </button>
+                                                </div>
+                                            )}
+                                        </div>
+                                        <div className={styles.progressTrack}>
+                                            <div
+                                                className={`${styles.progressFill} ${styles[job.status]}`}
+                                                style={{ width: `${percent}%` }}
+                                            />
+                                        </div>
+                                        <div className={styles.jobMeta}>
+                                            <span>
+                                                {job.completedFiles}/{job.totalFiles} files
+                                                {job.failedFiles > 0 && ` • ${job.failedFiles} failed`}
+                                            </span>
+                                            <span>
+                                                {job.status === 'running'
+                                                    ? `${formatSize(job.speed)}/s ${formatEta(job.eta)}`
+                                                    : job.status.charAt(0).toUpperCase() + job.status.slice(1)}
+                                            </span>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
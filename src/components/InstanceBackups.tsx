@@ -0,0 +1,144 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Camera, RotateCcw, Trash2 } from 'lucide-react';
+import styles from './InstanceBackups.module.css';
+import { Instance, InstanceApi, SnapshotInfo, SnapshotReason } from '../api/instances';
+import { useConfirm } from '../context/ConfirmContext';
+import { useToast } from '../context/ToastContext';
+
+interface InstanceBackupsProps {
+    instance: Instance;
+    onRestored?: () => void;
+}
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+    'manual': 'Manual',
+    'mod-install': 'Before mod install',
+    'mod-delete': 'Before mod removal',
+    'loader-change': 'Before version change',
+    'restore': 'Before restore'
+};
+
+const formatSize = (bytes: number) => {
+    if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+    if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+export const InstanceBackups: React.FC<InstanceBackupsProps> = ({ instance, onRestored }) => {
+    const confirm = useConfirm();
+    const { showToast } = useToast();
+    const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [label, setLabel] = useState('');
+    // Id of the snapshot being worked on, or 'new' while taking one
+    const [busy, setBusy] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        try {
+            setSnapshots(await InstanceApi.listSnapshots(instance.id));
+        } finally {
+            setLoading(false);
+        }
+    }, [instance.id]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const handleSnapshot = async () => {
+        setBusy('new');
+        try {
+            const result = await InstanceApi.snapshot(instance.id, label.trim() || undefined);
+            if (result.success) {
+                setLabel('');
+                showToast('Snapshot created', 'success');
+            } else {
+                showToast(`Snapshot failed: ${result.error}`, 'error');
+            }
+            await load();
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleRestore = async (snapshot: SnapshotInfo) => {
+        const ok = await confirm(
+            'Restore Snapshot?',
+            `Mods, config, saves and options.txt will be put back to how they were on ${new Date(snapshot.created).toLocaleString()}. The current state is snapshotted first.`,
+            { confirmLabel: 'Restore' }
+        );
+        if (!ok) return;
+
+        setBusy(snapshot.id);
+        try {
+            const result = await InstanceApi.restoreSnapshot(instance.id, snapshot.id);
+            if (result.success) {
+                showToast(`Restored ${result.restored} files, removed ${result.removed}`, 'success');
+                onRestored?.();
+            } else {
+                showToast(`Restore failed: ${result.error}`, 'error');
+            }
+            await load();
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleDelete = async (snapshot: SnapshotInfo) => {
+        const ok = await confirm('Delete Snapshot?', 'This snapshot will be removed permanently.', { confirmLabel: 'Delete', isDanger: true });
+        if (!ok) return;
+
+        setBusy(snapshot.id);
+        try {
+            const result = await InstanceApi.deleteSnapshot(instance.id, snapshot.id);
+            if (!result.success) showToast(`Failed to delete snapshot: ${result.error}`, 'error');
+            await load();
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    if (loading) {
+        return <div className={styles.loading}>Loading...</div>;
+    }
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.createRow}>
+                <input
+                    type="text"
+                    value={label}
+                    onChange={e => setLabel(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && !busy && handleSnapshot()}
+                    placeholder="Label (optional)"
+                />
+                <button className={styles.createBtn} onClick={handleSnapshot} disabled={!!busy}>
+                    <Camera size={16} /> {busy === 'new' ? 'Saving...' : 'Snapshot'}
+                </button>
+            </div>
+
+            <div className={styles.list}>
+                {snapshots.length === 0 && (
+                    <div className={styles.empty}>No snapshots yet. They are also taken automatically before mod changes.</div>
+                )}
+                {snapshots.map(snapshot => (
+                    <div key={snapshot.id} className={styles.item}>
+                        <div className={styles.info}>
+                            <span className={styles.title}>{snapshot.label || REASON_LABELS[snapshot.reason]}</span>
+                            <span className={styles.meta}>
+                                {new Date(snapshot.created).toLocaleString()} · {snapshot.fileCount} files · {formatSize(snapshot.totalSize)}
+                                {snapshot.automatic && <span className={styles.auto}>auto</span>}
+                            </span>
+                        </div>
+                        <button className={styles.iconBtn} onClick={() => handleRestore(snapshot)} disabled={!!busy} title="Restore">
+                            <RotateCcw size={16} />
+                        </button>
+                        <button className={`${styles.iconBtn} ${styles.danger}`} onClick={() => handleDelete(snapshot)} disabled={!!busy} title="Delete">
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
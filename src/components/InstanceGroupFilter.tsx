@@ -0,0 +1,45 @@
+import React from 'react';
+import styles from './InstanceGroupFilter.module.css';
+import { Instance } from '../api/instances';
+import { UNGROUPED, useInstanceGroups } from '../context/InstanceGroupContext';
+
+interface InstanceGroupFilterProps {
+    instances: Instance[];
+    compact?: boolean;
+}
+
+/**
+ * Group chips for an instance list. Renders nothing until at least one instance has a group.
+ */
+export const InstanceGroupFilter: React.FC<InstanceGroupFilterProps> = ({ instances, compact }) => {
+    const { groupFilter, setGroupFilter } = useInstanceGroups();
+
+    const groups = [...new Set(instances.map(i => i.group).filter((g): g is string => !!g))]
+        .sort((a, b) => a.localeCompare(b));
+    if (groups.length === 0) return null;
+
+    const hasUngrouped = instances.some(i => !i.group);
+    // Mirrors filterByGroup: a stale filter shows everything
+    const active = (groupFilter === UNGROUPED && hasUngrouped) || (groupFilter && groups.includes(groupFilter)) ? groupFilter : null;
+
+    const chip = (value: string | null, label: string) => (
+        <button
+            key={value ?? 'all'}
+            className={`${styles.chip} ${active === value ? styles.active : ''}`}
+            onClick={(e) => {
+                e.stopPropagation();
+                setGroupFilter(value);
+            }}
+        >
+            {label}
+        </button>
+    );
+
+    return (
+        <div className={`${styles.bar} ${compact ? styles.compact : ''}`}>
+            {chip(null, 'All')}
+            {groups.map(group => chip(group, group))}
+            {hasUngrouped && chip(UNGROUPED, 'Ungrouped')}
+        </div>
+    );
+};
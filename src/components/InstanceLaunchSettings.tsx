@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { Save } from 'lucide-react';
+import styles from './InstanceLaunchSettings.module.css';
+import { Instance, InstanceApi, InstanceOverrides } from '../api/instances';
+import { CustomSelect } from './common/CustomSelect';
+import { useToast } from '../context/ToastContext';
+
+interface InstanceLaunchSettingsProps {
+    instance: Instance;
+    onSaved?: () => void;
+}
+
+const PRESET_OPTIONS = [
+    { value: '', label: 'Use global setting' },
+    { value: 'potato', label: 'Potato' },
+    { value: 'standard', label: 'Standard' },
+    { value: 'pro', label: 'Pro (Aikar)' },
+    { value: 'extreme', label: 'Extreme' },
+    { value: 'custom', label: 'Custom' }
+];
+
+// KEY=VALUE per line <-> object
+const parseEnv = (text: string): Record<string, string> => {
+    const env: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+        const idx = line.indexOf('=');
+        if (idx > 0) env[line.slice(0, idx).trim()] = line.slice(idx + 1).trim();
+    }
+    return env;
+};
+
+const formatEnv = (env?: Record<string, string>) =>
+    Object.entries(env || {}).map(([k, v]) => `${k}=${v}`).join('\n');
+
+const toNumber = (value: string): number | undefined => {
+    const n = parseInt(value);
+    return isNaN(n) || n <= 0 ? undefined : n;
+};
+
+export const InstanceLaunchSettings: React.FC<InstanceLaunchSettingsProps> = ({ instance, onSaved }) => {
+    const { showToast } = useToast();
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    // Text fields are kept as strings while editing; empty means "use global"
+    const [minRam, setMinRam] = useState('');
+    const [maxRam, setMaxRam] = useState('');
+    const [jvmPreset, setJvmPreset] = useState('');
+    const [jvmArgs, setJvmArgs] = useState('');
+    const [javaPath, setJavaPath] = useState('');
+    const [width, setWidth] = useState('');
+    const [height, setHeight] = useState('');
+    const [fullscreen, setFullscreen] = useState(false);
+    const [env, setEnv] = useState('');
+    const [wrapperCommand, setWrapperCommand] = useState('');
+    const [preLaunchCommand, setPreLaunchCommand] = useState('');
+    const [postExitCommand, setPostExitCommand] = useState('');
+
+    useEffect(() => {
+        InstanceApi.getOverrides(instance.id).then((o: InstanceOverrides) => {
+            setMinRam(o.minRam?.toString() || '');
+            setMaxRam(o.maxRam?.toString() || '');
+            setJvmPreset(o.jvmPreset || '');
+            setJvmArgs((o.jvmArgs || []).join('\n'));
+            setJavaPath(o.javaPath || '');
+            setWidth(o.resolution?.width.toString() || '');
+            setHeight(o.resolution?.height.toString() || '');
+            setFullscreen(!!o.fullscreen);
+            setEnv(formatEnv(o.env));
+            setWrapperCommand(o.wrapperCommand || '');
+            setPreLaunchCommand(o.preLaunchCommand || '');
+            setPostExitCommand(o.postExitCommand || '');
+        }).finally(() => setLoading(false));
+    }, [instance.id]);
+
+    const handleSave = async () => {
+        const w = toNumber(width);
+        const h = toNumber(height);
+
+        const overrides: InstanceOverrides = {
+            minRam: toNumber(minRam),
+            maxRam: toNumber(maxRam),
+            jvmPreset: (jvmPreset || undefined) as InstanceOverrides['jvmPreset'],
+            jvmArgs: jvmArgs.split('\n').map(a => a.trim()).filter(Boolean),
+            javaPath: javaPath.trim() || undefined,
+            resolution: w && h ? { width: w, height: h } : undefined,
+            fullscreen: fullscreen || undefined,
+            env: parseEnv(env),
+            wrapperCommand: wrapperCommand.trim() || undefined,
+            preLaunchCommand: preLaunchCommand.trim() || undefined,
+            postExitCommand: postExitCommand.trim() || undefined
+        };
+
+        setSaving(true);
+        try {
+            const result = await InstanceApi.setOverrides(instance.id, overrides);
+            if (result.success) {
+                showToast('Launch settings saved', 'success');
+                onSaved?.();
+            } else {
+                showToast(result.error || 'Failed to save launch settings', 'error');
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (loading) {
+        return <div className={styles.loading}>Loading...</div>;
+    }
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.hint}>Leave a field empty to use the global setting.</div>
+
+            <div className={styles.group}>
+                <div className={styles.groupLabel}>Memory & JVM</div>
+                <div className={styles.row}>
+                    <label>
+                        Min RAM (MB)
+                        <input type="number" value={minRam} onChange={e => setMinRam(e.target.value)} placeholder="Global" />
+                    </label>
+                    <label>
+                        Max RAM (MB)
+                        <input type="number" value={maxRam} onChange={e => setMaxRam(e.target.value)} placeholder="Global" />
+                    </label>
+                </div>
+                <label>
+                    JVM Preset
+                    <CustomSelect value={jvmPreset} options={PRESET_OPTIONS} onChange={setJvmPreset} searchable={false} />
+                </label>
+                <label>
+                    Extra JVM Arguments (one per line)
+                    <textarea value={jvmArgs} onChange={e => setJvmArgs(e.target.value)} placeholder="-XX:+UseZGC" rows={3} />
+                </label>
+                <label>
+                    Java Executable
+                    <input type="text" value={javaPath} onChange={e => setJavaPath(e.target.value)} placeholder="Auto-detect" />
+                </label>
+            </div>
+
+            <div className={styles.group}>
+                <div className={styles.groupLabel}>Window</div>
+                <div className={styles.row}>
+                    <label>
+                        Width
+                        <input type="number" value={width} onChange={e => setWidth(e.target.value)} placeholder="854" />
+                    </label>
+                    <label>
+                        Height
+                        <input type="number" value={height} onChange={e => setHeight(e.target.value)} placeholder="480" />
+                    </label>
+                </div>
+                <label className={styles.checkbox}>
+                    <input type="checkbox" checked={fullscreen} onChange={e => setFullscreen(e.target.checked)} />
+                    Start in fullscreen
+                </label>
+            </div>
+
+            <div className={styles.group}>
+                <div className={styles.groupLabel}>Environment & Commands</div>
+                <label>
+                    Environment Variables (KEY=VALUE per line)
+                    <textarea value={env} onChange={e => setEnv(e.target.value)} placeholder="__GL_THREADED_OPTIMIZATIONS=1" rows={3} />
+                </label>
+                <label>
+                    Wrapper Command
+                    <input type="text" value={wrapperCommand} onChange={e => setWrapperCommand(e.target.value)} placeholder="gamemoderun" />
+                </label>
+                <label>
+                    Pre-launch Command
+                    <input type="text" value={preLaunchCommand} onChange={e => setPreLaunchCommand(e.target.value)} placeholder="Runs before the game; failure cancels launch" />
+                </label>
+                <label>
+                    Post-exit Command
+                    <input type="text" value={postExitCommand} onChange={e => setPostExitCommand(e.target.value)} placeholder="Runs after the game closes" />
+                </label>
+            </div>
+
+            <div className={styles.actions}>
+                <button className={styles.saveBtn} onClick={handleSave} disabled={saving}>
+                    <Save size={16} /> {saving ? 'Saving...' : 'Save'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,122 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, FileText, RefreshCw } from 'lucide-react';
+import styles from './InstanceLogs.module.css';
+import { Instance } from '../api/instances';
+import { LogApi, LogFileInfo, LogFileKind } from '../api/logs';
+import { LogEntryList, LogRow } from './LogEntryList';
+import { useToast } from '../context/ToastContext';
+
+interface InstanceLogsProps {
+    instance: Instance;
+}
+
+const KIND_LABELS: Record<LogFileKind, string> = {
+    'session': 'Session',
+    'game': 'Game log',
+    'crash-report': 'Crash report'
+};
+
+const formatSize = (bytes: number) => {
+    if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+export const InstanceLogs: React.FC<InstanceLogsProps> = ({ instance }) => {
+    const { showToast } = useToast();
+    const [files, setFiles] = useState<LogFileInfo[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [open, setOpen] = useState<{ file: LogFileInfo; entries?: LogRow[]; content?: string; truncated?: boolean } | null>(null);
+    const [reading, setReading] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        setLoading(true);
+        try {
+            setFiles(await LogApi.list(instance.id));
+        } finally {
+            setLoading(false);
+        }
+    }, [instance.id]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const handleOpen = async (file: LogFileInfo) => {
+        setReading(file.id);
+        try {
+            const result = await LogApi.read(instance.id, file.id);
+            if (!result.success) {
+                showToast(`Could not open log: ${result.error}`, 'error');
+                return;
+            }
+            setOpen({
+                file,
+                entries: result.entries?.map((entry, id) => ({ ...entry, id })),
+                content: result.content,
+                truncated: result.truncated
+            });
+        } finally {
+            setReading(null);
+        }
+    };
+
+    if (open) {
+        return (
+            <div className={styles.container}>
+                <div className={styles.viewerHeader}>
+                    <button className={styles.iconBtn} onClick={() => setOpen(null)} title="Back">
+                        <ArrowLeft size={16} />
+                    </button>
+                    <div className={styles.info}>
+                        <span className={styles.title}>{open.file.name}</span>
+                        <span className={styles.meta}>
+                            {KIND_LABELS[open.file.kind]} · {new Date(open.file.modified).toLocaleString()}
+                            {open.truncated && ' · showing the end of the file only'}
+                        </span>
+                    </div>
+                </div>
+                <div className={styles.viewer}>
+                    {open.entries ? (
+                        <LogEntryList entries={open.entries} emptyText="This log is empty." />
+                    ) : (
+                        <pre className={styles.raw}>{open.content}</pre>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    if (loading) {
+        return <div className={styles.loading}>Loading...</div>;
+    }
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.listHeader}>
+                <span>Launcher sessions, the game's logs folder and crash reports</span>
+                <button className={styles.iconBtn} onClick={load} title="Refresh">
+                    <RefreshCw size={16} />
+                </button>
+            </div>
+            <div className={styles.list}>
+                {files.length === 0 && (
+                    <div className={styles.empty}>No logs yet. Each launch is recorded here.</div>
+                )}
+                {files.map(file => (
+                    <button key={file.id} className={styles.item} onClick={() => handleOpen(file)} disabled={!!reading}>
+                        <FileText size={16} className={styles.fileIcon} />
+                        <div className={styles.info}>
+                            <span className={styles.title}>{file.name}</span>
+                            <span className={styles.meta}>
+                                {new Date(file.modified).toLocaleString()} · {formatSize(file.size)}
+                            </span>
+                        </div>
+                        <span className={`${styles.kind} ${styles[file.kind === 'crash-report' ? 'crash' : file.kind]}`}>
+                            {reading === file.id ? 'Opening...' : KIND_LABELS[file.kind]}
+                        </span>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
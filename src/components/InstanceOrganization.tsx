@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Image, Link, X } from 'lucide-react';
+import styles from './InstanceOrganization.module.css';
+import { Instance, InstanceApi, getInstanceIconUrl } from '../api/instances';
+import { usePrompt } from '../context/ConfirmContext';
+import { useToast } from '../context/ToastContext';
+
+interface InstanceOrganizationProps {
+    instance: Instance;
+    onSaved: () => void;
+}
+
+const parseTags = (value: string) => value.split(',').map(t => t.trim()).filter(Boolean);
+
+export const InstanceOrganization: React.FC<InstanceOrganizationProps> = ({ instance, onSaved }) => {
+    const prompt = usePrompt();
+    const { showToast } = useToast();
+    const [group, setGroup] = useState(instance.group || '');
+    const [tags, setTags] = useState((instance.tags || []).join(', '));
+    const [knownGroups, setKnownGroups] = useState<string[]>([]);
+    const [iconUrl, setIconUrl] = useState(getInstanceIconUrl(instance));
+    const [busy, setBusy] = useState(false);
+
+    // Suggest groups already in use so names stay consistent
+    useEffect(() => {
+        InstanceApi.list()
+            .then(list => setKnownGroups([...new Set(list.map(i => i.group).filter((g): g is string => !!g))].sort()))
+            .catch(e => console.error('[Organization] Failed to load groups', e));
+    }, []);
+
+    const dirty = group.trim() !== (instance.group || '') || parseTags(tags).join(',') !== (instance.tags || []).join(',');
+
+    const handleSave = async () => {
+        const result = await InstanceApi.setOrganization(instance.id, { group, tags: parseTags(tags) });
+        if (result.success) {
+            showToast('Group and tags saved', 'success');
+            onSaved();
+        } else {
+            showToast(`Failed to save: ${result.error}`, 'error');
+        }
+    };
+
+    const handleIcon = async (fromUrl: boolean) => {
+        let url: string | undefined;
+        if (fromUrl) {
+            const value = await prompt('Icon from URL', 'Paste a link to a PNG, JPG, GIF or WebP image. It is downloaded and kept with the instance.', {
+                confirmLabel: 'Download',
+                inputConfig: { placeholder: 'https://...' }
+            });
+            if (!value?.trim()) return;
+            url = value.trim();
+        }
+
+        setBusy(true);
+        try {
+            const result = await InstanceApi.setIcon(instance.id, url);
+            if (result.success && result.icon) {
+                setIconUrl(getInstanceIconUrl({ ...instance, icon: result.icon }));
+                onSaved();
+            } else if (!result.canceled) {
+                showToast(`Failed to set icon: ${result.error}`, 'error');
+            }
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleClearIcon = async () => {
+        const result = await InstanceApi.clearIcon(instance.id);
+        if (result.success) {
+            setIconUrl(null);
+            onSaved();
+        }
+    };
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.iconColumn}>
+                <div className={styles.iconPreview}>
+                    {iconUrl ? <img src={iconUrl} alt="" /> : instance.name.charAt(0).toUpperCase()}
+                </div>
+                <div className={styles.iconActions}>
+                    <button className={styles.iconBtn} onClick={() => handleIcon(false)} disabled={busy} title="Choose image file">
+                        <Image size={14} />
+                    </button>
+                    <button className={styles.iconBtn} onClick={() => handleIcon(true)} disabled={busy} title="Image from URL">
+                        <Link size={14} />
+                    </button>
+                    {iconUrl && (
+                        <button className={styles.iconBtn} onClick={handleClearIcon} disabled={busy} title="Remove icon">
+                            <X size={14} />
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className={styles.fields}>
+                <input
+                    type="text"
+                    value={group}
+                    onChange={e => setGroup(e.target.value)}
+                    placeholder="Group (e.g. Team SMP)"
+                    list={`groups-${instance.id}`}
+                />
+                <datalist id={`groups-${instance.id}`}>
+                    {knownGroups.map(g => <option key={g} value={g} />)}
+                </datalist>
+                <input
+                    type="text"
+                    value={tags}
+                    onChange={e => setTags(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && dirty && handleSave()}
+                    placeholder="Tags, comma separated"
+                />
+                {dirty && (
+                    <button className={styles.saveBtn} onClick={handleSave}>Save</button>
+                )}
+            </div>
+        </div>
+    );
+};
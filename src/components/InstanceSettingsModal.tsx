@@ -1,11 +1,17 @@
 import React, { useState } from 'react';
-import { X, Edit2, Copy, Archive, Folder, Trash2, Users, Send } from 'lucide-react';
+import { X, Edit2, Copy, Archive, Folder, Trash2, Users, Send, Wrench, GitBranch, LayoutTemplate } from 'lucide-react';
 import styles from './InstanceSettingsModal.module.css';
-import { Instance, InstanceApi } from '../api/instances';
+import { DeleteMode, Instance, InstanceApi, RepairLogEntry, RepairResult } from '../api/instances';
 import { useConfirm } from '../context/ConfirmContext';
 import { AccountManager } from '../utils/AccountManager';
 import { useToast } from '../context/ToastContext';
 import { CloudManager } from '../utils/CloudManager';
+import { InstanceLaunchSettings } from './InstanceLaunchSettings';
+import { InstanceBackups } from './InstanceBackups';
+import { InstanceLogs } from './InstanceLogs';
+import { ChangeVersionPanel } from './ChangeVersionPanel';
+import { TemplateApi } from '../api/templates';
+import { InstanceOrganization } from './InstanceOrganization';
 
 interface InstanceSettingsModalProps {
     instance: Instance;
@@ -15,6 +21,12 @@ interface InstanceSettingsModalProps {
     onProcessingEnd?: () => void;
 }
 
+const INPUT_FORMS = {
+    'renaming': { title: 'Rename Instance', placeholder: 'Enter new name...', submit: 'Save' },
+    'duplicating': { title: 'Duplicate Instance', placeholder: 'Enter copy name...', submit: 'Duplicate' },
+    'saving-template': { title: 'Save as Template', placeholder: 'Enter template name...', submit: 'Save Template' }
+};
+
 export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
     instance, onClose, onUpdate, onProcessing, onProcessingEnd
 }) => {
@@ -27,9 +39,15 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
     const [selectedFriendId, setSelectedFriendId] = useState<string>('');
     const user = AccountManager.getActive();
 
-    const [actionState, setActionState] = useState<'idle' | 'renaming' | 'duplicating'>('idle');
+    const [tab, setTab] = useState<'general' | 'launch' | 'backups' | 'logs'>('general');
+    const [actionState, setActionState] = useState<'idle' | 'renaming' | 'duplicating' | 'saving-template' | 'changing-version'>('idle');
     const [inputValue, setInputValue] = useState('');
 
+    const [repairing, setRepairing] = useState(false);
+    const [repairStatus, setRepairStatus] = useState('');
+    const [repairLog, setRepairLog] = useState<RepairLogEntry[]>([]);
+    const [repairResult, setRepairResult] = useState<RepairResult | null>(null);
+
     const canRename = instance.type === 'created';
 
     const startRename = () => {
@@ -43,6 +61,11 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
         setActionState('duplicating');
     };
 
+    const startSaveTemplate = () => {
+        setInputValue(instance.name);
+        setActionState('saving-template');
+    };
+
     const handleSubmit = async () => {
         if (!inputValue.trim()) return;
         const value = inputValue.trim();
@@ -78,6 +101,25 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
             } finally {
                 onProcessingEnd?.();
             }
+        } else if (actionState === 'saving-template') {
+            onProcessing?.('Saving Template...', 'Identifying mods on Modrinth...');
+            try {
+                const result = await TemplateApi.saveFromInstance(instance.id, value);
+                if (result.success) {
+                    const skipped = result.skippedMods?.length || 0;
+                    showToast(
+                        skipped ? `Template saved. ${skipped} mod(s) not on Modrinth were left out` : 'Template saved!',
+                        skipped ? 'warning' : 'success'
+                    );
+                } else {
+                    showToast(`Failed to save template: ${result.error}`, 'error');
+                }
+            } catch (e) {
+                console.error("Save template failed", e);
+                showToast("Failed to save template", 'error');
+            } finally {
+                onProcessingEnd?.();
+            }
         }
         setActionState('idle');
     };
@@ -96,21 +138,71 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
         }
     };
 
+    const handleRepair = async () => {
+        setRepairing(true);
+        setRepairLog([]);
+        setRepairResult(null);
+        setRepairStatus('Starting...');
+
+        const onProgress = (_: any, data: { status: string }) => setRepairStatus(data.status);
+        const onLog = (_: any, entry: RepairLogEntry) => setRepairLog(prev => [...prev, entry]);
+        window.ipcRenderer.on('instance:repair-progress', onProgress);
+        window.ipcRenderer.on('instance:repair-log', onLog);
+
+        try {
+            const result = await InstanceApi.repair(instance);
+            setRepairResult(result);
+            if (result.error) {
+                showToast(`Repair failed: ${result.error}`, 'error');
+            } else if (result.success) {
+                showToast(result.fixed?.length ? `Repaired ${result.fixed.length} files` : 'No problems found', 'success');
+            } else {
+                showToast(`${result.failed?.length} files could not be repaired`, 'warning');
+            }
+        } catch (e) {
+            console.error("Repair failed", e);
+            showToast("Failed to repair instance", 'error');
+        } finally {
+            window.ipcRenderer.off('instance:repair-progress', onProgress);
+            window.ipcRenderer.off('instance:repair-log', onLog);
+            setRepairing(false);
+        }
+    };
+
     const handleOpenFolder = async () => {
         await InstanceApi.openFolder(instance.id);
     };
 
-    const handleDelete = async () => {
-        const shouldDelete = await confirm(
-            'Delete Instance?',
-            `Are you sure you want to delete "${instance.name}"? This cannot be undone.`,
-            { confirmLabel: 'Delete', isDanger: true }
-        );
+    const handleDelete = async (mode: DeleteMode) => {
+        const shouldDelete = mode === 'remove'
+            ? await confirm(
+                'Remove from Whoap?',
+                `"${instance.name}" will be removed from your profiles. Its game folder is left untouched.`,
+                { confirmLabel: 'Remove', isDanger: true }
+            )
+            : await confirm(
+                'Delete Instance?',
+                `"${instance.name}" will be moved to the trash. You can restore it from Recently Deleted on the Profiles page until it expires.`,
+                { confirmLabel: 'Delete', isDanger: true }
+            );
 
         if (shouldDelete) {
             setDeleting(true);
             try {
-                await InstanceApi.delete(instance.id);
+                let result = await InstanceApi.delete(instance.id, { mode });
+                if (result.requiresConfirmation) {
+                    const confirmExternal = await confirm(
+                        'Delete Files Outside Whoap?',
+                        `The game data is at ${result.externalPath}, which may belong to another launcher, including its worlds. Move it to the trash as well?`,
+                        { confirmLabel: 'Delete Files', isDanger: true }
+                    );
+                    if (!confirmExternal) return;
+                    result = await InstanceApi.delete(instance.id, { mode, confirmExternal });
+                }
+                if (!result.success) {
+                    showToast(`Failed to delete instance: ${result.error}`, 'error');
+                    return;
+                }
 
                 const activeAccount = AccountManager.getActive();
                 if (activeAccount && activeAccount.type === 'whoap') {
@@ -119,7 +211,7 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
 
                 onUpdate();
                 onClose();
-                showToast('Instance deleted.', 'success');
+                showToast(mode === 'remove' ? 'Instance removed.' : 'Instance moved to trash.', 'success');
             } catch (e) {
                 console.error("Delete failed", e);
                 showToast("Failed to delete instance", 'error');
@@ -179,12 +271,60 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
                     </button>
                 </div>
 
+                <div className={styles.tabs}>
+                    <button className={`${styles.tab} ${tab === 'general' ? styles.activeTab : ''}`} onClick={() => setTab('general')}>
+                        General
+                    </button>
+                    {canRename && (
+                        <button className={`${styles.tab} ${tab === 'launch' ? styles.activeTab : ''}`} onClick={() => setTab('launch')}>
+                            Launch
+                        </button>
+                    )}
+                    <button className={`${styles.tab} ${tab === 'backups' ? styles.activeTab : ''}`} onClick={() => setTab('backups')}>
+                        Backups
+                    </button>
+                    <button className={`${styles.tab} ${tab === 'logs' ? styles.activeTab : ''}`} onClick={() => setTab('logs')}>
+                        Logs
+                    </button>
+                </div>
+
                 <div className={styles.sectionDivider} />
 
                 <div className={styles.body}>
-                    {actionState !== 'idle' ? (
+                    {tab === 'launch' ? (
+                        <InstanceLaunchSettings instance={instance} onSaved={onUpdate} />
+                    ) : tab === 'backups' ? (
+                        <InstanceBackups instance={instance} onRestored={onUpdate} />
+                    ) : tab === 'logs' ? (
+                        <InstanceLogs instance={instance} />
+                    ) : (repairing || repairResult) ? (
                         <div className={styles.inputForm}>
-                            <label>{actionState === 'renaming' ? 'Rename Instance' : 'Duplicate Instance'}</label>
+                            <label>{repairing ? repairStatus : 'Repair finished'}</label>
+                            <div className={styles.repairLog}>
+                                {repairLog.filter(e => e.status === 'fixed' || e.status === 'failed').length === 0 && !repairing && (
+                                    <div className={styles.repairEmpty}>All files verified, nothing to repair.</div>
+                                )}
+                                {repairLog.map((entry, i) => (
+                                    <div key={i} className={`${styles.repairEntry} ${styles[entry.status]}`}>
+                                        <span className={styles.repairStatus}>{entry.status}</span>
+                                        <span className={styles.repairKind}>{entry.kind}</span>
+                                        <span className={styles.repairFile} title={entry.path}>{entry.file}</span>
+                                    </div>
+                                ))}
+                            </div>
+                            {!repairing && (
+                                <div className={styles.formActions}>
+                                    <button className={styles.confirmBtn} onClick={() => setRepairResult(null)}>
+                                        Done
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    ) : actionState === 'changing-version' ? (
+                        <ChangeVersionPanel instance={instance} onCancel={() => setActionState('idle')} onChanged={onUpdate} />
+                    ) : actionState !== 'idle' ? (
+                        <div className={styles.inputForm}>
+                            <label>{INPUT_FORMS[actionState].title}</label>
                             <div className={styles.inputWrapper}>
                                 <input
                                     type="text"
@@ -192,7 +332,7 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
                                     onChange={e => setInputValue(e.target.value)}
                                     autoFocus
                                     onKeyDown={e => e.key === 'Enter' && handleSubmit()}
-                                    placeholder={actionState === 'renaming' ? 'Enter new name...' : 'Enter copy name...'}
+                                    placeholder={INPUT_FORMS[actionState].placeholder}
                                 />
                             </div>
                             <div className={styles.formActions}>
@@ -200,12 +340,14 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
                                     Cancel
                                 </button>
                                 <button className={styles.confirmBtn} onClick={handleSubmit}>
-                                    {actionState === 'renaming' ? 'Save' : 'Duplicate'}
+                                    {INPUT_FORMS[actionState].submit}
                                 </button>
                             </div>
                         </div>
                     ) : (
                         <>
+                            {canRename && <InstanceOrganization instance={instance} onSaved={onUpdate} />}
+
                             <div className={styles.actionsSection}>
                                 <div className={styles.sectionLabel}>Actions</div>
                                 <div className={styles.actionsGrid}>
@@ -229,6 +371,22 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
                                         <Folder size={18} />
                                         <span>Open Folder</span>
                                     </button>
+                                    {canRename && (
+                                        <button className={styles.actionBtn} onClick={() => setActionState('changing-version')}>
+                                            <GitBranch size={18} />
+                                            <span>Change Version</span>
+                                        </button>
+                                    )}
+                                    {canRename && (
+                                        <button className={styles.actionBtn} onClick={startSaveTemplate}>
+                                            <LayoutTemplate size={18} />
+                                            <span>Save as Template</span>
+                                        </button>
+                                    )}
+                                    <button className={styles.actionBtn} onClick={handleRepair}>
+                                        <Wrench size={18} />
+                                        <span>Repair</span>
+                                    </button>
                                     {user?.type === 'whoap' && (
                                         <button className={styles.actionBtn} onClick={handleShare}>
                                             <Users size={18} />
@@ -240,10 +398,23 @@ export const InstanceSettingsModal: React.FC<InstanceSettingsModalProps> = ({
 
                             <div className={styles.dangerSection}>
                                 <div className={styles.dangerLabel}>Danger Zone</div>
-                                <button className={styles.deleteBtn} onClick={handleDelete} disabled={deleting}>
-                                    <Trash2 size={18} />
-                                    {deleting ? 'Deleting...' : 'Delete Instance'}
-                                </button>
+                                {instance.useExternalPath ? (
+                                    <div className={styles.dangerActions}>
+                                        <button className={styles.deleteBtn} onClick={() => handleDelete('remove')} disabled={deleting}>
+                                            <X size={18} />
+                                            Remove from Whoap
+                                        </button>
+                                        <button className={styles.deleteBtn} onClick={() => handleDelete('delete')} disabled={deleting}>
+                                            <Trash2 size={18} />
+                                            {deleting ? 'Deleting...' : 'Delete Files'}
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <button className={styles.deleteBtn} onClick={() => handleDelete('delete')} disabled={deleting}>
+                                        <Trash2 size={18} />
+                                        {deleting ? 'Deleting...' : 'Delete Instance'}
+                                    </button>
+                                )}
                             </div>
                         </>
                     )}
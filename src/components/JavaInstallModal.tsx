@@ -2,33 +2,47 @@ import React, { useState, useEffect } from 'react';
 import styles from './JavaInstallModal.module.css';
 import { Download, Coffee } from 'lucide-react';
 
-interface JavaInstallDetails {
+interface JavaInstallRequest {
+    requestId: string; // the launch or install that needs the runtime
     version: string;
     sizeInBytes: number;
+    tracksProgress: boolean; // false when the caller shows install progress itself
 }
 
+interface JavaInstallPrompt extends JavaInstallRequest {
+    status: string;
+    progress: number;
+    installing: boolean;
+}
+
+/**
+ * Asks before the main process downloads a Java runtime, then shows its progress. Launches and
+ * loader installs can need Java side by side, so prompts queue up by request and are shown one
+ * at a time.
+ */
 export const JavaInstallModal: React.FC = () => {
-    const [details, setDetails] = useState<JavaInstallDetails | null>(null);
-    const [progress, setProgress] = useState<number>(0);
-    const [status, setStatus] = useState<string>('Waiting');
-    const [installing, setInstalling] = useState(false);
+    const [prompts, setPrompts] = useState<Record<string, JavaInstallPrompt>>({});
 
     useEffect(() => {
-        const handleReq = (_: any, data: JavaInstallDetails) => {
+        const handleReq = (_: any, data: JavaInstallRequest) => {
             console.log("Java Install Requested", data);
-            setDetails(data);
-            setProgress(0);
-            setStatus(`Java ${data.version} is required`);
-            setInstalling(false);
+            setPrompts(prev => ({
+                ...prev,
+                [data.requestId]: { ...data, status: `Java ${data.version} is required`, progress: 0, installing: false }
+            }));
         };
 
-        const handleProgress = (_: any, data: { status: string, progress: number }) => {
-            setStatus(data.status);
-            setProgress(data.progress);
+        const handleProgress = (_: any, data: { requestId: string, status: string, progress: number }) => {
+            setPrompts(prev => prev[data.requestId]
+                ? { ...prev, [data.requestId]: { ...prev[data.requestId], status: data.status, progress: data.progress } }
+                : prev);
         };
 
-        const handleDone = () => {
-            setDetails(null);
+        const handleDone = (_: any, requestId: string) => {
+            setPrompts(prev => {
+                const { [requestId]: _done, ...rest } = prev;
+                return rest;
+            });
         };
 
         window.ipcRenderer.on('java-install-request', handleReq);
@@ -42,20 +56,21 @@ export const JavaInstallModal: React.FC = () => {
         };
     }, []);
 
-    const handleConfirm = () => {
-        setInstalling(true);
-        window.ipcRenderer.send('java-install-consent', 'install');
-    };
+    // A prompt being answered stays up to show its progress
+    const details = Object.values(prompts).find(prompt => prompt.installing) ?? Object.values(prompts)[0];
 
-    const handleSkip = () => {
-        window.ipcRenderer.send('java-install-consent', 'skip');
-        setDetails(null);
+    const answer = (action: 'install' | 'skip' | 'cancel') => {
+        window.ipcRenderer.send('java-install-consent', details.requestId, action);
+        setPrompts(prev => {
+            if (action === 'install' && details.tracksProgress) return { ...prev, [details.requestId]: { ...prev[details.requestId], installing: true } };
+            const { [details.requestId]: _answered, ...rest } = prev;
+            return rest;
+        });
     };
 
-    const handleCancel = () => {
-        window.ipcRenderer.send('java-install-consent', 'cancel');
-        setDetails(null);
-    };
+    const handleConfirm = () => answer('install');
+    const handleSkip = () => answer('skip');
+    const handleCancel = () => answer('cancel');
 
     if (!details) return null;
 
@@ -75,7 +90,7 @@ export const JavaInstallModal: React.FC = () => {
                 </div>
 
                 <div className={styles.contentSide}>
-                    {!installing ? (
+                    {!details.installing ? (
                         <>
                             <div className={styles.headerArea}>
                                 <span className={styles.label}>Component Required</span>
@@ -114,13 +129,13 @@ export const JavaInstallModal: React.FC = () => {
 
                             <div>
                                 <div className={styles.progressLabel}>
-                                    <span>{status}</span>
-                                    <span>{Math.round(progress)}%</span>
+                                    <span>{details.status}</span>
+                                    <span>{Math.round(details.progress)}%</span>
                                 </div>
                                 <div className={styles.progressTrack}>
                                     <div
                                         className={styles.progressBar}
-                                        style={{ width: `${Math.min(100, Math.max(0, progress))}%` }}
+                                        style={{ width: `${Math.min(100, Math.max(0, details.progress))}%` }}
                                     />
                                 </div>
                             </div>
@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import styles from './LogEntryList.module.css';
+import { Search, ArrowDownToLine, Copy, ChevronRight } from 'lucide-react';
+import { LogEntry, LogLevel, formatLogEntry } from '../api/logs';
+
+export interface LogRow extends LogEntry {
+    id: number;
+}
+
+// Extra toolbar buttons, e.g. pause and clear in the live log window
+export interface LogAction {
+    icon: React.ReactNode;
+    title: string;
+    onClick: () => void;
+    active?: boolean;
+    label?: string;
+}
+
+interface LogEntryListProps {
+    entries: LogRow[];
+    // Live output: offers follow mode and sticks to the bottom while it is on
+    live?: boolean;
+    actions?: LogAction[];
+    emptyText?: string;
+}
+
+type LevelFilter = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+
+const FILTERS: LevelFilter[] = ['DEBUG', 'INFO', 'WARN', 'ERROR'];
+
+const filterOf = (level: LogLevel): LevelFilter =>
+    level === 'TRACE' ? 'DEBUG' : level === 'FATAL' ? 'ERROR' : level;
+
+const formatTime = (time: number | null) =>
+    time ? new Date(time).toLocaleTimeString([], { hour12: false }) : '';
+
+/**
+ * Filterable list of parsed log entries: level toggles, regex search, folded stack traces
+ * and row selection (click, ctrl/shift-click) for copying.
+ */
+export const LogEntryList: React.FC<LogEntryListProps> = ({ entries, live = false, actions = [], emptyText = 'No log entries.' }) => {
+    const [levels, setLevels] = useState<Set<LevelFilter>>(new Set(FILTERS));
+    const [search, setSearch] = useState('');
+    const [follow, setFollow] = useState(live);
+    const [expanded, setExpanded] = useState<Set<number>>(new Set());
+    const [selected, setSelected] = useState<Set<number>>(new Set());
+    const [copied, setCopied] = useState(false);
+
+    const lastClicked = useRef<number | null>(null);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    // Case-insensitive regex; while the pattern doesn't compile it is matched literally
+    const { matcher, invalid } = useMemo(() => {
+        if (!search) return { matcher: null, invalid: false };
+        try {
+            return { matcher: new RegExp(search, 'i'), invalid: false };
+        } catch {
+            return { matcher: new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i'), invalid: true };
+        }
+    }, [search]);
+
+    const counts = useMemo(() => {
+        const result: Record<LevelFilter, number> = { DEBUG: 0, INFO: 0, WARN: 0, ERROR: 0 };
+        for (const entry of entries) result[filterOf(entry.level)]++;
+        return result;
+    }, [entries]);
+
+    const visible = useMemo(() => entries.filter(row =>
+        levels.has(filterOf(row.level)) &&
+        (!matcher || [row.message, row.logger, row.thread, row.throwable].some(text => text && matcher.test(text)))
+    ), [entries, levels, matcher]);
+
+    useEffect(() => {
+        if (live && follow && listRef.current) {
+            listRef.current.scrollTop = listRef.current.scrollHeight;
+        }
+    }, [visible, follow, live]);
+
+    // Dropped entries (cleared or trimmed) can't stay selected
+    useEffect(() => {
+        if (entries.length === 0) {
+            setSelected(new Set());
+            setExpanded(new Set());
+        }
+    }, [entries]);
+
+    const handleScroll = () => {
+        const list = listRef.current;
+        if (!live || !list) return;
+        const atBottom = list.scrollHeight - list.scrollTop - list.clientHeight < 40;
+        if (atBottom !== follow) setFollow(atBottom);
+    };
+
+    const toggleLevel = (level: LevelFilter) => {
+        const next = new Set(levels);
+        if (next.has(level)) next.delete(level);
+        else next.add(level);
+        setLevels(next);
+    };
+
+    const toggleExpanded = (id: number) => {
+        const next = new Set(expanded);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        setExpanded(next);
+    };
+
+    const handleRowClick = (e: React.MouseEvent, id: number) => {
+        // Leave native text selection alone
+        if (window.getSelection()?.toString()) return;
+
+        if (e.shiftKey && lastClicked.current !== null) {
+            const from = visible.findIndex(row => row.id === lastClicked.current);
+            const to = visible.findIndex(row => row.id === id);
+            if (from !== -1 && to !== -1) {
+                const range = visible.slice(Math.min(from, to), Math.max(from, to) + 1).map(row => row.id);
+                setSelected(new Set([...selected, ...range]));
+                return;
+            }
+        }
+
+        const next = new Set(e.ctrlKey || e.metaKey ? selected : []);
+        if (selected.has(id) && (e.ctrlKey || e.metaKey)) next.delete(id);
+        else next.add(id);
+        setSelected(next);
+        lastClicked.current = id;
+    };
+
+    // Selected rows, or everything currently shown when nothing is selected
+    const handleCopy = async () => {
+        const source = selected.size > 0 ? visible.filter(row => selected.has(row.id)) : visible;
+        await navigator.clipboard.writeText(source.map(formatLogEntry).join('\n'));
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+    };
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if ((e.ctrlKey || e.metaKey) && e.key === 'c' && selected.size > 0 && !window.getSelection()?.toString()) {
+                e.preventDefault();
+                handleCopy();
+            }
+            if (e.key === 'Escape') setSelected(new Set());
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    });
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.toolbar}>
+                <div className={styles.levels}>
+                    {FILTERS.map(level => (
+                        <button
+                            key={level}
+                            className={`${styles.levelChip} ${styles[`level${level}`]} ${levels.has(level) ? styles.active : ''}`}
+                            onClick={() => toggleLevel(level)}
+                        >
+                            {level} <span className={styles.count}>{counts[level]}</span>
+                        </button>
+                    ))}
+                </div>
+
+                <div className={`${styles.search} ${invalid ? styles.invalid : ''}`} title={invalid ? 'Invalid regex, matching literally' : 'Regular expression, case-insensitive'}>
+                    <Search size={14} />
+                    <input
+                        placeholder="Filter (regex)..."
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        spellCheck={false}
+                    />
+                </div>
+
+                <div className={styles.actions}>
+                    {live && (
+                        <button className={`${styles.toolBtn} ${follow ? styles.active : ''}`} onClick={() => setFollow(!follow)} title="Follow output">
+                            <ArrowDownToLine size={14} />
+                        </button>
+                    )}
+                    <button className={styles.toolBtn} onClick={handleCopy} title={selected.size > 0 ? `Copy ${selected.size} selected` : 'Copy visible'}>
+                        <Copy size={14} />
+                        {copied && <span>Copied</span>}
+                    </button>
+                    {actions.map(action => (
+                        <button
+                            key={action.title}
+                            className={`${styles.toolBtn} ${action.active ? styles.active : ''}`}
+                            onClick={action.onClick}
+                            title={action.title}
+                        >
+                            {action.icon}
+                            {action.label && <span>{action.label}</span>}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className={styles.list} ref={listRef} onScroll={handleScroll}>
+                {visible.map(row => {
+                    const traceLines = row.throwable?.split('\n') ?? [];
+                    const isExpanded = expanded.has(row.id);
+
+                    return (
+                        <div
+                            key={row.id}
+                            className={`${styles.row} ${styles[`row${filterOf(row.level)}`]} ${row.source === 'info' ? styles.launcherRow : ''} ${selected.has(row.id) ? styles.selected : ''}`}
+                            onClick={(e) => handleRowClick(e, row.id)}
+                        >
+                            <span className={styles.time}>{formatTime(row.time)}</span>
+                            <span className={`${styles.level} ${styles[`level${filterOf(row.level)}`]}`}>{row.level}</span>
+                            <div className={styles.body}>
+                                {(row.thread || row.logger) && (
+                                    <span className={styles.origin} title={row.logger}>
+                                        {row.thread}{row.thread && row.logger ? ' · ' : ''}{row.logger?.split('.').pop()}
+                                    </span>
+                                )}
+                                <span className={styles.message}>{row.message}</span>
+                                {traceLines.length > 0 && (
+                                    <div className={styles.trace}>
+                                        <button
+                                            className={styles.traceToggle}
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                toggleExpanded(row.id);
+                                            }}
+                                        >
+                                            <ChevronRight size={12} className={isExpanded ? styles.rotated : ''} />
+                                            {traceLines[0]}
+                                            {!isExpanded && traceLines.length > 1 && <span className={styles.more}> +{traceLines.length - 1} lines</span>}
+                                        </button>
+                                        {isExpanded && <pre className={styles.traceBody}>{traceLines.slice(1).join('\n')}</pre>}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+                {visible.length === 0 && (
+                    <div className={styles.empty}>{entries.length === 0 ? emptyText : 'No entries match the current filters.'}</div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styles from './LogViewer.module.css';
+import { Minus, X, Pause, Play, Trash2 } from 'lucide-react';
+import { LogApi } from '../api/logs';
+import { LogEntryList, LogRow } from './LogEntryList';
+
+interface LogViewerProps {
+    instanceId: string;
+}
+
+// Older entries are dropped past this to keep the view responsive; the session log on disk has everything
+const MAX_ENTRIES = 5000;
+
+/**
+ * Live, structured view of one game's output. Rendered in the log window instead of the launcher UI.
+ */
+export const LogViewer: React.FC<LogViewerProps> = ({ instanceId }) => {
+    const [rows, setRows] = useState<LogRow[]>([]);
+    const [paused, setPaused] = useState(false);
+    const [queued, setQueued] = useState(0);
+
+    const nextId = useRef(0);
+    const pausedRef = useRef(false);
+    const queue = useRef<LogRow[]>([]);
+
+    const append = (incoming: LogRow[]) => {
+        setRows(prev => {
+            const next = prev.concat(incoming);
+            return next.length > MAX_ENTRIES ? next.slice(next.length - MAX_ENTRIES) : next;
+        });
+    };
+
+    useEffect(() => {
+        const unsubscribe = LogApi.onEntries(entries => {
+            const incoming = entries.map(entry => ({ ...entry, id: nextId.current++ }));
+            if (pausedRef.current) {
+                queue.current.push(...incoming);
+                setQueued(queue.current.length);
+            } else {
+                append(incoming);
+            }
+        });
+        LogApi.ready();
+        return unsubscribe;
+    }, []);
+
+    const togglePause = () => {
+        pausedRef.current = !paused;
+        if (paused) {
+            append(queue.current);
+            queue.current = [];
+            setQueued(0);
+        }
+        setPaused(!paused);
+    };
+
+    const handleClear = () => {
+        setRows([]);
+        queue.current = [];
+        setQueued(0);
+    };
+
+    return (
+        <div className={styles.window}>
+            <div className={`${styles.titlebar} draggable`}>
+                <div className={styles.title}>Game Output · {instanceId}</div>
+                <div className={`${styles.controls} no-drag`}>
+                    <button className={styles.controlBtn} onClick={LogApi.minimize} title="Minimize">
+                        <Minus size={14} />
+                    </button>
+                    <button className={`${styles.controlBtn} ${styles.closeBtn}`} onClick={LogApi.close} title="Close">
+                        <X size={14} />
+                    </button>
+                </div>
+            </div>
+
+            <LogEntryList
+                entries={rows}
+                live
+                emptyText="Waiting for output..."
+                actions={[
+                    {
+                        icon: paused ? <Play size={14} /> : <Pause size={14} />,
+                        title: paused ? 'Resume' : 'Pause',
+                        onClick: togglePause,
+                        active: paused,
+                        label: paused && queued > 0 ? `${queued} new` : undefined
+                    },
+                    { icon: <Trash2 size={14} />, title: 'Clear', onClick: handleClear }
+                ]}
+            />
+        </div>
+    );
+};
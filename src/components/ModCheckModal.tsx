@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import styles from './ModCheckModal.module.css';
+import { X, ShieldCheck, ShieldAlert, Wrench, RefreshCw } from 'lucide-react';
+import { ModIssue, ModIssueKind, ModsApi } from '../api/mods';
+import { useToast } from '../context/ToastContext';
+
+interface ModCheckRequest {
+    instanceId: string;
+    target: { gameVersion: string; loader: string };
+    issues: ModIssue[];
+}
+
+interface ModCheckModalProps {
+    instanceId: string;
+    // Result the launch already has; without one the modal runs the check itself
+    initial?: Omit<ModCheckRequest, 'instanceId'>;
+    // Set when the modal stands between the user and a launch
+    onLaunch?: () => void;
+    onClose: () => void;
+}
+
+const KIND_LABELS: Record<ModIssueKind, string> = {
+    'missing-dependency': 'Missing dependency',
+    'dependency-version': 'Wrong dependency version',
+    'duplicate': 'Duplicate',
+    'wrong-loader': 'Wrong loader',
+    'wrong-minecraft': 'Wrong Minecraft version',
+    'incompatible': 'Incompatible'
+};
+
+export const ModCheckModal: React.FC<ModCheckModalProps> = ({ instanceId, initial, onLaunch, onClose }) => {
+    const [target, setTarget] = useState(initial?.target ?? null);
+    const [issues, setIssues] = useState<ModIssue[]>(initial?.issues ?? []);
+    const [loading, setLoading] = useState(!initial);
+    const [busyIndex, setBusyIndex] = useState<number | null>(null);
+    const { showToast } = useToast();
+
+    const runCheck = async () => {
+        setLoading(true);
+        const result = await ModsApi.check(instanceId);
+        if (result.success) {
+            setTarget(result.target ?? null);
+            setIssues(result.issues ?? []);
+        } else {
+            showToast(`Mod check failed: ${result.error}`, 'error');
+        }
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        if (!initial) runCheck();
+    }, [instanceId]);
+
+    const handleFix = async (issue: ModIssue, index: number) => {
+        if (!issue.fix) return;
+        setBusyIndex(index);
+        try {
+            const result = await ModsApi.fix(instanceId, issue.fix);
+            if (result.success) {
+                showToast(`${issue.fix.label}: done`, 'success');
+                // One fix can clear (or cause) others
+                await runCheck();
+            } else {
+                showToast(`Fix failed: ${result.error}`, 'error');
+            }
+        } finally {
+            setBusyIndex(null);
+        }
+    };
+
+    const errors = issues.filter(issue => issue.severity === 'error').length;
+
+    return (
+        <div className={styles.overlay} onClick={onClose}>
+            <div className={styles.modal} onClick={e => e.stopPropagation()}>
+                <div className={styles.header}>
+                    <div className={`${styles.iconWrapper} ${errors > 0 ? styles.iconError : ''}`}>
+                        {errors > 0 ? <ShieldAlert size={22} color="#fca5a5" /> : <ShieldCheck size={22} color="#86efac" />}
+                    </div>
+                    <div>
+                        <h2 className={styles.title}>{onLaunch ? 'Mod Problems Found' : 'Mod Check'}</h2>
+                        <div className={styles.subtitle}>
+                            {target ? `Checked against ${target.loader} ${target.gameVersion}` : 'Checking installed mods...'}
+                        </div>
+                    </div>
+                    <button className={styles.closeBtn} onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className={styles.content}>
+                    {loading ? (
+                        <div className={styles.empty}>Checking mods...</div>
+                    ) : issues.length === 0 ? (
+                        <div className={styles.empty}>No problems found.</div>
+                    ) : (
+                        issues.map((issue, index) => (
+                            <div key={`${issue.kind}:${issue.file}:${index}`} className={styles.item}>
+                                <div className={styles.info}>
+                                    <span className={styles.name}>
+                                        {issue.modName}
+                                        <span className={`${styles.kindTag} ${issue.severity === 'error' ? styles.error : styles.warning}`}>
+                                            {KIND_LABELS[issue.kind]}
+                                        </span>
+                                    </span>
+                                    <span className={styles.message}>{issue.message}</span>
+                                    <span className={styles.file}>{issue.file}</span>
+                                </div>
+                                {issue.fix && (
+                                    <button
+                                        className={styles.fixBtn}
+                                        onClick={() => handleFix(issue, index)}
+                                        disabled={busyIndex !== null || loading}
+                                        title={issue.fix.label}
+                                    >
+                                        <Wrench size={14} />
+                                        {busyIndex === index ? 'Fixing...' : issue.fix.label}
+                                    </button>
+                                )}
+                            </div>
+                        ))
+                    )}
+                </div>
+
+                <div className={styles.footer}>
+                    <button className={styles.secondaryBtn} onClick={runCheck} disabled={loading || busyIndex !== null}>
+                        <RefreshCw size={14} /> Check Again
+                    </button>
+                    {onLaunch ? (
+                        <>
+                            <button className={styles.secondaryBtn} onClick={onClose}>
+                                Cancel
+                            </button>
+                            <button className={styles.primaryBtn} onClick={onLaunch} disabled={loading || busyIndex !== null}>
+                                {errors > 0 ? 'Launch Anyway' : 'Launch'}
+                            </button>
+                        </>
+                    ) : (
+                        <button className={styles.primaryBtn} onClick={onClose}>
+                            Done
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Answers the pre-launch mod check: shown when the main process finds mods that would stop the
+ * game from loading, and tells it whether to launch anyway. Instances can launch side by side, so
+ * requests queue up by instance and are shown one at a time.
+ */
+export const ModCheckPrompt: React.FC = () => {
+    const [requests, setRequests] = useState<Record<string, ModCheckRequest>>({});
+
+    useEffect(() => {
+        const handleRequest = (_: any, data: ModCheckRequest) => {
+            setRequests(prev => ({ ...prev, [data.instanceId]: data }));
+        };
+
+        window.ipcRenderer.on('mod-check-request', handleRequest);
+        return () => {
+            window.ipcRenderer.off('mod-check-request', handleRequest);
+        };
+    }, []);
+
+    const request = Object.values(requests)[0];
+    if (!request) return null;
+
+    const answer = (action: 'launch' | 'cancel') => {
+        window.ipcRenderer.send('mod-check-consent', request.instanceId, action);
+        setRequests(prev => {
+            const { [request.instanceId]: _, ...rest } = prev;
+            return rest;
+        });
+    };
+
+    return (
+        <ModCheckModal
+            key={request.instanceId}
+            instanceId={request.instanceId}
+            initial={request}
+            onLaunch={() => answer('launch')}
+            onClose={() => answer('cancel')}
+        />
+    );
+};
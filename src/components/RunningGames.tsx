@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, Maximize2, Square } from 'lucide-react';
+import styles from './RunningGames.module.css';
+import { LaunchApi } from '../api/launch';
+import { InstanceApi } from '../api/instances';
+import { useRunningGames } from '../context/RunningGamesContext';
+import { useConfirm } from '../context/ConfirmContext';
+import { useToast } from '../context/ToastContext';
+
+const formatUptime = (startTime: number, now: number) => {
+    const minutes = Math.floor((now - startTime) / 60000);
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+/**
+ * Floating list of running games with focus and stop controls. Hidden while nothing runs.
+ */
+export const RunningGames: React.FC = () => {
+    const { running } = useRunningGames();
+    const confirm = useConfirm();
+    const { showToast } = useToast();
+    const [expanded, setExpanded] = useState(false);
+    const [names, setNames] = useState<Record<string, string>>({});
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        if (running.length === 0) return;
+        InstanceApi.list()
+            .then(list => setNames(Object.fromEntries(list.map(i => [i.id, i.name]))))
+            .catch(e => console.error('[RunningGames] Failed to load instance names', e));
+
+        const timer = setInterval(() => setNow(Date.now()), 30000);
+        return () => clearInterval(timer);
+    }, [running.length]);
+
+    if (running.length === 0) return null;
+
+    const handleFocus = async (instanceId: string) => {
+        const result = await LaunchApi.focus(instanceId);
+        if (!result.success) showToast(result.error || 'Could not focus the game', 'warning');
+    };
+
+    const handleKill = async (instanceId: string) => {
+        const ok = await confirm('Stop Game?', `${names[instanceId] || instanceId} will be closed without saving.`, { confirmLabel: 'Stop', isDanger: true });
+        if (!ok) return;
+
+        const result = await LaunchApi.kill(instanceId);
+        if (!result.success) showToast(`Failed to stop game: ${result.error}`, 'error');
+    };
+
+    return (
+        <div className={styles.panel}>
+            <button className={styles.header} onClick={() => setExpanded(!expanded)}>
+                <span className={styles.dot} />
+                {running.length === 1 ? `${names[running[0].instanceId] || running[0].instanceId} is running` : `${running.length} games running`}
+                <ChevronDown size={14} className={expanded ? styles.flipped : ''} />
+            </button>
+
+            {expanded && (
+                <div className={styles.list}>
+                    {running.map(game => (
+                        <div key={game.instanceId} className={styles.item}>
+                            <div className={styles.info}>
+                                <span className={styles.name}>{names[game.instanceId] || game.instanceId}</span>
+                                <span className={styles.meta}>{game.versionId} · {formatUptime(game.startTime, now)} · PID {game.pid}</span>
+                            </div>
+                            <button className={styles.iconBtn} onClick={() => handleFocus(game.instanceId)} title="Bring to front">
+                                <Maximize2 size={14} />
+                            </button>
+                            <button className={`${styles.iconBtn} ${styles.danger}`} onClick={() => handleKill(game.instanceId)} title="Stop">
+                                <Square size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
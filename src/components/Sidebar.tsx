@@ -1,6 +1,6 @@
 import React from 'react';
 import styles from './Sidebar.module.css';
-import { Home, Settings, FolderOpen, Package, Image, LogOut, Newspaper, Code, ShieldAlert, User } from 'lucide-react';
+import { Home, Settings, FolderOpen, Package, Image, LogOut, Newspaper, Code, ShieldAlert, User, BarChart3 } from 'lucide-react';
 import logo from '../assets/logo.png';
 import { UserAvatar } from './UserAvatar';
 import { useAuth } from '../context/AuthContext';
@@ -47,6 +47,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, user,
             tabs: [
                 { id: 'library', label: 'Library', icon: Package },
                 { id: 'screenshots', label: 'Screenshots', icon: Image },
+                { id: 'stats', label: 'Statistics', icon: BarChart3 },
             ]
         },
         {
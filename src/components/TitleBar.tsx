@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import styles from './TitleBar.module.css';
 import { Minus, Square, X, Copy } from 'lucide-react';
 import { SystemService } from '../services/SystemService';
+import { DownloadsPanel } from './DownloadsPanel';
 
 export const TitleBar: React.FC = () => {
     const [isMaximized, setIsMaximized] = useState(false);
@@ -67,6 +68,8 @@ export const TitleBar: React.FC = () => {
                     </button>
                 </div>
 
+                <DownloadsPanel />
+
                 <div className={styles.separator} />
 
                 <div className={styles.windowControls}>
@@ -0,0 +1,46 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+
+// Instances without a group match this filter value
+export const UNGROUPED = '__ungrouped__';
+
+interface InstanceGroupContextType {
+    groupFilter: string | null;
+    setGroupFilter: (group: string | null) => void;
+    filterByGroup: <T extends { group?: string }>(instances: T[]) => T[];
+}
+
+const InstanceGroupContext = createContext<InstanceGroupContextType | undefined>(undefined);
+
+/**
+ * Shares the selected instance group between every page that lists instances, and remembers it
+ * across restarts.
+ */
+export const InstanceGroupProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [groupFilter, setGroupFilter] = useState<string | null>(() => localStorage.getItem('whoap-instance-group'));
+
+    useEffect(() => {
+        if (groupFilter) localStorage.setItem('whoap-instance-group', groupFilter);
+        else localStorage.removeItem('whoap-instance-group');
+    }, [groupFilter]);
+
+    const filterByGroup = useCallback(<T extends { group?: string }>(instances: T[]): T[] => {
+        if (!groupFilter) return instances;
+        const matches = instances.filter(i => groupFilter === UNGROUPED ? !i.group : i.group === groupFilter);
+        // A group that no longer exists (renamed or emptied) shouldn't hide everything
+        return matches.length > 0 ? matches : instances;
+    }, [groupFilter]);
+
+    return (
+        <InstanceGroupContext.Provider value={{ groupFilter, setGroupFilter, filterByGroup }}>
+            {children}
+        </InstanceGroupContext.Provider>
+    );
+};
+
+export const useInstanceGroups = () => {
+    const context = useContext(InstanceGroupContext);
+    if (!context) {
+        throw new Error('useInstanceGroups must be used within an InstanceGroupProvider');
+    }
+    return context;
+};
@@ -0,0 +1,44 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { LaunchApi, RunningGame } from '../api/launch';
+
+interface RunningGamesContextType {
+    running: RunningGame[];
+    isRunning: (instanceId: string) => boolean;
+}
+
+const RunningGamesContext = createContext<RunningGamesContextType | undefined>(undefined);
+
+/**
+ * Mirrors the main process's list of running games; it pushes `game:running-changed` on every change.
+ */
+export const RunningGamesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [running, setRunning] = useState<RunningGame[]>([]);
+
+    useEffect(() => {
+        LaunchApi.listRunning()
+            .then(setRunning)
+            .catch(e => console.error('[RunningGames] Failed to list running games', e));
+
+        const handleChange = (_: any, games: RunningGame[]) => setRunning(games);
+        window.ipcRenderer.on('game:running-changed', handleChange);
+        return () => {
+            window.ipcRenderer.off('game:running-changed', handleChange);
+        };
+    }, []);
+
+    const isRunning = useCallback((instanceId: string) => running.some(g => g.instanceId === instanceId), [running]);
+
+    return (
+        <RunningGamesContext.Provider value={{ running, isRunning }}>
+            {children}
+        </RunningGamesContext.Provider>
+    );
+};
+
+export const useRunningGames = () => {
+    const context = useContext(RunningGamesContext);
+    if (!context) {
+        throw new Error('useRunningGames must be used within a RunningGamesProvider');
+    }
+    return context;
+};
@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { TitleBar } from '../components/TitleBar';
 import { Sidebar } from '../components/Sidebar';
-import { CrashReportModal } from '../components/CrashReportModal';
+import { CrashReport, CrashReportModal } from '../components/CrashReportModal';
+import { RunningGames } from '../components/RunningGames';
+import { InstanceApi } from '../api/instances';
+import { LaunchApi } from '../api/launch';
+import { useToast } from '../context/ToastContext';
 import styles from './MainLayout.module.css';
 import bgImage from '../assets/bg.jpg';
 
@@ -18,14 +22,17 @@ interface MainLayoutProps {
 }
 
 export const MainLayout: React.FC<MainLayoutProps> = ({ children, activeTab, onTabChange, user, onLogout }) => {
-    const [crashReport, setCrashReport] = useState<any>(null);
+    const [crashReport, setCrashReport] = useState<CrashReport | null>(null);
     const [crashLog, setCrashLog] = useState('');
+    const [crashInstanceId, setCrashInstanceId] = useState<string | null>(null);
+    const { showToast } = useToast();
 
     useEffect(() => {
         const handleCrash = (_event: any, data: any) => {
             console.log("Crash event received", data);
             setCrashReport(data.report);
             setCrashLog(data.log);
+            setCrashInstanceId(data.instanceId ?? null);
         };
 
         window.ipcRenderer.on('launch:crash', handleCrash);
@@ -34,6 +41,31 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ children, activeTab, onT
         };
     }, []);
 
+    const handleDisableMod = async (file: string) => {
+        if (!crashInstanceId) return;
+
+        const toggled = await window.ipcRenderer.invoke('mods:toggle', crashInstanceId, file);
+        if (!toggled?.success) {
+            showToast(`Could not disable ${file}: ${toggled?.error ?? 'unknown error'}`, 'error');
+            return;
+        }
+
+        const instance = (await InstanceApi.list()).find(i => i.id === crashInstanceId);
+        if (!instance) {
+            showToast(`${file} disabled. The instance could not be found to relaunch it.`, 'error');
+            return;
+        }
+
+        setCrashReport(null);
+        showToast(`${file} disabled, relaunching ${instance.name}...`, 'info');
+        const result = await LaunchApi.launch(instance, user);
+        if (!result.success) {
+            if (!result.cancelled) showToast(`Launch Failed: ${result.error}`, 'error');
+        } else {
+            await InstanceApi.updateLastPlayed(instance.id);
+        }
+    };
+
     return (
         <div className={styles.layout}>
             <div className={styles.background} style={{ backgroundImage: `url(${bgImage})` }}></div>
@@ -45,6 +77,7 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ children, activeTab, onT
 
                 <main className={styles.content}>
                     {children}
+                    <RunningGames />
                 </main>
             </div>
 
@@ -53,6 +86,7 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ children, activeTab, onT
                     report={crashReport}
                     log={crashLog}
                     onClose={() => setCrashReport(null)}
+                    onDisableMod={crashInstanceId ? handleDisableMod : undefined}
                 />
             )}
         </div>
@@ -5,15 +5,31 @@ import './styles/index.css'
 import { ToastProvider } from './context/ToastContext'
 import { ConfirmProvider } from './context/ConfirmContext'
 import { AuthProvider } from './context/AuthContext'
+import { InstanceGroupProvider } from './context/InstanceGroupContext'
+import { RunningGamesProvider } from './context/RunningGamesContext'
+import { LogViewer } from './components/LogViewer'
+
+// Game log windows load this same bundle with ?view=log&instance=<id>
+const params = new URLSearchParams(window.location.search);
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
-    <React.StrictMode>
-        <ToastProvider>
-            <ConfirmProvider>
-                <AuthProvider>
-                    <App />
-                </AuthProvider>
-            </ConfirmProvider>
-        </ToastProvider>
-    </React.StrictMode>,
+    params.get('view') === 'log' ? (
+        <React.StrictMode>
+            <LogViewer instanceId={params.get('instance') || ''} />
+        </React.StrictMode>
+    ) : (
+        <React.StrictMode>
+            <ToastProvider>
+                <ConfirmProvider>
+                    <AuthProvider>
+                        <InstanceGroupProvider>
+                            <RunningGamesProvider>
+                                <App />
+                            </RunningGamesProvider>
+                        </InstanceGroupProvider>
+                    </AuthProvider>
+                </ConfirmProvider>
+            </ToastProvider>
+        </React.StrictMode>
+    ),
 )
@@ -1,14 +1,18 @@
 import React from 'react';
 import { PageHeader } from '../components/PageHeader';
 import styles from './Home.module.css';
-import { InstanceApi, Instance } from '../api/instances';
+import { InstanceApi, Instance, OfflineReadiness, getInstanceIconUrl } from '../api/instances';
 import { LaunchApi } from '../api/launch';
+import { DownloadApi } from '../api/downloads';
 import { NetworkApi, ServerStatus } from '../api/network';
 import { ChevronDown, Rocket, Clock, Layers, Star, Globe, Search, Wifi, WifiOff, Users as UsersIcon, Copy, Check, X } from 'lucide-react';
 import heroBg from '../assets/background.png';
 import loginBg from '../assets/login_bg.png';
 import { useToast } from '../context/ToastContext';
 import { useAnimation } from '../context/AnimationContext';
+import { useInstanceGroups } from '../context/InstanceGroupContext';
+import { useRunningGames } from '../context/RunningGamesContext';
+import { InstanceGroupFilter } from '../components/InstanceGroupFilter';
 import { SkinViewer3D } from '../components/SkinViewer3D';
 import { CreateInstanceModal } from '../components/CreateInstanceModal';
 import { ServerService, FeaturedServer } from '../services/ServerService';
@@ -34,6 +38,8 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
     const [isVisible, setIsVisible] = React.useState(false);
     const { showToast } = useToast();
     const { animationsEnabled } = useAnimation();
+    const { filterByGroup } = useInstanceGroups();
+    const { isRunning } = useRunningGames();
 
     // Launch State
     const [isLaunching, setIsLaunching] = React.useState(false);
@@ -50,12 +56,24 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
     const [featuredStatuses, setFeaturedStatuses] = React.useState<Record<string, ServerStatus>>({});
     const [copiedServerId, setCopiedServerId] = React.useState<string | null>(null);
 
+    // Offline readiness, checked per instance while offline mode is on or the network is down
+    const [offlineMode, setOfflineMode] = React.useState(false);
+    const [offlineStatus, setOfflineStatus] = React.useState<Record<string, OfflineReadiness>>({});
+    const [isOnline, setIsOnline] = React.useState(navigator.onLine);
+    // Bumped whenever files may have changed on disk (launch, repair, finished download) or the network did
+    const [offlineGeneration, setOfflineGeneration] = React.useState(0);
+    // Generation each instance was last checked in
+    const offlineCheckedRef = React.useRef(new Map<string, number>());
+
     // Skin Selector State
     const [showSkinModal, setShowSkinModal] = React.useState(false);
     const [tempSkin, setTempSkin] = React.useState((user as any).preferredSkin || user.name);
 
     React.useEffect(() => {
         const loadData = async () => {
+            const config = await window.ipcRenderer.invoke('config:get');
+            setOfflineMode(!!config.offlineMode);
+
             const list = await InstanceApi.list();
             setInstances(list);
             if (list.length > 0) {
@@ -94,6 +112,66 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
         }
     }, []);
 
+    React.useEffect(() => {
+        const handleConnectivity = () => {
+            setIsOnline(navigator.onLine);
+            setOfflineGeneration(g => g + 1);
+        };
+        window.addEventListener('online', handleConnectivity);
+        window.addEventListener('offline', handleConnectivity);
+
+        // Launch, repair and install downloads all go through the download queue
+        const completed = new Set<string>();
+        const unsubscribe = DownloadApi.onUpdate(snapshot => {
+            let finished = false;
+            for (const job of snapshot.jobs) {
+                if (job.status === 'completed' && !completed.has(job.id)) {
+                    completed.add(job.id);
+                    finished = true;
+                }
+            }
+            if (finished) setOfflineGeneration(g => g + 1);
+        });
+
+        return () => {
+            window.removeEventListener('online', handleConnectivity);
+            window.removeEventListener('offline', handleConnectivity);
+            unsubscribe();
+        };
+    }, []);
+
+    React.useEffect(() => {
+        if (!offlineMode && isOnline) return;
+
+        const toCheck = [...instances]
+            .sort((a, b) => (b.lastPlayed || 0) - (a.lastPlayed || 0))
+            .slice(0, 4);
+        if (selectedInstance && !toCheck.some(i => i.id === selectedInstance.id)) toCheck.push(selectedInstance);
+
+        let cancelled = false;
+        (async () => {
+            // One at a time; each check walks the instance's asset index
+            for (const inst of toCheck) {
+                if (cancelled) return;
+                if (offlineCheckedRef.current.get(inst.id) === offlineGeneration) continue;
+                const status = await InstanceApi.checkOfflineReady(inst);
+                if (cancelled) return;
+                offlineCheckedRef.current.set(inst.id, offlineGeneration);
+                setOfflineStatus(prev => ({ ...prev, [inst.id]: status }));
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [instances, selectedInstance, offlineMode, isOnline, offlineGeneration]);
+
+    const describeOffline = (status: OfflineReadiness) => {
+        const assets = status.missing.filter(m => m.kind === 'asset').length;
+        const blocking = status.missing.filter(m => m.kind !== 'asset');
+        if (status.ready) {
+            return assets > 0 ? `Playable offline (${assets} assets missing)` : 'Playable offline';
+        }
+        return `Not playable offline: ${blocking.length} missing`;
+    };
+
     // Animation entrance effect
     React.useEffect(() => {
         if (animationsEnabled) {
@@ -120,7 +198,7 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
     };
 
     const handleLaunch = async () => {
-        if (!selectedInstance || isLaunching) return;
+        if (!selectedInstance || isLaunching || isRunning(selectedInstance.id)) return;
 
         setIsLaunching(true);
         setLaunchStatus('Preparing launch...');
@@ -128,8 +206,11 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
 
         try {
             const result = await LaunchApi.launch(selectedInstance, user);
+            // Even a failed launch may have downloaded missing files
+            setOfflineGeneration(g => g + 1);
             if (!result.success) {
-                showToast(`Launch Failed: ${result.error}`, 'error');
+                // Cancelled from the mod check; nothing went wrong
+                if (!result.cancelled) showToast(`Launch Failed: ${result.error}`, 'error');
                 setIsLaunching(false);
             } else {
                 // Update Last Played
@@ -197,7 +278,8 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
     };
 
     // Computed Lists
-    const recentInstances = [...instances]
+    const groupInstances = filterByGroup(instances);
+    const recentInstances = [...groupInstances]
         .sort((a, b) => (b.lastPlayed || 0) - (a.lastPlayed || 0))
         // Deduplicate just in case
         .filter((v, i, a) => a.findIndex(t => t.id === v.id) === i)
@@ -206,9 +288,10 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
     const mostRecentInstance = recentInstances.length > 0 ? recentInstances[0] : null;
     const activeInstance = selectedInstance || mostRecentInstance;
 
-    const filteredInstances = instances.filter(i =>
+    const filteredInstances = groupInstances.filter(i =>
         i.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        i.version.toLowerCase().includes(searchQuery.toLowerCase())
+        i.version.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        i.tags?.some(t => t.toLowerCase().includes(searchQuery.toLowerCase()))
     );
 
 
@@ -290,6 +373,8 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
                                     </div>
                                 </div>
 
+                                <InstanceGroupFilter instances={instances} compact />
+
                                 {showSearch && (
                                     <div className={styles.searchContainer}>
                                         <input
@@ -329,6 +414,7 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
                                                 <div className={styles.instanceName}>{inst.name}</div>
                                                 <div style={{ fontSize: '11px', color: '#666', marginTop: 2 }}>
                                                     {inst.version}
+                                                    {isRunning(inst.id) && <span style={{ color: '#22c55e' }}> · Running</span>}
                                                 </div>
                                             </div>
                                             <div onClick={(e) => handleToggleFavorite(e, inst)} style={{ flexShrink: 0 }}>
@@ -352,6 +438,20 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
                         )}
                     </div>
 
+                    {selectedInstance && offlineStatus[selectedInstance.id] && (offlineMode || !isOnline) && (
+                        <div
+                            className={`${styles.offlineChip} ${offlineStatus[selectedInstance.id].ready ? styles.offlineReady : styles.offlineBlocked}`}
+                            title={offlineStatus[selectedInstance.id].missing
+                                .filter(m => m.kind !== 'asset')
+                                .slice(0, 10)
+                                .map(m => `${m.kind}: ${m.name}`)
+                                .join('\n')}
+                        >
+                            <WifiOff size={14} />
+                            <span>{describeOffline(offlineStatus[selectedInstance.id])}</span>
+                        </div>
+                    )}
+
                     {selectedInstance && (
                         <div className={styles.lastPlayed}>
                             <Clock size={14} color="#aaa" />
@@ -374,7 +474,7 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
                                     handleLaunch();
                                 }
                             }}
-                            disabled={isLaunching || (!selectedInstance && instances.length > 0)}
+                            disabled={isLaunching || (!selectedInstance && instances.length > 0) || (!!selectedInstance && isRunning(selectedInstance.id))}
                             data-testid="home-launch-button"
                         >
                             {isLaunching ? (
@@ -393,7 +493,7 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
                             ) : (
                                 <>
                                     <Rocket size={20} style={{ marginRight: 8 }} />
-                                    {instances.length === 0 ? 'CREATE PROFILE' : selectedInstance ? 'LAUNCH' : 'SELECT PROFILE'}
+                                    {instances.length === 0 ? 'CREATE PROFILE' : !selectedInstance ? 'SELECT PROFILE' : isRunning(selectedInstance.id) ? 'RUNNING' : 'LAUNCH'}
                                 </>
                             )}
                         </button>
@@ -658,6 +758,7 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
                     {recentInstances.map((inst, index) => {
                         const loaderClass = styles[`miniLoader${inst.loader.charAt(0).toUpperCase() + inst.loader.slice(1).toLowerCase()}`] || styles.miniLoaderVanilla;
                         const isSelected = selectedInstance?.id === inst.id;
+                        const iconUrl = getInstanceIconUrl(inst);
 
                         return (
                             <div
@@ -667,11 +768,11 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
                                 style={animationsEnabled ? { animationDelay: `${index * 80}ms` } : undefined}
                             >
                                 <div className={styles.miniIcon} style={{
-                                    background: inst.isFavorite
+                                    background: inst.isFavorite && !iconUrl
                                         ? 'linear-gradient(135deg, #ff8800, #ff4400)'
                                         : undefined
                                 }}>
-                                    {inst.name.charAt(0).toUpperCase()}
+                                    {iconUrl ? <img src={iconUrl} alt="" /> : inst.name.charAt(0).toUpperCase()}
                                 </div>
                                 <div className={styles.miniInfo}>
                                     <div className={styles.miniName}>{inst.name}</div>
@@ -682,6 +783,17 @@ export const Home: React.FC<HomeProps> = ({ user, setUser, onNavigate }) => {
                                         {inst.version}
                                     </div>
                                 </div>
+                                {isRunning(inst.id) && (
+                                    <span className={styles.miniRunning} title="Running" />
+                                )}
+                                {offlineStatus[inst.id] && (offlineMode || !isOnline) && (
+                                    <span
+                                        className={`${styles.miniOffline} ${offlineStatus[inst.id].ready ? '' : styles.miniOfflineBlocked}`}
+                                        title={describeOffline(offlineStatus[inst.id])}
+                                    >
+                                        <WifiOff size={14} />
+                                    </span>
+                                )}
                                 <div onClick={(e) => handleToggleFavorite(e, inst)} style={{ cursor: 'pointer', opacity: inst.isFavorite ? 1 : 0.4 }}>
                                     <Star size={14} fill={inst.isFavorite ? "#ffaa00" : "none"} color={inst.isFavorite ? "#ffaa00" : "#666"} />
                                 </div>
@@ -2,9 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { useToast } from '../context/ToastContext';
 import { useConfirm } from '../context/ConfirmContext';
 import styles from './InstanceMods.module.css';
-import { ChevronLeft, Trash2, Plus, Package, Power, Lock } from 'lucide-react';
+import { ChevronLeft, Trash2, Plus, Package, Power, Lock, ShieldCheck } from 'lucide-react';
 import { Skeleton } from '../components/Skeleton';
 import { ContentBrowser } from '../components/ContentBrowser';
+import { ModCheckModal } from '../components/ModCheckModal';
+import { InstalledMod, ModsApi } from '../api/mods';
 
 interface InstanceModsProps {
     instanceId: string;
@@ -13,18 +15,20 @@ interface InstanceModsProps {
     hideHeader?: boolean;
 }
 
-interface InstalledItem {
-    name: string;
-    path: string;
-    size: number;
-    isEnabled: boolean;
-}
+// Display name from the jar's metadata, or the file name without extensions
+const displayName = (item: InstalledMod) => item.metadata?.name || item.name.replace('.disabled', '').replace('.jar', '');
+
+const matchesQuery = (item: InstalledMod, query: string) => {
+    const q = query.toLowerCase();
+    return [item.name, item.metadata?.name, item.metadata?.id].some(text => text?.toLowerCase().includes(q));
+};
 
 export const InstanceMods: React.FC<InstanceModsProps> = ({ instanceId, onBack, hideBackButton, hideHeader }) => {
-    const [installedItems, setInstalledItems] = useState<InstalledItem[]>([]);
+    const [installedItems, setInstalledItems] = useState<InstalledMod[]>([]);
     const [installedSearchQuery, setInstalledSearchQuery] = useState('');
     const [loading, setLoading] = useState(false);
     const [showBrowser, setShowBrowser] = useState(false);
+    const [showCheck, setShowCheck] = useState(false);
 
     const { showToast } = useToast();
     const confirm = useConfirm();
@@ -75,7 +79,7 @@ export const InstanceMods: React.FC<InstanceModsProps> = ({ instanceId, onBack,
     const loadInstalledItems = async () => {
         setLoading(true);
         try {
-            const list = await window.ipcRenderer.invoke(`${config.ipcPrefix}:list`, instanceId);
+            const list = await ModsApi.list(instanceId);
             setInstalledItems(list);
         } catch (e) {
             console.error(e);
@@ -88,7 +92,7 @@ export const InstanceMods: React.FC<InstanceModsProps> = ({ instanceId, onBack,
         setShowBrowser(true);
     };
 
-    const handleToggle = async (item: InstalledItem) => {
+    const handleToggle = async (item: InstalledMod) => {
         setInstalledItems(prev => prev.map(m =>
             m.name === item.name ? { ...m, isEnabled: !m.isEnabled } : m
         ));
@@ -104,10 +108,10 @@ export const InstanceMods: React.FC<InstanceModsProps> = ({ instanceId, onBack,
         }
     };
 
-    const handleDelete = async (item: InstalledItem) => {
+    const handleDelete = async (item: InstalledMod) => {
         const shouldDelete = await confirm(
             `Delete Mod?`,
-            `Delete ${item.name}?`,
+            item.metadata ? `Delete ${item.metadata.name} (${item.name})?` : `Delete ${item.name}?`,
             { confirmLabel: 'Delete', isDanger: true }
         );
         if (shouldDelete) {
@@ -151,6 +155,10 @@ export const InstanceMods: React.FC<InstanceModsProps> = ({ instanceId, onBack,
                     value={installedSearchQuery}
                     onChange={(e) => setInstalledSearchQuery(e.target.value)}
                 />
+                <button className={styles.checkBtn} onClick={() => setShowCheck(true)} title="Check for missing dependencies and conflicts">
+                    <ShieldCheck size={18} />
+                    <span>Check</span>
+                </button>
                 {(instanceMeta?.isImported || !instanceMeta?.isValidVersion) ? (
                     <button className={`${styles.addModBtn} ${styles.lockedBtn}`} disabled title={instanceMeta?.isImported ? "Not available for imported instances" : "Invalid Minecraft version"}>
                         <Lock size={18} />
@@ -174,19 +182,28 @@ export const InstanceMods: React.FC<InstanceModsProps> = ({ instanceId, onBack,
                 ) : (
                     <div className={styles.modList}>
                         {installedItems.length === 0 && <div style={{ color: '#888', padding: 20 }}>No mods installed.</div>}
-                        {installedItems.filter(m => m.name.toLowerCase().includes(installedSearchQuery.toLowerCase())).map(item => (
-                            <div key={item.name} className={`${styles.modCard} ${!item.isEnabled ? styles.disabled : ''}`}>
+                        {installedItems.filter(m => matchesQuery(m, installedSearchQuery)).map(item => (
+                            <div key={item.name} className={`${styles.modCard} ${!item.isEnabled ? styles.disabled : ''}`} title={item.metadata?.description}>
                                 <div className={styles.modIconWrapper}>
-                                    <Package size={24} />
+                                    {item.metadata?.icon ? (
+                                        <img src={item.metadata.icon} alt="" className={styles.modIcon} />
+                                    ) : (
+                                        <Package size={24} />
+                                    )}
                                 </div>
                                 <div className={styles.modDetails}>
                                     <div className={styles.modName}>
-                                        {item.name.replace('.jar', '').replace('.disabled', '')}
+                                        {displayName(item)}
+                                        {item.metadata?.version && <span className={styles.modVersion}>{item.metadata.version}</span>}
                                     </div>
                                     <div className={styles.modMeta}>
                                         <span className={`${styles.statusPill} ${item.isEnabled ? styles.enabled : ''}`}>
                                             {item.isEnabled ? 'Enabled' : 'Disabled'}
                                         </span>
+                                        {item.metadata && item.metadata.authors.length > 0 && (
+                                            <span className={styles.modAuthors}>by {item.metadata.authors.join(', ')}</span>
+                                        )}
+                                        {item.metadata && <span className={styles.modFile}>{item.name}</span>}
                                         <span className={styles.modSize}>{(item.size / 1024).toFixed(1)} KB</span>
                                     </div>
                                 </div>
@@ -223,6 +240,15 @@ export const InstanceMods: React.FC<InstanceModsProps> = ({ instanceId, onBack,
                     }}
                 />
             )}
+            {showCheck && (
+                <ModCheckModal
+                    instanceId={instanceId}
+                    onClose={() => {
+                        setShowCheck(false);
+                        loadInstalledItems();
+                    }}
+                />
+            )}
         </div>
     );
 };
@@ -1,15 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { PageHeader } from '../components/PageHeader';
-import { Settings, RefreshCw, FolderOpen, Clock, Star, Library } from 'lucide-react';
-import { Instance, InstanceApi } from '../api/instances';
+import { Settings, RefreshCw, FolderOpen, Clock, Star, Library, Trash2 } from 'lucide-react';
+import { Instance, InstanceApi, InstanceStats, formatPlaytime, getInstanceIconUrl } from '../api/instances';
 import { CreateInstanceModal } from '../components/CreateInstanceModal';
 import { InstanceSettingsModal } from '../components/InstanceSettingsModal';
 import { ProcessingModal } from '../components/ProcessingModal';
+import { DeletedInstancesModal } from '../components/DeletedInstancesModal';
 import styles from './Instances.module.css';
 import { AccountManager } from '../utils/AccountManager';
 import { CloudManager } from '../utils/CloudManager';
 import { Skeleton } from '../components/Skeleton';
 import { useToast } from '../context/ToastContext';
+import { useInstanceGroups } from '../context/InstanceGroupContext';
+import { useRunningGames } from '../context/RunningGamesContext';
+import { InstanceGroupFilter } from '../components/InstanceGroupFilter';
 
 interface InstancesProps {
     onSelectInstance?: (instance: Instance) => void;
@@ -22,7 +26,12 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
     const [loading, setLoading] = useState(true);
     const [settingsInstance, setSettingsInstance] = useState<Instance | null>(null);
     const [processing, setProcessing] = useState<{ message: string; subMessage?: string; progress?: number } | null>(null);
+    const [dragOverId, setDragOverId] = useState<string | null>(null);
+    const [showDeleted, setShowDeleted] = useState(false);
+    const [stats, setStats] = useState<Record<string, InstanceStats>>({});
     const { showToast } = useToast();
+    const { filterByGroup } = useInstanceGroups();
+    const { isRunning } = useRunningGames();
 
     const loadInstances = async () => {
         setLoading(true);
@@ -45,6 +54,9 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
             }
 
             setInstances(finalInstances);
+
+            const allStats = await InstanceApi.getAllStats();
+            setStats(Object.fromEntries(allStats.map(s => [s.instanceId, s])));
         } catch (e) {
             console.error(e);
         } finally {
@@ -64,6 +76,24 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
         }
     };
 
+    // Moves the dragged instance to the drop target's place in the full list, then saves the order
+    const handleDrop = async (draggedId: string, targetId: string) => {
+        if (draggedId === targetId) return;
+        const from = instances.findIndex(i => i.id === draggedId);
+        const to = instances.findIndex(i => i.id === targetId);
+        if (from === -1 || to === -1) return;
+
+        const reordered = [...instances];
+        const [moved] = reordered.splice(from, 1);
+        reordered.splice(to, 0, moved);
+        setInstances(reordered);
+
+        const result = await InstanceApi.reorder(reordered.filter(i => i.type === 'created').map(i => i.id));
+        if (!result.success) showToast(`Failed to save order: ${result.error}`, 'error');
+    };
+
+    const visibleInstances = filterByGroup(instances);
+
     useEffect(() => {
         loadInstances();
 
@@ -84,7 +114,11 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
             />
 
             <div className={styles.header}>
+                <InstanceGroupFilter instances={instances} />
                 <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginLeft: 'auto' }}>
+                    <button className={styles.refreshBtn} onClick={() => setShowDeleted(true)} title="Recently Deleted">
+                        <Trash2 size={20} />
+                    </button>
                     <button className={styles.refreshBtn} onClick={loadInstances} title="Refresh List">
                         <RefreshCw size={20} />
                     </button>
@@ -133,7 +167,7 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
                         </button>
                     </div>
                 ) : (
-                    instances.map(instance => {
+                    visibleInstances.map(instance => {
                         const loaderClass = styles[`loader${instance.loader.charAt(0).toUpperCase() + instance.loader.slice(1).toLowerCase()}`] || styles.loaderVanilla;
 
                         const formatRelativeTime = (timestamp: number) => {
@@ -149,14 +183,38 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
                             return 'Just now';
                         };
 
+                        const iconUrl = getInstanceIconUrl(instance);
+                        const canDrag = instance.type === 'created';
+
                         return (
-                            <div key={instance.id} className={styles.instanceCard} onClick={() => onSelectInstance?.(instance)}>
+                            <div
+                                key={instance.id}
+                                className={`${styles.instanceCard} ${dragOverId === instance.id ? styles.dragOver : ''}`}
+                                onClick={() => onSelectInstance?.(instance)}
+                                draggable={canDrag}
+                                onDragStart={(e) => {
+                                    e.dataTransfer.effectAllowed = 'move';
+                                    e.dataTransfer.setData('text/plain', instance.id);
+                                }}
+                                onDragOver={(e) => {
+                                    if (!canDrag) return;
+                                    e.preventDefault();
+                                    e.dataTransfer.dropEffect = 'move';
+                                    setDragOverId(instance.id);
+                                }}
+                                onDragLeave={() => setDragOverId(prev => prev === instance.id ? null : prev)}
+                                onDrop={(e) => {
+                                    e.preventDefault();
+                                    setDragOverId(null);
+                                    handleDrop(e.dataTransfer.getData('text/plain'), instance.id);
+                                }}
+                            >
                                 <div className={styles.instanceIcon} style={{
-                                    background: instance.isFavorite
+                                    background: instance.isFavorite && !iconUrl
                                         ? 'linear-gradient(135deg, #ff8800, #ff4400)'
                                         : undefined
                                 }}>
-                                    {instance.name.charAt(0).toUpperCase()}
+                                    {iconUrl ? <img src={iconUrl} alt="" /> : instance.name.charAt(0).toUpperCase()}
                                 </div>
                                 <div className={styles.instanceInfo}>
                                     <div className={styles.instanceName}>{instance.name}</div>
@@ -165,11 +223,24 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
                                             {instance.loader || 'Vanilla'}
                                         </span>
                                         <span>{instance.version}</span>
+                                        {isRunning(instance.id) && (
+                                            <span className={styles.runningLabel}>Running</span>
+                                        )}
                                     </div>
                                     <div className={styles.timeInfo}>
                                         <Clock size={12} />
                                         <span>{formatRelativeTime(instance.lastPlayed)}</span>
+                                        {stats[instance.id]?.totalPlaytimeMs > 0 && (
+                                            <span title={`${stats[instance.id].sessionCount} sessions`}>
+                                                · {formatPlaytime(stats[instance.id].totalPlaytimeMs)} played
+                                            </span>
+                                        )}
                                     </div>
+                                    {instance.tags && instance.tags.length > 0 && (
+                                        <div className={styles.tags}>
+                                            {instance.tags.map(tag => <span key={tag} className={styles.tag}>{tag}</span>)}
+                                        </div>
+                                    )}
                                 </div>
 
                                 {instance.isFavorite && (
@@ -225,6 +296,13 @@ export const Instances: React.FC<InstancesProps> = ({ onSelectInstance, onNaviga
                 />
             )}
 
+            {showDeleted && (
+                <DeletedInstancesModal
+                    onClose={() => setShowDeleted(false)}
+                    onRestored={loadInstances}
+                />
+            )}
+
             {processing && (
                 <ProcessingModal
                     message={processing.message}
@@ -8,6 +8,8 @@ import { ModpackBrowser } from './ModpackBrowser';
 import { PageHeader } from '../components/PageHeader';
 import { Instance, InstanceApi } from '../api/instances';
 import styles from './Library.module.css';
+import { useInstanceGroups } from '../context/InstanceGroupContext';
+import { InstanceGroupFilter } from '../components/InstanceGroupFilter';
 
 // Ideally use proper User type
 interface LibraryProps {
@@ -23,6 +25,7 @@ export const Library: React.FC<LibraryProps> = ({ preselectedInstanceId: externa
     const [instances, setInstances] = useState<Instance[]>([]);
     const [selectedInstanceId, setSelectedInstanceId] = useState<string | null>(null);
     const [showInstanceDropdown, setShowInstanceDropdown] = useState(false);
+    const { filterByGroup } = useInstanceGroups();
 
     useEffect(() => {
         loadInstances();
@@ -90,10 +93,11 @@ export const Library: React.FC<LibraryProps> = ({ preselectedInstanceId: externa
                                 <>
                                     <div className={styles.dropdownBackdrop} onClick={() => setShowInstanceDropdown(false)} />
                                     <div className={styles.instanceDropdown}>
+                                        <InstanceGroupFilter instances={instances} compact />
                                         {instances.length === 0 ? (
                                             <div className={styles.dropdownEmpty}>No instances found</div>
                                         ) : (
-                                            instances.map(inst => (
+                                            filterByGroup(instances).map(inst => (
                                                 <div
                                                     key={inst.id}
                                                     className={`${styles.dropdownItem} ${inst.id === selectedInstanceId ? styles.selectedItem : ''}`}
@@ -5,6 +5,8 @@ import { Search, Cuboid, ChevronRight, Package, Box } from 'lucide-react';
 import { PageHeader } from '../components/PageHeader';
 import { InstanceMods } from './InstanceMods';
 import { Skeleton } from '../components/Skeleton';
+import { InstanceGroupFilter } from '../components/InstanceGroupFilter';
+import { useInstanceGroups } from '../context/InstanceGroupContext';
 
 interface ModsManagerProps {
     user?: any;
@@ -17,6 +19,7 @@ export const ModsManager: React.FC<ModsManagerProps> = ({ hideHeader, instanceId
     const [localSelectedId, setLocalSelectedId] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
     const [search, setSearch] = useState('');
+    const { filterByGroup } = useInstanceGroups();
 
     // Use passed instanceId if available, otherwise local state
     const effectiveSelectedId = instanceId || localSelectedId;
@@ -64,7 +67,7 @@ export const ModsManager: React.FC<ModsManagerProps> = ({ hideHeader, instanceId
         );
     }
 
-    const filtered = instances.filter(i => i.name.toLowerCase().includes(search.toLowerCase()));
+    const filtered = filterByGroup(instances).filter(i => i.name.toLowerCase().includes(search.toLowerCase()));
 
     const getLoaderClass = (loader: string) => {
         return styles[`loader${loader.charAt(0).toUpperCase() + loader.slice(1).toLowerCase()}`] || styles.loaderVanilla;
@@ -80,6 +83,8 @@ export const ModsManager: React.FC<ModsManagerProps> = ({ hideHeader, instanceId
                     />
                 )}
 
+                <InstanceGroupFilter instances={instances} />
+
                 <div className={styles.searchWrapper}>
                     <Search size={18} className={styles.searchIcon} />
                     <input
@@ -5,6 +5,8 @@ import { Search, Cuboid, ChevronRight, Package, Box } from 'lucide-react';
 import { PageHeader } from '../components/PageHeader';
 import { InstanceResourcePacks } from './';
 import { Skeleton } from '../components/Skeleton';
+import { InstanceGroupFilter } from '../components/InstanceGroupFilter';
+import { useInstanceGroups } from '../context/InstanceGroupContext';
 
 interface ResourcePacksManagerProps {
     user?: any;
@@ -17,6 +19,7 @@ export const ResourcePacksManager: React.FC<ResourcePacksManagerProps> = ({ hide
     const [localSelectedId, setLocalSelectedId] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
     const [search, setSearch] = useState('');
+    const { filterByGroup } = useInstanceGroups();
 
     const effectiveSelectedId = instanceId || localSelectedId;
 
@@ -54,7 +57,7 @@ export const ResourcePacksManager: React.FC<ResourcePacksManagerProps> = ({ hide
         );
     }
 
-    const filtered = instances.filter(i => i.name.toLowerCase().includes(search.toLowerCase()));
+    const filtered = filterByGroup(instances).filter(i => i.name.toLowerCase().includes(search.toLowerCase()));
 
     const getLoaderClass = (loader: string) => {
         return styles[`loader${(loader || 'Vanilla').charAt(0).toUpperCase() + (loader || 'Vanilla').slice(1).toLowerCase()}`] || styles.loaderVanilla;
@@ -70,6 +73,8 @@ export const ResourcePacksManager: React.FC<ResourcePacksManagerProps> = ({ hide
                     />
                 )}
 
+                <InstanceGroupFilter instances={instances} />
+
                 <div className={styles.searchWrapper}>
                     <Search size={18} className={styles.searchIcon} />
                     <input
@@ -19,7 +19,8 @@ import {
     CheckCircle,
     Box,
     Globe,
-    Sparkles
+    Sparkles,
+    History
 } from 'lucide-react';
 import { VersionScannerModal } from '../components/VersionScannerModal';
 import { AccountManager } from '../utils/AccountManager';
@@ -27,6 +28,9 @@ import { CloudManager } from '../utils/CloudManager';
 import { useToast } from '../context/ToastContext';
 import { useAnimation } from '../context/AnimationContext';
 import { ProcessingModal } from '../components/ProcessingModal';
+import { CustomSelect } from '../components/common/CustomSelect';
+import { JavaApi, JavaInstallation } from '../api/java';
+import { InstanceApi, InstanceJavaStatus } from '../api/instances';
 
 interface ProxyConfig {
     enabled: boolean;
@@ -49,13 +53,41 @@ interface Config {
     javaPaths: JavaPaths;
     launchBehavior: 'hide' | 'minimize' | 'keep';
     showConsoleOnLaunch: boolean;
+    offlineMode: boolean;
     jvmPreset: 'potato' | 'standard' | 'pro' | 'extreme' | 'custom';
     jvmArgs: string[];
     proxy: ProxyConfig;
+    maxConcurrentDownloads: number;
+    downloadSpeedLimit: number; // KB/s, 0 = unlimited
+    mirrors: MirrorRule[];
+    preferMirrors: boolean;
+    autoSnapshots: boolean;
+    snapshotKeepCount: number;
+    snapshotMaxAgeDays: number; // 0 = no age limit
+    trashRetentionDays: number;
 }
 
+interface MirrorRule {
+    prefix: string;
+    mirrors: string[];
+}
+
+// One rule per line: "<official prefix> -> <mirror> [<mirror>...]"
+const formatMirrors = (rules: MirrorRule[]) =>
+    rules.map(r => `${r.prefix} -> ${r.mirrors.join(' ')}`).join('\n');
+
+const parseMirrors = (text: string): MirrorRule[] =>
+    text.split('\n')
+        .map(line => line.split('->'))
+        .filter(parts => parts.length === 2 && parts[0].trim())
+        .map(([prefix, mirrors]) => ({ prefix: prefix.trim(), mirrors: mirrors.trim().split(/\s+/).filter(Boolean) }))
+        .filter(r => r.mirrors.length > 0);
+
 const JAVA_VERSIONS = ['8', '11', '16', '17', '21'];
 
+// A 32-bit JVM cannot reserve much more than this
+const MAX_32BIT_RAM = 1536;
+
 export const Settings = () => {
     const [config, setConfig] = useState<Config | null>(null);
     const [loading, setLoading] = useState(true);
@@ -70,6 +102,14 @@ export const Settings = () => {
     const [updateInfo, setUpdateInfo] = useState<{ version?: string; error?: string } | null>(null);
     const [processing, setProcessing] = useState<{ message: string; subMessage?: string; progress?: number } | null>(null);
 
+    // Java discovery
+    const [javaInstalls, setJavaInstalls] = useState<JavaInstallation[]>([]);
+    const [javaScanning, setJavaScanning] = useState(false);
+    const [javaStatus, setJavaStatus] = useState<InstanceJavaStatus[]>([]);
+
+    // Mirror table is edited as text and saved on blur
+    const [mirrorText, setMirrorText] = useState('');
+
     useEffect(() => {
         const handleProgress = (_: any, data: any) => {
             setProcessing(prev => prev ? { ...prev, subMessage: data.status, progress: data.progress } : null);
@@ -99,6 +139,7 @@ export const Settings = () => {
                     }
                 }
                 setConfig(cfg);
+                setMirrorText(formatMirrors(cfg.mirrors || []));
             } catch (error) {
                 console.error("Failed to load config", error);
             } finally {
@@ -106,6 +147,7 @@ export const Settings = () => {
             }
         };
         loadConfig();
+        InstanceApi.getJavaStatus().then(setJavaStatus).catch(e => console.error("Failed to load instance Java status", e));
     }, []);
 
     const updateConfig = async (key: keyof Config, value: any) => {
@@ -200,9 +242,54 @@ export const Settings = () => {
         if (result.success && config) {
             const newPaths = { ...(config.javaPaths || {}), [version]: result.path };
             setConfig({ ...config, javaPaths: newPaths });
+        } else if (result.error) {
+            showToast(result.error, 'error');
         }
     };
 
+    const saveMirrors = (rules: MirrorRule[]) => {
+        setMirrorText(formatMirrors(rules));
+        updateConfig('mirrors', rules);
+    };
+
+    const handleUseBmclapi = async () => {
+        const presets = await window.ipcRenderer.invoke('config:mirror-presets');
+        saveMirrors(presets.bmclapi);
+    };
+
+    const handleScanJava = async () => {
+        setJavaScanning(true);
+        try {
+            const result = await JavaApi.scan();
+            if (result.success) {
+                setJavaInstalls(result.installations);
+                showToast(`Found ${result.installations.length} Java installation${result.installations.length === 1 ? '' : 's'}`, 'success');
+            } else {
+                showToast(result.error || 'Java scan failed', 'error');
+            }
+        } finally {
+            setJavaScanning(false);
+        }
+    };
+
+    const handleBindJava = async (instanceId: string, javaPath: string) => {
+        const result = await InstanceApi.setJava(instanceId, javaPath === 'auto' ? null : javaPath);
+        if (result.success) {
+            setJavaStatus(prev => prev.map(s => s.instanceId === instanceId ? { ...s, javaPath: javaPath === 'auto' ? null : javaPath } : s));
+        } else {
+            showToast(result.error || 'Failed to bind Java', 'error');
+        }
+    };
+
+    const getJavaMismatch = (status: InstanceJavaStatus): string | null => {
+        if (!status.javaPath || !config) return null;
+        const install = javaInstalls.find(j => j.path === status.javaPath);
+        if (!install) return null;
+        if (install.major !== status.requiredJava) return `Needs Java ${status.requiredJava}, bound to Java ${install.major}`;
+        if (!install.is64Bit && config.maxRam > MAX_32BIT_RAM) return `32-bit Java cannot use ${config.maxRam} MB of RAM`;
+        return null;
+    };
+
     const handleResetJava = async (version: string) => {
         await window.ipcRenderer.invoke('config:reset-java', version);
         if (config) {
@@ -398,6 +485,58 @@ export const Settings = () => {
                             </div>
                         </div>
                     ))}
+
+                    <div className={styles.settingRow}>
+                        <div className={styles.labelCol}>
+                            <span className={styles.label}>Detected Installations</span>
+                            <span className={styles.hint}>Java found in PATH, JAVA_HOME, common install folders and launcher runtimes.</span>
+                        </div>
+                        <div className={styles.controlCol}>
+                            <button className={styles.btn} onClick={handleScanJava} disabled={javaScanning}>
+                                <FolderSearch size={16} /> {javaScanning ? 'Scanning...' : 'Scan'}
+                            </button>
+                        </div>
+                    </div>
+                    {javaInstalls.length > 0 && (
+                        <div className={styles.javaList}>
+                            {javaInstalls.map(install => (
+                                <div key={install.path} className={styles.javaItem}>
+                                    <span className={styles.javaVersion}>Java {install.major}</span>
+                                    <span className={styles.javaMeta}>{install.version} · {install.vendor || 'Unknown vendor'} · {install.arch}{!install.is64Bit && ' (32-bit)'}</span>
+                                    <span className={styles.javaPath} title={install.path}>{install.path}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {javaStatus.map(status => {
+                        const mismatch = getJavaMismatch(status);
+                        const options = [
+                            { value: 'auto', label: `Auto (Java ${status.requiredJava})` },
+                            ...javaInstalls.map(j => ({ value: j.path, label: `Java ${j.major} · ${j.vendor || j.path}` }))
+                        ];
+                        if (status.javaPath && !javaInstalls.some(j => j.path === status.javaPath)) {
+                            options.push({ value: status.javaPath, label: status.javaPath });
+                        }
+
+                        return (
+                            <div key={status.instanceId} className={styles.settingRow}>
+                                <div className={styles.labelCol}>
+                                    <span className={styles.label}>{status.name}</span>
+                                    <span className={styles.hint}>{status.versionId} · requires Java {status.requiredJava}</span>
+                                    {mismatch && <span className={styles.javaMismatch}><AlertTriangle size={12} /> {mismatch}</span>}
+                                </div>
+                                <div className={styles.javaSelect}>
+                                    <CustomSelect
+                                        value={status.javaPath || 'auto'}
+                                        options={options}
+                                        onChange={(v) => handleBindJava(status.instanceId, v)}
+                                        searchable={false}
+                                    />
+                                </div>
+                            </div>
+                        );
+                    })}
                 </section>
 
                 {/* Launch Behavior Section */}
@@ -432,6 +571,156 @@ export const Settings = () => {
                             <span className={styles.toggleSlider}></span>
                         </label>
                     </div>
+                    <div className={styles.settingRow}>
+                        <div className={styles.labelCol}>
+                            <span className={styles.label}>Offline Mode</span>
+                            <span className={styles.hint}>Never download anything; launch from installed files and cached metadata only.</span>
+                        </div>
+                        <label className={styles.toggle}>
+                            <input type="checkbox" checked={config.offlineMode} onChange={(e) => updateConfig('offlineMode', e.target.checked)} />
+                            <span className={styles.toggleSlider}></span>
+                        </label>
+                    </div>
+                </section>
+
+                {/* Downloads Section */}
+                <section className={styles.section}>
+                    <h3><Download size={18} /> Downloads</h3>
+                    <div className={styles.settingRow}>
+                        <div className={styles.labelCol}>
+                            <span className={styles.label}>Parallel Downloads</span>
+                            <span className={styles.hint}>Files downloaded at once across the whole launcher.</span>
+                        </div>
+                        <div className={styles.sliderCol}>
+                            <span className={styles.rangeValue}>{config.maxConcurrentDownloads}</span>
+                            <input
+                                type="range"
+                                min="1"
+                                max="16"
+                                step="1"
+                                value={config.maxConcurrentDownloads}
+                                onChange={(e) => updateConfig('maxConcurrentDownloads', parseInt(e.target.value))}
+                                className={styles.slider}
+                            />
+                        </div>
+                    </div>
+                    <div className={styles.settingRow}>
+                        <div className={styles.labelCol}>
+                            <span className={styles.label}>Bandwidth Limit</span>
+                            <span className={styles.hint}>Caps total download speed. Set to 0 for unlimited.</span>
+                        </div>
+                        <div className={styles.sliderCol}>
+                            <span className={styles.rangeValue}>
+                                {config.downloadSpeedLimit > 0 ? `${(config.downloadSpeedLimit / 1024).toFixed(1)} MB/s` : 'Unlimited'}
+                            </span>
+                            <input
+                                type="range"
+                                min="0"
+                                max="51200"
+                                step="512"
+                                value={config.downloadSpeedLimit}
+                                onChange={(e) => updateConfig('downloadSpeedLimit', parseInt(e.target.value))}
+                                className={styles.slider}
+                            />
+                        </div>
+                    </div>
+                    <div className={styles.settingRow}>
+                        <div className={styles.labelCol}>
+                            <span className={styles.label}>Prefer Mirrors</span>
+                            <span className={styles.hint}>Try mirrors before the official servers instead of only as a fallback.</span>
+                        </div>
+                        <label className={styles.toggle}>
+                            <input type="checkbox" checked={config.preferMirrors} onChange={(e) => updateConfig('preferMirrors', e.target.checked)} />
+                            <span className={styles.toggleSlider}></span>
+                        </label>
+                    </div>
+                    <div className={styles.customArgsRow}>
+                        <div className={styles.settingRow}>
+                            <div className={styles.labelCol}>
+                                <span className={styles.label}>Download Mirrors</span>
+                                <span className={styles.hint}>One rule per line: official URL prefix, then "-&gt;", then mirror prefixes in the order to try.</span>
+                            </div>
+                            <button className={styles.btn} onClick={handleUseBmclapi}><Globe size={16} /> Use BMCLAPI</button>
+                        </div>
+                        <textarea
+                            className={styles.argsArea}
+                            placeholder="https://libraries.minecraft.net/ -> https://mirror.example.com/maven/"
+                            value={mirrorText}
+                            onChange={(e) => setMirrorText(e.target.value)}
+                            onBlur={() => saveMirrors(parseMirrors(mirrorText))}
+                        />
+                    </div>
+                </section>
+
+                {/* Snapshots Section */}
+                <section className={styles.section}>
+                    <h3><History size={18} /> Instance Snapshots</h3>
+                    <div className={styles.settingRow}>
+                        <div className={styles.labelCol}>
+                            <span className={styles.label}>Automatic Snapshots</span>
+                            <span className={styles.hint}>Back up mods, config and saves before installing or deleting mods and changing loaders.</span>
+                        </div>
+                        <label className={styles.toggle}>
+                            <input type="checkbox" checked={config.autoSnapshots} onChange={(e) => updateConfig('autoSnapshots', e.target.checked)} />
+                            <span className={styles.toggleSlider}></span>
+                        </label>
+                    </div>
+                    <div className={styles.settingRow}>
+                        <div className={styles.labelCol}>
+                            <span className={styles.label}>Snapshots to Keep</span>
+                            <span className={styles.hint}>Automatic snapshots kept per instance. Manual ones are never removed.</span>
+                        </div>
+                        <div className={styles.sliderCol}>
+                            <span className={styles.rangeValue}>{config.snapshotKeepCount}</span>
+                            <input
+                                type="range"
+                                min="1"
+                                max="50"
+                                step="1"
+                                value={config.snapshotKeepCount}
+                                onChange={(e) => updateConfig('snapshotKeepCount', parseInt(e.target.value))}
+                                className={styles.slider}
+                            />
+                        </div>
+                    </div>
+                    <div className={styles.settingRow}>
+                        <div className={styles.labelCol}>
+                            <span className={styles.label}>Maximum Age</span>
+                            <span className={styles.hint}>Automatic snapshots older than this are removed. Set to 0 to keep them regardless of age.</span>
+                        </div>
+                        <div className={styles.sliderCol}>
+                            <span className={styles.rangeValue}>
+                                {config.snapshotMaxAgeDays > 0 ? `${config.snapshotMaxAgeDays} days` : 'Forever'}
+                            </span>
+                            <input
+                                type="range"
+                                min="0"
+                                max="365"
+                                step="1"
+                                value={config.snapshotMaxAgeDays}
+                                onChange={(e) => updateConfig('snapshotMaxAgeDays', parseInt(e.target.value))}
+                                className={styles.slider}
+                            />
+                        </div>
+                    </div>
+                    <div className={styles.settingRow}>
+                        <div className={styles.labelCol}>
+                            <span className={styles.label}>Keep Deleted Instances</span>
+                            <span className={styles.hint}>Deleted instances stay restorable from Recently Deleted on the Profiles page for this long.</span>
+                        </div>
+                        <div className={styles.sliderCol}>
+                            <span className={styles.rangeValue}>{config.trashRetentionDays} days</span>
+                            <input
+                                type="range"
+                                min="1"
+                                max="90"
+                                step="1"
+                                value={config.trashRetentionDays}
+                                onChange={(e) => updateConfig('trashRetentionDays', parseInt(e.target.value))}
+                                className={styles.slider}
+                            />
+                        </div>
+                    </div>
                 </section>
 
                 {/* UI Preferences Section */}
@@ -5,6 +5,8 @@ import { Search, Cuboid, ChevronRight, Package, Box } from 'lucide-react';
 import { PageHeader } from '../components/PageHeader';
 import { InstanceShaderPacks } from './';
 import { Skeleton } from '../components/Skeleton';
+import { InstanceGroupFilter } from '../components/InstanceGroupFilter';
+import { useInstanceGroups } from '../context/InstanceGroupContext';
 
 interface ShaderPacksManagerProps {
     hideHeader?: boolean;
@@ -16,6 +18,7 @@ export const ShaderPacksManager: React.FC<ShaderPacksManagerProps> = ({ hideHead
     const [localSelectedId, setLocalSelectedId] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
     const [search, setSearch] = useState('');
+    const { filterByGroup } = useInstanceGroups();
 
     const effectiveSelectedId = instanceId || localSelectedId;
 
@@ -53,7 +56,7 @@ export const ShaderPacksManager: React.FC<ShaderPacksManagerProps> = ({ hideHead
         );
     }
 
-    const filtered = instances.filter(i => i.name.toLowerCase().includes(search.toLowerCase()));
+    const filtered = filterByGroup(instances).filter(i => i.name.toLowerCase().includes(search.toLowerCase()));
 
     const getLoaderClass = (loader: string) => {
         return styles[`loader${(loader || 'Vanilla').charAt(0).toUpperCase() + (loader || 'Vanilla').slice(1).toLowerCase()}`] || styles.loaderVanilla;
@@ -69,6 +72,8 @@ export const ShaderPacksManager: React.FC<ShaderPacksManagerProps> = ({ hideHead
                     />
                 )}
 
+                <InstanceGroupFilter instances={instances} />
+
                 <div className={styles.searchWrapper}>
                     <Search size={18} className={styles.searchIcon} />
                     <input
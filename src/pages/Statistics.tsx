@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Activity, Timer, AlertTriangle } from 'lucide-react';
+import { PageHeader } from '../components/PageHeader';
+import { InstanceGroupFilter } from '../components/InstanceGroupFilter';
+import { Skeleton } from '../components/Skeleton';
+import { Instance, InstanceApi, InstanceStats, PlaySession, formatPlaytime } from '../api/instances';
+import { useInstanceGroups } from '../context/InstanceGroupContext';
+import styles from './Statistics.module.css';
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+export const Statistics: React.FC = () => {
+    const [instances, setInstances] = useState<Instance[]>([]);
+    const [stats, setStats] = useState<Record<string, InstanceStats>>({});
+    const [loading, setLoading] = useState(true);
+    const { filterByGroup } = useInstanceGroups();
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const [list, allStats] = await Promise.all([InstanceApi.list(), InstanceApi.getAllStats()]);
+                setInstances(list);
+                setStats(Object.fromEntries(allStats.map(s => [s.instanceId, s])));
+            } catch (e) {
+                console.error("Failed to load statistics", e);
+            } finally {
+                setLoading(false);
+            }
+        };
+        load();
+    }, []);
+
+    const rows = filterByGroup(instances)
+        .map(instance => ({ instance, stats: stats[instance.id] }))
+        .filter((row): row is { instance: Instance; stats: InstanceStats } => !!row.stats && row.stats.sessionCount > 0)
+        .sort((a, b) => b.stats.totalPlaytimeMs - a.stats.totalPlaytimeMs);
+
+    const totalPlaytime = rows.reduce((sum, r) => sum + r.stats.totalPlaytimeMs, 0);
+    const totalSessions = rows.reduce((sum, r) => sum + r.stats.sessionCount, 0);
+    const totalCrashes = rows.reduce((sum, r) => sum + r.stats.crashCount, 0);
+    const maxPlaytime = rows[0]?.stats.totalPlaytimeMs || 1;
+
+    const recentSessions: (PlaySession & { instanceName: string })[] = rows
+        .flatMap(r => r.stats.recentSessions.map(s => ({ ...s, instanceName: r.instance.name })))
+        .sort((a, b) => b.start - a.start)
+        .slice(0, 10);
+
+    const summary = [
+        { icon: Clock, label: 'Total Playtime', value: formatPlaytime(totalPlaytime) },
+        { icon: Activity, label: 'Sessions', value: totalSessions.toString() },
+        { icon: Timer, label: 'Average Session', value: formatPlaytime(totalSessions ? totalPlaytime / totalSessions : 0) },
+        { icon: AlertTriangle, label: 'Crash Rate', value: formatPercent(totalSessions ? totalCrashes / totalSessions : 0) }
+    ];
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.header}>
+                <PageHeader title="Statistics" description="Playtime and stability across your profiles." />
+                <InstanceGroupFilter instances={instances} />
+            </div>
+
+            <div className={styles.summaryGrid}>
+                {summary.map(({ icon: Icon, label, value }) => (
+                    <div key={label} className={styles.summaryCard}>
+                        <Icon size={18} className={styles.summaryIcon} />
+                        <div className={styles.summaryValue}>{loading ? <Skeleton width={60} height={22} /> : value}</div>
+                        <div className={styles.summaryLabel}>{label}</div>
+                    </div>
+                ))}
+            </div>
+
+            <div className={styles.section}>
+                <div className={styles.sectionTitle}>By Profile</div>
+                {!loading && rows.length === 0 && (
+                    <div className={styles.empty}>No sessions recorded yet. Play a profile and it will show up here.</div>
+                )}
+                {rows.map(({ instance, stats }) => (
+                    <div key={instance.id} className={styles.row}>
+                        <div className={styles.rowName}>
+                            <span>{instance.name}</span>
+                            <span className={styles.rowMeta}>{instance.loader} {instance.version}</span>
+                        </div>
+                        <div className={styles.bar}>
+                            <div className={styles.barFill} style={{ width: `${(stats.totalPlaytimeMs / maxPlaytime) * 100}%` }} />
+                        </div>
+                        <div className={styles.rowStat} title="Total playtime">{formatPlaytime(stats.totalPlaytimeMs)}</div>
+                        <div className={styles.rowStat} title="Sessions">{stats.sessionCount}×</div>
+                        <div className={styles.rowStat} title="Average session">⌀ {formatPlaytime(stats.averageSessionMs)}</div>
+                        <div className={`${styles.rowStat} ${stats.crashRate > 0.2 ? styles.bad : ''}`} title={`${stats.crashCount} crashes`}>
+                            {formatPercent(stats.crashRate)} crashes
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {recentSessions.length > 0 && (
+                <div className={styles.section}>
+                    <div className={styles.sectionTitle}>Recent Sessions</div>
+                    {recentSessions.map(session => (
+                        <div key={`${session.instanceName}-${session.start}`} className={styles.session}>
+                            <span className={`${styles.sessionDot} ${session.crashed ? styles.bad : ''}`} />
+                            <span className={styles.sessionName}>{session.instanceName}</span>
+                            <span className={styles.rowMeta}>{new Date(session.start).toLocaleString()}</span>
+                            <span className={styles.rowStat}>{formatPlaytime(session.durationMs)}</span>
+                            <span className={`${styles.rowStat} ${session.crashed ? styles.bad : ''}`}>
+                                {session.crashed ? `Crashed (${session.exitCode ?? 'killed'})` : 'Exited normally'}
+                            </span>
+                            <span className={styles.rowMeta}>{session.maxRam} MB</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -13,3 +13,4 @@ export * from './ResourcePacksManager';
 export * from './ShaderPacksManager';
 export * from './InstanceResourcePacks';
 export * from './InstanceShaderPacks';
+export * from './Statistics';
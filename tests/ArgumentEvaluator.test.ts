@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { ArgumentEvaluator, Rule } from '../electron/launcher/ArgumentEvaluator';
+import { loadFixture } from './fixtures';
+
+const linux = ArgumentEvaluator.createContext({}, 'linux', 'x64');
+const windows = { ...ArgumentEvaluator.createContext({}, 'win32', 'x64'), osVersion: '10.0.19045' };
+const mac = ArgumentEvaluator.createContext({}, 'darwin', 'arm64');
+
+const vars = {
+    auth_player_name: 'Steve',
+    version_name: '1.20.1',
+    natives_directory: '/natives',
+    classpath: '/a.jar:/b.jar',
+    launcher_name: 'whoap',
+    launcher_version: '1',
+    resolution_width: '1280',
+    resolution_height: '720'
+};
+
+describe('ArgumentEvaluator.isAllowed', () => {
+    it('allows anything without rules', () => {
+        expect(ArgumentEvaluator.isAllowed(undefined, linux)).toBe(true);
+        expect(ArgumentEvaluator.isAllowed([], linux)).toBe(true);
+    });
+
+    it('disallows when no rule matches', () => {
+        const rules: Rule[] = [{ action: 'allow', os: { name: 'osx' } }];
+        expect(ArgumentEvaluator.isAllowed(rules, linux)).toBe(false);
+        expect(ArgumentEvaluator.isAllowed(rules, mac)).toBe(true);
+    });
+
+    it('lets the last matching rule win', () => {
+        // The classic "everywhere but macOS" library rule
+        const rules: Rule[] = [{ action: 'allow' }, { action: 'disallow', os: { name: 'osx' } }];
+        expect(ArgumentEvaluator.isAllowed(rules, linux)).toBe(true);
+        expect(ArgumentEvaluator.isAllowed(rules, mac)).toBe(false);
+    });
+
+    it('maps Node arch names to Mojang ones', () => {
+        const rules: Rule[] = [{ action: 'allow', os: { arch: 'x86' } }];
+        expect(ArgumentEvaluator.isAllowed(rules, ArgumentEvaluator.createContext({}, 'win32', 'ia32'))).toBe(true);
+        expect(ArgumentEvaluator.isAllowed(rules, windows)).toBe(false);
+    });
+
+    it('matches the OS version as a regex', () => {
+        const rules: Rule[] = [{ action: 'allow', os: { name: 'windows', version: '^10\\.' } }];
+        expect(ArgumentEvaluator.isAllowed(rules, windows)).toBe(true);
+        expect(ArgumentEvaluator.isAllowed(rules, { ...windows, osVersion: '6.1.7601' })).toBe(false);
+    });
+
+    it('treats missing features as false', () => {
+        const rules: Rule[] = [{ action: 'allow', features: { is_demo_user: true } }];
+        expect(ArgumentEvaluator.isAllowed(rules, linux)).toBe(false);
+        expect(ArgumentEvaluator.isAllowed(rules, { ...linux, features: { is_demo_user: true } })).toBe(true);
+    });
+});
+
+describe('ArgumentEvaluator.evaluate', () => {
+    it('substitutes placeholders and leaves unknown ones in place', () => {
+        expect(ArgumentEvaluator.evaluate(['--username', '${auth_player_name}', '${nope}'], linux, vars))
+            .toEqual(['--username', 'Steve', '${nope}']);
+    });
+
+    it('evaluates the 1.20.1 JVM arguments per platform', async () => {
+        const version = await loadFixture('1.20.1');
+        const onLinux = ArgumentEvaluator.jvmArguments(version, linux, vars);
+        expect(onLinux).toEqual([
+            '-Djava.library.path=/natives',
+            '-Dminecraft.launcher.brand=whoap',
+            '-Dminecraft.launcher.version=1',
+            '-cp',
+            '/a.jar:/b.jar'
+        ]);
+        expect(ArgumentEvaluator.jvmArguments(version, mac, vars)[0]).toBe('-XstartOnFirstThread');
+        expect(ArgumentEvaluator.jvmArguments(version, windows, vars)[0]).toMatch(/^-XX:HeapDumpPath=/);
+    });
+
+    it('only adds the resolution with has_custom_resolution', async () => {
+        const version = await loadFixture('1.20.1');
+        expect(ArgumentEvaluator.gameArguments(version, linux, vars)).not.toContain('--width');
+
+        const sized = { ...linux, features: { has_custom_resolution: true } };
+        const args = ArgumentEvaluator.gameArguments(version, sized, vars);
+        expect(args.slice(-4)).toEqual(['--width', '1280', '--height', '720']);
+    });
+});
+
+describe('legacy versions', () => {
+    it('splits minecraftArguments', async () => {
+        const version = await loadFixture('1.12.2');
+        const args = ArgumentEvaluator.gameArguments(version, linux, vars);
+        expect(args.slice(0, 4)).toEqual(['--username', 'Steve', '--version', '1.20.1']);
+    });
+
+    it('implies the natives path and classpath', async () => {
+        const version = await loadFixture('1.12.2');
+        const args = ArgumentEvaluator.jvmArguments(version, linux, vars);
+        expect(args).toContain('-Djava.library.path=/natives');
+        expect(args.slice(-2)).toEqual(['-cp', '/a.jar:/b.jar']);
+    });
+});
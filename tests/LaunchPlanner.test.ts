@@ -0,0 +1,135 @@
+import path from 'path';
+import os from 'os';
+import fs from 'fs';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { LaunchPlanInput, LaunchPlanner } from '../electron/launcher/LaunchPlanner';
+import { fixtureSource, loadFixture } from './fixtures';
+
+let root: string;
+let gamePath: string;
+let instancesRoot: string;
+
+beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'whoap-planner-'));
+    gamePath = path.join(root, 'minecraft');
+    instancesRoot = path.join(root, 'instances');
+    fs.mkdirSync(gamePath, { recursive: true });
+    fs.mkdirSync(instancesRoot, { recursive: true });
+});
+
+afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+const input = (versionId: string, extra: Partial<LaunchPlanInput> = {}): LaunchPlanInput => ({
+    instanceId: 'test',
+    versionId,
+    auth: { name: 'Steve', uuid: '00000000-0000-0000-0000-000000000000' },
+    gamePath,
+    instancesRoot,
+    settings: {
+        minRam: 1024,
+        maxRam: 4096,
+        jvmPreset: 'custom',
+        jvmArgs: [],
+        proxy: { enabled: false, host: '', port: 0, type: 'http' }
+    },
+    platform: 'linux',
+    arch: 'x64',
+    ...extra
+});
+
+describe('LaunchPlanner.resolveInheritance', () => {
+    it('merges a Fabric profile over vanilla', async () => {
+        const merged = await LaunchPlanner.resolveInheritance(await loadFixture('fabric-loader-0.15.11-1.20.1'), gamePath, fixtureSource);
+
+        expect(merged.mainClass).toBe('net.fabricmc.loader.impl.launch.knot.KnotClient');
+        expect(merged.assetIndex.id).toBe('5');
+        // Parent arguments first, then the child's
+        expect(merged.arguments.jvm.at(-1)).toBe('-DFabricMcEmu= net.minecraft.client.main.Main ');
+        expect(merged.arguments.jvm).toContain('${classpath}');
+        expect(merged.arguments.game).toContain('--username');
+    });
+
+    it('keeps the newest copy of a library', async () => {
+        const merged = await LaunchPlanner.resolveInheritance(await loadFixture('fabric-loader-0.15.11-1.20.1'), gamePath, fixtureSource);
+        const asm = merged.libraries.filter((lib: any) => lib.name.startsWith('org.ow2.asm:asm:'));
+        expect(asm.map((lib: any) => lib.name)).toEqual(['org.ow2.asm:asm:9.6']);
+        // Classifiers are separate artifacts
+        expect(merged.libraries.some((lib: any) => lib.name === 'org.lwjgl:lwjgl:3.3.1:natives-linux')).toBe(true);
+    });
+
+    it('leaves legacy Forge on minecraftArguments', async () => {
+        const merged = await LaunchPlanner.resolveInheritance(await loadFixture('1.12.2-forge-14.23.5.2860'), gamePath, fixtureSource);
+        expect(merged.arguments).toBeUndefined();
+        expect(merged.minecraftArguments).toContain('--tweakClass net.minecraftforge.fml.common.launcher.FMLTweaker');
+    });
+
+    it('keeps legacy defaults when a child adds JVM arguments to a legacy parent', async () => {
+        const merged = await LaunchPlanner.resolveInheritance(await loadFixture('1.12.2-jvmflags'), gamePath, fixtureSource);
+        expect(merged.arguments.jvm).toContain('${classpath}');
+        expect(merged.arguments.jvm).toContain('-Djava.library.path=${natives_directory}');
+        expect(merged.arguments.jvm.at(-1)).toBe('-Dfml.ignoreInvalidMinecraftCertificates=true');
+        expect(merged.arguments.game.slice(0, 2)).toEqual(['--username', '${auth_player_name}']);
+    });
+
+    it('fails when the parent cannot be found', async () => {
+        await expect(LaunchPlanner.resolveInheritance({ id: 'orphan', inheritsFrom: 'missing' }, gamePath, fixtureSource))
+            .rejects.toThrow(/missing/);
+    });
+});
+
+describe('LaunchPlanner.create', () => {
+    it('plans a Fabric launch', async () => {
+        const plan = await LaunchPlanner.create(input('fabric-loader-0.15.11-1.20.1'), fixtureSource);
+
+        expect(plan.javaVersion).toBe('17');
+        expect(plan.javaComponent).toBe('java-runtime-gamma');
+        expect(plan.mainClass).toBe('net.fabricmc.loader.impl.launch.knot.KnotClient');
+        // Linux natives only, client jar last
+        expect(plan.classpath.some(p => p.endsWith('lwjgl-3.3.1-natives-linux.jar'))).toBe(true);
+        expect(plan.classpath.some(p => p.endsWith('lwjgl-3.3.1-natives-windows.jar'))).toBe(false);
+        expect(plan.classpath.at(-1)).toBe(plan.clientJarPath);
+        expect(plan.classpath.some(p => p.endsWith(path.join('fabric-loader', '0.15.11', 'fabric-loader-0.15.11.jar')))).toBe(true);
+
+        const cp = plan.argv.indexOf('-cp');
+        expect(plan.argv[cp + 1]).toBe(plan.classpath.join(path.delimiter));
+        expect(plan.argv.slice(0, 3)).toEqual(['java', '-Xms1024M', '-Xmx4096M']);
+        expect(plan.argv).toContain(plan.mainClass);
+    });
+
+    it('queues everything missing', async () => {
+        const plan = await LaunchPlanner.create(input('1.20.1'), fixtureSource);
+        const urls = plan.downloads.map(d => d.url);
+        expect(urls).toContain('https://piston-meta.mojang.com/v1/packages/2dd0d4ff2c85a69f39d0e7ed1f3d5a8bd2fb3a1b/5.json');
+        expect(urls.some(url => url.endsWith('/client.jar'))).toBe(true);
+        expect(urls.some(url => url.endsWith('lwjgl-3.3.1-natives-linux.jar'))).toBe(true);
+    });
+
+    it('plans a legacy launch with natives jars and a classpath', async () => {
+        const plan = await LaunchPlanner.create(input('1.12.2', { resolution: { width: 1280, height: 720 } }), fixtureSource);
+
+        expect(plan.javaVersion).toBe('8');
+        expect(plan.nativeJars).toHaveLength(1);
+        expect(plan.nativeJars[0].path).toMatch(/natives-linux\.jar$/);
+        expect(plan.nativeJars[0].exclude).toEqual(['META-INF/']);
+        expect(plan.jvmArgs).toContain('-cp');
+        expect(plan.gameArgs.slice(-4)).toEqual(['--width', '1280', '--height', '720']);
+    });
+
+    it('keeps the classpath when a child adds JVM arguments to a legacy parent', async () => {
+        const plan = await LaunchPlanner.create(input('1.12.2-jvmflags', { resolution: { width: 1280, height: 720 } }), fixtureSource);
+
+        expect(plan.jvmArgs).toContain('-cp');
+        expect(plan.jvmArgs).toContain(`-Djava.library.path=${plan.nativesDir}`);
+        expect(plan.jvmArgs).toContain('-Dfml.ignoreInvalidMinecraftCertificates=true');
+        expect(plan.gameArgs).toContain('--versionType');
+        expect(plan.gameArgs.slice(-4)).toEqual(['--width', '1280', '--height', '720']);
+    });
+
+    it('runs the game through the wrapper command', async () => {
+        const plan = await LaunchPlanner.create(input('1.20.1', { wrapperCommand: 'prime-run "my tool"' }), fixtureSource);
+        const bound = LaunchPlanner.withJava(plan, '/usr/bin/java');
+        expect(bound.argv.slice(0, 3)).toEqual(['prime-run', 'my tool', '/usr/bin/java']);
+    });
+});
@@ -0,0 +1,97 @@
+import http from 'http';
+import net, { AddressInfo } from 'net';
+import axios from 'axios';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MirrorRule } from '../electron/managers/ConfigManager';
+import { MirrorUtils } from '../electron/utils/MirrorUtils';
+
+const settings = vi.hoisted(() => ({ rules: [] as MirrorRule[], preferMirrors: false }));
+
+// ConfigManager needs Electron's app paths; the mirror settings are all MirrorUtils reads
+vi.mock('../electron/managers/ConfigManager', () => ({
+    ConfigManager: {
+        getMirrors: () => settings.rules,
+        getPreferMirrors: () => settings.preferMirrors
+    }
+}));
+
+describe('MirrorUtils.resolve', () => {
+    const rules: MirrorRule[] = [
+        { prefix: 'https://libraries.minecraft.net/', mirrors: ['https://mirror-a/maven/', ''] },
+        { prefix: 'https://libraries.minecraft.net/org/lwjgl/', mirrors: ['https://mirror-b/lwjgl/'] }
+    ];
+
+    it('leaves unmatched URLs alone', () => {
+        expect(MirrorUtils.resolve('https://example.com/a.jar', rules, false)).toEqual(['https://example.com/a.jar']);
+    });
+
+    it('uses the longest matching prefix', () => {
+        expect(MirrorUtils.resolve('https://libraries.minecraft.net/org/lwjgl/lwjgl.jar', rules, false))
+            .toEqual(['https://libraries.minecraft.net/org/lwjgl/lwjgl.jar', 'https://mirror-b/lwjgl/lwjgl.jar']);
+    });
+
+    it('puts mirrors first when preferred', () => {
+        expect(MirrorUtils.resolve('https://libraries.minecraft.net/com/a.jar', rules, true))
+            .toEqual(['https://mirror-a/maven/com/a.jar', 'https://libraries.minecraft.net/com/a.jar']);
+    });
+});
+
+describe('MirrorUtils.tryEach', () => {
+    let mirror: http.Server;
+    let mirrorUrl: string;
+    let deadUrl: string;
+    const hits: string[] = [];
+
+    beforeAll(async () => {
+        mirror = http.createServer((req, res) => {
+            hits.push(req.url!);
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ served: req.url }));
+        });
+        await new Promise<void>(resolve => mirror.listen(0, '127.0.0.1', resolve));
+        mirrorUrl = `http://127.0.0.1:${(mirror.address() as AddressInfo).port}/`;
+
+        // A port that was free a moment ago stands in for the unreachable official host
+        const probe = net.createServer();
+        await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+        deadUrl = `http://127.0.0.1:${(probe.address() as AddressInfo).port}/`;
+        await new Promise(resolve => probe.close(resolve));
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => mirror.close(resolve));
+    });
+
+    beforeEach(() => {
+        hits.length = 0;
+        settings.preferMirrors = false;
+        settings.rules = [{ prefix: deadUrl, mirrors: [mirrorUrl] }];
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('falls back to the mirror when the official host is down', async () => {
+        const response = await MirrorUtils.tryEach(`${deadUrl}v1/manifest.json`, candidate => axios.get(candidate, { timeout: 5000 }));
+        expect(response.data).toEqual({ served: '/v1/manifest.json' });
+        expect(hits).toEqual(['/v1/manifest.json']);
+    });
+
+    it('asks the mirror first when mirrors are preferred', async () => {
+        settings.preferMirrors = true;
+        const tried: string[] = [];
+        await MirrorUtils.tryEach(`${deadUrl}a.json`, candidate => {
+            tried.push(candidate);
+            return axios.get(candidate, { timeout: 5000 });
+        });
+        expect(tried).toEqual([`${mirrorUrl}a.json`]);
+    });
+
+    it('rethrows the last error when every source fails', async () => {
+        settings.rules = [{ prefix: deadUrl, mirrors: [`${deadUrl}mirror/`] }];
+        const tried: string[] = [];
+        await expect(MirrorUtils.tryEach(`${deadUrl}a.json`, async candidate => {
+            tried.push(candidate);
+            throw new Error(`failed ${candidate}`);
+        })).rejects.toThrow(`failed ${deadUrl}mirror/a.json`);
+        expect(tried).toHaveLength(2);
+    });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from 'vitest';
+import { InstalledModInfo, ModChecker } from '../electron/launcher/ModChecker';
+import { ModMetadata } from '../electron/utils/ModMetadata';
+
+// The cache pulls in Electron; check() only needs the metadata handed to it
+vi.mock('../electron/managers/ModMetadataCache', () => ({ ModMetadataCache: {} }));
+
+const mod = (file: string, metadata: Partial<ModMetadata> & { id: string }): InstalledModInfo => ({
+    file,
+    sha1: file,
+    metadata: {
+        name: metadata.id,
+        version: '1.0.0',
+        authors: [],
+        loaders: ['fabric'],
+        dependencies: [],
+        provides: [],
+        ...metadata
+    }
+});
+
+const fabric = { gameVersion: '1.20.1', loader: 'fabric' };
+
+describe('ModChecker.check', () => {
+    it('finds nothing wrong with a consistent folder', () => {
+        const mods = [
+            mod('api.jar', { id: 'api', version: '2.1.0' }),
+            mod('a.jar', { id: 'a', minecraftVersion: '~1.20', dependencies: [{ id: 'api', kind: 'required', versionRange: '>=2.0.0' }] })
+        ];
+        expect(ModChecker.check(mods, fabric)).toEqual([]);
+    });
+
+    it('skips everything on vanilla', () => {
+        expect(ModChecker.check([mod('a.jar', { id: 'a', loaders: ['forge'] })], { gameVersion: '1.20.1', loader: 'vanilla' })).toEqual([]);
+    });
+
+    it('reports the older copy of a duplicate', () => {
+        const issues = ModChecker.check([
+            mod('a-old.jar', { id: 'a', version: '1.0.0' }),
+            mod('a-new.jar', { id: 'a', version: '1.2.0' })
+        ], fabric);
+
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toMatchObject({ kind: 'duplicate', file: 'a-old.jar', otherFiles: ['a-new.jar'], fix: { action: 'disable', file: 'a-old.jar' } });
+    });
+
+    it('reports missing and mismatched dependencies', () => {
+        const issues = ModChecker.check([
+            mod('beta.jar', { id: 'beta', version: '1.5.0' }),
+            mod('a.jar', {
+                id: 'a',
+                dependencies: [
+                    { id: 'beta', kind: 'required', versionRange: '>=2.0.0' },
+                    { id: 'gamma', kind: 'required' },
+                    { id: 'extras', kind: 'optional' },
+                    { id: 'mixinextras', kind: 'required' }
+                ]
+            })
+        ], fabric);
+
+        expect(issues.map(issue => [issue.kind, issue.dependencyId])).toEqual([
+            ['dependency-version', 'beta'],
+            ['missing-dependency', 'gamma']
+        ]);
+    });
+
+    it('counts bundled and aliased mods as installed', () => {
+        const issues = ModChecker.check([
+            mod('api.jar', { id: 'api', provides: [{ id: 'api-core', version: '3.0.0' }] }),
+            mod('a.jar', { id: 'a', dependencies: [{ id: 'api-core', kind: 'required', versionRange: '^3.0.0' }] })
+        ], fabric);
+        expect(issues).toEqual([]);
+    });
+
+    it('counts dependencies bundled in the mod\'s own jar', () => {
+        const issues = ModChecker.check([
+            mod('sodium.jar', {
+                id: 'sodium',
+                provides: [{ id: 'fabric-rendering-data-attachment-v1', version: '0.3.38' }],
+                dependencies: [{ id: 'fabric-rendering-data-attachment-v1', kind: 'required', versionRange: '>=0.3.0' }]
+            })
+        ], fabric);
+        expect(issues).toEqual([]);
+    });
+
+    it('reports incompatible mods as errors and discouraged ones as warnings', () => {
+        const issues = ModChecker.check([
+            mod('delta.jar', { id: 'delta' }),
+            mod('eps.jar', { id: 'eps' }),
+            mod('a.jar', {
+                id: 'a',
+                dependencies: [
+                    { id: 'delta', kind: 'incompatible' },
+                    { id: 'eps', kind: 'discouraged' },
+                    { id: 'zeta', kind: 'incompatible' }
+                ]
+            })
+        ], fabric);
+
+        expect(issues.map(issue => [issue.dependencyId, issue.severity])).toEqual([
+            ['delta', 'error'],
+            ['eps', 'warning']
+        ]);
+        expect(issues[1].message).toContain('advises against');
+    });
+
+    it('checks the Minecraft version in the mod\'s own syntax', () => {
+        const issues = ModChecker.check([
+            mod('old.jar', { id: 'old', minecraftVersion: '1.19.x' }),
+            mod('forge.jar', { id: 'forgemod', loaders: ['forge'], minecraftVersion: '[1.20,1.21)' })
+        ], { gameVersion: '1.20.1', loader: 'neoforge' });
+
+        // neoforge on 1.20.1 runs forge mods; the fabric one can't load at all
+        expect(issues.map(issue => [issue.file, issue.kind])).toEqual([['old.jar', 'wrong-loader']]);
+
+        const onFabric = ModChecker.check([mod('old.jar', { id: 'old', minecraftVersion: '1.19.x' })], fabric);
+        expect(onFabric[0]).toMatchObject({ kind: 'wrong-minecraft', versionRange: '1.19.x' });
+    });
+
+    it('lets quilt run fabric mods but not forge ones', () => {
+        const quilt = { gameVersion: '1.20.1', loader: 'quilt' };
+        expect(ModChecker.check([mod('a.jar', { id: 'a' })], quilt)).toEqual([]);
+        expect(ModChecker.check([mod('f.jar', { id: 'f', loaders: ['forge'] })], quilt)[0].kind).toBe('wrong-loader');
+    });
+
+    it('skips the Minecraft check on snapshots', () => {
+        expect(ModChecker.check([mod('a.jar', { id: 'a', minecraftVersion: '1.20.x' })], { gameVersion: '23w31a', loader: 'fabric' })).toEqual([]);
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { VersionRange } from '../electron/utils/VersionRange';
+
+describe('VersionRange.compare', () => {
+    it('orders numerically, not lexically', () => {
+        expect(VersionRange.compare('1.20.1', '1.9')).toBeGreaterThan(0);
+        expect(VersionRange.compare('1.20', '1.20.0')).toBe(0);
+    });
+
+    it('sorts pre-releases before the release', () => {
+        expect(VersionRange.compare('1.0.0-beta.2', '1.0.0')).toBeLessThan(0);
+        expect(VersionRange.compare('1.0.0-beta.10', '1.0.0-beta.2')).toBeGreaterThan(0);
+    });
+
+    it('reads forge-style suffixes as more parts', () => {
+        expect(VersionRange.compare('1.20.1-47.1.3', '1.20.1-47.0.0')).toBeGreaterThan(0);
+    });
+
+    it('ignores build metadata and returns 0 for unparseable versions', () => {
+        expect(VersionRange.compare('0.15.11+build.1', '0.15.11')).toBe(0);
+        expect(VersionRange.compare('snapshot', '1.0')).toBe(0);
+    });
+});
+
+describe('VersionRange.satisfies (semver)', () => {
+    const cases: [string, string, boolean][] = [
+        ['1.20.1', '>=1.20 <1.21', true],
+        ['1.21', '>=1.20 <1.21', false],
+        ['1.20.4', '1.20.x', true],
+        ['1.21', '1.20.x', false],
+        ['1.20.6', '~1.20', true],
+        ['1.21', '~1.20', false],
+        ['1.99', '^1.20', true],
+        ['2.0', '^1.20', false],
+        ['1.19.2', '1.19.2 || 1.20.1', true],
+        ['1.19.4', '1.19.2 || 1.20.1', false],
+        ['1.20.1', '1.20.1', true],
+        ['1.20.2', '1.20.1', false],
+        ['1.20.1', '*', true]
+    ];
+
+    it.each(cases)('%s against "%s" is %s', (version, range, expected) => {
+        expect(VersionRange.satisfies(version, range, 'semver')).toBe(expected);
+    });
+});
+
+describe('VersionRange.satisfies (maven)', () => {
+    const cases: [string, string, boolean][] = [
+        ['1.20.1', '[1.20,1.21)', true],
+        ['1.21', '[1.20,1.21)', false],
+        ['1.20', '(1.20,1.21)', false],
+        ['1.21', '[1.20,1.21]', true],
+        ['47.1.0', '[47,)', true],
+        ['46.0.1', '[47,)', false],
+        ['1.18.2', '[1.18.2]', true],
+        ['1.19', '[1.18.2]', false],
+        ['1.16.5', '[1.12,1.13),[1.16,1.17)', true],
+        // A bare version is only forge's recommendation
+        ['1.0', '2.0', true]
+    ];
+
+    it.each(cases)('%s against "%s" is %s', (version, range, expected) => {
+        expect(VersionRange.satisfies(version, range, 'maven')).toBe(expected);
+    });
+});
+
+describe('leniency', () => {
+    it('accepts what it cannot read', () => {
+        expect(VersionRange.satisfies('1.20.1', undefined, 'semver')).toBe(true);
+        expect(VersionRange.satisfies('23w31a', '>=1.20', 'semver')).toBe(true);
+        expect(VersionRange.satisfies('1.20.1', '>=${version}', 'semver')).toBe(true);
+    });
+});
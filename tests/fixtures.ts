@@ -0,0 +1,19 @@
+import path from 'path';
+import fs from 'fs';
+import { VersionSource } from '../electron/launcher/LaunchPlanner';
+
+const VERSIONS_DIR = path.join(__dirname, 'fixtures', 'versions');
+
+/**
+ * Serves the version JSONs in fixtures/versions in place of Mojang's manifest.
+ */
+export const fixtureSource: VersionSource = async (versionId) => {
+    const file = path.join(VERSIONS_DIR, `${versionId}.json`);
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : null;
+};
+
+export async function loadFixture(versionId: string): Promise<any> {
+    const data = await fixtureSource(versionId);
+    if (!data) throw new Error(`No fixture for ${versionId}`);
+    return data;
+}